@@ -9,7 +9,10 @@ import {
     Shortcuts,
 } from "../schema-types"
 import { ipcRenderer } from "electron"
-import { AICacheEntry } from "../scripts/models/services/aiCache"
+import { AICacheEntry, AICacheListing } from "../scripts/models/services/aiCache"
+import { AIUsageBucket, AIUsageRecord } from "../scripts/models/services/aiUsage"
+import { AIIndexEntry, AIIndexHit, AIIndexStats } from "../scripts/models/services/aiIndex"
+import { Digest } from "../scripts/models/services/aiDigest"
 
 const settingsBridge = {
     saveGroups: (groups: SourceGroup[]) => {
@@ -33,6 +36,13 @@ const settingsBridge = {
         ipcRenderer.invoke("set-close-to-tray", state)
     },
 
+    getReadDuplicates: (): boolean => {
+        return ipcRenderer.sendSync("get-read-duplicates")
+    },
+    setReadDuplicates: (state: boolean) => {
+        ipcRenderer.invoke("set-read-duplicates", state)
+    },
+
     getProxyStatus: (): boolean => {
         return ipcRenderer.sendSync("get-proxy-status")
     },
@@ -149,17 +159,17 @@ const settingsBridge = {
     },
 
     // AI Cache
-    getAICache: async (itemId: string): Promise<AICacheEntry | null> => {
-        return ipcRenderer.invoke("ai-cache-get", itemId)
+    getAICache: async (key: string): Promise<AICacheEntry | null> => {
+        return ipcRenderer.invoke("ai-cache-get", key)
     },
-    saveAISummary: async (itemId: string, summary: string): Promise<void> => {
-        return ipcRenderer.invoke("ai-cache-save-summary", itemId, summary)
+    saveAICache: async (entry: Omit<AICacheEntry, "createdAt">): Promise<void> => {
+        return ipcRenderer.invoke("ai-cache-save", entry)
     },
-    saveAITranslation: async (itemId: string, translation: string): Promise<void> => {
-        return ipcRenderer.invoke("ai-cache-save-translation", itemId, translation)
+    listAICache: async (limit?: number): Promise<AICacheListing[]> => {
+        return ipcRenderer.invoke("ai-cache-list", limit)
     },
-    saveTitleTranslation: async (itemId: string, titleTranslation: string): Promise<void> => {
-        return ipcRenderer.invoke("ai-cache-save-title-translation", itemId, titleTranslation)
+    deleteAICache: async (key: string): Promise<void> => {
+        return ipcRenderer.invoke("ai-cache-delete", key)
     },
     clearOldAICache: async (daysToKeep: number = 30): Promise<void> => {
         return ipcRenderer.invoke("ai-cache-clear-old", daysToKeep)
@@ -168,6 +178,42 @@ const settingsBridge = {
         return ipcRenderer.invoke("ai-cache-size")
     },
 
+    // AI usage
+    recordAIUsage: (record: AIUsageRecord) => {
+        ipcRenderer.invoke("ai-usage-record", record)
+    },
+    getAIUsage: async (sinceDay?: string): Promise<AIUsageBucket[]> => {
+        return ipcRenderer.invoke("ai-usage-get", sinceDay)
+    },
+
+    // Embedding index
+    addAIIndex: async (model: string, entries: AIIndexEntry[]): Promise<void> => {
+        return ipcRenderer.invoke("ai-index-add", model, entries)
+    },
+    getAIIndexMissing: async (model: string, ids: number[]): Promise<number[]> => {
+        return ipcRenderer.invoke("ai-index-missing", model, ids)
+    },
+    searchAIIndex: async (model: string, query: number[], limit: number): Promise<AIIndexHit[]> => {
+        return ipcRenderer.invoke("ai-index-search", model, query, limit)
+    },
+    getAIIndexStats: async (): Promise<AIIndexStats> => {
+        return ipcRenderer.invoke("ai-index-stats")
+    },
+    clearAIIndex: async (): Promise<void> => {
+        return ipcRenderer.invoke("ai-index-clear")
+    },
+
+    // Digests
+    saveDigest: async (digest: Digest): Promise<void> => {
+        return ipcRenderer.invoke("ai-digest-save", digest)
+    },
+    listDigests: async (): Promise<Digest[]> => {
+        return ipcRenderer.invoke("ai-digest-list")
+    },
+    deleteDigest: async (id: string): Promise<void> => {
+        return ipcRenderer.invoke("ai-digest-delete", id)
+    },
+
     getAll: (): Record<string, unknown> => {
         return ipcRenderer.sendSync("get-all-settings") as Record<string, unknown>
     },
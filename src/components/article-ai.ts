@@ -9,6 +9,25 @@ import { RSSItem } from "../scripts/models/item"
 import { RSSSource } from "../scripts/models/source"
 import { summarizeArticle, translateText, translateTextByParagraph } from "../scripts/models/services/aiClient"
 import type { AiConfig } from "../scripts/models/services/aiClient"
+import type { AICacheEntry } from "../scripts/models/services/aiCache"
+import { isProviderConfigured } from "../scripts/models/services/aiProviders"
+import { getSourceAIOverrides, resolveTaskConfigs } from "../scripts/models/services/aiProfiles"
+import { AIConfigs, AITask } from "../schema-types"
+import {
+    detectLanguage,
+    resolveSummaryLanguage,
+    resolveTranslation,
+} from "../scripts/models/services/langDetect"
+import { isMonthlyBudgetExceeded } from "../scripts/models/services/aiUsage"
+import {
+    articlePromptVariables,
+    withPromptTemplates,
+} from "../scripts/models/services/aiPrompts"
+import {
+    articleCacheKeys,
+    ArticleCacheKeys,
+    legacyCacheKey,
+} from "../scripts/models/services/aiCacheKey"
 import { getEffectiveItem as buildEffectiveItem } from "./utils/effective-item"
 import * as ArticleScripts from "./article-scripts"
 
@@ -23,8 +42,20 @@ export interface ExtendedAiConfig extends AiConfig {
 export interface TranslationItem {
     original: string
     translated: string
+    // Glossary terms the translation missed; the paragraph offers a retry.
+    glossaryMissed?: string[]
 }
 
+/** Whether a paragraph failed to translate or missed glossary terms. */
+const needsRetry = (t: TranslationItem) =>
+    Boolean(
+        t &&
+            (t.glossaryMissed?.length > 0 ||
+                (typeof t.translated === "string" &&
+                    (t.translated.includes("[翻译失败") ||
+                        t.translated.includes("Translation failed"))))
+    )
+
 export interface ArticleAIState {
     aiSummary: string
     aiSummaryLoading: boolean
@@ -38,7 +69,7 @@ export interface ArticleAIState {
     translationRunId: number
 }
 
-interface WebViewExecutor {
+export interface WebViewExecutor {
     executeScript<T = unknown>(code: string): Promise<T | null>
 }
 
@@ -57,15 +88,85 @@ export class ArticleAIHandler {
     // cleanup / item change.
     private retryPollHandle: ReturnType<typeof setInterval> | null = null
     private retrying = false
+    // Templates picked for this article's summary and translation over the
+    // default prompts.
+    private summaryTemplate?: string
+    private translationTemplate?: string
+    // Whether the paragraphs in aiTranslation are the original webpage's
+    // rather than the article rendering's; they only fit the page they were
+    // marked on.
+    private translatedWebpage = false
 
     constructor(
         private webviewExecutor: WebViewExecutor,
         private getItem: () => RSSItem,
         private getSource: () => RSSSource,
         private getState: () => ArticleAIState,
-        private updateState: (partial: Partial<ArticleAIState>) => void
+        private updateState: (partial: Partial<ArticleAIState>) => void,
+        // Whether the webview shows the original webpage instead of the
+        // article rendering.
+        private isWebpage: () => boolean = () => false
     ) {}
 
+    /**
+     * Global AI configs resolved for one task and the current source,
+     * applying the source's (and its groups') overrides.
+     */
+    private taskConfigs(task: AITask): AIConfigs {
+        const resolved = resolveTaskConfigs(window.settings.getAIConfigs(), task, this.aiOverrides())
+        return withPromptTemplates(resolved, {
+            summary: this.summaryTemplate,
+            translation: this.translationTemplate,
+        })
+    }
+
+    private aiOverrides() {
+        return getSourceAIOverrides(this.getSource(), window.settings.loadGroups())
+    }
+
+    /** What custom prompts' {{title}}, {{source}} and {{date}} stand for. */
+    private promptVariables() {
+        return articlePromptVariables(this.getItem(), this.getSource()?.name)
+    }
+
+    /** Attributes the calls of a task to the current source. */
+    private usageContext(task: AITask): AiConfig["usage"] {
+        const source = this.getSource()
+        return { task, sourceId: source?.sid, sourceName: source?.name }
+    }
+
+    /**
+     * Cache key and model for each kind of output of the current article
+     * under the current settings.
+     */
+    private cacheKeys(): ArticleCacheKeys {
+        return articleCacheKeys(
+            this.getItem(),
+            this.taskConfigs(AITask.Summary),
+            this.taskConfigs(AITask.Translation)
+        )
+    }
+
+    private async saveCacheEntry(kind: keyof ArticleCacheKeys, value: string): Promise<void> {
+        const { key, model } = this.cacheKeys()[kind]
+        await window.settings.saveAICache({ key, kind, value, model, title: this.getItem().title })
+    }
+
+    /**
+     * The cached output of the current article, falling back to what older
+     * versions cached for the item, which is moved to its content key.
+     */
+    private async getCacheEntry(kind: keyof ArticleCacheKeys): Promise<AICacheEntry | null> {
+        const cached = await window.settings.getAICache(this.cacheKeys()[kind].key)
+        if (cached) return cached
+        const legacyKey = legacyCacheKey(String(this.getItem()._id), kind)
+        const legacy = await window.settings.getAICache(legacyKey)
+        if (!legacy) return null
+        await this.saveCacheEntry(kind, legacy.value)
+        await window.settings.deleteAICache(legacyKey)
+        return legacy
+    }
+
     /**
      * Load AI cache for the current article
      */
@@ -80,51 +181,62 @@ export class ArticleAIHandler {
         const expectedId = String(item._id)
 
         try {
-            const cache = await window.settings.getAICache(expectedId)
+            const [summary, translation, titleTranslation] = await Promise.all(
+                (["summary", "translation", "titleTranslation"] as const).map(kind =>
+                    this.getCacheEntry(kind)
+                )
+            )
             if (expectedId !== String(this.getItem()._id)) return
 
-            if (cache) {
-                const updates: Partial<ArticleAIState> = {}
+            const updates: Partial<ArticleAIState> = {}
 
-                if (cache.summary) {
-                    updates.aiSummary = cache.summary
-                    updates.showSummary = true
-                }
+            if (summary) {
+                updates.aiSummary = summary.value
+                updates.showSummary = true
+            }
 
-                if (cache.translation) {
-                    try {
-                        const translationData: TranslationItem[] = JSON.parse(cache.translation)
-                        const hasFailure = translationData.some(
-                            t =>
-                                t.translated &&
-                                (t.translated.includes("[翻译失败") ||
-                                    t.translated.includes("Translation failed"))
-                        )
-
-                        if (hasFailure) {
-                            console.warn(
-                                "[ArticleAI] Cached translation contains failure markers, discarding cache."
-                            )
-                        } else {
-                            const titleTranslation = cache.titleTranslation || ""
-                            updates.aiTranslation = translationData
-                            updates.titleTranslation = titleTranslation
-                            updates.showTranslation = true
-                        }
-                    } catch (e) {
-                        console.error("解析翻译缓存失败:", e)
-                    }
-                }
+            const translationData = this.parseCachedTranslation(translation?.value)
+            if (translationData) {
+                updates.aiTranslation = translationData
+                updates.titleTranslation = titleTranslation?.value || ""
+                updates.showTranslation = true
+            }
 
-                if (Object.keys(updates).length > 0) {
-                    this.updateState(updates)
-                }
+            if (Object.keys(updates).length > 0) {
+                this.updateState(updates)
             }
         } catch (error) {
             console.warn("加载 AI 缓存失败(可忽略):", (error as Error)?.message || String(error))
         }
     }
 
+    /**
+     * Paragraphs of a cached translation, or null when there is none or it
+     * carries failure markers.
+     */
+    private parseCachedTranslation(value?: string): TranslationItem[] | null {
+        if (!value) return null
+        try {
+            const translationData: TranslationItem[] = JSON.parse(value)
+            const hasFailure = translationData.some(
+                t =>
+                    t.translated &&
+                    (t.translated.includes("[翻译失败") ||
+                        t.translated.includes("Translation failed"))
+            )
+            if (hasFailure) {
+                console.warn(
+                    "[ArticleAI] Cached translation contains failure markers, discarding cache."
+                )
+                return null
+            }
+            return translationData
+        } catch (e) {
+            console.error("解析翻译缓存失败:", e)
+            return null
+        }
+    }
+
     /**
      * Auto-run AI features if configured.
      * Waits for the cache load to finish first so that a cached
@@ -134,8 +246,17 @@ export class ArticleAIHandler {
         hasSummary?: boolean
         hasTranslation?: boolean
     }): Promise<void> {
-        const aiConfigs = window.settings.getAIConfigs() as ExtendedAiConfig
-        if (!aiConfigs.enabled || !aiConfigs.apiKey) return
+        const aiConfigs = window.settings.getAIConfigs()
+        if (!aiConfigs.enabled) return
+        const overrides = this.aiOverrides()
+        const summaryReady = isProviderConfigured(this.taskConfigs(AITask.Summary))
+        // skipTranslation only suppresses the automatic run; the toolbar
+        // button still translates on request.
+        const translationReady =
+            !overrides.skipTranslation && isProviderConfigured(this.taskConfigs(AITask.Translation))
+        if (!summaryReady && !translationReady) return
+        // Past the monthly budget only explicit requests reach the API.
+        if (await isMonthlyBudgetExceeded(aiConfigs)) return
 
         // Ensure cache has been applied before deciding whether to run.
         await this.cacheLoadPromise.catch(() => {
@@ -154,12 +275,12 @@ export class ArticleAIHandler {
         const shouldSummarize = effectiveItem.autoSummarize ?? aiConfigs.autoSummary
         const shouldTranslate = effectiveItem.autoTranslate ?? aiConfigs.autoTranslateImmersive
 
-        if (shouldSummarize && !hasSummary && !state.aiSummaryLoading) {
+        if (summaryReady && shouldSummarize && !hasSummary && !state.aiSummaryLoading) {
             this.generateSummary().catch(err => {
                 console.warn("[AI] Auto-summary failed:", err?.message || err)
             })
         }
-        if (shouldTranslate && !hasTranslation && !state.translationLoading) {
+        if (translationReady && shouldTranslate && !hasTranslation && !state.translationLoading) {
             this.translateArticle().catch(err => {
                 console.warn("[AI] Auto-translation failed:", err?.message || err)
             })
@@ -184,12 +305,30 @@ export class ArticleAIHandler {
         await this.generateSummary(fullContent, opts)
     }
 
+    /**
+     * Summarize the article with a template of the prompt library, or the
+     * default prompt when none is given, showing a cached summary of it if
+     * there is one.
+     */
+    async summarizeWithTemplate(fullContent?: string, templateId?: string): Promise<void> {
+        this.summaryTemplate = templateId
+        if (this.summaryAbort) this.summaryAbort.abort()
+        const cached = await this.getCacheEntry("summary")
+        if (!cached) {
+            await this.generateSummary(fullContent, { force: true })
+            return
+        }
+        this.updateState({ aiSummary: cached.value, aiSummaryLoading: false, showSummary: true })
+        await this.ensureSummaryInjected(cached.value)
+        await this.setSummaryVisibility(true)
+    }
+
     /**
      * Generate AI summary for the article
      */
     async generateSummary(fullContent?: string, opts?: { force?: boolean }): Promise<void> {
-        const aiConfigs = window.settings.getAIConfigs() as ExtendedAiConfig
-        if (!aiConfigs.enabled || !aiConfigs.apiKey) {
+        const aiConfigs = this.taskConfigs(AITask.Summary) as ExtendedAiConfig
+        if (!aiConfigs.enabled || !isProviderConfigured(aiConfigs)) {
             alert(intl.get("ai.notEnabled"))
             return
         }
@@ -230,37 +369,56 @@ export class ArticleAIHandler {
                 return
             }
 
-            // Mirror the translation language setting so the summary is written
-            // in the same target language the user configured for translations:
-            //   translateWhen "auto"  -> opposite of the article's language
-            //   anything else         -> the configured translateTarget
-            const articleIsZh = /[\u4e00-\u9fa5]/.test(fullTextResult.content)
-            const translateWhen = aiConfigs.translateWhen || "auto"
-            const summaryLang: "zh" | "en" =
-                translateWhen === "auto"
-                    ? articleIsZh
-                        ? "en"
-                        : "zh"
-                    : (aiConfigs.translateTarget === "en" ? "en" : "zh")
-
-            const summary = await summarizeArticle(
-                {
-                    baseUrl: aiConfigs.baseUrl,
-                    apiKey: aiConfigs.apiKey,
-                    defaultModel: aiConfigs.defaultModel,
-                    prompts: aiConfigs.prompts,
-                },
-                fullTextResult.content,
-                controller.signal,
-                summaryLang
+            const summaryLang = resolveSummaryLanguage(
+                aiConfigs.translateWhen,
+                aiConfigs.translateTarget,
+                detectLanguage(fullTextResult.content)
             )
 
-            if (itemId === String(this.getItem()._id) && this.summaryAbort === controller) {
+            // Stream the summary into the injected block as tokens arrive.
+            // Partial text is coalesced on a short timer so a fast stream does
+            // not turn into one setState + one executeScript per token.
+            const isCurrent = () =>
+                itemId === String(this.getItem()._id) && this.summaryAbort === controller
+            let partial = ""
+            let flushTimer: ReturnType<typeof setTimeout> | null = null
+            const flushPartial = () => {
+                flushTimer = null
+                if (!isCurrent() || !partial) return
+                this.updateState({ aiSummary: partial })
+            }
+
+            let summary: string
+            try {
+                summary = await summarizeArticle(
+                    {
+                        baseUrl: aiConfigs.baseUrl,
+                        apiKey: aiConfigs.apiKey,
+                        provider: aiConfigs.provider,
+                        apiVersion: aiConfigs.apiVersion,
+                        defaultModel: aiConfigs.defaultModel,
+                        prompts: aiConfigs.prompts,
+                        promptVariables: this.promptVariables(),
+                        usage: this.usageContext(AITask.Summary),
+                    },
+                    fullTextResult.content,
+                    controller.signal,
+                    summaryLang,
+                    (_delta, accumulated) => {
+                        partial = accumulated
+                        if (!flushTimer) flushTimer = setTimeout(flushPartial, 80)
+                    }
+                )
+            } finally {
+                if (flushTimer) clearTimeout(flushTimer)
+            }
+
+            if (isCurrent()) {
                 this.updateState({ aiSummary: summary, aiSummaryLoading: false, showSummary: true })
                 await this.ensureSummaryInjected(summary)
 
                 try {
-                    await window.settings.saveAISummary(String(item._id), summary)
+                    await this.saveCacheEntry("summary", summary)
                 } catch (e) {
                     console.warn("保存总结缓存失败(可忽略):", (e as Error).message)
                 }
@@ -272,7 +430,10 @@ export class ArticleAIHandler {
             }
             alert(`${intl.get("ai.failed")}: ${(err as Error)?.message || String(error)}`)
             if (itemId === String(this.getItem()._id) && this.summaryAbort === controller) {
-                this.updateState({ aiSummaryLoading: false, showSummary: false })
+                // Drop any partially streamed text so it is neither shown as a
+                // finished summary nor mistaken for a cached one.
+                this.updateState({ aiSummary: "", aiSummaryLoading: false, showSummary: false })
+                await this.setSummaryVisibility(false)
             }
         }
     }
@@ -288,7 +449,7 @@ export class ArticleAIHandler {
             await this.setTranslationVisibility(false)
         } else if (state.aiTranslation.length > 0) {
             this.updateState({ showTranslation: true })
-            await this.injectCachedTranslations().catch(() => {
+            await this.showTranslation().catch(() => {
                 this.setTranslationVisibility(true)
             })
         } else {
@@ -296,12 +457,81 @@ export class ArticleAIHandler {
         }
     }
 
+    /**
+     * Translate the article with a template of the prompt library, or the
+     * default prompt when none is given, showing a cached translation of it
+     * if there is one.
+     */
+    async translateWithTemplate(fullContent?: string, templateId?: string): Promise<void> {
+        this.translationTemplate = templateId
+        if (this.translationAbort) this.translationAbort.abort()
+        this.translationAbort = undefined
+        this.stopRetryWatcher()
+        const cached = this.isWebpage()
+            ? null
+            : this.parseCachedTranslation((await this.getCacheEntry("translation"))?.value)
+        if (!cached) {
+            await this.translateArticle(fullContent)
+            return
+        }
+        const titleTranslation = (await this.getCacheEntry("titleTranslation"))?.value || ""
+        this.translatedWebpage = false
+        this.updateState({
+            aiTranslation: cached,
+            titleTranslation,
+            translationLoading: false,
+            showTranslation: true,
+        })
+        await this.waitForArticleReady()
+        await this.webviewExecutor.executeScript(ArticleScripts.getCleanupTranslationsScript())
+        await this.injectCachedTranslations(cached)
+        if (titleTranslation) await this.injectTitleTranslation(titleTranslation)
+    }
+
+    /**
+     * Put the shown translation back on a page that has just loaded, or
+     * translate the page when the translation does not fit it.
+     */
+    async restoreTranslation(fullContent?: string): Promise<void> {
+        await this.cacheLoadPromise.catch(() => undefined)
+        if (this.getState().showTranslation) await this.showTranslation(fullContent)
+    }
+
+    /**
+     * Inject the translation into the page. Paragraphs translated on the
+     * other rendering do not fit it: the original webpage is translated
+     * afresh, the article rendering gets its cached translation back.
+     */
+    private async showTranslation(fullContent?: string): Promise<void> {
+        const state = this.getState()
+        let translation = state.aiTranslation
+        const switched = this.translatedWebpage !== this.isWebpage()
+        if (switched) {
+            if (this.translationAbort) this.translationAbort.abort()
+            this.translationAbort = undefined
+            this.stopRetryWatcher()
+            this.translatedWebpage = this.isWebpage()
+            translation = this.translatedWebpage
+                ? []
+                : this.parseCachedTranslation(
+                      (await this.getCacheEntry("translation"))?.value
+                  ) || []
+            this.updateState({ aiTranslation: translation, translationLoading: false })
+        }
+        if (translation.length > 0) {
+            await this.injectCachedTranslations(translation)
+            if (state.titleTranslation) await this.injectTitleTranslation(state.titleTranslation)
+        } else if (switched || !state.translationLoading) {
+            await this.translateArticle(fullContent)
+        }
+    }
+
     /**
      * Translate the article content
      */
     async translateArticle(fullContent?: string): Promise<void> {
-        const aiConfigs = window.settings.getAIConfigs() as ExtendedAiConfig
-        if (!aiConfigs.enabled || !aiConfigs.apiKey) {
+        const aiConfigs = this.taskConfigs(AITask.Translation) as ExtendedAiConfig
+        if (!aiConfigs.enabled || !isProviderConfigured(aiConfigs)) {
             alert(intl.get("ai.notEnabled"))
             return
         }
@@ -313,6 +543,7 @@ export class ArticleAIHandler {
         const itemId = String(item._id)
 
         const newRunId = Date.now()
+        this.translatedWebpage = this.isWebpage()
         this.updateState({
             translationLoading: true,
             showTranslation: true,
@@ -444,9 +675,10 @@ export class ArticleAIHandler {
     /**
      * Inject cached translations into the WebView
      */
-    async injectCachedTranslations(): Promise<void> {
-        const state = this.getState()
-        if (!state.aiTranslation || state.aiTranslation.length === 0) return
+    async injectCachedTranslations(
+        translation: TranslationItem[] = this.getState().aiTranslation
+    ): Promise<void> {
+        if (!translation || translation.length === 0) return
         
         await this.waitForArticleReady()
         const texts = await this.webviewExecutor.executeScript<string[]>(
@@ -454,7 +686,7 @@ export class ArticleAIHandler {
         )
         
         if (!texts || texts.length === 0) {
-            const allTranslated = state.aiTranslation
+            const allTranslated = translation
                 .map(x => x?.translated || "")
                 .filter(Boolean)
                 .join("\n\n")
@@ -468,7 +700,7 @@ export class ArticleAIHandler {
         }
         
         const used = new Set<number>()
-        for (const t of state.aiTranslation) {
+        for (const t of translation) {
             const original = t?.original || ""
             let bestIdx = -1
             let bestScore = 0
@@ -482,14 +714,20 @@ export class ArticleAIHandler {
             }
             if (bestIdx >= 0 && bestScore >= 0.35) {
                 await this.webviewExecutor.executeScript(
-                    ArticleScripts.getInsertTranslationScript(bestIdx, t.translated)
+                    ArticleScripts.getInsertTranslationScript(
+                        bestIdx,
+                        t.translated,
+                        t.glossaryMissed
+                    )
                 )
                 used.add(bestIdx)
             }
         }
+        // Cached paragraphs that missed glossary terms offer a retry too.
+        if (used.size > 0 && translation.some(needsRetry)) this.startRetryWatcher()
         
         if (used.size === 0) {
-            const allTranslated = state.aiTranslation
+            const allTranslated = translation
                 .map(x => x?.translated || "")
                 .filter(Boolean)
                 .join("\n\n")
@@ -511,15 +749,9 @@ export class ArticleAIHandler {
         this.stopRetryWatcher()
     }
 
-    /** Whether the current state has any paragraph marked as failed. */
+    /** Whether the current state has any paragraph to offer a retry for. */
     private hasFailedTranslations(): boolean {
-        return this.getState().aiTranslation.some(
-            t =>
-                t &&
-                typeof t.translated === "string" &&
-                (t.translated.includes("[翻译失败") ||
-                    t.translated.includes("Translation failed"))
-        )
+        return this.getState().aiTranslation.some(needsRetry)
     }
 
     /**
@@ -541,13 +773,7 @@ export class ArticleAIHandler {
                     // Clear the failed markers from React state so the next
                     // run re-fetches those paragraphs; keep the good ones.
                     const kept = this.getState().aiTranslation.filter(
-                        t =>
-                            t &&
-                            !(
-                                typeof t.translated === "string" &&
-                                (t.translated.includes("[翻译失败") ||
-                                    t.translated.includes("Translation failed"))
-                            )
+                        t => t && !needsRetry(t)
                     )
                     this.updateState({ aiTranslation: kept, translationLoading: true })
                     this.translateArticle()
@@ -572,6 +798,15 @@ export class ArticleAIHandler {
 
     // --- Private Helper Methods ---
 
+    /**
+     * Title and plain body of the article, from the same sources the summary
+     * uses, or null when there is no usable text.
+     */
+    async getArticleText(fullContent?: string): Promise<string | null> {
+        const result = await this.getFullTextForSummary(fullContent)
+        return result.success ? result.content : null
+    }
+
     private async getFullTextForSummary(
         providedContent?: string
     ): Promise<
@@ -591,14 +826,21 @@ export class ArticleAIHandler {
             if (plain.length >= 50) return build(plain)
         }
 
-        // Source 2: the raw RSS payload (item.content). Many feeds ship only a
+        // Source 2: the full text extracted from the item's page earlier, kept
+        // on the item so it is there without loading the page.
+        if (item.fullText) {
+            const plain = this.stripHtmlTags(item.fullText).trim()
+            if (plain.length >= 50) return build(plain)
+        }
+
+        // Source 3: the raw RSS payload (item.content). Many feeds ship only a
         // short snippet here, so this is best-effort.
         if (item.content) {
             const plain = this.stripHtmlTags(item.content).trim()
             if (plain.length >= 50) return build(plain)
         }
 
-        // Source 3 (fallback): the actually-rendered article in the webview.
+        // Source 4 (fallback): the actually-rendered article in the webview.
         // This is where the full readable body lives once the page (and the
         // optional full-content loader) has rendered. Mirrors how translation
         // extracts text from the DOM.
@@ -647,42 +889,24 @@ export class ArticleAIHandler {
     private async determineTranslationStrategy(
         aiConfigs: ExtendedAiConfig,
         texts: string[]
-    ): Promise<{ shouldTranslate: boolean; targetLang: "zh" | "en"; isZh: boolean }> {
-        const translateWhen = aiConfigs.translateWhen || "auto"
-        const translateTarget = aiConfigs.translateTarget || "zh"
-        const sampleHtml = (texts && texts[0]) || (await this.getRootHTML())
+    ): Promise<{ shouldTranslate: boolean; targetLang: string; sourceLang: string }> {
+        // A few paragraphs give the detector enough text without scanning
+        // the whole article.
+        const sampleHtml =
+            texts && texts.length > 0 ? texts.slice(0, 5).join("\n") : await this.getRootHTML()
         const sample = (sampleHtml || "").replace(/<[^>]*>/g, "")
-        const isZh = /[\u4e00-\u9fa5]/.test(sample || "")
-
-        let shouldTranslate = true
-        switch (translateWhen) {
-            case "nonTargetOnly":
-                shouldTranslate = translateTarget === "zh" ? !isZh : isZh
-                break
-            case "zhOnly":
-                shouldTranslate = isZh
-                break
-            case "nonZhOnly":
-                shouldTranslate = !isZh
-                break
-            case "always":
-                shouldTranslate = true
-                break
-            case "auto":
-            default:
-                shouldTranslate = true
-                break
-        }
-
-        const targetLang: "zh" | "en" =
-            translateWhen === "auto" ? (isZh ? "en" : "zh") : (translateTarget as "zh" | "en")
-
-        return { shouldTranslate, targetLang, isZh }
+        const sourceLang = detectLanguage(sample)
+        const { shouldTranslate, targetLang } = resolveTranslation(
+            aiConfigs.translateWhen,
+            aiConfigs.translateTarget,
+            sourceLang
+        )
+        return { shouldTranslate, targetLang, sourceLang }
     }
 
     private async translateTitle(
         title: string,
-        targetLang: "zh" | "en",
+        targetLang: string,
         config: ExtendedAiConfig,
         controller: AbortController
     ): Promise<string | null> {
@@ -693,8 +917,13 @@ export class ArticleAIHandler {
                 {
                     baseUrl: config.baseUrl,
                     apiKey: config.apiKey,
+                    provider: config.provider,
+                    apiVersion: config.apiVersion,
                     defaultModel: config.defaultModel,
                     prompts: config.prompts,
+                    promptVariables: this.promptVariables(),
+                    glossary: config.glossary,
+                    usage: this.usageContext(AITask.Translation),
                 },
                 title,
                 targetLang,
@@ -708,7 +937,7 @@ export class ArticleAIHandler {
 
     private async translateParagraphs(
         texts: string[],
-        targetLang: "zh" | "en",
+        targetLang: string,
         config: ExtendedAiConfig,
         signal: AbortController,
         itemId: string,
@@ -718,7 +947,7 @@ export class ArticleAIHandler {
         // N-render / N-IPC storm (one setState + one executeScript per
         // paragraph). The buffer is drained on a short timer and once more
         // after the whole translation completes.
-        const pending = new Map<number, string>()
+        const pending = new Map<number, Omit<TranslationItem, "original">>()
         let flushTimer: ReturnType<typeof setTimeout> | null = null
         const isStale = () =>
             itemId !== String(this.getItem()._id) ||
@@ -728,17 +957,17 @@ export class ArticleAIHandler {
         const flush = () => {
             flushTimer = null
             if (isStale() || pending.size === 0) return
-            const batch = Array.from(pending.entries()).map(([index, translated]) => ({
+            const batch = Array.from(pending.entries()).map(([index, result]) => ({
                 index,
-                translated,
+                ...result,
             }))
             pending.clear()
 
             // Apply to React state in a single update.
             const state = this.getState()
             const list = [...state.aiTranslation]
-            for (const { index, translated } of batch) {
-                list[index] = { original: texts[index], translated }
+            for (const { index, translated, glossaryMissed } of batch) {
+                list[index] = { original: texts[index], translated, glossaryMissed }
             }
             this.updateState({ aiTranslation: list })
 
@@ -750,12 +979,18 @@ export class ArticleAIHandler {
             {
                 baseUrl: config.baseUrl,
                 apiKey: config.apiKey,
+                provider: config.provider,
+                apiVersion: config.apiVersion,
                 defaultModel: config.defaultModel,
+                prompts: config.prompts,
+                promptVariables: this.promptVariables(),
+                glossary: config.glossary,
+                usage: this.usageContext(AITask.Translation),
             },
             texts,
-            (index, translatedText) => {
+            (index, translatedText, glossaryMissed) => {
                 if (isStale()) return
-                pending.set(index, translatedText)
+                pending.set(index, { translated: translatedText, glossaryMissed })
                 if (flushTimer) clearTimeout(flushTimer)
                 // ~120ms coalesces bursts of fast callbacks while keeping the
                 // UI feeling responsive (translations appear in small groups).
@@ -771,7 +1006,7 @@ export class ArticleAIHandler {
     }
 
     private async translateFullContentFallback(
-        targetLang: "zh" | "en",
+        targetLang: string,
         config: ExtendedAiConfig,
         signal: AbortController,
         itemId: string,
@@ -784,7 +1019,13 @@ export class ArticleAIHandler {
                 {
                     baseUrl: config.baseUrl,
                     apiKey: config.apiKey,
+                    provider: config.provider,
+                    apiVersion: config.apiVersion,
                     defaultModel: config.defaultModel,
+                    prompts: config.prompts,
+                    promptVariables: this.promptVariables(),
+                    glossary: config.glossary,
+                    usage: this.usageContext(AITask.Translation),
                 },
                 [rootText],
                 (i, translatedText) => {
@@ -801,7 +1042,7 @@ export class ArticleAIHandler {
                 this.getState().translationRunId === runId
             ) {
                 this.updateState({
-                    aiTranslation: [{ original: rootText, translated: single[0].translated }],
+                    aiTranslation: [{ ...single[0], original: rootText }],
                 })
             }
         }
@@ -815,7 +1056,9 @@ export class ArticleAIHandler {
             // carrying a failure marker) instead of discarding the whole
             // batch — the good paragraphs should still be cached so they don't
             // re-hit the API on the next open.
-            const cacheable = state.aiTranslation.filter(
+            // Paragraphs of the original webpage are kept out: the cached
+            // translation is the article rendering's.
+            const cacheable = (this.translatedWebpage ? [] : state.aiTranslation).filter(
                 t =>
                     t &&
                     t.translated &&
@@ -823,19 +1066,14 @@ export class ArticleAIHandler {
                     !t.translated.includes("[翻译失败") &&
                     !t.translated.includes("Translation failed")
             )
-            if (cacheable.length === 0) {
+            if (cacheable.length > 0) {
+                await this.saveCacheEntry("translation", JSON.stringify(cacheable))
+            } else if (!this.translatedWebpage) {
                 console.warn("[ArticleAI] No cacheable translations, skipping cache save.")
                 return
             }
-            await window.settings.saveAITranslation(
-                String(this.getItem()._id),
-                JSON.stringify(cacheable)
-            )
             if (state.titleTranslation) {
-                await window.settings.saveTitleTranslation(
-                    String(this.getItem()._id),
-                    state.titleTranslation
-                )
+                await this.saveCacheEntry("titleTranslation", state.titleTranslation)
             }
         } catch (e) {
             console.warn("保存翻译缓存失败:", (e as Error).message)
@@ -862,7 +1100,7 @@ export class ArticleAIHandler {
     }
 
     private insertTranslatedParagraphs(
-        items: Array<{ index: number; translated: string }>
+        items: Array<{ index: number; translated: string; glossaryMissed?: string[] }>
     ): void {
         const valid = items.filter(it => it.translated && it.translated.trim().length > 0)
         if (valid.length === 0) return
@@ -891,6 +1129,11 @@ export class ArticleAIHandler {
         await this.webviewExecutor.executeScript(
             ArticleScripts.getWaitForArticleReadyScript(timeoutMs, pollMs)
         )
+        // The original webpage has no article markup of ours: find its main
+        // content for the scripts to work in.
+        if (this.isWebpage()) {
+            await this.webviewExecutor.executeScript(ArticleScripts.getMarkPageContentScript())
+        }
     }
 
     private async getRootHTML(): Promise<string> {
@@ -0,0 +1,277 @@
+import * as React from "react"
+import intl from "react-intl-universal"
+import {
+    IconButton,
+    MessageBar,
+    MessageBarType,
+    PrimaryButton,
+    DefaultButton,
+    Stack,
+    TextField,
+} from "@fluentui/react"
+import { RSSItem } from "../scripts/models/item"
+import { RSSSource } from "../scripts/models/source"
+import { AITask } from "../schema-types"
+import { chatWithArticle } from "../scripts/models/services/aiClient"
+import type { ChatMessage } from "../scripts/models/services/aiClient"
+import { isProviderConfigured } from "../scripts/models/services/aiProviders"
+import { getSourceAIOverrides, resolveTaskConfigs } from "../scripts/models/services/aiProfiles"
+import { chatCacheKey } from "../scripts/models/services/aiCacheKey"
+
+type ArticleChatProps = {
+    item: RSSItem
+    source: RSSSource
+    // Title and plain body the answers are grounded in, or null if none.
+    getArticleText: () => Promise<string | null>
+    onDismiss: () => void
+}
+
+type ArticleChatState = {
+    messages: ChatMessage[]
+    input: string
+    answering: boolean
+    partial: string
+    error: string
+}
+
+/**
+ * Side panel for follow-up questions about the open article. The
+ * conversation is kept in the AI cache under the article's content hash, so
+ * it comes back when the article is opened again.
+ */
+class ArticleChat extends React.Component<ArticleChatProps, ArticleChatState> {
+    state: ArticleChatState = { messages: [], input: "", answering: false, partial: "", error: "" }
+    private abort?: AbortController
+    private articleText: string | null = null
+    private unmounted = false
+    private listEnd = React.createRef<HTMLDivElement>()
+
+    componentDidMount() {
+        window.settings
+            .getAICache(chatCacheKey(this.props.item))
+            .then(entry => {
+                if (!entry || this.unmounted) return
+                const messages = JSON.parse(entry.value) as ChatMessage[]
+                if (Array.isArray(messages)) this.setState({ messages })
+            })
+            .catch(() => {
+                /* non-fatal: start a new conversation */
+            })
+    }
+
+    componentDidUpdate(_: ArticleChatProps, prevState: ArticleChatState) {
+        if (
+            prevState.messages.length !== this.state.messages.length ||
+            prevState.partial !== this.state.partial
+        ) {
+            this.listEnd.current?.scrollIntoView({ block: "end" })
+        }
+    }
+
+    componentWillUnmount() {
+        this.unmounted = true
+        if (this.abort) this.abort.abort()
+    }
+
+    private configs() {
+        return resolveTaskConfigs(
+            window.settings.getAIConfigs(),
+            AITask.Chat,
+            getSourceAIOverrides(this.props.source, window.settings.loadGroups())
+        )
+    }
+
+    private save = async (messages: ChatMessage[]) => {
+        try {
+            await window.settings.saveAICache({
+                key: chatCacheKey(this.props.item),
+                kind: "chat",
+                value: JSON.stringify(messages),
+                model: this.configs().defaultModel,
+                title: this.props.item.title,
+            })
+        } catch (e) {
+            console.warn("[ArticleChat] saving the conversation failed:", (e as Error).message)
+        }
+    }
+
+    send = async () => {
+        const question = this.state.input.trim()
+        if (!question || this.state.answering) return
+        const configs = this.configs()
+        if (!configs.enabled || !isProviderConfigured(configs)) {
+            this.setState({ error: intl.get("ai.notEnabled") })
+            return
+        }
+
+        const history: ChatMessage[] = [...this.state.messages, { role: "user", content: question }]
+        this.setState({ messages: history, input: "", answering: true, partial: "", error: "" })
+        const controller = new AbortController()
+        this.abort = controller
+        try {
+            if (this.articleText === null) this.articleText = await this.props.getArticleText()
+            if (this.articleText === null) throw new Error(intl.get("ai.fullContentRequired"))
+            const answer = await chatWithArticle(
+                {
+                    baseUrl: configs.baseUrl,
+                    apiKey: configs.apiKey,
+                    provider: configs.provider,
+                    apiVersion: configs.apiVersion,
+                    defaultModel: configs.defaultModel,
+                    usage: {
+                        task: AITask.Chat,
+                        sourceId: this.props.source.sid,
+                        sourceName: this.props.source.name,
+                    },
+                },
+                this.articleText,
+                history,
+                controller.signal,
+                (_delta, accumulated) => {
+                    if (!this.unmounted) this.setState({ partial: accumulated })
+                }
+            )
+            if (this.unmounted) return
+            const messages: ChatMessage[] = [...history, { role: "assistant", content: answer }]
+            this.setState({ messages, answering: false, partial: "" })
+            await this.save(messages)
+        } catch (error) {
+            if (this.unmounted) return
+            const err = error as Error
+            // Put the question back so it can be edited and asked again.
+            this.setState({
+                messages: this.state.messages.slice(0, -1),
+                input: question,
+                answering: false,
+                partial: "",
+                error:
+                    err.name === "AbortError"
+                        ? ""
+                        : `${intl.get("ai.failed")}: ${err.message || String(error)}`,
+            })
+        }
+    }
+
+    stop = () => {
+        if (this.abort) this.abort.abort()
+    }
+
+    clear = async () => {
+        this.stop()
+        this.setState({ messages: [], partial: "", error: "" })
+        try {
+            await window.settings.deleteAICache(chatCacheKey(this.props.item))
+        } catch {
+            /* non-fatal */
+        }
+    }
+
+    onKeyDown = (event: React.KeyboardEvent) => {
+        if (event.key === "Enter" && !event.shiftKey && !event.nativeEvent.isComposing) {
+            event.preventDefault()
+            this.send()
+        }
+    }
+
+    private bubble = (message: ChatMessage, key: React.Key) => {
+        const mine = message.role === "user"
+        return (
+            <div
+                key={key}
+                style={{
+                    alignSelf: mine ? "flex-end" : "flex-start",
+                    maxWidth: "85%",
+                    padding: "6px 10px",
+                    borderRadius: 6,
+                    whiteSpace: "pre-wrap",
+                    wordBreak: "break-word",
+                    userSelect: "text",
+                    background: mine ? "var(--primary)" : "var(--neutralLighter)",
+                    color: mine ? "var(--white)" : "var(--neutralPrimary)",
+                }}>
+                {message.content}
+            </div>
+        )
+    }
+
+    render() {
+        const { messages, answering, partial, error } = this.state
+        return (
+            <Stack
+                className="article-chat"
+                style={{
+                    position: "absolute",
+                    top: 36,
+                    right: 0,
+                    bottom: 0,
+                    width: 360,
+                    zIndex: 1,
+                    background: "var(--white)",
+                    borderLeft: "1px solid var(--neutralQuaternaryAlt)",
+                    boxShadow: "#0002 0 0 10px",
+                }}>
+                <Stack horizontal verticalAlign="center" style={{ padding: "4px 8px" }}>
+                    <Stack.Item grow>
+                        <b>{intl.get("ai.chat.title")}</b>
+                    </Stack.Item>
+                    <IconButton
+                        title={intl.get("ai.chat.clear")}
+                        iconProps={{ iconName: "Delete" }}
+                        disabled={messages.length === 0}
+                        onClick={this.clear}
+                    />
+                    <IconButton
+                        title={intl.get("close")}
+                        iconProps={{ iconName: "Cancel" }}
+                        onClick={this.props.onDismiss}
+                    />
+                </Stack>
+                <Stack
+                    grow
+                    tokens={{ childrenGap: 8 }}
+                    style={{ overflowY: "auto", padding: "0 12px 8px", minHeight: 0 }}>
+                    {messages.length === 0 && !answering && (
+                        <span style={{ color: "var(--neutralSecondary)" }}>
+                            {intl.get("ai.chat.empty")}
+                        </span>
+                    )}
+                    {messages.map(this.bubble)}
+                    {answering &&
+                        this.bubble({ role: "assistant", content: partial || "…" }, "partial")}
+                    <div ref={this.listEnd} />
+                </Stack>
+                {error && (
+                    <MessageBar
+                        messageBarType={MessageBarType.error}
+                        onDismiss={() => this.setState({ error: "" })}>
+                        {error}
+                    </MessageBar>
+                )}
+                <Stack tokens={{ childrenGap: 8 }} style={{ padding: 8 }}>
+                    <TextField
+                        multiline
+                        autoAdjustHeight
+                        resizable={false}
+                        placeholder={intl.get("ai.chat.placeholder")}
+                        value={this.state.input}
+                        onChange={(_, input) => this.setState({ input: input || "" })}
+                        onKeyDown={this.onKeyDown}
+                    />
+                    <Stack horizontal horizontalAlign="end">
+                        {answering ? (
+                            <DefaultButton text={intl.get("ai.chat.stop")} onClick={this.stop} />
+                        ) : (
+                            <PrimaryButton
+                                text={intl.get("ai.chat.send")}
+                                disabled={!this.state.input.trim()}
+                                onClick={this.send}
+                            />
+                        )}
+                    </Stack>
+                </Stack>
+            </Stack>
+        )
+    }
+}
+
+export default ArticleChat
@@ -6,6 +6,7 @@
  */
 
 import intl from "react-intl-universal"
+import type { SpeechTarget } from "../scripts/models/services/speech"
 
 /**
  * Snippet that sanitizes an arbitrary HTML string produced by the AI model
@@ -36,6 +37,31 @@ const SANITIZE_HTML_BODY = `(() => {
     return _tmp.innerHTML;
 })()`
 
+/**
+ * Snippet that appends the glossary hint under a translated paragraph: a
+ * clickable line naming the glossary terms the translation missed, which
+ * asks the host to translate again like the hint of a failed paragraph.
+ *
+ * The snippet assumes the translation block is in a local variable named
+ * `div` and the hint text, empty for none, in one named `glossaryLabel`.
+ */
+const GLOSSARY_HINT_BODY = `if (glossaryLabel) {
+    const hint = document.createElement('div');
+    hint.className = 'ai-translation-glossary';
+    hint.style.cssText = 'color:var(--messageDanger,#d13438);font-style:normal;font-size:0.85em;margin-top:4px;cursor:pointer;';
+    hint.textContent = glossaryLabel;
+    hint.title = glossaryLabel;
+    hint.addEventListener('click', () => {
+        window.__aiRetryFailed = true;
+        hint.textContent = glossaryLabel + ' …';
+    });
+    div.appendChild(hint);
+}`
+
+// The element the AI scripts work in: the main content marked on an original
+// webpage (see getMarkPageContentScript), else the article rendering's own.
+const ARTICLE_ROOT = `(document.querySelector('[data-ai-content-root]') || document.querySelector('article') || document.getElementById('main') || document.body)`
+
 /**
  * Injects a thin reading-progress bar pinned to the top of the article webview
  * and wires a passive scroll listener that updates its width. Everything runs
@@ -123,12 +149,16 @@ export function getInjectSummaryScript(summary: string): string {
             console.error('[AI] No root element for summary injection');
             return false;
         }
+        // On the original webpage the box opens its main content.
+        const page = document.querySelector('[data-ai-content-root]');
         const article = root.querySelector('article');
-        let box = root.querySelector('.ai-summary');
+        let box = document.querySelector('.ai-summary');
         if (!box) {
             box = document.createElement('div');
             box.className = 'ai-summary';
             box.style.cssText = 'background-color:var(--summary-bg, #f3f2f1);padding:12px 16px;margin:12px 0;border-radius:4px;border-left:4px solid var(--primary, #0078d4)';
+            // The page's own text color may not read on the box.
+            if (page) box.style.color = '#323130';
             const title = document.createElement('div');
             title.style.cssText = 'font-weight:600;margin-bottom:8px;color:var(--primary, #0078d4);';
             title.textContent = '💡 ' + ${JSON.stringify(intl.get("ai.summary"))};
@@ -137,7 +167,9 @@ export function getInjectSummaryScript(summary: string): string {
             contentEl.style.cssText = 'line-height:1.6;white-space:pre-wrap;';
             box.appendChild(title);
             box.appendChild(contentEl);
-            if (article && article.parentNode) {
+            if (page) {
+                page.insertBefore(box, page.firstChild);
+            } else if (article && article.parentNode) {
                 article.parentNode.insertBefore(box, article);
             } else {
                 root.appendChild(box);
@@ -174,7 +206,11 @@ export function getInjectTitleTranslationScript(titleTranslation: string): strin
             console.error('[AI] No root element for title translation');
             return false;
         }
-        const titleEl = root.querySelector('.title');
+        // The original webpage has no title of ours: use its main heading.
+        const page = document.querySelector('[data-ai-content-root]');
+        const titleEl = page
+            ? page.querySelector('h1') || document.querySelector('h1')
+            : root.querySelector('.title');
         if (!titleEl) {
             console.warn('[AI] Title element not found');
             return false;
@@ -194,12 +230,98 @@ export function getInjectTitleTranslationScript(titleTranslation: string): strin
     })()`
 }
 
+/**
+ * Finds the main content of an arbitrary webpage, Readability-style, and
+ * marks it with data-ai-content-root, which ARTICLE_ROOT prefers. Paragraphs
+ * vote for their parent and grandparent by length and commas; class and id
+ * names hint at content or boilerplate, and link-heavy blocks such as menus
+ * lose most of their score. Falls back to the page's article or main
+ * element. Idempotent; returns whether a root is marked.
+ */
+export function getMarkPageContentScript(): string {
+    return `(() => {
+        if (document.querySelector('[data-ai-content-root]')) return true;
+        if (!document.body) return false;
+        const unlikely = /banner|breadcrumb|combx|comment|community|cookie|disqus|extra|footer|gdpr|header|menu|modal|nav|newsletter|pager|pagination|popup|related|remark|replies|rss|share|shoutbox|sidebar|skyscraper|social|sponsor|subscribe|supplemental/i;
+        const maybe = /and|article|body|column|content|main|shadow/i;
+        const positive = /article|body|content|entry|hentry|main|page|post|text|blog|story/i;
+        const negative = /-ad-|hidden|banner|combx|comment|com-|contact|foot|footnote|masthead|media|meta|outbrain|promo|related|scroll|share|shoutbox|sidebar|skyscraper|sponsor|shopping|tags|tool|widget/i;
+        const names = el => (typeof el.className === 'string' ? el.className : '') + ' ' + (el.id || '');
+        const textOf = el => (el.innerText || el.textContent || '').replace(/\\s+/g, ' ').trim();
+        const isBoilerplate = el => {
+            for (let n = el; n && n !== document.body; n = n.parentElement) {
+                const tag = n.tagName.toLowerCase();
+                if (['nav', 'header', 'footer', 'aside', 'form'].includes(tag)) return true;
+                if (['navigation', 'banner', 'complementary'].includes(n.getAttribute('role'))) return true;
+                if (tag === 'article' || tag === 'main') continue;
+                const name = names(n);
+                if (unlikely.test(name) && !maybe.test(name)) return true;
+            }
+            return false;
+        };
+        const initialScore = el => {
+            const tag = el.tagName.toLowerCase();
+            const name = names(el);
+            let score = 0;
+            if (negative.test(name)) score -= 25;
+            if (positive.test(name)) score += 25;
+            if (['div', 'article', 'main', 'section'].includes(tag)) score += 5;
+            else if (['pre', 'td', 'blockquote'].includes(tag)) score += 3;
+            else if (['ol', 'ul', 'dl', 'li', 'form'].includes(tag)) score -= 3;
+            return score;
+        };
+        const scores = new Map();
+        const vote = (el, points) => {
+            if (!el || el === document.documentElement) return;
+            if (!scores.has(el)) scores.set(el, initialScore(el));
+            scores.set(el, scores.get(el) + points);
+        };
+        for (const p of Array.from(document.body.querySelectorAll('p, pre, td, blockquote'))) {
+            if (isBoilerplate(p)) continue;
+            const text = textOf(p);
+            if (text.length < 25) continue;
+            const points = 1 + text.split(/[,，、]/).length + Math.min(Math.floor(text.length / 100), 3);
+            vote(p.parentElement, points);
+            if (p.parentElement) vote(p.parentElement.parentElement, points / 2);
+        }
+        const linkDensity = el => {
+            const total = textOf(el).length;
+            if (!total) return 1;
+            let links = 0;
+            for (const a of Array.from(el.querySelectorAll('a'))) links += textOf(a).length;
+            return Math.min(1, links / total);
+        };
+        const finalScore = el => scores.get(el) * (1 - linkDensity(el));
+        let best = null;
+        let bestScore = 0;
+        for (const el of scores.keys()) {
+            const score = finalScore(el);
+            if (score > bestScore) {
+                best = el;
+                bestScore = score;
+            }
+        }
+        // Paragraphs split across sibling blocks: take the ancestor holding
+        // them when it scores close to the best block.
+        while (best && best.parentElement && best.parentElement !== document.body
+            && scores.has(best.parentElement) && finalScore(best.parentElement) >= bestScore * 0.75) {
+            best = best.parentElement;
+        }
+        if (!best || bestScore < 10) {
+            best = document.querySelector('article, main, [role="main"]');
+        }
+        if (!best) return false;
+        best.setAttribute('data-ai-content-root', '');
+        return true;
+    })()`
+}
+
 /**
  * Marks paragraphs with data attributes and returns their HTML for translation
  */
 export function getMarkParagraphsScript(): string {
     return `(() => {
-        const root = document.querySelector('article') || document.getElementById('main') || document.body;
+        const root = ${ARTICLE_ROOT};
         if (!root) return [];
         
         // Check if element is a container (has block children)
@@ -262,13 +384,18 @@ export function getMarkParagraphsScript(): string {
 /**
  * Inserts translated text after a marked paragraph
  */
-export function getInsertTranslationScript(index: number, translated: string): string {
+export function getInsertTranslationScript(
+    index: number,
+    translated: string,
+    glossaryMissed?: string[]
+): string {
     const safe = JSON.stringify(String(translated || ""))
     const failedRe = FAILED_RE.source
     const failedLabel = JSON.stringify(
         intl.get("ai.translationFailedHint") ||
             "此段翻译失败，点此重试 / Translation failed for this paragraph — click to retry"
     )
+    const glossaryLabel = JSON.stringify(glossaryHint(glossaryMissed))
     return `(() => {
         const el = document.querySelector('[data-ai-para-index="' + ${index} + '"]');
         if (!el) {
@@ -294,6 +421,7 @@ export function getInsertTranslationScript(index: number, translated: string): s
         div.className = 'ai-translation';
         const failedRe = new RegExp(${JSON.stringify(failedRe)}, 'i');
         const failedLabel = ${failedLabel};
+        const glossaryLabel = ${glossaryLabel};
         const text = ${safe};
         if (failedRe.test(text)) {
             div.classList.add('ai-translation-failed');
@@ -308,6 +436,7 @@ export function getInsertTranslationScript(index: number, translated: string): s
             div.style.cssText = 'color:var(--gray, #666);font-style:italic;margin:4px 0 12px 0;padding:0;font-size:0.95em;line-height:1.7;opacity:0.85;';
             const html = text;
             div.innerHTML = ${SANITIZE_HTML_BODY};
+            ${GLOSSARY_HINT_BODY}
         }
         if (el.parentNode) el.parentNode.insertBefore(div, el.nextSibling);
         return true;
@@ -318,6 +447,12 @@ export function getInsertTranslationScript(index: number, translated: string): s
 // markers written by translateTextByParagraph in aiClient.ts.
 const FAILED_RE = /\[\s*翻译失败\s*\]|\[\s*Translation failed\s*\]|翻译失败|translation\s*failed/i
 
+/** The clickable hint under a paragraph that missed glossary terms, if any. */
+function glossaryHint(glossaryMissed?: string[]): string {
+    if (!glossaryMissed || glossaryMissed.length === 0) return ""
+    return intl.get("ai.glossary.failedHint", { terms: glossaryMissed.join(", ") })
+}
+
 /**
  * Inserts multiple translated paragraphs in a single IPC round-trip.
  * `items` is an array of { index, translated }. This collapses N
@@ -325,13 +460,19 @@ const FAILED_RE = /\[\s*翻译失败\s*\]|\[\s*Translation failed\s*\]|翻译失
  *
  * Failure markers ("[翻译失败]" / "[Translation failed]") are rendered as a
  * distinct, clickable hint instead of plain text so the user knows that
- * specific paragraph failed and can re-run translation to retry it.
+ * specific paragraph failed and can re-run translation to retry it. A
+ * paragraph that missed glossary terms keeps its translation, with a hint
+ * of the same kind under it.
  */
 export function getInsertTranslationsBatchScript(
-    items: Array<{ index: number; translated: string }>
+    items: Array<{ index: number; translated: string; glossaryMissed?: string[] }>
 ): string {
     const safe = JSON.stringify(
-        items.map(it => ({ index: it.index, translated: String(it.translated || "") }))
+        items.map(it => ({
+            index: it.index,
+            translated: String(it.translated || ""),
+            glossaryLabel: glossaryHint(it.glossaryMissed),
+        }))
     )
     const failedRe = FAILED_RE.source
     const failedLabel = JSON.stringify(
@@ -344,6 +485,7 @@ export function getInsertTranslationsBatchScript(
         const failedLabel = ${failedLabel};
         let inserted = 0;
         for (const item of items) {
+            const glossaryLabel = item.glossaryLabel;
             const el = document.querySelector('[data-ai-para-index="' + item.index + '"]');
             if (!el) continue;
             let next = el.nextSibling;
@@ -378,6 +520,7 @@ export function getInsertTranslationsBatchScript(
                 div.style.cssText = 'color:var(--gray, #666);font-style:italic;margin:4px 0 12px 0;padding:0;font-size:0.95em;line-height:1.7;opacity:0.85;';
                 const html = item.translated;
                 div.innerHTML = ${SANITIZE_HTML_BODY};
+                ${GLOSSARY_HINT_BODY}
             }
             if (el.parentNode) el.parentNode.insertBefore(div, el.nextSibling);
             inserted++;
@@ -406,7 +549,7 @@ export function getFailedRetryFlagScript(): string {
 export function getAppendGlobalTranslationScript(translated: string): string {
     const safe = JSON.stringify(String(translated || ""))
     return `(() => {
-        const root = document.querySelector('article') || document.getElementById('main') || document.body;
+        const root = ${ARTICLE_ROOT};
         if (!root) return false;
         let box = document.getElementById('ai-translation-global');
         if (!box) {
@@ -447,7 +590,7 @@ export function getSetTranslationVisibilityScript(show: boolean): string {
 export function getTranslationSpinnerScript(show: boolean): string {
     if (show) {
         return `(() => {
-            const root = document.querySelector('article') || document.getElementById('main') || document.body;
+            const root = ${ARTICLE_ROOT};
             if (!root) return false;
             let loader = document.getElementById('ai-translation-loader');
             if (loader) { loader.style.display = 'flex'; return true; }
@@ -494,7 +637,7 @@ export function getCleanupTranslationsScript(): string {
  */
 export function getIsArticleReadyScript(): string {
     return `(() => {
-        const root = document.querySelector('article') || document.getElementById('main') || document.body;
+        const root = ${ARTICLE_ROOT};
         if (!root) return false;
         const main = document.getElementById('main');
         if (main && main.classList && main.classList.contains('show')) return true;
@@ -513,7 +656,7 @@ export function getWaitForArticleReadyScript(timeoutMs: number = 12000, pollMs:
         return new Promise(resolve => {
             const done = () => { resolve(true); };
             const isReady = () => {
-                const root = document.querySelector('article') || document.getElementById('main') || document.body;
+                const root = ${ARTICLE_ROOT};
                 if (!root) {
                     return false;
                 }
@@ -573,8 +716,9 @@ export function getWaitForArticleReadyScript(timeoutMs: number = 12000, pollMs:
  */
 export function getRootHTMLScript(): string {
     return `(() => {
-        const root = document.querySelector('article') || document.getElementById('main') || document.body;
+        const root = ${ARTICLE_ROOT};
         if (!root) return '';
+        if (root.hasAttribute('data-ai-content-root')) return root.innerHTML || '';
         const main = document.getElementById('main');
         if (main) return main.innerHTML || '';
         const art = document.querySelector('article');
@@ -593,9 +737,7 @@ export function getRootHTMLScript(): string {
  */
 export function getArticlePlainTextScript(): string {
     return `(() => {
-        const root = document.querySelector('article')
-            || document.getElementById('main')
-            || document.body;
+        const root = ${ARTICLE_ROOT};
         if (!root) return '';
         // Clone so we can strip noise without mutating the live DOM.
         const clone = root.cloneNode(true);
@@ -620,3 +762,121 @@ export function getArticlePlainTextScript(): string {
         return text;
     })()`
 }
+
+// Text nodes of a read-aloud block, in order, leaving out nested noise.
+// Shared by the scripts below so that offsets agree between them.
+const SPEECH_TEXT_NODES = `(block) => {
+        const nodes = [];
+        const walker = document.createTreeWalker(block, NodeFilter.SHOW_TEXT);
+        for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+            const skipped = node.parentElement && node.parentElement.closest(
+                'script,style,noscript,pre,.ai-translation,.ai-summary,.title-translation'
+            );
+            if (skipped && skipped !== block && block.contains(skipped)) continue;
+            nodes.push(node);
+        }
+        return nodes;
+    }`
+
+/**
+ * Marks the blocks to read aloud with `data-speech-block` and returns their
+ * raw text, which sentence offsets refer to. `target` picks the article
+ * body (with its title), the injected AI summary or the injected
+ * translation.
+ */
+export function getMarkSpeechBlocksScript(target: SpeechTarget): string {
+    return `(() => {
+        const textNodes = ${SPEECH_TEXT_NODES};
+        for (const el of Array.from(document.querySelectorAll('[data-speech-block]'))) {
+            el.removeAttribute('data-speech-block');
+        }
+        if (!document.getElementById('speech-highlight-style')) {
+            const style = document.createElement('style');
+            style.id = 'speech-highlight-style';
+            style.textContent = '::highlight(speech){background-color:rgba(255,185,0,.35);}';
+            document.head.appendChild(style);
+        }
+        const target = ${JSON.stringify(target)};
+        let candidates = [];
+        if (target === 'summary') {
+            candidates = Array.from(document.querySelectorAll('.ai-summary-content'));
+        } else if (target === 'translation') {
+            candidates = Array.from(document.querySelectorAll(
+                '.title-translation, .ai-translation:not(.ai-translation-failed)'
+            ));
+        } else {
+            const root = document.querySelector('article')
+                || document.getElementById('main')
+                || document.body;
+            if (!root) return [];
+            const selector = 'p,h1,h2,h3,h4,h5,h6,li,blockquote,td,th,figcaption,dt,dd';
+            const title = document.querySelector('#main > .title');
+            if (title) candidates.push(title);
+            for (const el of Array.from(root.querySelectorAll(selector))) {
+                if (el.closest('pre,.ai-translation,.ai-summary')) continue;
+                // Containers are read through the blocks inside them.
+                if (el.querySelector(selector)) continue;
+                candidates.push(el);
+            }
+        }
+        const texts = [];
+        for (const el of candidates) {
+            // Hidden blocks, such as a summary toggled off, are not read.
+            if (el.getClientRects().length === 0) continue;
+            const text = textNodes(el).map(node => node.data).join('');
+            if (!text.trim()) continue;
+            el.setAttribute('data-speech-block', String(texts.length));
+            texts.push(text);
+        }
+        return texts;
+    })()`
+}
+
+/**
+ * Highlights the sentence being read (offsets into a block's raw text) and
+ * scrolls it into view when it is off screen.
+ */
+export function getSpeechHighlightScript(block: number, start: number, end: number): string {
+    return `(() => {
+        const textNodes = ${SPEECH_TEXT_NODES};
+        const el = document.querySelector('[data-speech-block="' + ${block} + '"]');
+        if (!el) return false;
+        const range = document.createRange();
+        let offset = 0;
+        let started = false;
+        for (const node of textNodes(el)) {
+            const length = node.data.length;
+            if (!started && ${start} < offset + length) {
+                range.setStart(node, ${start} - offset);
+                started = true;
+            }
+            if (started && ${end} <= offset + length) {
+                range.setEnd(node, ${end} - offset);
+                break;
+            }
+            offset += length;
+        }
+        if (!started) return false;
+        if (window.CSS && CSS.highlights) {
+            CSS.highlights.set('speech', new Highlight(range));
+        }
+        const rect = range.getBoundingClientRect();
+        if (rect.top < 0 || rect.bottom > window.innerHeight) {
+            window.scrollBy({ top: rect.top - window.innerHeight / 3, behavior: 'smooth' });
+        }
+        return true;
+    })()`
+}
+
+/**
+ * Removes the read-aloud highlight and block markers
+ */
+export function getClearSpeechScript(): string {
+    return `(() => {
+        if (window.CSS && CSS.highlights) CSS.highlights.delete('speech');
+        for (const el of Array.from(document.querySelectorAll('[data-speech-block]'))) {
+            el.removeAttribute('data-speech-block');
+        }
+        return true;
+    })()`
+}
@@ -0,0 +1,268 @@
+/**
+ * article-speech.ts
+ *
+ * Reads an article, its AI summary or its translation aloud, one sentence at
+ * a time, highlighting the sentence being read in the webview.
+ */
+
+import intl from "react-intl-universal"
+import { RSSSource } from "../scripts/models/source"
+import { AISpeechConfigs, AITask } from "../schema-types"
+import { synthesizeSpeech } from "../scripts/models/services/aiClient"
+import type { AiConfig } from "../scripts/models/services/aiClient"
+import { canReachProvider } from "../scripts/models/services/aiProviders"
+import { getSourceAIOverrides, resolveTaskConfigs } from "../scripts/models/services/aiProfiles"
+import { detectLanguage, primaryLanguage } from "../scripts/models/services/langDetect"
+import {
+    DEFAULT_SPEECH_MODEL,
+    DEFAULT_SPEECH_VOICE,
+    SpeechSentence,
+    SpeechTarget,
+    sentencesOf,
+} from "../scripts/models/services/speech"
+import type { WebViewExecutor } from "./article-ai"
+import * as ArticleScripts from "./article-scripts"
+
+export interface ArticleSpeechState {
+    speechStatus: "idle" | "loading" | "playing" | "paused"
+    // Index of the sentence being read, and how many there are.
+    speechSentence: number
+    speechTotal: number
+    speechError: string
+}
+
+/**
+ * Helper class to read an article aloud. The system engine speaks through
+ * speechSynthesis; the endpoint engine fetches each sentence from the speech
+ * endpoint, one sentence ahead of playback.
+ */
+export class ArticleSpeechHandler {
+    private sentences: SpeechSentence[] = []
+    private index = 0
+    // Bumped whenever playback stops or restarts, so that callbacks of the
+    // utterance or audio that was cut off are ignored.
+    private runId = 0
+    private rate = 1
+    private lang = ""
+    private endpoint: AiConfig | null = null
+    private abort?: AbortController
+    // Endpoint audio playing or paused, and object URLs by sentence index.
+    private audio: HTMLAudioElement | null = null
+    private audioUrls = new Map<number, Promise<string>>()
+
+    constructor(
+        private webviewExecutor: WebViewExecutor,
+        private getSource: () => RSSSource,
+        private updateState: (partial: Partial<ArticleSpeechState>) => void,
+        private onFinished: () => void
+    ) {}
+
+    private settings(): AISpeechConfigs {
+        return window.settings.getAIConfigs().speech || {}
+    }
+
+    /**
+     * The speech endpoint's config for the current source, or null when AI
+     * is off or no provider is set up.
+     */
+    private endpointConfig(): AiConfig | null {
+        const configs = window.settings.getAIConfigs()
+        const overrides = getSourceAIOverrides(this.getSource(), window.settings.loadGroups())
+        const resolved = resolveTaskConfigs(configs, AITask.Speech, overrides)
+        if (!configs.enabled || !canReachProvider(resolved)) return null
+        const source = this.getSource()
+        return {
+            baseUrl: resolved.baseUrl,
+            apiKey: resolved.apiKey,
+            provider: resolved.provider,
+            apiVersion: resolved.apiVersion,
+            defaultModel: this.settings().model || DEFAULT_SPEECH_MODEL,
+            usage: { task: AITask.Speech, sourceId: source?.sid, sourceName: source?.name },
+        }
+    }
+
+    /**
+     * Read `target` from its first sentence; resolves to false when it has
+     * no text to read.
+     */
+    async start(target: SpeechTarget, rate: number): Promise<boolean> {
+        this.stop()
+        const runId = this.runId
+        this.rate = rate
+        this.updateState({ speechStatus: "loading", speechError: "" })
+        await this.webviewExecutor.executeScript(ArticleScripts.getWaitForArticleReadyScript())
+        if (runId !== this.runId) return false
+        const blocks = await this.webviewExecutor.executeScript<string[]>(
+            ArticleScripts.getMarkSpeechBlocksScript(target)
+        )
+        if (runId !== this.runId) return false
+        this.sentences = sentencesOf(blocks || [])
+        if (this.sentences.length === 0) {
+            this.updateState({ speechStatus: "idle" })
+            return false
+        }
+        this.lang = primaryLanguage(detectLanguage(this.sentences.map(s => s.text).join(" ")))
+        this.endpoint = null
+        if (this.settings().engine === "endpoint") {
+            const endpoint = this.endpointConfig()
+            if (!endpoint) {
+                this.stop(intl.get("ai.notEnabled"))
+                return true
+            }
+            this.endpoint = endpoint
+            this.abort = new AbortController()
+        }
+        this.speak(runId, 0)
+        return true
+    }
+
+    pause(): void {
+        if (this.sentences.length === 0) return
+        this.runId += 1
+        if (this.audio) this.audio.pause()
+        else window.speechSynthesis.cancel()
+        this.updateState({ speechStatus: "paused" })
+    }
+
+    /** Go on where pause() stopped; system voices repeat the sentence. */
+    resume(): void {
+        if (this.sentences.length === 0) return
+        this.runId += 1
+        if (this.audio) this.playAudio(this.runId, this.index, this.audio)
+        else this.speak(this.runId, this.index)
+    }
+
+    setRate(rate: number): void {
+        this.rate = rate
+        if (this.audio) {
+            this.audio.playbackRate = rate
+        } else if (this.sentences.length > 0 && !this.endpoint) {
+            // An utterance keeps its rate, so the sentence starts over.
+            this.runId += 1
+            window.speechSynthesis.cancel()
+            this.speak(this.runId, this.index)
+        }
+    }
+
+    /** Stop reading, showing `error` if one ended it. */
+    stop(error = ""): void {
+        this.runId += 1
+        if (this.abort) this.abort.abort()
+        this.abort = undefined
+        window.speechSynthesis.cancel()
+        if (this.audio) this.audio.pause()
+        this.audio = null
+        for (const url of this.audioUrls.values()) {
+            url.then(u => URL.revokeObjectURL(u)).catch(() => {
+                /* never fetched */
+            })
+        }
+        this.audioUrls.clear()
+        if (this.sentences.length > 0) {
+            this.webviewExecutor.executeScript(ArticleScripts.getClearSpeechScript())
+        }
+        this.sentences = []
+        this.updateState({ speechStatus: "idle", speechError: error })
+    }
+
+    private speak(runId: number, index: number): void {
+        if (runId !== this.runId) return
+        if (index >= this.sentences.length) {
+            this.stop()
+            this.onFinished()
+            return
+        }
+        this.index = index
+        const sentence = this.sentences[index]
+        this.updateState({ speechSentence: index, speechTotal: this.sentences.length })
+        this.webviewExecutor.executeScript(
+            ArticleScripts.getSpeechHighlightScript(sentence.block, sentence.start, sentence.end)
+        )
+        if (this.endpoint) {
+            if (!this.audioUrls.has(index)) this.updateState({ speechStatus: "loading" })
+            this.fetchAudio(index)
+                .then(url => {
+                    if (runId !== this.runId) return
+                    if (index + 1 < this.sentences.length) {
+                        this.fetchAudio(index + 1).catch(() => {
+                            /* reported when its turn comes */
+                        })
+                    }
+                    this.playAudio(runId, index, new Audio(url))
+                })
+                .catch(error => {
+                    if (runId === this.runId && (error as Error).name !== "AbortError") {
+                        this.stop(`${intl.get("ai.failed")}: ${(error as Error).message}`)
+                    }
+                })
+        } else {
+            this.utter(runId, index)
+        }
+    }
+
+    private utter(runId: number, index: number): void {
+        const utterance = new SpeechSynthesisUtterance(this.sentences[index].text)
+        const voice = this.systemVoice()
+        if (voice) utterance.voice = voice
+        utterance.lang = voice ? voice.lang : this.lang
+        utterance.rate = this.rate
+        utterance.onend = () => this.speak(runId, index + 1)
+        utterance.onerror = event => {
+            if (
+                runId !== this.runId ||
+                event.error === "interrupted" ||
+                event.error === "canceled"
+            ) {
+                return
+            }
+            this.stop(`${intl.get("article.speech.failed")}: ${event.error}`)
+        }
+        window.speechSynthesis.speak(utterance)
+        this.updateState({ speechStatus: "playing" })
+    }
+
+    // The chosen voice, else an offline voice of the article's language.
+    private systemVoice(): SpeechSynthesisVoice | null {
+        const voices = window.speechSynthesis.getVoices()
+        const name = this.settings().systemVoice
+        return (
+            voices.find(voice => voice.name === name) ||
+            voices.find(voice => voice.localService && primaryLanguage(voice.lang) === this.lang) ||
+            null
+        )
+    }
+
+    private fetchAudio(index: number): Promise<string> {
+        let url = this.audioUrls.get(index)
+        if (!url) {
+            url = synthesizeSpeech(
+                this.endpoint!,
+                this.sentences[index].text,
+                this.settings().voice || DEFAULT_SPEECH_VOICE,
+                this.abort?.signal
+            ).then(blob => URL.createObjectURL(blob))
+            this.audioUrls.set(index, url)
+        }
+        return url
+    }
+
+    private playAudio(runId: number, index: number, audio: HTMLAudioElement): void {
+        this.audio = audio
+        audio.playbackRate = this.rate
+        audio.onended = () => {
+            if (runId !== this.runId) return
+            this.audio = null
+            const url = this.audioUrls.get(index)
+            this.audioUrls.delete(index)
+            if (url) url.then(u => URL.revokeObjectURL(u))
+            this.speak(runId, index + 1)
+        }
+        audio.onerror = () => {
+            if (runId === this.runId) this.stop(intl.get("article.speech.failed"))
+        }
+        audio.play().catch(error => {
+            if (runId === this.runId) this.stop(`${intl.get("article.speech.failed")}: ${error}`)
+        })
+        this.updateState({ speechStatus: "playing" })
+    }
+}
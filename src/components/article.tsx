@@ -1,7 +1,7 @@
 import * as React from "react"
 import intl from "react-intl-universal"
 import { renderToString } from "react-dom/server"
-import { RSSItem, isAudioEnclosure } from "../scripts/models/item"
+import { RSSItem, addReadTime, isAudioEnclosure } from "../scripts/models/item"
 import {
     Stack,
     CommandBarButton,
@@ -11,14 +11,25 @@ import {
     Spinner,
     Icon,
     Link,
+    IconButton,
+    Dropdown,
+    Checkbox,
 } from "@fluentui/react"
 import SourceIcon from "./utils/source-icon"
 import { RSSSource, SourceOpenTarget, SourceTextDirection } from "../scripts/models/source"
 import { shareSubmenu } from "./context-menu"
-import { platformCtrl, decodeFetchResponse } from "../scripts/utils"
+import { platformCtrl, domParser, fetchPage } from "../scripts/utils"
+import { extractFullText } from "../scripts/models/services/fullText"
 import { getEffectiveItem as buildEffectiveItem } from "./utils/effective-item"
 import { ArticleAIHandler, ArticleAIState } from "./article-ai"
+import { ArticleSpeechHandler, ArticleSpeechState } from "./article-speech"
+import ArticleChat from "./article-chat"
 import * as ArticleScripts from "./article-scripts"
+import { SPEECH_RATES, SpeechTarget } from "../scripts/models/services/speech"
+import { AISpeechConfigs } from "../schema-types"
+import { listPromptTemplates } from "../scripts/models/services/aiPrompts"
+import { promptTemplateName } from "./utils/ai-prompt-library"
+import { clearAIPreviewConfigs } from "./cards/ai-preview"
 
 const FONT_SIZE_OPTIONS = [12, 13, 14, 15, 16, 17, 18, 19, 20]
 
@@ -29,6 +40,7 @@ interface ArticleProps {
     shortcuts: (item: RSSItem, e: KeyboardEvent) => void
     dismiss: () => void
     offsetItem: (offset: number) => void
+    showNextUnread: () => Promise<boolean>
     toggleHasRead: (item: RSSItem) => void
     toggleStarred: (item: RSSItem) => void
     toggleHidden: (item: RSSItem) => void
@@ -36,27 +48,42 @@ interface ArticleProps {
     imageMenu: (position: [number, number]) => void
     dismissContextMenu: () => void
     updateSourceTextDirection: (source: RSSSource, direction: SourceTextDirection) => void
+    saveFullText: (item: RSSItem, fullText: string) => void
 }
 
-interface ArticleState extends ArticleAIState {
+interface ArticleState extends ArticleAIState, ArticleSpeechState {
     fontFamily: string
     fontSize: number
     loadWebpage: boolean
     loadFull: boolean
     fullContent: string
+    // Whether fullContent is the extracted article rather than the whole
+    // page, which the article view then runs its own parser on.
+    fullContentExtracted: boolean
     loaded: boolean
     error: boolean
     errorDescription: string
+    showChat: boolean
+    showSpeech: boolean
+    speechTarget: SpeechTarget
+    speechRate: number
+    continueSpeech: boolean
 }
 
 class Article extends React.Component<ArticleProps, ArticleState> {
     private webview: Electron.WebviewTag | null = null
     private aiHandler: ArticleAIHandler | null = null
+    private speechHandler: ArticleSpeechHandler | null = null
+    // Set when reading went on to the next unread article, which is read
+    // once its webview has loaded.
+    private speechPending = false
     private unmounted: boolean = false
     // Cache for the computed webview src. Building it runs renderToString +
     // encodeURIComponent over the whole article body, so we only recompute when
     // one of the inputs actually changes instead of on every render.
     private articleViewCache: { sig: string; url: string } | null = null
+    // When the current item was opened, for the reading time it earns.
+    private openedAt = Date.now()
 
     constructor(props: ArticleProps) {
         super(props)
@@ -66,9 +93,11 @@ class Article extends React.Component<ArticleProps, ArticleState> {
             loadWebpage: props.source.openTarget === SourceOpenTarget.Webpage,
             loadFull: props.source.openTarget === SourceOpenTarget.FullContent,
             fullContent: "",
+            fullContentExtracted: false,
             loaded: false,
             error: false,
             errorDescription: "",
+            showChat: false,
             aiSummary: "",
             aiSummaryLoading: false,
             showSummary: false,
@@ -79,6 +108,14 @@ class Article extends React.Component<ArticleProps, ArticleState> {
             translationProgress: 0,
             translationTotal: 0,
             translationRunId: 0,
+            showSpeech: false,
+            speechTarget: "article",
+            speechRate: window.settings.getAIConfigs().speech?.rate || 1,
+            continueSpeech: window.settings.getAIConfigs().speech?.continueToNext || false,
+            speechStatus: "idle",
+            speechSentence: 0,
+            speechTotal: 0,
+            speechError: "",
         }
         
         
@@ -94,6 +131,7 @@ class Article extends React.Component<ArticleProps, ArticleState> {
         window.utils.addWebviewErrorListener(this.webviewError)
         this.initWebviewReference()
         this.initAIHandler()
+        this.initSpeechHandler()
         
         const effectiveItem = this.getEffectiveItem()
         if (effectiveItem.autoFullText && !this.state.loadFull) {
@@ -104,6 +142,7 @@ class Article extends React.Component<ArticleProps, ArticleState> {
     componentDidUpdate = (prevProps: ArticleProps, prevState: ArticleState) => {
         if (prevProps.item._id !== this.props.item._id) {
             // Article changed - cleanup and reset
+            this.recordReadTime(prevProps.item)
             this.cleanupAIHandler()
             this.setState(
                 {
@@ -120,6 +159,7 @@ class Article extends React.Component<ArticleProps, ArticleState> {
                     translationTotal: 0,
                     translationRunId: 0,
                     fullContent: "",
+                    fullContentExtracted: false,
                 },
                 () => {
                     this.initAIHandler()
@@ -157,8 +197,15 @@ class Article extends React.Component<ArticleProps, ArticleState> {
         this.initWebviewReference()
     }
 
+    recordReadTime = (item: RSSItem) => {
+        const seconds = (Date.now() - this.openedAt) / 1000
+        this.openedAt = Date.now()
+        addReadTime(item, seconds).catch(err => console.warn("addReadTime failed:", err))
+    }
+
     componentWillUnmount = () => {
         this.unmounted = true
+        this.recordReadTime(this.props.item)
         if (this.webview) {
             this.webview.removeEventListener("did-stop-loading", this.webviewLoaded)
         }
@@ -171,6 +218,7 @@ class Article extends React.Component<ArticleProps, ArticleState> {
         ) as HTMLElement
         if (refocus) refocus.focus()
         this.cleanupAIHandler()
+        if (this.speechHandler) this.speechHandler.stop()
     }
 
     // --- AI Handler Initialization ---
@@ -183,7 +231,8 @@ class Article extends React.Component<ArticleProps, ArticleState> {
             () => this.props.item,
             () => this.props.source,
             () => this.getAIState(),
-            (partial) => this.updateAIState(partial)
+            (partial) => this.updateAIState(partial),
+            () => this.state.loadWebpage
         )
         
         // Load cached AI content
@@ -215,6 +264,22 @@ class Article extends React.Component<ArticleProps, ArticleState> {
         this.setState(prevState => ({ ...prevState, ...partial }))
     }
 
+    private initSpeechHandler = () => {
+        this.speechHandler = new ArticleSpeechHandler(
+            {
+                executeScript: <T = unknown>(code: string) => this.webviewExec<T>(code),
+            },
+            () => this.props.source,
+            partial => this.updateSpeechState(partial),
+            this.speechFinished
+        )
+    }
+
+    private updateSpeechState = (partial: Partial<ArticleSpeechState>) => {
+        if (this.unmounted) return
+        this.setState(prevState => ({ ...prevState, ...partial }))
+    }
+
     private getEffectiveItem = (): RSSItem => buildEffectiveItem(this.props.item, this.props.source)
 
     // --- WebView Management ---
@@ -226,6 +291,10 @@ class Article extends React.Component<ArticleProps, ArticleState> {
                 this.webview.removeEventListener("did-stop-loading", this.webviewLoaded)
             }
             this.webview = webview
+            // Marked blocks went away with the old page.
+            if (this.speechHandler && this.state.speechStatus !== "idle") {
+                this.speechHandler.stop()
+            }
             if (webview) {
                 webview.focus()
                 this.setState({ loaded: false, error: false })
@@ -265,6 +334,10 @@ class Article extends React.Component<ArticleProps, ArticleState> {
         this.setState({ loaded: true }, () => {
             this.injectCodeBlockStyles().catch(console.warn)
             this.injectReadingProgress().catch(console.warn)
+            if (this.speechPending) {
+                this.speechPending = false
+                this.readAloud().catch(err => console.warn("read aloud failed:", err))
+            }
 
             if (!this.aiHandler) return
             
@@ -277,21 +350,9 @@ class Article extends React.Component<ArticleProps, ArticleState> {
             
             // Handle translation injection
             if (this.state.showTranslation) {
-                if (this.state.aiTranslation.length > 0) {
-                    this.aiHandler.injectCachedTranslations().catch(err =>
-                        console.warn("inject cached translations failed:", err)
-                    )
-                }
-                if (this.state.titleTranslation) {
-                    this.aiHandler.injectTitleTranslation(this.state.titleTranslation).catch(err =>
-                        console.warn("inject title translation failed:", err)
-                    )
-                }
-                if (this.state.aiTranslation.length === 0 && !this.state.translationLoading) {
-                    this.aiHandler.translateArticle(this.state.fullContent).catch(err =>
-                        console.warn("translate after webviewLoaded failed:", err)
-                    )
-                }
+                this.aiHandler.restoreTranslation(this.state.fullContent).catch(err =>
+                    console.warn("restore translation after webviewLoaded failed:", err)
+                )
             }
             
             // Auto-run AI features if configured
@@ -512,6 +573,46 @@ class Article extends React.Component<ArticleProps, ArticleState> {
         ],
     })
 
+    private summaryMenuProps = (): IContextualMenuProps => ({
+        items: [
+            {
+                key: "header",
+                text: intl.get("ai.prompts.summarizeWith"),
+                itemType: ContextualMenuItemType.Header,
+            },
+            {
+                key: "default",
+                text: intl.get("ai.prompts.defaultPrompt"),
+                onClick: () => this.summarizeWith(),
+            },
+            ...listPromptTemplates(window.settings.getAIConfigs(), "summary").map(template => ({
+                key: template.id,
+                text: promptTemplateName(template),
+                onClick: () => this.summarizeWith(template.id),
+            })),
+        ],
+    })
+
+    private translationMenuProps = (): IContextualMenuProps => ({
+        items: [
+            {
+                key: "header",
+                text: intl.get("ai.prompts.translateWith"),
+                itemType: ContextualMenuItemType.Header,
+            },
+            {
+                key: "default",
+                text: intl.get("ai.prompts.defaultPrompt"),
+                onClick: () => this.translateWith(),
+            },
+            ...listPromptTemplates(window.settings.getAIConfigs(), "translation").map(template => ({
+                key: template.id,
+                text: promptTemplateName(template),
+                onClick: () => this.translateWith(template.id),
+            })),
+        ],
+    })
+
     private moreMenuProps = (): IContextualMenuProps => ({
         items: [
             {
@@ -603,14 +704,33 @@ class Article extends React.Component<ArticleProps, ArticleState> {
     }
 
     private loadFull = async () => {
-        this.setState({ fullContent: "", loaded: false, error: false })
-        const link = this.props.item.link
+        const item = this.props.item
+        if (item.fullText) {
+            this.setState({
+                fullContent: item.fullText,
+                fullContentExtracted: true,
+                loaded: true,
+                error: false,
+            })
+            return
+        }
+        this.setState({ fullContent: "", fullContentExtracted: false, loaded: false, error: false })
+        const link = item.link
         try {
-            const result = await fetch(link)
-            if (!result || !result.ok) throw new Error(`HTTP ${result?.status || "error"}`)
-            const html = await decodeFetchResponse(result, true)
+            const page = await fetchPage(link)
+            const extracted = extractFullText(
+                domParser.parseFromString(page.html, "text/html"),
+                page.url
+            )
+            if (extracted) this.props.saveFullText(item, extracted)
             if (!this.unmounted && link === this.props.item.link) {
-                this.setState({ fullContent: html, loaded: true })
+                // Pages that do not look like articles are left to the
+                // article view's parser.
+                this.setState({
+                    fullContent: extracted || page.html,
+                    fullContentExtracted: Boolean(extracted),
+                    loaded: true,
+                })
             }
         } catch (err) {
             const error = err as Error
@@ -639,12 +759,96 @@ class Article extends React.Component<ArticleProps, ArticleState> {
         }
     }
 
+    private summarizeWith = (templateId?: string) => {
+        if (this.aiHandler) {
+            this.aiHandler.summarizeWithTemplate(this.state.fullContent, templateId).catch(err => {
+                console.error("Summary with template error:", err)
+            })
+        }
+    }
+
     private toggleTranslation = async () => {
         if (this.aiHandler) {
             await this.aiHandler.toggleTranslation()
         }
     }
 
+    private translateWith = (templateId?: string) => {
+        if (this.aiHandler) {
+            this.aiHandler.translateWithTemplate(this.state.fullContent, templateId).catch(err => {
+                console.error("Translation with template error:", err)
+            })
+        }
+    }
+
+    private toggleChat = () => {
+        this.setState(prevState => ({ showChat: !prevState.showChat }))
+    }
+
+    private getArticleText = async (): Promise<string | null> =>
+        this.aiHandler ? this.aiHandler.getArticleText(this.state.fullContent) : null
+
+    // --- Read Aloud ---
+
+    private toggleSpeech = () => {
+        if (this.state.showSpeech && this.speechHandler) this.speechHandler.stop()
+        this.setState(prevState => ({ showSpeech: !prevState.showSpeech }))
+    }
+
+    private readAloud = async (target = this.state.speechTarget) => {
+        if (!this.speechHandler) return
+        let started = await this.speechHandler.start(target, this.state.speechRate)
+        // An article reached by continuing may have no summary or
+        // translation to read.
+        if (!started && target !== "article") {
+            started = await this.speechHandler.start("article", this.state.speechRate)
+        }
+        if (!started) this.updateSpeechState({ speechError: intl.get("article.speech.empty") })
+    }
+
+    private toggleSpeechPlayback = () => {
+        if (!this.speechHandler) return
+        if (this.state.speechStatus === "playing") {
+            this.speechHandler.pause()
+        } else if (this.state.speechStatus === "paused") {
+            this.speechHandler.resume()
+        } else if (this.state.speechStatus === "idle") {
+            this.readAloud().catch(err => console.warn("read aloud failed:", err))
+        }
+    }
+
+    private speechFinished = () => {
+        if (!this.state.continueSpeech) return
+        this.speechPending = true
+        this.props.showNextUnread().then(found => {
+            if (!found) this.speechPending = false
+        })
+    }
+
+    private saveSpeechSettings = (patch: Partial<AISpeechConfigs>) => {
+        const configs = window.settings.getAIConfigs()
+        window.settings.setAIConfigs({ ...configs, speech: { ...configs.speech, ...patch } })
+        clearAIPreviewConfigs()
+    }
+
+    private setSpeechTarget = (target: SpeechTarget) => {
+        this.setState({ speechTarget: target })
+        if (this.state.speechStatus !== "idle") {
+            this.readAloud(target).catch(err => console.warn("read aloud failed:", err))
+        }
+    }
+
+    private setSpeechRate = (rate: number) => {
+        this.setState({ speechRate: rate })
+        this.saveSpeechSettings({ rate })
+        if (this.speechHandler) this.speechHandler.setRate(rate)
+    }
+
+    private setContinueSpeech = (continueToNext: boolean) => {
+        this.setState({ continueSpeech: continueToNext })
+        this.saveSpeechSettings({ continueToNext })
+    }
+
     // --- Rendering ---
 
     /**
@@ -673,6 +877,81 @@ class Article extends React.Component<ArticleProps, ArticleState> {
         )
     }
 
+    /**
+     * Read-aloud controls, shown above the article while read aloud is on.
+     * The summary and translation can be read once they are shown.
+     */
+    private speechBar = () => {
+        if (!this.state.showSpeech) return null
+        const { speechStatus, speechSentence, speechTotal, speechError } = this.state
+        const targets = [
+            { key: "article", text: intl.get("article.speech.article") },
+            {
+                key: "summary",
+                text: intl.get("ai.summary"),
+                disabled: !this.state.aiSummary || !this.state.showSummary,
+            },
+            {
+                key: "translation",
+                text: intl.get("ai.translate"),
+                disabled: !this.state.showTranslation,
+            },
+        ]
+        return (
+            <div className="audio-bar" role="region" aria-label={intl.get("article.speech.title")}>
+                <Icon iconName="ReadOutLoud" style={{ fontSize: 16, color: "var(--primary)" }} />
+                {speechStatus === "loading" ? (
+                    <Spinner size={1} style={{ width: 32 }} />
+                ) : (
+                    <IconButton
+                        title={intl.get(
+                            speechStatus === "playing" ? "article.speech.pause" : "article.speech.play"
+                        )}
+                        iconProps={{ iconName: speechStatus === "playing" ? "Pause" : "Play" }}
+                        onClick={this.toggleSpeechPlayback}
+                    />
+                )}
+                <IconButton
+                    title={intl.get("article.speech.stop")}
+                    iconProps={{ iconName: "Stop" }}
+                    disabled={speechStatus === "idle"}
+                    onClick={() => this.speechHandler && this.speechHandler.stop()}
+                />
+                <Dropdown
+                    ariaLabel={intl.get("article.speech.target")}
+                    options={targets}
+                    selectedKey={this.state.speechTarget}
+                    onChange={(_, option) => this.setSpeechTarget(option.key as SpeechTarget)}
+                    styles={{ root: { width: 120 } }}
+                />
+                <Dropdown
+                    ariaLabel={intl.get("article.speech.rate")}
+                    options={SPEECH_RATES.map(rate => ({ key: rate, text: `${rate}×` }))}
+                    selectedKey={this.state.speechRate}
+                    onChange={(_, option) => this.setSpeechRate(option.key as number)}
+                    styles={{ root: { width: 72 } }}
+                />
+                <Checkbox
+                    label={intl.get("article.speech.continue")}
+                    checked={this.state.continueSpeech}
+                    onChange={(_, checked) => this.setContinueSpeech(checked)}
+                />
+                <span
+                    style={{
+                        flex: 1,
+                        textAlign: "end",
+                        fontSize: 12,
+                        color: speechError ? "#d13438" : "var(--neutralSecondary)",
+                    }}>
+                    {speechError ||
+                        (speechStatus !== "idle" && speechTotal > 0
+                            ? `${speechSentence + 1} / ${speechTotal}`
+                            : "")}
+                </span>
+            </div>
+        )
+    }
+
     private articleView = () => {
         const articleContent = this.state.loadFull
             ? this.state.fullContent
@@ -681,8 +960,10 @@ class Article extends React.Component<ArticleProps, ArticleState> {
         // Signature covers every input that affects the generated URL. If none
         // changed since the last call, reuse the cached URL and skip the
         // expensive renderToString + encodeURIComponent pass.
+        const parse = this.state.loadFull && !this.state.fullContentExtracted
         const sig = [
             this.state.loadFull ? "1" : "0",
+            parse ? "1" : "0",
             articleContent,
             this.props.item.title,
             String(this.props.item.date.getTime()),
@@ -729,7 +1010,7 @@ class Article extends React.Component<ArticleProps, ArticleState> {
         const url = `article/article.html?a=${a}&h=${h}&f=${encodeURIComponent(
             this.state.fontFamily
         )}&s=${this.state.fontSize}&d=${this.props.source.textDir}&u=${this.props.item.link}&m=${
-            this.state.loadFull ? 1 : 0
+            parse ? 1 : 0
         }`
         this.articleViewCache = { sig, url }
         return url
@@ -799,6 +1080,8 @@ class Article extends React.Component<ArticleProps, ArticleState> {
                         title={intl.get("ai.summary")}
                         className={this.state.showSummary ? "active" : ""}
                         iconProps={{ iconName: "Lightbulb" }}
+                        split
+                        menuProps={this.summaryMenuProps()}
                         onClick={() => {
                             this.toggleSummary().catch(err => {
                                 console.error("Summary toggle error:", err)
@@ -810,9 +1093,23 @@ class Article extends React.Component<ArticleProps, ArticleState> {
                         title={intl.get("ai.translate")}
                         className={this.state.showTranslation ? "active" : ""}
                         iconProps={{ iconName: "LocaleLanguage" }}
+                        split
+                        menuProps={this.translationMenuProps()}
                         onClick={this.toggleTranslation}
                         disabled={this.state.translationLoading}
                     />
+                    <CommandBarButton
+                        title={intl.get("article.speech.title")}
+                        className={this.state.showSpeech ? "active" : ""}
+                        iconProps={{ iconName: "ReadOutLoud" }}
+                        onClick={this.toggleSpeech}
+                    />
+                    <CommandBarButton
+                        title={intl.get("ai.chat.title")}
+                        className={this.state.showChat ? "active" : ""}
+                        iconProps={{ iconName: "Chat" }}
+                        onClick={this.toggleChat}
+                    />
                     <CommandBarButton
                         title={intl.get("more")}
                         iconProps={{ iconName: "More" }}
@@ -829,6 +1126,7 @@ class Article extends React.Component<ArticleProps, ArticleState> {
                 </Stack>
             </Stack>
             {this.audioBar()}
+            {this.speechBar()}
             {(!this.state.loadFull || this.state.fullContent) && (
                 <webview
                     id="article"
@@ -847,6 +1145,15 @@ class Article extends React.Component<ArticleProps, ArticleState> {
                     partition={this.state.loadWebpage ? "sandbox" : undefined}
                 />
             )}
+            {this.state.showChat && (
+                <ArticleChat
+                    key={this.props.item._id}
+                    item={this.props.item}
+                    source={this.props.source}
+                    getArticleText={this.getArticleText}
+                    onDismiss={this.toggleChat}
+                />
+            )}
             {this.state.error && (
                 <Stack
                     className="error-prompt"
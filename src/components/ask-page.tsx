@@ -0,0 +1,211 @@
+import * as React from "react"
+import intl from "react-intl-universal"
+import {
+    DefaultButton,
+    Link,
+    MessageBar,
+    MessageBarType,
+    PrimaryButton,
+    Spinner,
+    SpinnerSize,
+    Stack,
+    TextField,
+} from "@fluentui/react"
+import { RSSItem } from "../scripts/models/item"
+import { SourceState } from "../scripts/models/source"
+import { isProviderConfigured } from "../scripts/models/services/aiProviders"
+import {
+    answerFromItems,
+    findRelevantItems,
+    resolveAskConfigs,
+} from "../scripts/models/services/aiLibrary"
+import CitedText from "./utils/cited-text"
+
+type AskPageProps = {
+    sources: SourceState
+    showItem: (iid: number) => void
+}
+
+type AskPageState = {
+    question: string
+    status: "idle" | "searching" | "answering"
+    items: RSSItem[]
+    answer: string
+    indexed: number | null
+    error: string
+}
+
+/**
+ * Questions across the whole library. The articles closest to the question
+ * are looked up in the embedding index and the answer cites them by number;
+ * citations open the article.
+ */
+class AskPage extends React.Component<AskPageProps, AskPageState> {
+    state: AskPageState = {
+        question: "",
+        status: "idle",
+        items: [],
+        answer: "",
+        indexed: null,
+        error: "",
+    }
+    private abort?: AbortController
+    private unmounted = false
+
+    componentDidMount() {
+        window.settings
+            .getAIIndexStats()
+            .then(stats => {
+                if (!this.unmounted) this.setState({ indexed: stats.count })
+            })
+            .catch(() => {
+                /* non-fatal: the hint is informational */
+            })
+    }
+
+    componentWillUnmount() {
+        this.unmounted = true
+        if (this.abort) this.abort.abort()
+    }
+
+    ask = async () => {
+        const question = this.state.question.trim()
+        if (!question || this.state.status !== "idle") return
+        const configs = resolveAskConfigs()
+        if (!configs.enabled || !isProviderConfigured(configs)) {
+            this.setState({ error: intl.get("ai.notEnabled") })
+            return
+        }
+        const controller = new AbortController()
+        this.abort = controller
+        this.setState({ status: "searching", items: [], answer: "", error: "" })
+        try {
+            const items = await findRelevantItems(question, controller.signal)
+            if (this.unmounted) return
+            if (items.length === 0) {
+                this.setState({ status: "idle", error: intl.get("ask.noMatches") })
+                return
+            }
+            this.setState({ items, status: "answering" })
+            const answer = await answerFromItems(
+                question,
+                items,
+                controller.signal,
+                (_delta, accumulated) => {
+                    if (!this.unmounted) this.setState({ answer: accumulated })
+                }
+            )
+            if (!this.unmounted) this.setState({ answer, status: "idle" })
+        } catch (error) {
+            if (this.unmounted) return
+            const err = error as Error
+            this.setState({
+                status: "idle",
+                error:
+                    err.name === "AbortError"
+                        ? ""
+                        : `${intl.get("ai.failed")}: ${err.message || String(error)}`,
+            })
+        }
+    }
+
+    stop = () => {
+        if (this.abort) this.abort.abort()
+    }
+
+    onKeyDown = (event: React.KeyboardEvent) => {
+        if (event.key === "Enter" && !event.nativeEvent.isComposing) {
+            event.preventDefault()
+            this.ask()
+        }
+    }
+
+    private openCitation = (n: number) => {
+        const item = this.state.items[n - 1]
+        if (item) this.props.showItem(item._id)
+    }
+
+    private renderSource = (item: RSSItem) => {
+        const source = this.props.sources[item.source]
+        return (
+            <li key={item._id}>
+                <Link onClick={() => this.props.showItem(item._id)}>{item.title}</Link>
+                <span style={{ color: "var(--neutralSecondary)" }}>
+                    {" · "}
+                    {source ? source.name : ""}
+                    {" · "}
+                    {item.date.toLocaleDateString()}
+                </span>
+            </li>
+        )
+    }
+
+    render() {
+        const { status, items, answer, indexed, error } = this.state
+        return (
+            <Stack
+                className="ask-page"
+                tokens={{ childrenGap: 12 }}
+                style={{ padding: "16px 20px", overflowY: "auto", height: "100%" }}>
+                <h2 style={{ margin: 0 }}>{intl.get("ask.title")}</h2>
+                {indexed === 0 && (
+                    <MessageBar messageBarType={MessageBarType.info}>
+                        {intl.get("ask.emptyIndex")}
+                    </MessageBar>
+                )}
+                <Stack horizontal tokens={{ childrenGap: 8 }}>
+                    <Stack.Item grow>
+                        <TextField
+                            placeholder={intl.get("ask.placeholder")}
+                            value={this.state.question}
+                            onChange={(_, question) => this.setState({ question: question || "" })}
+                            onKeyDown={this.onKeyDown}
+                        />
+                    </Stack.Item>
+                    {status === "idle" ? (
+                        <PrimaryButton
+                            text={intl.get("ask.ask")}
+                            disabled={!this.state.question.trim()}
+                            onClick={this.ask}
+                        />
+                    ) : (
+                        <DefaultButton text={intl.get("ai.chat.stop")} onClick={this.stop} />
+                    )}
+                </Stack>
+                {error && (
+                    <MessageBar
+                        messageBarType={MessageBarType.error}
+                        onDismiss={() => this.setState({ error: "" })}>
+                        {error}
+                    </MessageBar>
+                )}
+                {status === "searching" && (
+                    <Spinner size={SpinnerSize.small} label={intl.get("ask.searching")} />
+                )}
+                {(answer || status === "answering") && (
+                    <div style={{ whiteSpace: "pre-wrap", userSelect: "text", lineHeight: 1.6 }}>
+                        {answer ? (
+                            <CitedText
+                                text={answer}
+                                count={items.length}
+                                onCite={this.openCitation}
+                            />
+                        ) : (
+                            "…"
+                        )}
+                    </div>
+                )}
+                {items.length > 0 && (
+                    <div>
+                        <b>{intl.get("ask.sources")}</b>
+                        <ol style={{ paddingInlineStart: 24, margin: "8px 0" }}>
+                            {items.map(this.renderSource)}
+                        </ol>
+                    </div>
+                )}
+            </Stack>
+        )
+    }
+}
+
+export default AskPage
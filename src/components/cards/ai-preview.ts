@@ -0,0 +1,112 @@
+import * as React from "react"
+import { RSSItem } from "../../scripts/models/item"
+import { RSSSource } from "../../scripts/models/source"
+import { AIConfigs, AITask, SourceGroup } from "../../schema-types"
+import { getSourceAIOverrides, resolveTaskConfigs } from "../../scripts/models/services/aiProfiles"
+import { articleCacheKeys } from "../../scripts/models/services/aiCacheKey"
+import { onItemPreprocessed } from "../../scripts/models/services/aiPreprocess"
+
+export type AIPreview = {
+    summary: string
+    titleTranslation: string
+}
+
+/** Translated title line, shown under the original in the title's font. */
+export const TITLE_TRANSLATION_STYLE: React.CSSProperties = {
+    color: "var(--neutralSecondary)",
+    margin: 0,
+    overflow: "hidden",
+    textOverflow: "ellipsis",
+    whiteSpace: "nowrap",
+}
+
+const EMPTY_PREVIEW: AIPreview = { summary: "", titleTranslation: "" }
+
+/** A summary as one line of plain text: markdown markers and breaks dropped. */
+const plainSummary = (summary: string) =>
+    summary
+        .replace(/^\s*(#{1,6}|[-*+]|\d+\.)\s+/gm, "")
+        .replace(/[*_`]+/g, "")
+        .replace(/\s+/g, " ")
+        .trim()
+
+type PreviewConfigs = { summary: AIConfigs; translation: AIConfigs }
+
+// Read once for all cards instead of over sync IPC per card; dropped by
+// clearAIPreviewConfigs when the settings page saves new configs.
+let aiConfigs: AIConfigs = null
+// Task configs per source object, with the groups they were resolved against.
+// Sources are replaced on update, so their own overrides never go stale.
+let resolved = new WeakMap<RSSSource, { groups: SourceGroup[]; configs: PreviewConfigs }>()
+
+/** Forgets the AI configs previews were resolved with, after they change. */
+export function clearAIPreviewConfigs() {
+    aiConfigs = null
+    resolved = new WeakMap()
+}
+
+function previewConfigs(source: RSSSource, groups: SourceGroup[]): PreviewConfigs {
+    const memo = resolved.get(source)
+    if (memo && memo.groups === groups) return memo.configs
+    if (!aiConfigs) aiConfigs = window.settings.getAIConfigs()
+    const overrides = getSourceAIOverrides(source, groups)
+    const configs = {
+        summary: resolveTaskConfigs(aiConfigs, AITask.Summary, overrides),
+        translation: resolveTaskConfigs(aiConfigs, AITask.Translation, overrides),
+    }
+    resolved.set(source, { groups, configs })
+    return configs
+}
+
+async function loadPreview(
+    item: { title: string; content: string; link: string },
+    source: RSSSource,
+    groups: SourceGroup[]
+): Promise<AIPreview> {
+    const configs = previewConfigs(source, groups)
+    const keys = articleCacheKeys(item, configs.summary, configs.translation)
+    const [summary, titleTranslation] = await Promise.all([
+        window.settings.getAICache(keys.summary.key),
+        window.settings.getAICache(keys.titleTranslation.key),
+    ])
+    return {
+        summary: summary ? plainSummary(summary.value) : "",
+        titleTranslation: titleTranslation?.value || "",
+    }
+}
+
+/**
+ * The cached AI summary and translated title of an item, for cards to show
+ * in place of the snippet and under the title. Nothing is generated here;
+ * the preview fills in when the background queue finishes the item.
+ */
+export function useAIPreview(
+    item: RSSItem,
+    source: RSSSource,
+    groups: SourceGroup[],
+    enabled: boolean
+): AIPreview {
+    const [preview, setPreview] = React.useState(EMPTY_PREVIEW)
+    // Keyed on the fields the cache keys are made from, so that marking the
+    // item read or starred does not load the preview again.
+    const { _id, title, content, link } = item
+    React.useEffect(() => {
+        if (!enabled || !source) return
+        let active = true
+        const load = () =>
+            loadPreview({ title, content, link }, source, groups)
+                .then(result => active && setPreview(result))
+                .catch(() => {
+                    /* non-fatal: the card shows the snippet */
+                })
+        load()
+        const unsubscribe = onItemPreprocessed(itemId => {
+            if (itemId === _id) load()
+        })
+        return () => {
+            active = false
+            unsubscribe()
+        }
+    }, [_id, title, content, link, source, groups, enabled])
+    return enabled ? preview : EMPTY_PREVIEW
+}
@@ -3,15 +3,19 @@ import { RSSSource, SourceOpenTarget } from "../../scripts/models/source"
 import { RSSItem } from "../../scripts/models/item"
 import { platformCtrl } from "../../scripts/utils"
 import { FeedFilter } from "../../scripts/models/feed"
-import { ViewConfigs } from "../../schema-types"
+import { SourceGroup, ViewConfigs } from "../../schema-types"
 
 export type CardProps = {
     feedId: string
     item: RSSItem
     source: RSSSource
+    // For the AI overrides of the groups the source is in.
+    groups: SourceGroup[]
     filter: FeedFilter
     selected?: boolean
     viewConfigs?: ViewConfigs
+    // Other items of the story this card leads.
+    duplicates?: RSSItem[]
     shortcuts: (item: RSSItem, e: KeyboardEvent) => void
     markRead: (item: RSSItem) => void
     contextMenu: (feedId: string, item: RSSItem, e) => void
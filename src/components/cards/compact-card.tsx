@@ -1,9 +1,13 @@
 import * as React from "react"
 import { CardProps, bindEventsToProps } from "./card"
 import CardInfo from "./info"
+import Duplicates from "./duplicates"
+import Relevance from "./relevance"
 import Time from "../utils/time"
 import Highlights from "./highlights"
 import { SourceTextDirection } from "../../scripts/models/source"
+import { ViewConfigs } from "../../schema-types"
+import { useAIPreview } from "./ai-preview"
 
 const className = (props: CardProps) => {
     const cn = ["card", "compact-card"]
@@ -12,24 +16,44 @@ const className = (props: CardProps) => {
     return cn.join(" ")
 }
 
-const CompactCard: React.FunctionComponent<CardProps> = props => (
-    <div
-        className={className(props)}
-        {...bindEventsToProps(props)}
-        data-iid={props.item._id}
-        data-is-focusable
-    >
-        <CardInfo source={props.source} item={props.item} hideTime />
-        <div className="data">
-            <span className="title">
-                <Highlights text={props.item.title} filter={props.filter} title />
-            </span>
-            <span className="snippet">
-                <Highlights text={props.item.snippet} filter={props.filter} />
-            </span>
+const CompactCard: React.FunctionComponent<CardProps> = props => {
+    const ai = useAIPreview(
+        props.item,
+        props.source,
+        props.groups,
+        Boolean(props.viewConfigs & ViewConfigs.ShowAISummary)
+    )
+
+    return (
+        <div
+            className={className(props)}
+            {...bindEventsToProps(props)}
+            data-iid={props.item._id}
+            data-is-focusable
+        >
+            <CardInfo source={props.source} item={props.item} hideTime>
+                <Duplicates {...props} />
+                <Relevance {...props} />
+            </CardInfo>
+            <div className="data">
+                <span className="title">
+                    <Highlights text={props.item.title} filter={props.filter} title />
+                </span>
+                {ai.titleTranslation && (
+                    <span
+                        className="title-translation"
+                        style={{ color: "var(--neutralSecondary)", marginRight: 6 }}
+                    >
+                        {ai.titleTranslation}
+                    </span>
+                )}
+                <span className="snippet">
+                    <Highlights text={ai.summary || props.item.snippet} filter={props.filter} />
+                </span>
+            </div>
+            <Time date={props.item.date} />
         </div>
-        <Time date={props.item.date} />
-    </div>
-)
+    )
+}
 
 export default React.memo(CompactCard)
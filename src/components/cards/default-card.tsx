@@ -1,8 +1,12 @@
 import * as React from "react"
 import { CardProps, bindEventsToProps } from "./card"
 import CardInfo from "./info"
+import Duplicates from "./duplicates"
+import Relevance from "./relevance"
 import Highlights from "./highlights"
 import { SourceTextDirection } from "../../scripts/models/source"
+import { ViewConfigs } from "../../schema-types"
+import { TITLE_TRANSLATION_STYLE, useAIPreview } from "./ai-preview"
 
 const className = (props: CardProps, thumbVisible: boolean) => {
     const cn = ["card", "default-card"]
@@ -24,6 +28,12 @@ const DefaultCard: React.FunctionComponent<CardProps> = props => {
     const [thumbVisible, setThumbVisible] = React.useState(true)
     const onThumbError = React.useCallback(() => setThumbVisible(false), [])
     const hasThumb = Boolean(props.item.thumb) && thumbVisible
+    const ai = useAIPreview(
+        props.item,
+        props.source,
+        props.groups,
+        Boolean(props.viewConfigs & ViewConfigs.ShowAISummary)
+    )
 
     return (
         <div
@@ -39,12 +49,27 @@ const DefaultCard: React.FunctionComponent<CardProps> = props => {
             {hasThumb ? (
                 <img className="head" src={props.item.thumb} onError={onThumbError} />
             ) : null}
-            <CardInfo source={props.source} item={props.item} />
+            <CardInfo source={props.source} item={props.item}>
+                <Duplicates {...props} />
+                <Relevance {...props} />
+            </CardInfo>
             <h3 className="title">
                 <Highlights text={props.item.title} filter={props.filter} title />
             </h3>
+            {ai.titleTranslation && (
+                <p
+                    className="title-translation"
+                    style={{
+                        ...TITLE_TRANSLATION_STYLE,
+                        margin: "-6px 12px 0",
+                        position: "relative",
+                    }}
+                >
+                    {ai.titleTranslation}
+                </p>
+            )}
             <p className={"snippet" + (hasThumb ? "" : " show")}>
-                <Highlights text={props.item.snippet} filter={props.filter} />
+                <Highlights text={ai.summary || props.item.snippet} filter={props.filter} />
             </p>
         </div>
     )
@@ -0,0 +1,81 @@
+import * as React from "react"
+import intl from "react-intl-universal"
+import { Callout, DirectionalHint, Link } from "@fluentui/react"
+import { CardProps } from "./card"
+import { RSSItem } from "../../scripts/models/item"
+import { SourceOpenTarget } from "../../scripts/models/source"
+import { platformCtrl } from "../../scripts/utils"
+import { useAppSelector } from "../../scripts/reducer"
+
+// Keeps clicks inside the badge and its callout (which React bubbles
+// through the portal) from also opening the card.
+const stop = (e: React.SyntheticEvent) => e.stopPropagation()
+
+/**
+ * The "also reported by" badge of a card leading a story that other sources
+ * carry too, with the duplicates listed in a callout.
+ */
+const Duplicates: React.FunctionComponent<CardProps> = props => {
+    const [open, setOpen] = React.useState(false)
+    const target = React.useRef<HTMLSpanElement>(null)
+    const sources = useAppSelector(state => state.sources)
+    const items = props.duplicates
+    if (!items || items.length === 0) return null
+    const count = new Set(items.map(item => item.source)).size
+
+    const openItem = (item: RSSItem, e: React.MouseEvent) => {
+        e.preventDefault()
+        setOpen(false)
+        props.markRead(item)
+        if (sources[item.source].openTarget === SourceOpenTarget.External) {
+            window.utils.openExternal(item.link, platformCtrl(e))
+        } else {
+            props.showItem(props.feedId, item)
+        }
+    }
+
+    return (
+        <span
+            ref={target}
+            className="duplicates"
+            onClick={stop}
+            onMouseUp={stop}
+            onKeyDown={stop}
+            style={{ flexShrink: 0, marginInlineStart: 6 }}>
+            <Link
+                title={intl.get("dedupe.alsoReported", { count })}
+                onClick={() => setOpen(!open)}
+                style={{ fontSize: "inherit" }}>
+                {`+${count}`}
+            </Link>
+            {open && (
+                <Callout
+                    target={target}
+                    directionalHint={DirectionalHint.bottomLeftEdge}
+                    onDismiss={() => setOpen(false)}
+                    setInitialFocus>
+                    <div
+                        onClick={stop}
+                        onMouseUp={stop}
+                        onKeyDown={stop}
+                        style={{ padding: "8px 12px", maxWidth: 360 }}>
+                        <b>{intl.get("dedupe.alsoReported", { count })}</b>
+                        <ul style={{ margin: "6px 0 0", paddingInlineStart: 18 }}>
+                            {items.map(item => (
+                                <li key={item._id} style={{ marginBottom: 4 }}>
+                                    <span style={{ color: "var(--neutralSecondary)" }}>
+                                        {sources[item.source]?.name}
+                                    </span>
+                                    {" · "}
+                                    <Link onClick={e => openItem(item, e)}>{item.title}</Link>
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                </Callout>
+            )}
+        </span>
+    )
+}
+
+export default Duplicates
@@ -8,6 +8,7 @@ type CardInfoProps = {
     item: RSSItem
     hideTime?: boolean
     showCreator?: boolean
+    children?: React.ReactNode
 }
 
 const CardInfo: React.FunctionComponent<CardInfoProps> = props => (
@@ -19,6 +20,7 @@ const CardInfo: React.FunctionComponent<CardInfoProps> = props => (
                 <span className="creator">{props.item.creator}</span>
             )}
         </span>
+        {props.children}
         {props.item.starred ? <span className="starred-indicator"></span> : null}
         {props.item.hasRead ? null : <span className="read-indicator"></span>}
         {props.hideTime ? null : <Time date={props.item.date} />}
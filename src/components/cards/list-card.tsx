@@ -1,9 +1,12 @@
 import * as React from "react"
 import { CardProps, bindEventsToProps } from "./card"
 import CardInfo from "./info"
+import Duplicates from "./duplicates"
+import Relevance from "./relevance"
 import Highlights from "./highlights"
 import { ViewConfigs } from "../../schema-types"
 import { SourceTextDirection } from "../../scripts/models/source"
+import { TITLE_TRANSLATION_STYLE, useAIPreview } from "./ai-preview"
 
 const className = (props: CardProps) => {
     const cn = ["card", "list-card"]
@@ -24,6 +27,12 @@ const ListCard: React.FunctionComponent<CardProps> = props => {
         Boolean(props.item.thumb) &&
         thumbVisible &&
         Boolean(props.viewConfigs & ViewConfigs.ShowCover)
+    const ai = useAIPreview(
+        props.item,
+        props.source,
+        props.groups,
+        Boolean(props.viewConfigs & ViewConfigs.ShowAISummary)
+    )
 
     return (
         <div
@@ -38,13 +47,21 @@ const ListCard: React.FunctionComponent<CardProps> = props => {
                 </div>
             ) : null}
             <div className="data">
-                <CardInfo source={props.source} item={props.item} />
+                <CardInfo source={props.source} item={props.item}>
+                    <Duplicates {...props} />
+                    <Relevance {...props} />
+                </CardInfo>
                 <h3 className="title">
                     <Highlights text={props.item.title} filter={props.filter} title />
                 </h3>
-                {Boolean(props.viewConfigs & ViewConfigs.ShowSnippet) && (
+                {ai.titleTranslation && (
+                    <p className="title-translation" style={TITLE_TRANSLATION_STYLE}>
+                        {ai.titleTranslation}
+                    </p>
+                )}
+                {(Boolean(props.viewConfigs & ViewConfigs.ShowSnippet) || ai.summary) && (
                     <p className="snippet">
-                        <Highlights text={props.item.snippet} filter={props.filter} />
+                        <Highlights text={ai.summary || props.item.snippet} filter={props.filter} />
                     </p>
                 )}
             </div>
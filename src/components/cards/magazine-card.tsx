@@ -1,8 +1,12 @@
 import * as React from "react"
 import { CardProps, bindEventsToProps } from "./card"
 import CardInfo from "./info"
+import Duplicates from "./duplicates"
+import Relevance from "./relevance"
 import Highlights from "./highlights"
 import { SourceTextDirection } from "../../scripts/models/source"
+import { ViewConfigs } from "../../schema-types"
+import { TITLE_TRANSLATION_STYLE, useAIPreview } from "./ai-preview"
 
 const className = (props: CardProps) => {
     const cn = ["card", "magazine-card"]
@@ -19,6 +23,12 @@ const MagazineCard: React.FunctionComponent<CardProps> = props => {
     const [thumbVisible, setThumbVisible] = React.useState(true)
     const onThumbError = React.useCallback(() => setThumbVisible(false), [])
     const showCover = Boolean(props.item.thumb) && thumbVisible
+    const ai = useAIPreview(
+        props.item,
+        props.source,
+        props.groups,
+        Boolean(props.viewConfigs & ViewConfigs.ShowAISummary)
+    )
 
     return (
         <div
@@ -37,11 +47,22 @@ const MagazineCard: React.FunctionComponent<CardProps> = props => {
                     <h3 className="title">
                         <Highlights text={props.item.title} filter={props.filter} title />
                     </h3>
+                    {ai.titleTranslation && (
+                        <p
+                            className="title-translation"
+                            style={{ ...TITLE_TRANSLATION_STYLE, margin: "-8px 0 8px" }}
+                        >
+                            {ai.titleTranslation}
+                        </p>
+                    )}
                     <p className="snippet">
-                        <Highlights text={props.item.snippet} filter={props.filter} />
+                        <Highlights text={ai.summary || props.item.snippet} filter={props.filter} />
                     </p>
                 </div>
-                <CardInfo source={props.source} item={props.item} showCreator />
+                <CardInfo source={props.source} item={props.item} showCreator>
+                    <Duplicates {...props} />
+                    <Relevance {...props} />
+                </CardInfo>
             </div>
         </div>
     )
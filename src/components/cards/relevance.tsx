@@ -0,0 +1,36 @@
+import * as React from "react"
+import intl from "react-intl-universal"
+import { Icon } from "@fluentui/react"
+import { CardProps } from "./card"
+import { FilterType } from "../../scripts/models/feed"
+
+// Source weights beyond this are named in the explanation.
+const SOURCE_SHOWN = 0.3
+
+/**
+ * Why a card sits where it does in the priority sort, as the tooltip of a
+ * small icon next to its source.
+ */
+const Relevance: React.FunctionComponent<CardProps> = props => {
+    const info = props.item.scoreInfo
+    if (!info || !(props.filter.type & FilterType.SortByPriority)) return null
+    const reasons: string[] = []
+    if (info.interests.length > 0) {
+        reasons.push(intl.get("relevance.interests", { interests: info.interests.join(", ") }))
+    }
+    if (info.terms.length > 0) {
+        reasons.push(intl.get("relevance.terms", { terms: info.terms.join(", ") }))
+    }
+    if (info.source >= SOURCE_SHOWN) reasons.push(intl.get("relevance.sourceLiked"))
+    else if (info.source <= -SOURCE_SHOWN) reasons.push(intl.get("relevance.sourceDisliked"))
+    if (reasons.length === 0) return null
+    return (
+        <Icon
+            iconName={info.interests.length > 0 ? "FavoriteStar" : "Lightbulb"}
+            title={reasons.join("\n")}
+            style={{ flexShrink: 0, marginInlineStart: 6, fontSize: 11 }}
+        />
+    )
+}
+
+export default Relevance
@@ -81,6 +81,7 @@ export function ContextMenu() {
 function ItemContextMenu() {
     const dispatch = useAppDispatch()
     const viewConfigs = useAppSelector(state => state.page.viewConfigs)
+    const viewType = useAppSelector(state => state.page.viewType)
     const target = useAppSelector(state => state.app.contextMenu.target)
     const item = target[0] as RSSItem
     const feedId = target[1] as string
@@ -205,32 +206,56 @@ function ItemContextMenu() {
                       text: intl.get("context.view"),
                       subMenuProps: {
                           items: [
+                              ...(viewType === ViewType.List
+                                  ? [
+                                        {
+                                            key: "showCover",
+                                            text: intl.get("context.showCover"),
+                                            canCheck: true,
+                                            checked: Boolean(viewConfigs & ViewConfigs.ShowCover),
+                                            onClick: () =>
+                                                dispatch(
+                                                    setViewConfigs(
+                                                        viewConfigs ^ ViewConfigs.ShowCover
+                                                    )
+                                                ),
+                                        },
+                                        {
+                                            key: "showSnippet",
+                                            text: intl.get("context.showSnippet"),
+                                            canCheck: true,
+                                            checked: Boolean(viewConfigs & ViewConfigs.ShowSnippet),
+                                            onClick: () =>
+                                                dispatch(
+                                                    setViewConfigs(
+                                                        viewConfigs ^ ViewConfigs.ShowSnippet
+                                                    )
+                                                ),
+                                        },
+                                        {
+                                            key: "fadeRead",
+                                            text: intl.get("context.fadeRead"),
+                                            canCheck: true,
+                                            checked: Boolean(viewConfigs & ViewConfigs.FadeRead),
+                                            onClick: () =>
+                                                dispatch(
+                                                    setViewConfigs(
+                                                        viewConfigs ^ ViewConfigs.FadeRead
+                                                    )
+                                                ),
+                                        },
+                                    ]
+                                  : []),
                               {
-                                  key: "showCover",
-                                  text: intl.get("context.showCover"),
+                                  key: "showAISummary",
+                                  text: intl.get("context.showAISummary"),
                                   canCheck: true,
-                                  checked: Boolean(viewConfigs & ViewConfigs.ShowCover),
-                                  onClick: () =>
-                                      dispatch(setViewConfigs(viewConfigs ^ ViewConfigs.ShowCover)),
-                              },
-                              {
-                                  key: "showSnippet",
-                                  text: intl.get("context.showSnippet"),
-                                  canCheck: true,
-                                  checked: Boolean(viewConfigs & ViewConfigs.ShowSnippet),
+                                  checked: Boolean(viewConfigs & ViewConfigs.ShowAISummary),
                                   onClick: () =>
                                       dispatch(
-                                          setViewConfigs(viewConfigs ^ ViewConfigs.ShowSnippet)
+                                          setViewConfigs(viewConfigs ^ ViewConfigs.ShowAISummary)
                                       ),
                               },
-                              {
-                                  key: "fadeRead",
-                                  text: intl.get("context.fadeRead"),
-                                  canCheck: true,
-                                  checked: Boolean(viewConfigs & ViewConfigs.FadeRead),
-                                  onClick: () =>
-                                      dispatch(setViewConfigs(viewConfigs ^ ViewConfigs.FadeRead)),
-                              },
                           ],
                       },
                   },
@@ -432,6 +457,38 @@ function ViewContextMenu() {
         {
             key: "section_3",
             itemType: ContextualMenuItemType.Section,
+            sectionProps: {
+                title: intl.get("context.sort"),
+                bottomDivider: true,
+                items: [
+                    {
+                        key: "newestFirst",
+                        text: intl.get("context.newestFirst"),
+                        iconProps: { iconName: "SortDown" },
+                        canCheck: true,
+                        checked: !(filter & FilterType.SortByPriority),
+                        onClick: () => {
+                            if (filter & FilterType.SortByPriority)
+                                dispatch(toggleFilter(FilterType.SortByPriority))
+                        },
+                    },
+                    {
+                        key: "priority",
+                        text: intl.get("context.priority"),
+                        iconProps: { iconName: "Important" },
+                        canCheck: true,
+                        checked: Boolean(filter & FilterType.SortByPriority),
+                        onClick: () => {
+                            if (!(filter & FilterType.SortByPriority))
+                                dispatch(toggleFilter(FilterType.SortByPriority))
+                        },
+                    },
+                ],
+            },
+        },
+        {
+            key: "section_4",
+            itemType: ContextualMenuItemType.Section,
             sectionProps: {
                 title: intl.get("search"),
                 bottomDivider: true,
@@ -0,0 +1,230 @@
+import * as React from "react"
+import intl from "react-intl-universal"
+import {
+    DefaultButton,
+    Dropdown,
+    IDropdownOption,
+    Link,
+    MessageBar,
+    MessageBarType,
+    PrimaryButton,
+    Spinner,
+    SpinnerSize,
+    Stack,
+} from "@fluentui/react"
+import { AITask, SourceGroup } from "../schema-types"
+import { Digest, DigestTopic } from "../scripts/models/services/aiDigest"
+import { generateDigest, onDigestSaved } from "../scripts/models/services/aiDigester"
+import { isProviderConfigured } from "../scripts/models/services/aiProviders"
+import { resolveTaskConfigs } from "../scripts/models/services/aiProfiles"
+import CitedText from "./utils/cited-text"
+
+type DigestPageProps = {
+    groups: SourceGroup[]
+    showItem: (iid: number) => void
+}
+
+type DigestPageState = {
+    digests: Digest[]
+    group: string
+    selected: string | null
+    generating: boolean
+    error: string
+}
+
+/**
+ * Topic digests of the source groups: the history of one group at a time,
+ * newest first, and a button to make one now.
+ */
+class DigestPage extends React.Component<DigestPageProps, DigestPageState> {
+    state: DigestPageState = {
+        digests: [],
+        group: this.props.groups.length > 0 ? this.props.groups[0].name : "",
+        selected: null,
+        generating: false,
+        error: "",
+    }
+    private abort?: AbortController
+    private unmounted = false
+    private unsubscribe?: () => void
+
+    componentDidMount() {
+        this.load()
+        this.unsubscribe = onDigestSaved(digest => this.load(digest.id))
+    }
+
+    componentWillUnmount() {
+        this.unmounted = true
+        if (this.unsubscribe) this.unsubscribe()
+        if (this.abort) this.abort.abort()
+    }
+
+    load = (select?: string) => {
+        window.settings
+            .listDigests()
+            .then(digests => {
+                if (this.unmounted) return
+                const picked = select && digests.find(d => d.id === select)
+                if (picked) this.setState({ digests, group: picked.group, selected: select })
+                else this.setState({ digests })
+            })
+            .catch(() => {
+                /* non-fatal: the history stays empty */
+            })
+    }
+
+    groupDigests = () => this.state.digests.filter(d => d.group === this.state.group)
+
+    current = (): Digest | undefined => {
+        const digests = this.groupDigests()
+        return digests.find(d => d.id === this.state.selected) || digests[0]
+    }
+
+    groupOptions = (): IDropdownOption[] =>
+        this.props.groups.map(g => ({ key: g.name, text: g.name }))
+
+    historyOptions = (): IDropdownOption[] =>
+        this.groupDigests().map(d => ({
+            key: d.id,
+            text: `${new Date(d.createdAt).toLocaleString()} · ${intl.get(`digest.${d.period}`)}`,
+        }))
+
+    generate = async () => {
+        const group = this.props.groups.find(g => g.name === this.state.group)
+        if (!group || this.state.generating) return
+        const configs = window.settings.getAIConfigs()
+        if (!configs.enabled || !isProviderConfigured(resolveTaskConfigs(configs, AITask.Digest))) {
+            this.setState({ error: intl.get("ai.notEnabled") })
+            return
+        }
+        const controller = new AbortController()
+        this.abort = controller
+        this.setState({ generating: true, error: "" })
+        try {
+            const digest = await generateDigest(group, group.digest || "daily", controller.signal)
+            if (!this.unmounted && !digest) this.setState({ error: intl.get("digest.nothingNew") })
+        } catch (error) {
+            const err = error as Error
+            if (!this.unmounted && err.name !== "AbortError") {
+                this.setState({
+                    error: `${intl.get("ai.failed")}: ${err.message || String(error)}`,
+                })
+            }
+        }
+        if (!this.unmounted) this.setState({ generating: false })
+    }
+
+    stop = () => {
+        if (this.abort) this.abort.abort()
+    }
+
+    delete = async () => {
+        const digest = this.current()
+        if (!digest) return
+        try {
+            await window.settings.deleteDigest(digest.id)
+        } catch {
+            /* non-fatal */
+        }
+        this.setState({ selected: null })
+        this.load()
+    }
+
+    private renderTopic = (topic: DigestTopic, t: number) => (
+        <div key={t}>
+            <h3 style={{ margin: "8px 0 4px" }}>{topic.title}</h3>
+            {topic.summary && (
+                <p style={{ margin: "0 0 4px", userSelect: "text", lineHeight: 1.6 }}>
+                    <CitedText
+                        text={topic.summary}
+                        count={topic.items.length}
+                        onCite={n => this.props.showItem(topic.items[n - 1].iid)}
+                    />
+                </p>
+            )}
+            <ol style={{ paddingInlineStart: 24, margin: 0 }}>
+                {topic.items.map(item => (
+                    <li key={item.iid}>
+                        <Link onClick={() => this.props.showItem(item.iid)}>{item.title}</Link>
+                    </li>
+                ))}
+            </ol>
+        </div>
+    )
+
+    render() {
+        const { generating, error } = this.state
+        const digest = this.current()
+        return (
+            <Stack
+                className="digest-page"
+                tokens={{ childrenGap: 12 }}
+                style={{ padding: "16px 20px", overflowY: "auto", height: "100%" }}>
+                <h2 style={{ margin: 0 }}>{intl.get("digest.title")}</h2>
+                {this.props.groups.length === 0 ? (
+                    <MessageBar messageBarType={MessageBarType.info}>
+                        {intl.get("digest.noGroups")}
+                    </MessageBar>
+                ) : (
+                    <Stack horizontal wrap tokens={{ childrenGap: 8 }} verticalAlign="end">
+                        <Dropdown
+                            label={intl.get("digest.group")}
+                            selectedKey={this.state.group}
+                            options={this.groupOptions()}
+                            onChange={(_, option) =>
+                                this.setState({ group: option.key as string, selected: null })
+                            }
+                            styles={{ root: { width: 180 } }}
+                        />
+                        <Dropdown
+                            label={intl.get("digest.history")}
+                            placeholder={intl.get("digest.none")}
+                            selectedKey={digest ? digest.id : null}
+                            options={this.historyOptions()}
+                            onChange={(_, option) =>
+                                this.setState({ selected: option.key as string })
+                            }
+                            styles={{ root: { width: 240 } }}
+                        />
+                        {generating ? (
+                            <DefaultButton text={intl.get("ai.chat.stop")} onClick={this.stop} />
+                        ) : (
+                            <PrimaryButton
+                                text={intl.get("digest.generate")}
+                                onClick={this.generate}
+                            />
+                        )}
+                        <DefaultButton
+                            text={intl.get("digest.delete")}
+                            disabled={!digest}
+                            onClick={this.delete}
+                        />
+                    </Stack>
+                )}
+                {error && (
+                    <MessageBar
+                        messageBarType={MessageBarType.error}
+                        onDismiss={() => this.setState({ error: "" })}>
+                        {error}
+                    </MessageBar>
+                )}
+                {generating && (
+                    <Spinner size={SpinnerSize.small} label={intl.get("digest.generating")} />
+                )}
+                {digest && (
+                    <>
+                        <span style={{ color: "var(--neutralSecondary)" }}>
+                            {intl.get("digest.coverage", {
+                                count: digest.itemCount,
+                                since: new Date(digest.since).toLocaleString(),
+                            })}
+                        </span>
+                        {digest.topics.map(this.renderTopic)}
+                    </>
+                )}
+            </Stack>
+        )
+    }
+}
+
+export default DigestPage
@@ -53,7 +53,10 @@ class CardsFeed extends React.Component<FeedProps> {
                 key={item._id}
                 item={item}
                 source={this.props.sourceMap[item.source]}
+                groups={this.props.groups}
                 filter={this.props.filter}
+                viewConfigs={this.props.viewConfigs}
+                duplicates={this.props.duplicates.get(item._id)}
                 shortcuts={this.props.shortcuts}
                 markRead={this.props.markRead}
                 contextMenu={this.props.contextMenu}
@@ -3,7 +3,7 @@ import { RSSItem } from "../../scripts/models/item"
 import { FeedReduxProps } from "../../containers/feed-container"
 import { RSSFeed, FeedFilter } from "../../scripts/models/feed"
 import { SourceState } from "../../scripts/models/source"
-import { ViewType, ViewConfigs } from "../../schema-types"
+import { ViewType, ViewConfigs, SourceGroup } from "../../schema-types"
 import CardsFeed from "./cards-feed"
 import ListFeed from "./list-feed"
 
@@ -12,8 +12,10 @@ export type FeedProps = FeedReduxProps & {
     viewType: ViewType
     viewConfigs?: ViewConfigs
     items: RSSItem[]
+    duplicates: Map<number, RSSItem[]>
     currentItem: number
     sourceMap: SourceState
+    groups: SourceGroup[]
     filter: FeedFilter
     shortcuts: (item: RSSItem, e: KeyboardEvent) => void
     markRead: (item: RSSItem) => void
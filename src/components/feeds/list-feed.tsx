@@ -16,8 +16,10 @@ class ListFeed extends React.Component<FeedProps> {
             feedId: this.props.feed._id,
             item: item,
             source: this.props.sourceMap[item.source],
+            groups: this.props.groups,
             filter: this.props.filter,
             viewConfigs: this.props.viewConfigs,
+            duplicates: this.props.duplicates.get(item._id),
             shortcuts: this.props.shortcuts,
             markRead: this.props.markRead,
             contextMenu: this.props.contextMenu,
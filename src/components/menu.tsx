@@ -5,6 +5,7 @@ import { Nav, INavLink, INavLinkGroup } from "@fluentui/react/lib/Nav"
 import { SourceGroup } from "../schema-types"
 import { SourceState, RSSSource } from "../scripts/models/source"
 import { ALL, STARRED } from "../scripts/models/feed"
+import { ASK, DIGESTS } from "../scripts/models/page"
 import { AnimationClassNames, Stack, FocusZone } from "@fluentui/react"
 
 export type MenuProps = {
@@ -13,13 +14,17 @@ export type MenuProps = {
     selected: string
     sources: SourceState
     groups: SourceGroup[]
+    tags: string[]
     searchOn: boolean
     itemOn: boolean
     toggleMenu: () => void
     allArticles: (init?: boolean) => void
     selectStarred: () => void
+    selectAsk: () => void
+    selectDigests: () => void
     selectSourceGroup: (group: SourceGroup, menuKey: string) => void
     selectSource: (source: RSSSource) => void
+    selectTag: (tag: string) => void
     groupContextMenu: (sids: number[], event: React.MouseEvent) => void
     updateGroupExpansion: (
         event: React.MouseEvent<HTMLElement>,
@@ -66,8 +71,39 @@ export class Menu extends React.Component<MenuProps> {
                     onClick: () => this.props.allArticles(this.props.selected !== ALL),
                     url: null,
                 },
+                {
+                    name: intl.get("ask.title"),
+                    ariaLabel: intl.get("ask.title") + " ",
+                    key: ASK,
+                    icon: "Robot",
+                    onClick: this.props.selectAsk,
+                    url: null,
+                },
+                {
+                    name: intl.get("digest.title"),
+                    ariaLabel: intl.get("digest.title") + " ",
+                    key: DIGESTS,
+                    icon: "News",
+                    onClick: this.props.selectDigests,
+                    url: null,
+                },
             ],
         },
+        ...(this.props.tags.length > 0
+            ? [
+                  {
+                      name: intl.get("menu.tags"),
+                      links: this.props.tags.map(tag => ({
+                          name: tag,
+                          ariaLabel: tag + " ",
+                          key: "t-" + tag,
+                          icon: "Tag",
+                          onClick: () => this.props.selectTag(tag),
+                          url: null,
+                      })),
+                  },
+              ]
+            : []),
         {
             name: intl.get("menu.subscriptions"),
             links: this.props.groups
@@ -4,6 +4,9 @@ import { Icon, FocusTrapZone } from "@fluentui/react"
 import ArticleContainer from "../containers/article-container"
 import { ViewType } from "../schema-types"
 import ArticleSearch from "./utils/article-search"
+import AskContainer from "../containers/ask-container"
+import DigestContainer from "../containers/digest-container"
+import { PageType } from "../scripts/models/page"
 
 type PageProps = {
     menuOn: boolean
@@ -13,11 +16,24 @@ type PageProps = {
     itemId: number
     itemFromFeed: boolean
     viewType: ViewType
+    pageType: PageType
     dismissItem: () => void
     offsetItem: (offset: number) => void
 }
 
 class Page extends React.Component<PageProps> {
+    // Pages that take the place of the feeds, or null on feed pages.
+    specialPage = () => {
+        switch (this.props.pageType) {
+            case PageType.Ask:
+                return <AskContainer />
+            case PageType.Digests:
+                return <DigestContainer />
+            default:
+                return null
+        }
+    }
+
     offsetItem = (event: React.MouseEvent, offset: number) => {
         event.stopPropagation()
         this.props.offsetItem(offset)
@@ -30,14 +46,18 @@ class Page extends React.Component<PageProps> {
             <>
                 {this.props.settingsOn ? null : (
                     <div key="card" className={"main" + (this.props.menuOn ? " menu-on" : "")}>
-                        <ArticleSearch />
-                        {this.props.feeds.map(fid => (
-                            <FeedContainer
-                                viewType={this.props.viewType}
-                                feedId={fid}
-                                key={fid + this.props.viewType}
-                            />
-                        ))}
+                        {this.specialPage() || (
+                            <>
+                                <ArticleSearch />
+                                {this.props.feeds.map(fid => (
+                                    <FeedContainer
+                                        viewType={this.props.viewType}
+                                        feedId={fid}
+                                        key={fid + this.props.viewType}
+                                    />
+                                ))}
+                            </>
+                        )}
                     </div>
                 )}
                 {this.props.itemId && (
@@ -72,15 +92,16 @@ class Page extends React.Component<PageProps> {
             <>
                 {this.props.settingsOn ? null : (
                     <div key="list" className={"list-main" + (this.props.menuOn ? " menu-on" : "")}>
-                        <ArticleSearch />
+                        {!this.specialPage() && <ArticleSearch />}
                         <div className="list-feed-container">
-                            {this.props.feeds.map(fid => (
-                                <FeedContainer
-                                    viewType={this.props.viewType}
-                                    feedId={fid}
-                                    key={fid}
-                                />
-                            ))}
+                            {this.specialPage() ||
+                                this.props.feeds.map(fid => (
+                                    <FeedContainer
+                                        viewType={this.props.viewType}
+                                        feedId={fid}
+                                        key={fid}
+                                    />
+                                ))}
                         </div>
                         {this.props.itemId ? (
                             <div className="side-article-wrapper">
@@ -1,6 +1,6 @@
 import * as React from "react"
 import intl from "react-intl-universal"
-import { AIConfigs } from "../../schema-types"
+import { AIConfigs, AIProfile, AIProvider, AITask } from "../../schema-types"
 import {
     Stack,
     Label,
@@ -16,28 +16,63 @@ import {
     SpinnerSize,
 } from "@fluentui/react"
 import { listModels } from "../../scripts/models/services/aiClient"
+import {
+    DEFAULT_AZURE_API_VERSION,
+    PROVIDER_BASE_URLS,
+    canReachProvider,
+    getProviderAdapter,
+} from "../../scripts/models/services/aiProviders"
+import {
+    DEFAULT_PROFILE_ID,
+    deleteProfile,
+    getProfile,
+    listProfiles,
+    putProfile,
+} from "../../scripts/models/services/aiProfiles"
+import LanguagePicker from "../utils/language-picker"
+import AICacheViewer from "../utils/ai-cache-viewer"
+import AIUsageDashboard from "../utils/ai-usage-dashboard"
+import AILibraryIndex from "../utils/ai-library-index"
+import AIInterests from "../utils/ai-interests"
+import AITags from "../utils/ai-tags"
+import AISpeech from "../utils/ai-speech"
+import AIPromptLibrary from "../utils/ai-prompt-library"
+import AIGlossary from "../utils/ai-glossary"
+import { clearAIPreviewConfigs } from "../cards/ai-preview"
 
 type AITabProps = Record<string, never>
 
 type AITabState = {
     configs: AIConfigs
+    // Profile whose connection settings are being edited.
+    profileId: string
     testing: boolean
     loadingModels: boolean
     cacheSize: { bytes: number; count: number } | null
+    showCacheViewer: boolean
     message: {
         type: MessageBarType
         text: string
     } | null
 }
 
+const BASE_URL_DESC_KEYS: { [p in AIProvider]: string } = {
+    [AIProvider.OpenAI]: "ai.baseUrlDesc",
+    [AIProvider.Anthropic]: "ai.baseUrlDescAnthropic",
+    [AIProvider.Ollama]: "ai.baseUrlDescOllama",
+    [AIProvider.Azure]: "ai.baseUrlDescAzure",
+}
+
 class AITab extends React.Component<AITabProps, AITabState> {
     constructor(props: AITabProps) {
         super(props)
         this.state = {
             configs: window.settings.getAIConfigs(),
+            profileId: DEFAULT_PROFILE_ID,
             testing: false,
             loadingModels: false,
             cacheSize: null,
+            showCacheViewer: false,
             message: null,
         }
     }
@@ -90,53 +125,144 @@ class AITab extends React.Component<AITabProps, AITabState> {
         )
     }
 
+    currentProfile = (): AIProfile => getProfile(this.state.configs, this.state.profileId)
+
+    updateProfile = (patch: Partial<AIProfile>, save = false) => {
+        this.setState(
+            prevState => ({
+                configs: putProfile(prevState.configs, {
+                    ...getProfile(prevState.configs, prevState.profileId),
+                    ...patch,
+                }),
+            }),
+            save ? this.saveConfigs : undefined
+        )
+    }
+
+    handleProfileSelect = (_: React.FormEvent<HTMLDivElement>, option?: IDropdownOption) => {
+        if (option) this.setState({ profileId: option.key as string, message: null })
+    }
+
+    addProfile = () => {
+        const base = this.currentProfile()
+        const profile: AIProfile = {
+            ...base,
+            id: `profile-${Date.now().toString(36)}`,
+            name: intl.get("ai.newProfileName", {
+                index: (this.state.configs.profiles || []).length + 1,
+            }),
+        }
+        this.setState(
+            prevState => ({
+                configs: putProfile(prevState.configs, profile),
+                profileId: profile.id,
+                message: null,
+            }),
+            this.saveConfigs
+        )
+    }
+
+    removeProfile = async () => {
+        const profile = this.currentProfile()
+        if (profile.id === DEFAULT_PROFILE_ID) return
+        const confirmed = await window.utils.showMessageBox(
+            intl.get("ai.title"),
+            intl.get("ai.deleteProfileConfirm", { name: profile.name }),
+            intl.get("confirm"),
+            intl.get("cancel"),
+            true,
+            "warning"
+        )
+        if (!confirmed) return
+        this.setState(
+            prevState => ({
+                configs: deleteProfile(prevState.configs, profile.id),
+                profileId: DEFAULT_PROFILE_ID,
+            }),
+            this.saveConfigs
+        )
+    }
+
+    handleProfileNameChange = (
+        _: React.FormEvent<HTMLInputElement | HTMLTextAreaElement>,
+        newValue?: string
+    ) => {
+        this.updateProfile({ name: newValue || "" })
+    }
+
+    handleTaskProfileChange =
+        (task: AITask) => (_: React.FormEvent<HTMLDivElement>, option?: IDropdownOption) => {
+            if (option) {
+                this.setState(
+                    prevState => ({
+                        configs: {
+                            ...prevState.configs,
+                            taskProfiles: {
+                                ...prevState.configs.taskProfiles,
+                                [task]: option.key as string,
+                            },
+                        },
+                    }),
+                    this.saveConfigs
+                )
+            }
+        }
+
+    handleProviderChange = (_: React.FormEvent<HTMLDivElement>, option?: IDropdownOption) => {
+        if (!option) return
+        const provider = option.key as AIProvider
+        const prev = this.currentProfile()
+        // Swap the base URL only while it is still some provider's
+        // default, so a custom endpoint survives switching providers.
+        const isDefaultUrl =
+            !prev.baseUrl || Object.values(PROVIDER_BASE_URLS).includes(prev.baseUrl)
+        this.updateProfile(
+            {
+                provider,
+                baseUrl: isDefaultUrl ? PROVIDER_BASE_URLS[provider] : prev.baseUrl,
+                // Model IDs from another provider are meaningless here.
+                availableModels: [],
+            },
+            true
+        )
+        this.setState({ message: null })
+    }
+
+    handleApiVersionChange = (
+        _: React.FormEvent<HTMLInputElement | HTMLTextAreaElement>,
+        newValue?: string
+    ) => {
+        this.updateProfile({ apiVersion: newValue || "" })
+    }
+
     handleBaseUrlChange = (
         _: React.FormEvent<HTMLInputElement | HTMLTextAreaElement>,
         newValue?: string
     ) => {
-        this.setState(prevState => ({
-            configs: { ...prevState.configs, baseUrl: newValue || "" },
-        }))
+        this.updateProfile({ baseUrl: newValue || "" })
     }
 
     handleApiKeyChange = (
         _: React.FormEvent<HTMLInputElement | HTMLTextAreaElement>,
         newValue?: string
     ) => {
-        this.setState(prevState => ({
-            configs: { ...prevState.configs, apiKey: newValue || "" },
-        }))
+        this.updateProfile({ apiKey: newValue || "" })
     }
 
     handleModelChange = (_: React.FormEvent<HTMLDivElement>, option?: IDropdownOption) => {
-        if (option) {
-            this.setState(
-                prevState => ({
-                    configs: {
-                        ...prevState.configs,
-                        defaultModel: option.key as string,
-                    },
-                }),
-                this.saveConfigs
-            )
-        }
+        if (option) this.updateProfile({ defaultModel: option.key as string }, true)
     }
 
-    handleTranslateTargetChange = (
-        _: React.FormEvent<HTMLDivElement>,
-        option?: IDropdownOption
-    ) => {
-        if (option) {
-            this.setState(
-                prevState => ({
-                    configs: {
-                        ...prevState.configs,
-                        translateTarget: option.key as "zh" | "en",
-                    },
-                }),
-                this.saveConfigs
-            )
-        }
+    handleTranslateTargetChange = (translateTarget: string) => {
+        this.setState(
+            prevState => ({
+                configs: {
+                    ...prevState.configs,
+                    translateTarget,
+                },
+            }),
+            this.saveConfigs
+        )
     }
 
     handleTranslateWhenChange = (_: React.FormEvent<HTMLDivElement>, option?: IDropdownOption) => {
@@ -174,6 +300,33 @@ class AITab extends React.Component<AITabProps, AITabState> {
         )
     }
 
+    handleUsageConfigChange = (patch: Partial<AIConfigs>) => {
+        this.setState(
+            prevState => ({
+                configs: { ...prevState.configs, ...patch },
+            }),
+            this.saveConfigs
+        )
+    }
+
+    handleCacheMaxSizeChange = (
+        _: React.FormEvent<HTMLInputElement | HTMLTextAreaElement>,
+        newValue?: string
+    ) => {
+        const val = parseInt(newValue || "100", 10)
+        const safe = isNaN(val) ? 100 : Math.max(1, val)
+        this.setState(
+            prevState => ({
+                configs: { ...prevState.configs, cacheMaxSizeMB: safe },
+            }),
+            () => {
+                this.saveConfigs()
+                // Shrinking the cap evicts entries right away.
+                this.refreshCacheSize()
+            }
+        )
+    }
+
     handleMaxTextLengthChange = (
         _: React.FormEvent<HTMLInputElement | HTMLTextAreaElement>,
         newValue?: string
@@ -204,12 +357,13 @@ class AITab extends React.Component<AITabProps, AITabState> {
 
     saveConfigs = () => {
         window.settings.setAIConfigs(this.state.configs)
+        clearAIPreviewConfigs()
     }
 
     testConnection = async () => {
-        const { configs } = this.state
+        const profile = this.currentProfile()
 
-        if (!configs.baseUrl || !configs.apiKey) {
+        if (!canReachProvider(profile)) {
             this.setState({
                 message: {
                     type: MessageBarType.error,
@@ -222,11 +376,7 @@ class AITab extends React.Component<AITabProps, AITabState> {
         this.setState({ testing: true, message: null })
 
         try {
-            const models = await listModels({
-                baseUrl: configs.baseUrl,
-                apiKey: configs.apiKey,
-                defaultModel: configs.defaultModel,
-            })
+            const models = await listModels(profile)
 
             if (models.length > 0) {
                 this.setState({
@@ -257,9 +407,9 @@ class AITab extends React.Component<AITabProps, AITabState> {
     }
 
     refreshModels = async () => {
-        const { configs } = this.state
+        const profile = this.currentProfile()
 
-        if (!configs.baseUrl || !configs.apiKey) {
+        if (!canReachProvider(profile)) {
             this.setState({
                 message: {
                     type: MessageBarType.error,
@@ -272,21 +422,16 @@ class AITab extends React.Component<AITabProps, AITabState> {
         this.setState({ loadingModels: true, message: null })
 
         try {
-            const models = await listModels({
-                baseUrl: configs.baseUrl,
-                apiKey: configs.apiKey,
-                defaultModel: configs.defaultModel,
-            })
+            const models = await listModels(profile)
 
             if (models.length > 0) {
-                const newConfigs = {
-                    ...configs,
-                    availableModels: models,
-                    defaultModel: configs.defaultModel || models[0],
-                }
                 this.setState(
-                    {
-                        configs: newConfigs,
+                    prevState => ({
+                        configs: putProfile(prevState.configs, {
+                            ...profile,
+                            availableModels: models,
+                            defaultModel: profile.defaultModel || models[0],
+                        }),
                         loadingModels: false,
                         message: {
                             type: MessageBarType.success,
@@ -294,7 +439,7 @@ class AITab extends React.Component<AITabProps, AITabState> {
                                 count: models.length,
                             }),
                         },
-                    },
+                    }),
                     this.saveConfigs
                 )
             } else {
@@ -348,26 +493,21 @@ class AITab extends React.Component<AITabProps, AITabState> {
     }
 
     modelOptions = (): IDropdownOption[] => {
-        const { configs } = this.state
-        if (configs.availableModels.length === 0) {
+        const profile = this.currentProfile()
+        if (profile.availableModels.length === 0) {
             return [
                 {
-                    key: configs.defaultModel,
-                    text: configs.defaultModel || intl.get("ai.noModel"),
+                    key: profile.defaultModel,
+                    text: profile.defaultModel || intl.get("ai.noModel"),
                 },
             ]
         }
-        return configs.availableModels.map(model => ({
+        return profile.availableModels.map(model => ({
             key: model,
             text: model,
         }))
     }
 
-    translateTargetOptions = (): IDropdownOption[] => [
-        { key: "zh", text: intl.get("ai.lang.zh") },
-        { key: "en", text: intl.get("ai.lang.en") },
-    ]
-
     translateWhenOptions = (): IDropdownOption[] => [
         { key: "auto", text: intl.get("ai.when.auto") },
         { key: "nonTargetOnly", text: intl.get("ai.when.nonTargetOnly") },
@@ -376,8 +516,36 @@ class AITab extends React.Component<AITabProps, AITabState> {
         { key: "nonZhOnly", text: intl.get("ai.when.nonZhOnly") },
     ]
 
+    profileName = (profile: AIProfile): string =>
+        profile.id === DEFAULT_PROFILE_ID
+            ? intl.get("ai.defaultProfile")
+            : profile.name || intl.get("ai.unnamedProfile")
+
+    profileOptions = (): IDropdownOption[] =>
+        listProfiles(this.state.configs).map(profile => ({
+            key: profile.id,
+            text: this.profileName(profile),
+        }))
+
+    // Stale ids (deleted profiles) display as the default they fall back to.
+    taskProfileKey = (task: AITask): string => {
+        const id = this.state.configs.taskProfiles?.[task]
+        return getProfile(this.state.configs, id).id
+    }
+
+    providerOptions = (): IDropdownOption[] => [
+        { key: AIProvider.OpenAI, text: intl.get("ai.providers.openai") },
+        { key: AIProvider.Anthropic, text: intl.get("ai.providers.anthropic") },
+        { key: AIProvider.Ollama, text: intl.get("ai.providers.ollama") },
+        { key: AIProvider.Azure, text: intl.get("ai.providers.azure") },
+    ]
+
     render() {
         const { configs, testing, loadingModels, message } = this.state
+        const profile = this.currentProfile()
+        const isDefaultProfile = profile.id === DEFAULT_PROFILE_ID
+        const provider = profile.provider || AIProvider.OpenAI
+        const keyRequired = getProviderAdapter(provider).requiresApiKey
 
         return (
             <Stack className="settings-tab" tokens={{ childrenGap: 12 }}>
@@ -417,24 +585,77 @@ class AITab extends React.Component<AITabProps, AITabState> {
                     offText={intl.get("ai.autoTranslateImmersive")}
                 />
 
+                <Label>{intl.get("ai.profiles")}</Label>
+                <Stack horizontal tokens={{ childrenGap: 8 }} verticalAlign="end">
+                    <Dropdown
+                        label={intl.get("ai.profile")}
+                        selectedKey={profile.id}
+                        options={this.profileOptions()}
+                        onChange={this.handleProfileSelect}
+                        disabled={!configs.enabled}
+                        styles={{ root: { width: 300 } }}
+                    />
+                    <DefaultButton
+                        text={intl.get("ai.addProfile")}
+                        onClick={this.addProfile}
+                        disabled={!configs.enabled}
+                    />
+                    <DefaultButton
+                        text={intl.get("ai.deleteProfile")}
+                        onClick={this.removeProfile}
+                        disabled={!configs.enabled || isDefaultProfile}
+                    />
+                </Stack>
+
+                {!isDefaultProfile && (
+                    <TextField
+                        label={intl.get("ai.profileName")}
+                        value={profile.name}
+                        onChange={this.handleProfileNameChange}
+                        onBlur={this.saveConfigs}
+                        disabled={!configs.enabled}
+                    />
+                )}
+
+                <Dropdown
+                    label={intl.get("ai.provider")}
+                    selectedKey={provider}
+                    options={this.providerOptions()}
+                    onChange={this.handleProviderChange}
+                    disabled={!configs.enabled}
+                    styles={{ root: { width: 300 } }}
+                />
+
                 <TextField
                     label={intl.get("ai.baseUrl")}
-                    value={configs.baseUrl}
+                    value={profile.baseUrl}
                     onChange={this.handleBaseUrlChange}
                     onBlur={this.saveConfigs}
-                    placeholder="https://api.openai.com/v1"
-                    description={intl.get("ai.baseUrlDesc")}
+                    placeholder={PROVIDER_BASE_URLS[provider]}
+                    description={intl.get(BASE_URL_DESC_KEYS[provider])}
                     disabled={!configs.enabled}
                 />
 
+                {provider === AIProvider.Azure && (
+                    <TextField
+                        label={intl.get("ai.apiVersion")}
+                        value={profile.apiVersion || ""}
+                        onChange={this.handleApiVersionChange}
+                        onBlur={this.saveConfigs}
+                        placeholder={DEFAULT_AZURE_API_VERSION}
+                        description={intl.get("ai.apiVersionDesc")}
+                        disabled={!configs.enabled}
+                    />
+                )}
+
                 <TextField
                     label={intl.get("ai.apiKey")}
-                    value={configs.apiKey}
+                    value={profile.apiKey}
                     onChange={this.handleApiKeyChange}
                     onBlur={this.saveConfigs}
                     type="password"
-                    placeholder="sk-..."
-                    description={intl.get("ai.apiKeyDesc")}
+                    placeholder={keyRequired ? "sk-..." : ""}
+                    description={intl.get(keyRequired ? "ai.apiKeyDesc" : "ai.apiKeyOptionalDesc")}
                     disabled={!configs.enabled}
                 />
 
@@ -442,9 +663,7 @@ class AITab extends React.Component<AITabProps, AITabState> {
                     <PrimaryButton
                         text={intl.get("ai.testConnection")}
                         onClick={this.testConnection}
-                        disabled={
-                            !configs.enabled || testing || !configs.baseUrl || !configs.apiKey
-                        }
+                        disabled={!configs.enabled || testing || !canReachProvider(profile)}
                     />
                     {testing && <Spinner size={SpinnerSize.medium} />}
                 </Stack>
@@ -452,22 +671,47 @@ class AITab extends React.Component<AITabProps, AITabState> {
                 <Stack horizontal tokens={{ childrenGap: 8 }} verticalAlign="end">
                     <Dropdown
                         label={intl.get("ai.model")}
-                        selectedKey={configs.defaultModel}
+                        selectedKey={profile.defaultModel}
                         options={this.modelOptions()}
                         onChange={this.handleModelChange}
-                        disabled={!configs.enabled || configs.availableModels.length === 0}
+                        disabled={!configs.enabled || profile.availableModels.length === 0}
                         styles={{ root: { width: 300 } }}
                     />
                     <DefaultButton
                         text={intl.get("ai.refreshModels")}
                         onClick={this.refreshModels}
                         disabled={
-                            !configs.enabled || loadingModels || !configs.baseUrl || !configs.apiKey
+                            !configs.enabled || loadingModels || !canReachProvider(profile)
                         }
                     />
                     {loadingModels && <Spinner size={SpinnerSize.medium} />}
                 </Stack>
 
+                <Label>{intl.get("ai.taskRouting")}</Label>
+                <Stack horizontal wrap tokens={{ childrenGap: 16 }}>
+                    {[
+                        AITask.Summary,
+                        AITask.Translation,
+                        AITask.Selection,
+                        AITask.Chat,
+                        AITask.Ask,
+                        AITask.Digest,
+                        AITask.Interests,
+                        AITask.Tagging,
+                        AITask.Speech,
+                    ].map(task => (
+                        <Dropdown
+                            key={task}
+                            label={intl.get(`ai.tasks.${task}`)}
+                            selectedKey={this.taskProfileKey(task)}
+                            options={this.profileOptions()}
+                            onChange={this.handleTaskProfileChange(task)}
+                            disabled={!configs.enabled}
+                            styles={{ root: { width: 200 } }}
+                        />
+                    ))}
+                </Stack>
+
                 <Stack horizontal tokens={{ childrenGap: 16 }}>
                     <Dropdown
                         label={intl.get("ai.translateWhen")}
@@ -477,13 +721,11 @@ class AITab extends React.Component<AITabProps, AITabState> {
                         disabled={!configs.enabled}
                         styles={{ root: { width: 300 } }}
                     />
-                    <Dropdown
+                    <LanguagePicker
                         label={intl.get("ai.translateTarget")}
-                        selectedKey={this.state.configs.translateTarget || "zh"}
-                        options={this.translateTargetOptions()}
+                        value={this.state.configs.translateTarget || "zh"}
                         onChange={this.handleTranslateTargetChange}
                         disabled={!configs.enabled}
-                        styles={{ root: { width: 300 } }}
                     />
                 </Stack>
 
@@ -561,8 +803,44 @@ class AITab extends React.Component<AITabProps, AITabState> {
                     disabled={!configs.enabled}
                 />
 
-                <Stack horizontal tokens={{ childrenGap: 8 }} verticalAlign="center">
+                <AIPromptLibrary configs={configs} onChange={this.handleUsageConfigChange} />
+
+                <AIGlossary configs={configs} onChange={this.handleUsageConfigChange} />
+
+                <AIUsageDashboard
+                    configs={configs}
+                    onChange={this.handleUsageConfigChange}
+                />
+
+                <AILibraryIndex configs={configs} onChange={this.handleUsageConfigChange} />
+
+                <AIInterests configs={configs} onChange={this.handleUsageConfigChange} />
+
+                <AITags configs={configs} onChange={this.handleUsageConfigChange} />
+
+                <AISpeech configs={configs} onChange={this.handleUsageConfigChange} />
+
+                <Stack horizontal tokens={{ childrenGap: 8 }} verticalAlign="end">
+                    <TextField
+                        label={intl.get("ai.cacheMaxSize")}
+                        type="number"
+                        value={String(configs.cacheMaxSizeMB || 100)}
+                        onChange={this.handleCacheMaxSizeChange}
+                        min={1}
+                        suffix="MB"
+                        styles={{ root: { width: 160 } }}
+                    />
                     <DefaultButton text={intl.get("ai.clearCache")} onClick={this.clearAICache} />
+                    <DefaultButton
+                        text={intl.get(
+                            this.state.showCacheViewer ? "ai.cacheViewer.hide" : "ai.cacheViewer.show"
+                        )}
+                        onClick={() =>
+                            this.setState(prevState => ({
+                                showCacheViewer: !prevState.showCacheViewer,
+                            }))
+                        }
+                    />
                     {this.state.cacheSize && this.state.cacheSize.bytes > 0 && (
                         <Label style={{ fontWeight: 400 }}>
                             {intl.get("ai.cacheSize", {
@@ -573,6 +851,14 @@ class AITab extends React.Component<AITabProps, AITabState> {
                     )}
                 </Stack>
 
+                {this.state.showCacheViewer && (
+                    // Remount after a clear so the list reloads.
+                    <AICacheViewer
+                        key={this.state.cacheSize?.count ?? 0}
+                        onChange={this.refreshCacheSize}
+                    />
+                )}
+
                 <MessageBar messageBarType={MessageBarType.info}>
                     {intl.get("ai.description")}
                 </MessageBar>
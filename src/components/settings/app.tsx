@@ -29,6 +29,7 @@ type AppTabState = {
     pacUrl: string
     themeSettings: ThemeSettings
     closeToTray: boolean
+    readDuplicates: boolean
     itemSize: string
     cacheSize: string
     deleteIndex: string
@@ -42,6 +43,7 @@ class AppTab extends React.Component<AppTabProps, AppTabState> {
             pacUrl: window.settings.getProxy(),
             themeSettings: getThemeSettings(),
             closeToTray: window.settings.getCloseToTray(),
+            readDuplicates: window.settings.getReadDuplicates(),
             itemSize: null,
             cacheSize: null,
             deleteIndex: null,
@@ -55,6 +57,11 @@ class AppTab extends React.Component<AppTabProps, AppTabState> {
         this.setState({ closeToTray: checked })
     }
 
+    toggleReadDuplicates = (_, checked: boolean) => {
+        window.settings.setReadDuplicates(checked)
+        this.setState({ readDuplicates: checked })
+    }
+
     getCacheSize = () => {
         window.utils.getCacheSize().then(size => {
             this.setState({ cacheSize: byteToMB(size) })
@@ -233,6 +240,18 @@ class AppTab extends React.Component<AppTabProps, AppTabState> {
                 </Stack.Item>
             </Stack>
 
+            <Stack horizontal verticalAlign="start">
+                <Stack.Item grow>
+                    <Label>{intl.get("app.readDuplicates")}</Label>
+                </Stack.Item>
+                <Stack.Item>
+                    <Toggle
+                        checked={this.state.readDuplicates}
+                        onChange={this.toggleReadDuplicates}
+                    />
+                </Stack.Item>
+            </Stack>
+
             <Label>{intl.get("searchEngine.name")}</Label>
             <Stack horizontal>
                 <Stack.Item>
@@ -1,6 +1,6 @@
 import * as React from "react"
 import intl from "react-intl-universal"
-import { SourceGroup } from "../../schema-types"
+import { AIOverrides, SourceGroup } from "../../schema-types"
 import { SourceState, RSSSource } from "../../scripts/models/source"
 import {
     IColumn,
@@ -23,6 +23,7 @@ import {
 } from "@fluentui/react"
 import DangerButton from "../utils/danger-button"
 import SourceIcon from "../utils/source-icon"
+import AIOverridesEditor from "../utils/ai-overrides"
 
 type GroupsTabProps = {
     sources: SourceState
@@ -280,6 +281,30 @@ class GroupsTab extends React.Component<GroupsTabProps, GroupsTabState> {
         this.setState({ selectedGroup: null })
     }
 
+    updateGroupAIOverrides = (ai: AIOverrides) => {
+        const group = {
+            ...this.state.selectedGroup,
+            ai: Object.keys(ai).length > 0 ? ai : undefined,
+        }
+        this.props.updateGroup(group)
+        this.setState({ selectedGroup: group })
+    }
+
+    digestOptions = (): IDropdownOption[] => [
+        { key: "", text: intl.get("groups.digestOff") },
+        { key: "daily", text: intl.get("digest.daily") },
+        { key: "weekly", text: intl.get("digest.weekly") },
+    ]
+
+    updateGroupDigest = (_, item: IDropdownOption) => {
+        const group = {
+            ...this.state.selectedGroup,
+            digest: (item.key || undefined) as SourceGroup["digest"],
+        }
+        this.props.updateGroup(group)
+        this.setState({ selectedGroup: group })
+    }
+
     updateGroupName = () => {
         let group = this.state.selectedGroup
         group = { ...group, name: this.state.editGroupName.trim() }
@@ -417,6 +442,19 @@ class GroupsTab extends React.Component<GroupsTabProps, GroupsTabState> {
                                         />
                                     </Stack.Item>
                                 </Stack>
+                                <Dropdown
+                                    label={intl.get("groups.digest")}
+                                    selectedKey={this.state.selectedGroup.digest || ""}
+                                    options={this.digestOptions()}
+                                    onChange={this.updateGroupDigest}
+                                    style={{ width: 200 }}
+                                />
+                                <Label>{intl.get("ai.overrides.title")}</Label>
+                                <AIOverridesEditor
+                                    key={this.state.selectedGroup.index}
+                                    value={this.state.selectedGroup.ai || {}}
+                                    onChange={this.updateGroupAIOverrides}
+                                />
                             </>
                         ) : (
                             <>
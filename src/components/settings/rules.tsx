@@ -26,6 +26,7 @@ import { SourceRule, ruleActionsToKeys } from "../../scripts/models/rule"
 import { FilterType } from "../../scripts/models/feed"
 import { MyParserItem, validateRegex } from "../../scripts/utils"
 import { RSSItem } from "../../scripts/models/item"
+import { formatTags, normalizeTag } from "../../scripts/models/services/aiTags"
 import SourceIcon from "../utils/source-icon"
 
 const actionKeyMap = {
@@ -43,6 +44,8 @@ const actionKeyMap = {
     "z-false": "article.dontAutoSummarize",
     "f-true": "article.autoFullText",
     "f-false": "article.dontAutoFullText",
+    "g-true": "article.autoTag",
+    "g-false": "article.dontAutoTag",
 }
 
 type RulesTabProps = {
@@ -62,6 +65,7 @@ type RulesTabState = {
     mockTitle: string
     mockCreator: string
     mockContent: string
+    mockTags: string
     mockResult: string
 }
 
@@ -85,6 +89,7 @@ class RulesTab extends React.Component<RulesTabProps, RulesTabState> {
             mockTitle: "",
             mockCreator: "",
             mockContent: "",
+            mockTags: "",
             mockResult: "",
         }
         this.rulesSelection = new Selection({
@@ -136,6 +141,7 @@ class RulesTab extends React.Component<RulesTabProps, RulesTabState> {
         if (rule) {
             if (rule.filter.type & FilterType.FullSearch) searchType = 1
             else if (rule.filter.type & FilterType.CreatorSearch) searchType = 2
+            else if (rule.filter.type & FilterType.TagSearch) searchType = 3
         }
         this.setState({
             regex: rule ? rule.filter.search : "",
@@ -271,6 +277,7 @@ class RulesTab extends React.Component<RulesTabProps, RulesTabState> {
             mockTitle: "",
             mockCreator: "",
             mockContent: "",
+            mockTags: "",
             mockResult: "",
         })
     }
@@ -279,6 +286,7 @@ class RulesTab extends React.Component<RulesTabProps, RulesTabState> {
         { key: 0, text: intl.get("rules.title") },
         { key: 1, text: intl.get("rules.fullSearch") },
         { key: 2, text: intl.get("rules.creator") },
+        { key: 3, text: intl.get("rules.tags") },
     ]
     onSearchOptionChange = (_, item: IDropdownOption) => {
         this.setState({ searchType: item.key as number })
@@ -301,6 +309,7 @@ class RulesTab extends React.Component<RulesTabProps, RulesTabState> {
             ["t-true", "t-false"],
             ["z-true", "z-false"],
             ["f-true", "f-false"],
+            ["g-true", "g-false"],
         ]
         return pairs.flatMap((pair, index) => {
             const items: IDropdownOption[] = [
@@ -343,6 +352,7 @@ class RulesTab extends React.Component<RulesTabProps, RulesTabState> {
         if (!this.state.caseSensitive) filterType |= FilterType.CaseInsensitive
         if (this.state.searchType === 1) filterType |= FilterType.FullSearch
         else if (this.state.searchType === 2) filterType |= FilterType.CreatorSearch
+        else if (this.state.searchType === 3) filterType |= FilterType.TagSearch
         const rule = new SourceRule(
             this.state.regex,
             this.state.actionKeys,
@@ -415,6 +425,7 @@ class RulesTab extends React.Component<RulesTabProps, RulesTabState> {
         const item = new RSSItem(parsed as MyParserItem, source)
         item.snippet = this.state.mockContent
         item.creator = this.state.mockCreator
+        item.tags = formatTags(this.state.mockTags.split(",").map(normalizeTag).filter(Boolean))
         SourceRule.applyAll(this.getSourceRules(), item)
         const result = []
         result.push(intl.get(item.hasRead ? "article.markRead" : "article.markUnread"))
@@ -424,6 +435,7 @@ class RulesTab extends React.Component<RulesTabProps, RulesTabState> {
         if (item.autoTranslate) result.push(intl.get("article.autoTranslate"))
         if (item.autoSummarize) result.push(intl.get("article.autoSummarize"))
         if (item.autoFullText) result.push(intl.get("article.autoFullText"))
+        if (item.autoTag) result.push(intl.get("article.autoTag"))
         this.setState({ mockResult: result.join(", ") })
     }
 
@@ -594,6 +606,14 @@ class RulesTab extends React.Component<RulesTabProps, RulesTabState> {
                                     onChange={this.handleInputChange}
                                 />
                             </Stack.Item>
+                            <Stack.Item grow>
+                                <TextField
+                                    name="mockTags"
+                                    placeholder={intl.get("rules.tagsHint")}
+                                    value={this.state.mockTags}
+                                    onChange={this.handleInputChange}
+                                />
+                            </Stack.Item>
                             <Stack.Item>
                                 <PrimaryButton
                                     text={intl.get("confirm")}
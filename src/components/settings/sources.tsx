@@ -26,11 +26,20 @@ import {
     SourceOpenTarget,
     AddSourceOptions,
 } from "../../scripts/models/source"
-import { SourceGroup } from "../../schema-types"
-import { urlTest } from "../../scripts/utils"
+import { AIOverrides, SourceGroup } from "../../schema-types"
+import { urlTest, discoverFeeds } from "../../scripts/utils"
 import DangerButton from "../utils/danger-button"
 import SourceIcon from "../utils/source-icon"
 import Time from "../utils/time"
+import AIOverridesEditor from "../utils/ai-overrides"
+import { SourceHealth, isBackedOff } from "../../scripts/models/services/feedHealth"
+import { DiscoveredFeed } from "../../scripts/models/services/feedDiscovery"
+import {
+    ScraperConfig,
+    missingScraperFields,
+    normalizeScraper,
+} from "../../scripts/models/services/feedScraper"
+import ScraperEditor from "../utils/scraper-editor"
 
 type SourcesTabProps = {
     sources: SourceState
@@ -43,6 +52,8 @@ type SourcesTabProps = {
     updateSourceIcon: (source: RSSSource, iconUrl: string) => Promise<void>
     updateSourceOpenTarget: (source: RSSSource, target: SourceOpenTarget) => void
     updateFetchFrequency: (source: RSSSource, frequency: number) => void
+    updateAIOverrides: (source: RSSSource, ai: AIOverrides) => void
+    updateScraper: (source: RSSSource, scraper: ScraperConfig) => void
     deleteSource: (source: RSSSource) => void
     deleteSources: (sources: RSSSource[]) => void
     importOPML: () => void
@@ -62,6 +73,13 @@ interface SourcesTabState {
     newSourceIcon: string
     sourceEditOption: string
     showNewSourceOptions: boolean
+    // Feeds found at the address entered, when there are several to pick.
+    discoveredFeeds: DiscoveredFeed[] | null
+    // Whether the new source reads its page with selectors.
+    newSourceScrape: boolean
+    newSourceScraper: ScraperConfig
+    // Selectors of the selected scraper source being edited.
+    editedScraper: ScraperConfig | null
     searchQuery: string
     listCollapsed: boolean
     message: { type: MessageBarType; text: string } | null
@@ -69,6 +87,8 @@ interface SourcesTabState {
     selectedSources: RSSSource[]
 }
 
+const EMPTY_SCRAPER: ScraperConfig = { item: "", title: "" }
+
 const enum EditDropdownKeys {
     Name = "n",
     Icon = "i",
@@ -94,6 +114,10 @@ class SourcesTab extends React.Component<SourcesTabProps, SourcesTabState> {
             newSourceIcon: "",
             sourceEditOption: EditDropdownKeys.Name,
             showNewSourceOptions: false,
+            discoveredFeeds: null,
+            newSourceScrape: false,
+            newSourceScraper: EMPTY_SCRAPER,
+            editedScraper: null,
             searchQuery: "",
             listCollapsed: false,
             message: null,
@@ -110,6 +134,7 @@ class SourcesTab extends React.Component<SourcesTabProps, SourcesTabState> {
                     selectedSources: count > 1 ? sources : null,
                     newSourceName: count === 1 ? sources[0].name : "",
                     newSourceIcon: count === 1 ? sources[0].iconurl || "" : "",
+                    editedScraper: count === 1 ? sources[0].scraper || null : null,
                     sourceEditOption: EditDropdownKeys.Name,
                 })
             },
@@ -216,8 +241,48 @@ class SourcesTab extends React.Component<SourcesTabProps, SourcesTabState> {
                 </span>
             ),
         },
+        {
+            key: "health",
+            name: intl.get("sources.health"),
+            minWidth: 56,
+            maxWidth: 90,
+            isResizable: true,
+            onRender: (s: RSSSource) =>
+                s.health &&
+                !s.serviceRef &&
+                (s.health.consecutiveFailures > 0 ? (
+                    <span
+                        title={s.health.lastError}
+                        style={{ color: "#d13438", fontSize: "0.85em" }}>
+                        {intl.get("sources.failing", { count: s.health.consecutiveFailures })}
+                    </span>
+                ) : (
+                    <span style={{ color: "var(--gray)", fontSize: "0.85em" }}>
+                        {intl.get("sources.healthy")}
+                    </span>
+                )),
+        },
     ]
 
+    /** Lines describing the fetch health of a source for its edit panel. */
+    healthLines = (health: SourceHealth): string[] => {
+        // The error of a failed fetch names its status, if there was one.
+        const status = health.lastError || health.lastStatus || intl.get("sources.noResponse")
+        const lines = [intl.get("sources.lastStatus", { status })]
+        lines.push(intl.get("sources.consecutiveFailures", { count: health.consecutiveFailures }))
+        if (health.avgLatency !== undefined) {
+            lines.push(intl.get("sources.avgLatency", { ms: health.avgLatency }))
+        }
+        if (isBackedOff(health, Date.now())) {
+            lines.push(
+                intl.get("sources.backedOff", {
+                    time: new Date(health.retryAt).toLocaleString(),
+                })
+            )
+        }
+        return lines
+    }
+
     sourceEditOptions = (): IDropdownOption[] => [
         { key: EditDropdownKeys.Name, text: intl.get("name") },
         { key: EditDropdownKeys.Icon, text: intl.get("icon") },
@@ -274,6 +339,16 @@ class SourcesTab extends React.Component<SourcesTabProps, SourcesTabState> {
         })
     }
 
+    onAIOverridesChange = (ai: AIOverrides) => {
+        this.props.updateAIOverrides(this.state.selectedSource, ai)
+        this.setState({
+            selectedSource: {
+                ...this.state.selectedSource,
+                ai,
+            } as RSSSource,
+        })
+    }
+
     onNewSourceFetchFrequencyChange = (_, option: IDropdownOption) => {
         this.setState({ newSourceFetchFrequency: option.key as string })
     }
@@ -320,7 +395,7 @@ class SourcesTab extends React.Component<SourcesTabProps, SourcesTabState> {
         const { name, value } = event.target
         switch (name) {
             case "newUrl":
-                this.setState({ newUrl: value })
+                this.setState({ newUrl: value, discoveredFeeds: null })
                 break
             case "newSourceAddName":
                 this.setState({ newSourceAddName: value })
@@ -340,23 +415,25 @@ class SourcesTab extends React.Component<SourcesTabProps, SourcesTabState> {
         if (!urlTest(trimmed)) return
 
         if (!this.state.showNewSourceOptions) {
-            this.setState({ showNewSourceOptions: true })
-            if (!this.state.newSourceAddName || this.state.newSourceAddName.trim().length === 0) {
-                const tempSource = new RSSSource(trimmed)
-                RSSSource.fetchMetaData(tempSource)
-                    .then(() => {
-                        if (
-                            this.state.showNewSourceOptions &&
-                            (!this.state.newSourceAddName ||
-                                this.state.newSourceAddName.trim().length === 0)
-                        ) {
-                            this.setState({
-                                newSourceAddName: tempSource.name,
-                            })
-                        }
+            this.setState({ showNewSourceOptions: true, discoveredFeeds: null })
+            // A website's address is replaced with its feed's, or the feeds
+            // found on it are offered to pick from.
+            discoverFeeds(trimmed)
+                .then(feeds => {
+                    if (!this.state.showNewSourceOptions || this.state.newUrl.trim() !== trimmed) {
+                        return
+                    }
+                    if (feeds.length === 0) {
+                        this.showMessage(MessageBarType.warning, intl.get("sources.noFeedFound"))
+                        return
+                    }
+                    this.setState({
+                        newUrl: feeds[0].url,
+                        discoveredFeeds: feeds.length > 1 ? feeds : null,
                     })
-                    .catch(() => {})
-            }
+                    this.suggestName(feeds[0].url)
+                })
+                .catch(() => this.suggestName(trimmed))
             return
         }
         const options: AddSourceOptions = {}
@@ -378,6 +455,10 @@ class SourcesTab extends React.Component<SourcesTabProps, SourcesTabState> {
                 options.openTarget = openTarget as SourceOpenTarget
             }
         }
+        if (this.state.newSourceScrape) {
+            if (missingScraperFields(this.state.newSourceScraper).length > 0) return
+            options.scraper = normalizeScraper(this.state.newSourceScraper)
+        }
         const name = this.state.newSourceAddName.trim()
         this.props.addSource(
             trimmed,
@@ -391,10 +472,46 @@ class SourcesTab extends React.Component<SourcesTabProps, SourcesTabState> {
             newSourceFetchFrequency: "0",
             newSourceOpenTarget: String(SourceOpenTarget.Local),
             showNewSourceOptions: false,
+            discoveredFeeds: null,
+            newSourceScrape: false,
+            newSourceScraper: EMPTY_SCRAPER,
         })
         this.showMessage(MessageBarType.success, intl.get("sources.addSuccess"))
     }
 
+    // The name last filled in from a feed, replaced when another feed is
+    // picked unless the user has edited it.
+    private suggestedName = ""
+
+    /** Fills in the name of the feed at `url` unless the user has named it. */
+    suggestName = (url: string) => {
+        const named = () =>
+            this.state.newSourceAddName.trim().length > 0 &&
+            this.state.newSourceAddName !== this.suggestedName
+        if (named()) return
+        const tempSource = new RSSSource(url)
+        RSSSource.fetchMetaData(tempSource)
+            .then(() => {
+                if (this.state.showNewSourceOptions && this.state.newUrl === url && !named()) {
+                    this.suggestedName = tempSource.name
+                    this.setState({ newSourceAddName: tempSource.name })
+                }
+            })
+            .catch(() => {})
+    }
+
+    onDiscoveredFeedChange = (_, option: IDropdownOption) => {
+        const url = option.key as string
+        this.setState({ newUrl: url })
+        this.suggestName(url)
+    }
+
+    discoveredFeedOptions = (): IDropdownOption[] =>
+        this.state.discoveredFeeds.map(feed => ({
+            key: feed.url,
+            text: feed.title ? `${feed.title} (${feed.url})` : feed.url,
+        }))
+
     /**
      * Shows a transient message bar (auto-dismissed after 3s) to confirm an
      * action like adding a source, mirroring the pattern in ai.tsx but with
@@ -470,6 +587,15 @@ class SourcesTab extends React.Component<SourcesTabProps, SourcesTabState> {
         this.props.addToGroup(targetIndex, source.sid)
     }
 
+    updateScraper = () => {
+        const scraper = normalizeScraper(this.state.editedScraper)
+        this.props.updateScraper(this.state.selectedSource, scraper)
+        this.setState({
+            selectedSource: { ...this.state.selectedSource, scraper } as RSSSource,
+            editedScraper: scraper,
+        })
+    }
+
     onToggleHidden = () => {
         this.props.toggleSourceHidden(this.state.selectedSource)
         this.setState({
@@ -546,7 +672,12 @@ class SourcesTab extends React.Component<SourcesTabProps, SourcesTabState> {
                     </Stack.Item>
                     <Stack.Item>
                         <PrimaryButton
-                            disabled={!urlTest(this.state.newUrl.trim())}
+                            disabled={
+                                !urlTest(this.state.newUrl.trim()) ||
+                                (this.state.showNewSourceOptions &&
+                                    this.state.newSourceScrape &&
+                                    missingScraperFields(this.state.newSourceScraper).length > 0)
+                            }
                             type="submit"
                             text={
                                 this.state.showNewSourceOptions
@@ -558,6 +689,15 @@ class SourcesTab extends React.Component<SourcesTabProps, SourcesTabState> {
                 </Stack>
                 {this.state.showNewSourceOptions && (
                     <>
+                        {this.state.discoveredFeeds && (
+                            <Dropdown
+                                label={intl.get("sources.discoveredFeeds")}
+                                options={this.discoveredFeedOptions()}
+                                selectedKey={this.state.newUrl.trim()}
+                                onChange={this.onDiscoveredFeedChange}
+                                styles={{ root: { marginTop: 8 } }}
+                            />
+                        )}
                         <Stack styles={{ root: { marginTop: 8 } }}>
                             <Stack.Item grow>
                                 <TextField
@@ -598,6 +738,20 @@ class SourcesTab extends React.Component<SourcesTabProps, SourcesTabState> {
                             }
                             onChange={this.onNewSourceOpenTargetChange}
                         />
+                        <Toggle
+                            label={intl.get("sources.scraper.toggle")}
+                            inlineLabel
+                            checked={this.state.newSourceScrape}
+                            onChange={(_, checked) => this.setState({ newSourceScrape: checked })}
+                            styles={{ root: { marginTop: 8 } }}
+                        />
+                        {this.state.newSourceScrape && (
+                            <ScraperEditor
+                                url={this.state.newUrl}
+                                value={this.state.newSourceScraper}
+                                onChange={newSourceScraper => this.setState({ newSourceScraper })}
+                            />
+                        )}
                     </>
                 )}
             </form>
@@ -758,6 +912,41 @@ class SourcesTab extends React.Component<SourcesTabProps, SourcesTabState> {
                             </Stack>
                         </>
                     )}
+                    {!this.state.selectedSource.serviceRef &&
+                        this.props.sources[this.state.selectedSource.sid]?.health && (
+                            <>
+                                <Label>{intl.get("sources.health")}</Label>
+                                {this.healthLines(
+                                    this.props.sources[this.state.selectedSource.sid].health
+                                ).map(line => (
+                                    <div
+                                        key={line}
+                                        className="settings-hint"
+                                        style={{ lineHeight: "20px" }}>
+                                        {line}
+                                    </div>
+                                ))}
+                            </>
+                        )}
+                    {this.state.editedScraper && (
+                        <>
+                            <ScraperEditor
+                                key={this.state.selectedSource.sid}
+                                url={this.state.selectedSource.url}
+                                value={this.state.editedScraper}
+                                onChange={editedScraper => this.setState({ editedScraper })}
+                            />
+                            <Stack horizontal styles={{ root: { marginTop: 8 } }}>
+                                <DefaultButton
+                                    disabled={
+                                        missingScraperFields(this.state.editedScraper).length > 0
+                                    }
+                                    onClick={this.updateScraper}
+                                    text={intl.get("sources.scraper.save")}
+                                />
+                            </Stack>
+                        </>
+                    )}
                     <ChoiceGroup
                         label={intl.get("sources.openTarget")}
                         options={this.sourceOpenTargetChoices()}
@@ -787,6 +976,12 @@ class SourcesTab extends React.Component<SourcesTabProps, SourcesTabState> {
                             />
                         </Stack.Item>
                     </Stack>
+                    <Label>{intl.get("ai.overrides.title")}</Label>
+                    <AIOverridesEditor
+                        key={this.state.selectedSource.sid}
+                        value={this.state.selectedSource.ai || {}}
+                        onChange={this.onAIOverridesChange}
+                    />
                     {!this.state.selectedSource.serviceRef && (
                         <Stack horizontal>
                             <Stack.Item>
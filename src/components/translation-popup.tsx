@@ -12,6 +12,10 @@ import {
 import { useAppDispatch, useAppSelector } from "../scripts/reducer"
 import { closeTranslationPopup } from "../scripts/models/app"
 import { translateText } from "../scripts/models/services/aiClient"
+import { isProviderConfigured } from "../scripts/models/services/aiProviders"
+import { resolveTaskConfigs } from "../scripts/models/services/aiProfiles"
+import { AITask } from "../schema-types"
+import { detectLanguage, resolveTranslation } from "../scripts/models/services/langDetect"
 
 export const TranslationPopup = () => {
     const dispatch = useAppDispatch()
@@ -33,53 +37,32 @@ export const TranslationPopup = () => {
 
         if (!display || !text) return
 
-        const aiConfigs = window.settings.getAIConfigs()
+        const aiConfigs = resolveTaskConfigs(window.settings.getAIConfigs(), AITask.Selection)
         if (
             !aiConfigs.enabled ||
-            !aiConfigs.apiKey ||
-            !aiConfigs.defaultModel ||
-            !aiConfigs.baseUrl
+            !isProviderConfigured(aiConfigs) ||
+            !aiConfigs.defaultModel
         ) {
             setError(intl.get("ai.notEnabled"))
             return
         }
 
         // 与文章翻译保持一致的策略，尊重设置中的翻译方向
-        const translateWhen = aiConfigs.translateWhen || "auto"
-        const translateTarget = aiConfigs.translateTarget || "zh"
-
         const sample = (text || "").replace(/<[^>]*>/g, "")
-        const isZh = /[\u4e00-\u9fa5]/.test(sample || "")
-
-        let shouldTranslate = true
-        switch (translateWhen) {
-            case "nonTargetOnly":
-                shouldTranslate = translateTarget === "zh" ? !isZh : isZh
-                break
-            case "zhOnly":
-                shouldTranslate = isZh
-                break
-            case "nonZhOnly":
-                shouldTranslate = !isZh
-                break
-            case "always":
-            case "auto":
-            default:
-                shouldTranslate = true
-                break
-        }
+        const { shouldTranslate, targetLang } = resolveTranslation(
+            aiConfigs.translateWhen,
+            aiConfigs.translateTarget,
+            detectLanguage(sample)
+        )
 
         if (!shouldTranslate) {
             // Nothing to translate for this text under the current language
             // policy — show the selected text itself instead of an empty popup
             // (which otherwise looks broken).
-            setTranslation(text.replace(/<[^>]*>/g, ""))
+            setTranslation(sample)
             return
         }
 
-        const targetLang =
-            translateWhen === "auto" ? (isZh ? "en" : "zh") : (translateTarget as "zh" | "en")
-
         const controller = new AbortController()
         setLoading(true)
 
@@ -87,12 +70,22 @@ export const TranslationPopup = () => {
             {
                 baseUrl: aiConfigs.baseUrl,
                 apiKey: aiConfigs.apiKey,
+                provider: aiConfigs.provider,
+                apiVersion: aiConfigs.apiVersion,
                 defaultModel: aiConfigs.defaultModel,
                 prompts: aiConfigs.prompts,
+                usage: { task: AITask.Selection },
             },
             text,
             targetLang,
-            controller.signal
+            controller.signal,
+            // Stream tokens into the popup; the spinner is only shown until
+            // the first delta arrives.
+            (_delta, accumulated) => {
+                if (controller.signal.aborted) return
+                setTranslation(accumulated)
+                setLoading(false)
+            }
         )
             .then(result => {
                 setTranslation(result)
@@ -103,6 +96,7 @@ export const TranslationPopup = () => {
                     err.name !== "AbortError"
                 ) {
                     console.error("Translation error:", err)
+                    setTranslation("")
                     setError(intl.get("ai.failed"))
                 }
             })
@@ -150,7 +144,7 @@ export const TranslationPopup = () => {
                     />
                 </Stack>
 
-                {loading && (
+                {loading && !translation && (
                     <Spinner size={SpinnerSize.medium} label={intl.get("ai.translating")} />
                 )}
 
@@ -0,0 +1,108 @@
+import * as React from "react"
+import intl from "react-intl-universal"
+import {
+    DetailsList,
+    IColumn,
+    IconButton,
+    SelectionMode,
+    Spinner,
+    SpinnerSize,
+} from "@fluentui/react"
+import type { AICacheListing } from "../../scripts/models/services/aiCache"
+import Time from "./time"
+
+type AICacheViewerProps = {
+    // Called after an entry is deleted, e.g. to refresh the cache size.
+    onChange?: () => void
+}
+
+type AICacheViewerState = {
+    entries: AICacheListing[] | null
+}
+
+/** Most recently used AI cache entries, with the model that produced each. */
+class AICacheViewer extends React.Component<AICacheViewerProps, AICacheViewerState> {
+    state: AICacheViewerState = { entries: null }
+
+    componentDidMount() {
+        this.load()
+    }
+
+    load = async () => {
+        try {
+            this.setState({ entries: await window.settings.listAICache() })
+        } catch {
+            this.setState({ entries: [] })
+        }
+    }
+
+    deleteEntry = async (key: string) => {
+        await window.settings.deleteAICache(key)
+        await this.load()
+        if (this.props.onChange) this.props.onChange()
+    }
+
+    columns = (): IColumn[] => [
+        {
+            key: "kind",
+            name: intl.get("ai.cacheViewer.kind"),
+            minWidth: 80,
+            maxWidth: 100,
+            onRender: (entry: AICacheListing) => intl.get(`ai.cacheViewer.kinds.${entry.kind}`),
+        },
+        {
+            isRowHeader: true,
+            key: "title",
+            name: intl.get("ai.cacheViewer.article"),
+            minWidth: 160,
+            onRender: (entry: AICacheListing) => entry.title || "—",
+        },
+        {
+            key: "model",
+            name: intl.get("ai.cacheViewer.model"),
+            minWidth: 100,
+            maxWidth: 160,
+            onRender: (entry: AICacheListing) => entry.model,
+        },
+        {
+            key: "createdAt",
+            name: intl.get("ai.cacheViewer.created"),
+            minWidth: 50,
+            maxWidth: 60,
+            onRender: (entry: AICacheListing) => <Time date={new Date(entry.createdAt)} />,
+        },
+        {
+            key: "delete",
+            name: "",
+            minWidth: 32,
+            maxWidth: 32,
+            onRender: (entry: AICacheListing) => (
+                <IconButton
+                    iconProps={{ iconName: "Delete" }}
+                    title={intl.get("ai.cacheViewer.delete")}
+                    styles={{ root: { height: 20 } }}
+                    onClick={() => this.deleteEntry(entry.key)}
+                />
+            ),
+        },
+    ]
+
+    render() {
+        const { entries } = this.state
+        if (entries === null) return <Spinner size={SpinnerSize.small} />
+        if (entries.length === 0) {
+            return <span className="settings-hint">{intl.get("ai.cacheViewer.empty")}</span>
+        }
+        return (
+            <DetailsList
+                compact
+                items={entries}
+                columns={this.columns()}
+                getKey={(entry: AICacheListing) => entry.key}
+                selectionMode={SelectionMode.none}
+            />
+        )
+    }
+}
+
+export default AICacheViewer
@@ -0,0 +1,121 @@
+import * as React from "react"
+import intl from "react-intl-universal"
+import { DefaultButton, IconButton, Label, Stack, TextField } from "@fluentui/react"
+import { AIConfigs, AIGlossaryEntry } from "../../schema-types"
+import { getCurrentLocale } from "../../scripts/settings"
+import { languageName } from "../../scripts/models/services/langDetect"
+import LanguagePicker from "./language-picker"
+
+type AIGlossaryProps = {
+    configs: AIConfigs
+    onChange: (patch: Partial<AIConfigs>) => void
+}
+
+type AIGlossaryState = {
+    term: string
+    translation: string
+    lang: string
+}
+
+/**
+ * Terms translations must render one way. Paragraphs that miss one are
+ * marked failed in the article view, where they can be retried.
+ */
+class AIGlossary extends React.Component<AIGlossaryProps, AIGlossaryState> {
+    state: AIGlossaryState = { term: "", translation: "", lang: "" }
+
+    glossary = () => this.props.configs.glossary || []
+
+    sameEntry = (a: AIGlossaryEntry, b: AIGlossaryEntry) =>
+        a.term.toLowerCase() === b.term.toLowerCase() && (a.lang || "") === (b.lang || "")
+
+    add = () => {
+        const term = this.state.term.trim()
+        if (!term) return
+        const entry: AIGlossaryEntry = { term }
+        if (this.state.translation.trim()) entry.translation = this.state.translation.trim()
+        if (this.state.lang) entry.lang = this.state.lang
+        // Adding a term again replaces its entry for that language.
+        this.props.onChange({
+            glossary: [...this.glossary().filter(e => !this.sameEntry(e, entry)), entry],
+        })
+        this.setState({ term: "", translation: "" })
+    }
+
+    remove = (entry: AIGlossaryEntry) => {
+        this.props.onChange({ glossary: this.glossary().filter(e => e !== entry) })
+    }
+
+    render() {
+        const { term, translation, lang } = this.state
+        return (
+            <Stack tokens={{ childrenGap: 8 }}>
+                <Label>{intl.get("ai.glossary.title")}</Label>
+                <span style={{ color: "var(--neutralSecondary)", fontSize: 12 }}>
+                    {intl.get("ai.glossary.description")}
+                </span>
+                {this.glossary().length > 0 && (
+                    <Stack tokens={{ childrenGap: 2 }}>
+                        {this.glossary().map(entry => (
+                            <Stack
+                                key={`${entry.term}\n${entry.lang || ""}`}
+                                horizontal
+                                verticalAlign="center"
+                                tokens={{ childrenGap: 8 }}>
+                                <span style={{ flexGrow: 1 }}>
+                                    {entry.term} →{" "}
+                                    {entry.translation || <em>{intl.get("ai.glossary.keep")}</em>}
+                                </span>
+                                <span style={{ color: "var(--neutralSecondary)", fontSize: 12 }}>
+                                    {entry.lang
+                                        ? languageName(entry.lang, getCurrentLocale())
+                                        : intl.get("ai.glossary.allLanguages")}
+                                </span>
+                                <IconButton
+                                    iconProps={{ iconName: "Delete" }}
+                                    title={intl.get("ai.glossary.remove")}
+                                    onClick={() => this.remove(entry)}
+                                />
+                            </Stack>
+                        ))}
+                    </Stack>
+                )}
+                <Stack horizontal wrap tokens={{ childrenGap: 8 }} verticalAlign="end">
+                    <TextField
+                        label={intl.get("ai.glossary.term")}
+                        value={term}
+                        onChange={(_, value) => this.setState({ term: value || "" })}
+                        onKeyDown={e => {
+                            if (e.key === "Enter") this.add()
+                        }}
+                        styles={{ root: { width: 200 } }}
+                    />
+                    <TextField
+                        label={intl.get("ai.glossary.translation")}
+                        placeholder={intl.get("ai.glossary.keep")}
+                        value={translation}
+                        onChange={(_, value) => this.setState({ translation: value || "" })}
+                        onKeyDown={e => {
+                            if (e.key === "Enter") this.add()
+                        }}
+                        styles={{ root: { width: 200 } }}
+                    />
+                    <LanguagePicker
+                        label={intl.get("ai.glossary.lang")}
+                        value={lang}
+                        onChange={value => this.setState({ lang: value })}
+                        emptyOptionText={intl.get("ai.glossary.allLanguages")}
+                        width={200}
+                    />
+                    <DefaultButton
+                        text={intl.get("ai.glossary.add")}
+                        onClick={this.add}
+                        disabled={!term.trim()}
+                    />
+                </Stack>
+            </Stack>
+        )
+    }
+}
+
+export default AIGlossary
@@ -0,0 +1,217 @@
+import * as React from "react"
+import intl from "react-intl-universal"
+import {
+    DefaultButton,
+    IconButton,
+    Label,
+    MessageBar,
+    MessageBarType,
+    Stack,
+    TextField,
+} from "@fluentui/react"
+import { AIConfigs, AIInterest, AITask } from "../../schema-types"
+import { suggestInterestKeywords } from "../../scripts/models/services/aiClient"
+import { isProviderConfigured } from "../../scripts/models/services/aiProviders"
+import { resolveTaskConfigs } from "../../scripts/models/services/aiProfiles"
+import { parseKeywords } from "../../scripts/models/services/relevance"
+import { rescoreItems } from "../../scripts/models/services/relevanceScorer"
+
+type AIInterestsProps = {
+    configs: AIConfigs
+    onChange: (patch: Partial<AIConfigs>) => void
+}
+
+type AIInterestsState = {
+    newName: string
+    // Index of the interest whose keywords are being suggested.
+    suggesting: number | null
+    // Items rescored by the running rescore, or null when none runs.
+    rescoring: number | null
+    rescored: number | null
+    error: string
+}
+
+const splitKeywords = (text: string) =>
+    text
+        .split(",")
+        .map(k => k.trim())
+        .filter(Boolean)
+
+/**
+ * The reader's interests for the priority sort, with model-suggested
+ * keywords, and an action to rescore the unread items after editing them.
+ */
+class AIInterests extends React.Component<AIInterestsProps, AIInterestsState> {
+    state: AIInterestsState = {
+        newName: "",
+        suggesting: null,
+        rescoring: null,
+        rescored: null,
+        error: "",
+    }
+    private abort?: AbortController
+    private unmounted = false
+
+    componentWillUnmount() {
+        this.unmounted = true
+        if (this.abort) this.abort.abort()
+    }
+
+    interests = () => this.props.configs.interests || []
+
+    update = (interests: AIInterest[]) => this.props.onChange({ interests })
+
+    add = () => {
+        const name = this.state.newName.trim()
+        if (!name || this.interests().some(i => i.name.toLowerCase() === name.toLowerCase())) {
+            return
+        }
+        this.update([...this.interests(), { name, keywords: [] }])
+        this.setState({ newName: "" })
+    }
+
+    remove = (index: number) => {
+        this.update(this.interests().filter((_, i) => i !== index))
+    }
+
+    setKeywords = (index: number, keywords: string[]) => {
+        this.update(
+            this.interests().map((interest, i) =>
+                i === index ? { ...interest, keywords } : interest
+            )
+        )
+    }
+
+    suggest = async (index: number) => {
+        const resolved = resolveTaskConfigs(window.settings.getAIConfigs(), AITask.Interests)
+        if (!resolved.enabled || !isProviderConfigured(resolved)) {
+            this.setState({ error: intl.get("ai.notEnabled") })
+            return
+        }
+        const interest = this.interests()[index]
+        const controller = new AbortController()
+        this.abort = controller
+        this.setState({ suggesting: index, error: "" })
+        try {
+            const reply = await suggestInterestKeywords(
+                {
+                    baseUrl: resolved.baseUrl,
+                    apiKey: resolved.apiKey,
+                    provider: resolved.provider,
+                    apiVersion: resolved.apiVersion,
+                    defaultModel: resolved.defaultModel,
+                    usage: { task: AITask.Interests },
+                },
+                interest.name,
+                controller.signal
+            )
+            if (this.unmounted) return
+            const known = new Set(interest.keywords.map(k => k.toLowerCase()))
+            const added = parseKeywords(reply).filter(k => !known.has(k.toLowerCase()))
+            this.setKeywords(index, [...interest.keywords, ...added])
+        } catch (error) {
+            const err = error as Error
+            if (!this.unmounted && err.name !== "AbortError") {
+                this.setState({
+                    error: `${intl.get("ai.failed")}: ${err.message || String(error)}`,
+                })
+            }
+        }
+        if (!this.unmounted) this.setState({ suggesting: null })
+    }
+
+    rescore = async () => {
+        const controller = new AbortController()
+        this.abort = controller
+        this.setState({ rescoring: 0, rescored: null, error: "" })
+        try {
+            const count = await rescoreItems(controller.signal, done => {
+                if (!this.unmounted) this.setState({ rescoring: done })
+            })
+            if (!this.unmounted) this.setState({ rescored: count })
+        } catch (error) {
+            const err = error as Error
+            if (!this.unmounted && err.name !== "AbortError") {
+                this.setState({
+                    error: `${intl.get("ai.failed")}: ${err.message || String(error)}`,
+                })
+            }
+        }
+        if (!this.unmounted) this.setState({ rescoring: null })
+    }
+
+    render() {
+        const { newName, suggesting, rescoring, rescored, error } = this.state
+        return (
+            <Stack tokens={{ childrenGap: 8 }}>
+                <Label>{intl.get("ai.interests.title")}</Label>
+                <span style={{ color: "var(--neutralSecondary)", fontSize: 12 }}>
+                    {intl.get("ai.interests.description")}
+                </span>
+                {this.interests().map((interest, index) => (
+                    <Stack
+                        key={interest.name}
+                        horizontal
+                        tokens={{ childrenGap: 8 }}
+                        verticalAlign="end">
+                        <TextField
+                            label={interest.name}
+                            placeholder={intl.get("ai.interests.keywords")}
+                            defaultValue={interest.keywords.join(", ")}
+                            key={interest.keywords.join(",")}
+                            onBlur={e => this.setKeywords(index, splitKeywords(e.target.value))}
+                            styles={{ root: { width: 420 } }}
+                        />
+                        <DefaultButton
+                            text={intl.get("ai.interests.suggest")}
+                            onClick={() => this.suggest(index)}
+                            disabled={suggesting !== null || !this.props.configs.enabled}
+                        />
+                        <IconButton
+                            iconProps={{ iconName: "Delete" }}
+                            title={intl.get("ai.interests.remove")}
+                            onClick={() => this.remove(index)}
+                        />
+                    </Stack>
+                ))}
+                <Stack horizontal tokens={{ childrenGap: 8 }} verticalAlign="end">
+                    <TextField
+                        placeholder={intl.get("ai.interests.name")}
+                        value={newName}
+                        onChange={(_, value) => this.setState({ newName: value || "" })}
+                        onKeyDown={e => {
+                            if (e.key === "Enter") this.add()
+                        }}
+                        styles={{ root: { width: 240 } }}
+                    />
+                    <DefaultButton
+                        text={intl.get("ai.interests.add")}
+                        onClick={this.add}
+                        disabled={!newName.trim()}
+                    />
+                    <DefaultButton
+                        text={intl.get("ai.interests.rescore")}
+                        onClick={this.rescore}
+                        disabled={rescoring !== null}
+                    />
+                    <Label style={{ fontWeight: 400 }}>
+                        {rescoring !== null
+                            ? intl.get("ai.interests.rescoring", { count: rescoring })
+                            : rescored !== null
+                            ? intl.get("ai.interests.rescored", { count: rescored })
+                            : ""}
+                    </Label>
+                </Stack>
+                {error && (
+                    <MessageBar
+                        messageBarType={MessageBarType.error}
+                        onDismiss={() => this.setState({ error: "" })}>
+                        {error}
+                    </MessageBar>
+                )}
+            </Stack>
+        )
+    }
+}
+
+export default AIInterests
@@ -0,0 +1,165 @@
+import * as React from "react"
+import intl from "react-intl-universal"
+import {
+    DefaultButton,
+    Label,
+    MessageBar,
+    MessageBarType,
+    Stack,
+    TextField,
+    Toggle,
+} from "@fluentui/react"
+import { AIConfigs } from "../../schema-types"
+import { AIIndexStats } from "../../scripts/models/services/aiIndex"
+import { canReachProvider } from "../../scripts/models/services/aiProviders"
+import {
+    DEFAULT_EMBEDDING_MODEL,
+    buildLibraryIndex,
+    resolveAskConfigs,
+} from "../../scripts/models/services/aiLibrary"
+
+type AILibraryIndexProps = {
+    configs: AIConfigs
+    onChange: (patch: Partial<AIConfigs>) => void
+}
+
+type AILibraryIndexState = {
+    stats: AIIndexStats | null
+    // Articles embedded by the running build, or null when none runs.
+    building: number | null
+    error: string
+}
+
+/**
+ * Settings of the embedding index behind the Ask page, with actions to
+ * index the articles fetched before it was turned on and to drop it.
+ */
+class AILibraryIndex extends React.Component<AILibraryIndexProps, AILibraryIndexState> {
+    state: AILibraryIndexState = { stats: null, building: null, error: "" }
+    private abort?: AbortController
+    private unmounted = false
+
+    componentDidMount() {
+        this.refreshStats()
+    }
+
+    componentWillUnmount() {
+        this.unmounted = true
+        if (this.abort) this.abort.abort()
+    }
+
+    refreshStats = () => {
+        window.settings
+            .getAIIndexStats()
+            .then(stats => {
+                if (!this.unmounted) this.setState({ stats })
+            })
+            .catch(() => {
+                /* non-fatal: the count is informational */
+            })
+    }
+
+    build = async () => {
+        const configs = resolveAskConfigs()
+        if (!configs.enabled || !canReachProvider(configs)) {
+            this.setState({ error: intl.get("ai.notEnabled") })
+            return
+        }
+        const controller = new AbortController()
+        this.abort = controller
+        this.setState({ building: 0, error: "" })
+        try {
+            await buildLibraryIndex(controller.signal, indexed => {
+                if (!this.unmounted) this.setState({ building: indexed })
+            })
+        } catch (error) {
+            const err = error as Error
+            if (!this.unmounted && err.name !== "AbortError") {
+                this.setState({
+                    error: `${intl.get("ai.failed")}: ${err.message || String(error)}`,
+                })
+            }
+        }
+        if (this.unmounted) return
+        this.setState({ building: null })
+        this.refreshStats()
+    }
+
+    stop = () => {
+        if (this.abort) this.abort.abort()
+    }
+
+    clear = async () => {
+        this.stop()
+        try {
+            await window.settings.clearAIIndex()
+        } catch {
+            /* non-fatal */
+        }
+        this.refreshStats()
+    }
+
+    render() {
+        const { configs } = this.props
+        const { stats, building, error } = this.state
+        return (
+            <Stack tokens={{ childrenGap: 8 }}>
+                <Label>{intl.get("ai.library.title")}</Label>
+                <Toggle
+                    label={intl.get("ai.library.index")}
+                    checked={configs.indexLibrary || false}
+                    onChange={(_, checked) => this.props.onChange({ indexLibrary: checked })}
+                    disabled={!configs.enabled}
+                />
+                <Stack horizontal tokens={{ childrenGap: 8 }} verticalAlign="end">
+                    <TextField
+                        label={intl.get("ai.library.embeddingModel")}
+                        placeholder={DEFAULT_EMBEDDING_MODEL}
+                        value={configs.embeddingModel || ""}
+                        onChange={(_, embeddingModel) =>
+                            this.props.onChange({ embeddingModel: (embeddingModel || "").trim() })
+                        }
+                        disabled={!configs.enabled}
+                        styles={{ root: { width: 240 } }}
+                    />
+                    {building === null ? (
+                        <DefaultButton
+                            text={intl.get("ai.library.build")}
+                            onClick={this.build}
+                            disabled={!configs.enabled}
+                        />
+                    ) : (
+                        <DefaultButton text={intl.get("ai.chat.stop")} onClick={this.stop} />
+                    )}
+                    <DefaultButton
+                        text={intl.get("ai.library.clear")}
+                        onClick={this.clear}
+                        disabled={!stats || stats.count === 0}
+                    />
+                    <Label style={{ fontWeight: 400 }}>
+                        {building !== null
+                            ? intl.get("ai.library.building", { count: building })
+                            : stats && stats.count > 0
+                            ? intl.get("ai.library.stats", {
+                                  count: stats.count,
+                                  model: stats.model,
+                              })
+                            : ""}
+                    </Label>
+                </Stack>
+                <span style={{ color: "var(--neutralSecondary)", fontSize: 12 }}>
+                    {intl.get("ai.library.description")}
+                </span>
+                {error && (
+                    <MessageBar
+                        messageBarType={MessageBarType.error}
+                        onDismiss={() => this.setState({ error: "" })}>
+                        {error}
+                    </MessageBar>
+                )}
+            </Stack>
+        )
+    }
+}
+
+export default AILibraryIndex
@@ -0,0 +1,109 @@
+import * as React from "react"
+import intl from "react-intl-universal"
+import { Dropdown, IDropdownOption, Stack, TextField, Toggle } from "@fluentui/react"
+import { AIOverrides } from "../../schema-types"
+import { DEFAULT_PROFILE_ID, listProfiles } from "../../scripts/models/services/aiProfiles"
+import LanguagePicker from "./language-picker"
+
+type AIOverridesEditorProps = {
+    value: AIOverrides
+    onChange: (value: AIOverrides) => void
+}
+
+type AIOverridesEditorState = {
+    summaryPrompt: string
+}
+
+// Dropdown key standing for "no override".
+const INHERIT = ""
+
+/**
+ * Editor for the per-source / per-group AI overrides. Every field can be
+ * left on "inherit", which removes it from the saved object.
+ */
+class AIOverridesEditor extends React.Component<AIOverridesEditorProps, AIOverridesEditorState> {
+    constructor(props: AIOverridesEditorProps) {
+        super(props)
+        this.state = { summaryPrompt: props.value.summaryPrompt || "" }
+    }
+
+    componentDidUpdate(prevProps: AIOverridesEditorProps) {
+        if (prevProps.value.summaryPrompt !== this.props.value.summaryPrompt) {
+            this.setState({ summaryPrompt: this.props.value.summaryPrompt || "" })
+        }
+    }
+
+    update = (patch: Partial<AIOverrides>) => {
+        const next: AIOverrides = { ...this.props.value, ...patch }
+        for (const key of Object.keys(next) as (keyof AIOverrides)[]) {
+            if (next[key] === undefined || next[key] === INHERIT || next[key] === false) {
+                delete next[key]
+            }
+        }
+        this.props.onChange(next)
+    }
+
+    profileOptions = (): IDropdownOption[] => [
+        { key: INHERIT, text: intl.get("ai.overrides.inherit") },
+        ...listProfiles(window.settings.getAIConfigs()).map(p => ({
+            key: p.id,
+            text: p.id === DEFAULT_PROFILE_ID ? intl.get("ai.defaultProfile") : p.name,
+        })),
+    ]
+
+    onTargetChange = (translateTarget: string) => {
+        this.update({ translateTarget: translateTarget || undefined })
+    }
+
+    onProfileChange = (_, option?: IDropdownOption) => {
+        if (option) this.update({ profileId: (option.key as string) || undefined })
+    }
+
+    onSummaryPromptBlur = () => {
+        const summaryPrompt = this.state.summaryPrompt.trim()
+        if (summaryPrompt !== (this.props.value.summaryPrompt || "")) {
+            this.update({ summaryPrompt: summaryPrompt || undefined })
+        }
+    }
+
+    render() {
+        const { value } = this.props
+        return (
+            <Stack tokens={{ childrenGap: 8 }}>
+                <Stack horizontal tokens={{ childrenGap: 16 }}>
+                    <LanguagePicker
+                        label={intl.get("ai.translateTarget")}
+                        value={value.translateTarget || INHERIT}
+                        emptyOptionText={intl.get("ai.overrides.inherit")}
+                        onChange={this.onTargetChange}
+                        width={200}
+                    />
+                    <Dropdown
+                        label={intl.get("ai.profile")}
+                        options={this.profileOptions()}
+                        selectedKey={value.profileId || INHERIT}
+                        onChange={this.onProfileChange}
+                        style={{ width: 200 }}
+                    />
+                </Stack>
+                <TextField
+                    label={intl.get("ai.summaryPrompt")}
+                    multiline
+                    rows={2}
+                    placeholder={intl.get("ai.overrides.inherit")}
+                    value={this.state.summaryPrompt}
+                    onChange={(_, v) => this.setState({ summaryPrompt: v || "" })}
+                    onBlur={this.onSummaryPromptBlur}
+                />
+                <Toggle
+                    label={intl.get("ai.overrides.skipTranslation")}
+                    inlineLabel
+                    checked={!!value.skipTranslation}
+                    onChange={(_, checked) => this.update({ skipTranslation: checked })}
+                />
+            </Stack>
+        )
+    }
+}
+
+export default AIOverridesEditor
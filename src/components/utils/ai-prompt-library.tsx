@@ -0,0 +1,435 @@
+import * as React from "react"
+import intl from "react-intl-universal"
+import {
+    DefaultButton,
+    Dropdown,
+    IDropdownOption,
+    IconButton,
+    Label,
+    MessageBar,
+    MessageBarType,
+    PrimaryButton,
+    Spinner,
+    SpinnerSize,
+    Stack,
+    TextField,
+} from "@fluentui/react"
+import { AIConfigs, AIPromptTemplate } from "../../schema-types"
+import {
+    PROMPT_VARIABLES,
+    PromptTask,
+    exportPromptTemplates,
+    isBuiltinTemplate,
+    listPromptTemplates,
+    parsePromptTemplates,
+} from "../../scripts/models/services/aiPrompts"
+import {
+    PreviewArticle,
+    loadPreviewArticles,
+    previewPrompt,
+    testPromptTemplate,
+} from "../../scripts/models/services/aiPromptPreview"
+
+/** A template's name as shown to the reader; presets are translated. */
+export function promptTemplateName(template: AIPromptTemplate): string {
+    return isBuiltinTemplate(template.id)
+        ? intl.get(`ai.prompts.builtin.${template.id.split(":")[1]}`)
+        : template.name
+}
+
+const newTemplateId = () =>
+    `prompt-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`
+
+type AIPromptLibraryProps = {
+    configs: AIConfigs
+    onChange: (patch: Partial<AIConfigs>) => void
+}
+
+type AIPromptLibraryState = {
+    // The template being edited; its id is new when it is not saved yet.
+    draft: AIPromptTemplate | null
+    articles: PreviewArticle[]
+    article: number
+    testing: boolean
+    testOutput: string
+    testError: string
+}
+
+/**
+ * Named prompts for the summary and translation tasks. The default pick of
+ * each task replaces its prompt above; the summary button of the article
+ * view offers all summary templates for a single run.
+ */
+class AIPromptLibrary extends React.Component<AIPromptLibraryProps, AIPromptLibraryState> {
+    state: AIPromptLibraryState = {
+        draft: null,
+        articles: [],
+        article: 0,
+        testing: false,
+        testOutput: "",
+        testError: "",
+    }
+    private unmounted = false
+    private testAbort?: AbortController
+
+    componentWillUnmount() {
+        this.unmounted = true
+        if (this.testAbort) this.testAbort.abort()
+    }
+
+    userTemplates = () => this.props.configs.promptTemplates || []
+
+    defaults = () => this.props.configs.defaultPromptTemplates || {}
+
+    setDefault = (task: PromptTask, id: string) => {
+        this.props.onChange({
+            defaultPromptTemplates: { ...this.defaults(), [task]: id || undefined },
+        })
+    }
+
+    edit = (template: AIPromptTemplate, copy = false) => {
+        this.stopTest()
+        this.setState({
+            draft: copy
+                ? {
+                      ...template,
+                      id: newTemplateId(),
+                      name: intl.get("ai.prompts.copyOf", { name: promptTemplateName(template) }),
+                  }
+                : { ...template },
+            testOutput: "",
+            testError: "",
+        })
+        if (this.state.articles.length === 0) {
+            loadPreviewArticles()
+                .then(articles => {
+                    if (!this.unmounted) this.setState({ articles })
+                })
+                .catch(err => console.error(err))
+        }
+    }
+
+    create = () => {
+        this.edit({ id: newTemplateId(), name: "", task: "summary", prompt: "" })
+    }
+
+    updateDraft = (patch: Partial<AIPromptTemplate>) => {
+        this.setState(prevState => ({ draft: { ...prevState.draft, ...patch } }))
+    }
+
+    save = () => {
+        const draft = { ...this.state.draft, name: this.state.draft.name.trim() }
+        const templates = this.userTemplates()
+        const patch: Partial<AIConfigs> = {
+            promptTemplates: templates.some(t => t.id === draft.id)
+                ? templates.map(t => (t.id === draft.id ? draft : t))
+                : [...templates, draft],
+        }
+        // A template moved to the other task can no longer be the default
+        // of the task it left.
+        const other: PromptTask = draft.task === "summary" ? "translation" : "summary"
+        if (this.defaults()[other] === draft.id) {
+            patch.defaultPromptTemplates = { ...this.defaults(), [other]: undefined }
+        }
+        this.props.onChange(patch)
+        this.cancel()
+    }
+
+    cancel = () => {
+        this.stopTest()
+        this.setState({ draft: null })
+    }
+
+    remove = (template: AIPromptTemplate) => {
+        const defaults = { ...this.defaults() }
+        for (const task of ["summary", "translation"] as PromptTask[]) {
+            if (defaults[task] === template.id) delete defaults[task]
+        }
+        this.props.onChange({
+            promptTemplates: this.userTemplates().filter(t => t.id !== template.id),
+            defaultPromptTemplates: defaults,
+        })
+        if (this.state.draft?.id === template.id) this.cancel()
+    }
+
+    importTemplates = async () => {
+        const filters = [{ name: intl.get("ai.prompts.file"), extensions: ["json"] }]
+        const data = await window.utils.showOpenDialog(filters)
+        if (!data) return
+        let imported: AIPromptTemplate[]
+        try {
+            imported = parsePromptTemplates(data, newTemplateId)
+        } catch (err) {
+            window.utils.showErrorBox(intl.get("ai.prompts.importError"), String(err))
+            return
+        }
+        if (imported.length === 0) {
+            window.utils.showErrorBox(
+                intl.get("ai.prompts.importError"),
+                intl.get("ai.prompts.importEmpty")
+            )
+            return
+        }
+        this.props.onChange({ promptTemplates: [...this.userTemplates(), ...imported] })
+    }
+
+    exportTemplates = async () => {
+        const filters = [{ name: intl.get("ai.prompts.file"), extensions: ["json"] }]
+        const write = await window.utils.showSaveDialog(filters, "*/Simple_Reader_Prompts.json")
+        if (write) {
+            write(exportPromptTemplates(this.userTemplates()), intl.get("settings.writeError"))
+        }
+    }
+
+    test = async () => {
+        const { draft, articles, article } = this.state
+        this.stopTest()
+        const controller = new AbortController()
+        this.testAbort = controller
+        this.setState({ testing: true, testOutput: "", testError: "" })
+        try {
+            const output = await testPromptTemplate(
+                draft,
+                articles[article],
+                controller.signal,
+                (_delta, accumulated) => {
+                    if (!this.unmounted && this.testAbort === controller) {
+                        this.setState({ testOutput: accumulated })
+                    }
+                }
+            )
+            if (!this.unmounted && this.testAbort === controller) {
+                this.setState({ testOutput: output })
+            }
+        } catch (err) {
+            if ((err as Error).name !== "AbortError" && !this.unmounted) {
+                this.setState({
+                    testError: `${intl.get("ai.failed")}: ${(err as Error).message}`,
+                })
+            }
+        } finally {
+            if (!this.unmounted && this.testAbort === controller) {
+                this.testAbort = undefined
+                this.setState({ testing: false })
+            }
+        }
+    }
+
+    stopTest = () => {
+        if (this.testAbort) this.testAbort.abort()
+        this.testAbort = undefined
+        this.setState({ testing: false })
+    }
+
+    defaultOptions = (task: PromptTask): IDropdownOption[] => [
+        { key: "", text: intl.get("ai.prompts.usePrompts") },
+        ...listPromptTemplates(this.props.configs, task).map(template => ({
+            key: template.id,
+            text: promptTemplateName(template),
+        })),
+    ]
+
+    renderEditor() {
+        const { draft, articles, article, testing, testOutput, testError } = this.state
+        const tasks: IDropdownOption[] = [
+            { key: "summary", text: intl.get("ai.tasks.summary") },
+            { key: "translation", text: intl.get("ai.tasks.translation") },
+        ]
+        const articleOptions: IDropdownOption[] = articles.map(({ item, sourceName }, i) => ({
+            key: i,
+            text: sourceName ? `${item.title} (${sourceName})` : item.title,
+        }))
+        const valid = draft.name.trim() && draft.prompt.trim()
+        return (
+            <Stack
+                tokens={{ childrenGap: 8 }}
+                style={{ padding: 12, background: "var(--neutralLighter)", borderRadius: 2 }}>
+                <Stack horizontal tokens={{ childrenGap: 8 }}>
+                    <TextField
+                        label={intl.get("ai.prompts.name")}
+                        value={draft.name}
+                        onChange={(_, name) => this.updateDraft({ name: name || "" })}
+                        styles={{ root: { width: 240 } }}
+                    />
+                    <Dropdown
+                        label={intl.get("ai.prompts.task")}
+                        options={tasks}
+                        selectedKey={draft.task}
+                        onChange={(_, option) =>
+                            this.updateDraft({ task: option.key as PromptTask })
+                        }
+                        styles={{ root: { width: 160 } }}
+                    />
+                </Stack>
+                <TextField
+                    label={intl.get("ai.prompts.prompt")}
+                    multiline
+                    rows={5}
+                    value={draft.prompt}
+                    onChange={(_, prompt) => this.updateDraft({ prompt: prompt || "" })}
+                />
+                <Label>{intl.get("ai.prompts.preview")}</Label>
+                {articles.length > 0 ? (
+                    <>
+                        <Dropdown
+                            label={intl.get("ai.prompts.article")}
+                            options={articleOptions}
+                            selectedKey={article}
+                            onChange={(_, option) =>
+                                this.setState({
+                                    article: option.key as number,
+                                    testOutput: "",
+                                    testError: "",
+                                })
+                            }
+                        />
+                        <pre
+                            style={{
+                                whiteSpace: "pre-wrap",
+                                margin: 0,
+                                padding: 8,
+                                fontSize: 12,
+                                background: "var(--white)",
+                                maxHeight: 200,
+                                overflowY: "auto",
+                            }}>
+                            {previewPrompt(draft, articles[article])}
+                        </pre>
+                        <Stack horizontal tokens={{ childrenGap: 8 }} verticalAlign="center">
+                            {testing ? (
+                                <>
+                                    <DefaultButton
+                                        text={intl.get("ai.prompts.stop")}
+                                        onClick={this.stopTest}
+                                    />
+                                    <Spinner size={SpinnerSize.small} />
+                                </>
+                            ) : (
+                                <DefaultButton
+                                    text={intl.get("ai.prompts.test")}
+                                    onClick={this.test}
+                                    disabled={!this.props.configs.enabled || !draft.prompt.trim()}
+                                />
+                            )}
+                        </Stack>
+                        {testError && (
+                            <MessageBar messageBarType={MessageBarType.error}>
+                                {testError}
+                            </MessageBar>
+                        )}
+                        {testOutput && (
+                            <div
+                                style={{
+                                    whiteSpace: "pre-wrap",
+                                    padding: 8,
+                                    background: "var(--white)",
+                                }}>
+                                {testOutput}
+                            </div>
+                        )}
+                    </>
+                ) : (
+                    <span style={{ color: "var(--neutralSecondary)", fontSize: 12 }}>
+                        {intl.get("ai.prompts.noArticles")}
+                    </span>
+                )}
+                <Stack horizontal tokens={{ childrenGap: 8 }}>
+                    <PrimaryButton
+                        text={intl.get("ai.prompts.save")}
+                        onClick={this.save}
+                        disabled={!valid}
+                    />
+                    <DefaultButton text={intl.get("cancel")} onClick={this.cancel} />
+                </Stack>
+            </Stack>
+        )
+    }
+
+    render() {
+        const { draft } = this.state
+        const defaults = this.defaults()
+        return (
+            <Stack tokens={{ childrenGap: 8 }}>
+                <Label>{intl.get("ai.prompts.title")}</Label>
+                <span style={{ color: "var(--neutralSecondary)", fontSize: 12 }}>
+                    {intl.get("ai.prompts.description", {
+                        variables: PROMPT_VARIABLES.map(name => `{{${name}}}`).join(", "),
+                        content: "{{content}}",
+                    })}
+                </span>
+                <Stack horizontal wrap tokens={{ childrenGap: 8 }}>
+                    <Dropdown
+                        label={intl.get("ai.prompts.defaultSummary")}
+                        options={this.defaultOptions("summary")}
+                        selectedKey={defaults.summary || ""}
+                        onChange={(_, option) => this.setDefault("summary", option.key as string)}
+                        disabled={!this.props.configs.enabled}
+                        styles={{ root: { width: 240 } }}
+                    />
+                    <Dropdown
+                        label={intl.get("ai.prompts.defaultTranslation")}
+                        options={this.defaultOptions("translation")}
+                        selectedKey={defaults.translation || ""}
+                        onChange={(_, option) =>
+                            this.setDefault("translation", option.key as string)
+                        }
+                        disabled={!this.props.configs.enabled}
+                        styles={{ root: { width: 240 } }}
+                    />
+                </Stack>
+                <Stack tokens={{ childrenGap: 2 }}>
+                    {listPromptTemplates(this.props.configs).map(template => (
+                        <Stack
+                            key={template.id}
+                            horizontal
+                            verticalAlign="center"
+                            tokens={{ childrenGap: 8 }}>
+                            <span style={{ flexGrow: 1 }}>{promptTemplateName(template)}</span>
+                            <span style={{ color: "var(--neutralSecondary)", fontSize: 12 }}>
+                                {intl.get(`ai.tasks.${template.task}`)}
+                            </span>
+                            {!isBuiltinTemplate(template.id) && (
+                                <IconButton
+                                    iconProps={{ iconName: "Edit" }}
+                                    title={intl.get("ai.prompts.edit")}
+                                    onClick={() => this.edit(template)}
+                                />
+                            )}
+                            <IconButton
+                                iconProps={{ iconName: "Copy" }}
+                                title={intl.get("ai.prompts.duplicate")}
+                                onClick={() => this.edit(template, true)}
+                            />
+                            {!isBuiltinTemplate(template.id) && (
+                                <IconButton
+                                    iconProps={{ iconName: "Delete" }}
+                                    title={intl.get("ai.prompts.delete")}
+                                    onClick={() => this.remove(template)}
+                                />
+                            )}
+                        </Stack>
+                    ))}
+                </Stack>
+                {draft && this.renderEditor()}
+                <Stack horizontal tokens={{ childrenGap: 8 }}>
+                    <DefaultButton
+                        iconProps={{ iconName: "Add" }}
+                        text={intl.get("ai.prompts.new")}
+                        onClick={this.create}
+                    />
+                    <DefaultButton
+                        text={intl.get("ai.prompts.import")}
+                        onClick={this.importTemplates}
+                    />
+                    <DefaultButton
+                        text={intl.get("ai.prompts.export")}
+                        onClick={this.exportTemplates}
+                        disabled={this.userTemplates().length === 0}
+                    />
+                </Stack>
+            </Stack>
+        )
+    }
+}
+
+export default AIPromptLibrary
@@ -0,0 +1,120 @@
+import * as React from "react"
+import intl from "react-intl-universal"
+import { Dropdown, IDropdownOption, Label, Stack, TextField } from "@fluentui/react"
+import { AIConfigs, AISpeechConfigs } from "../../schema-types"
+import { DEFAULT_SPEECH_MODEL, DEFAULT_SPEECH_VOICE } from "../../scripts/models/services/speech"
+
+type AISpeechProps = {
+    configs: AIConfigs
+    onChange: (patch: Partial<AIConfigs>) => void
+}
+
+type AISpeechState = {
+    voices: SpeechSynthesisVoice[]
+}
+
+/**
+ * How articles are read aloud: with an offline system voice, or through the
+ * speech endpoint of the profile routed to the speech task.
+ */
+class AISpeech extends React.Component<AISpeechProps, AISpeechState> {
+    state: AISpeechState = { voices: [] }
+
+    componentDidMount() {
+        this.loadVoices()
+        // Chromium lists its voices asynchronously.
+        window.speechSynthesis.addEventListener("voiceschanged", this.loadVoices)
+    }
+
+    componentWillUnmount() {
+        window.speechSynthesis.removeEventListener("voiceschanged", this.loadVoices)
+    }
+
+    loadVoices = () => {
+        this.setState({
+            voices: window.speechSynthesis.getVoices().filter(voice => voice.localService),
+        })
+    }
+
+    speech = (): AISpeechConfigs => this.props.configs.speech || {}
+
+    update = (patch: Partial<AISpeechConfigs>) => {
+        this.props.onChange({ speech: { ...this.speech(), ...patch } })
+    }
+
+    render() {
+        const speech = this.speech()
+        const engine = speech.engine || "system"
+        const engines: IDropdownOption[] = [
+            { key: "system", text: intl.get("ai.speech.system") },
+            { key: "endpoint", text: intl.get("ai.speech.endpoint") },
+        ]
+        const voices: IDropdownOption[] = [
+            { key: "", text: intl.get("ai.speech.autoVoice") },
+            ...this.state.voices.map(voice => ({
+                key: voice.name,
+                text: `${voice.name} (${voice.lang})`,
+            })),
+        ]
+        return (
+            <Stack tokens={{ childrenGap: 8 }}>
+                <Label>{intl.get("ai.speech.title")}</Label>
+                <span style={{ color: "var(--neutralSecondary)", fontSize: 12 }}>
+                    {intl.get("ai.speech.description")}
+                </span>
+                <Stack horizontal wrap tokens={{ childrenGap: 8 }} verticalAlign="end">
+                    <Dropdown
+                        label={intl.get("ai.speech.engine")}
+                        options={engines}
+                        selectedKey={engine}
+                        onChange={(_, option) =>
+                            this.update({ engine: option.key as AISpeechConfigs["engine"] })
+                        }
+                        styles={{ root: { width: 200 } }}
+                    />
+                    {engine === "system" ? (
+                        <Dropdown
+                            label={intl.get("ai.speech.voice")}
+                            options={voices}
+                            selectedKey={speech.systemVoice || ""}
+                            onChange={(_, option) =>
+                                this.update({ systemVoice: (option.key as string) || undefined })
+                            }
+                            styles={{ root: { width: 280 } }}
+                        />
+                    ) : (
+                        <>
+                            <TextField
+                                label={intl.get("ai.speech.model")}
+                                placeholder={DEFAULT_SPEECH_MODEL}
+                                value={speech.model || ""}
+                                onChange={(_, model) =>
+                                    this.update({ model: (model || "").trim() })
+                                }
+                                disabled={!this.props.configs.enabled}
+                                styles={{ root: { width: 160 } }}
+                            />
+                            <TextField
+                                label={intl.get("ai.speech.voice")}
+                                placeholder={DEFAULT_SPEECH_VOICE}
+                                value={speech.voice || ""}
+                                onChange={(_, voice) =>
+                                    this.update({ voice: (voice || "").trim() })
+                                }
+                                disabled={!this.props.configs.enabled}
+                                styles={{ root: { width: 160 } }}
+                            />
+                        </>
+                    )}
+                </Stack>
+                {engine === "system" && this.state.voices.length === 0 && (
+                    <span style={{ color: "var(--neutralSecondary)", fontSize: 12 }}>
+                        {intl.get("ai.speech.noVoices")}
+                    </span>
+                )}
+            </Stack>
+        )
+    }
+}
+
+export default AISpeech
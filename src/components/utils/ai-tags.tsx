@@ -0,0 +1,88 @@
+import * as React from "react"
+import intl from "react-intl-universal"
+import { DefaultButton, IconButton, Label, Stack, TextField } from "@fluentui/react"
+import { AIConfigs } from "../../schema-types"
+import { normalizeTag } from "../../scripts/models/services/aiTags"
+
+type AITagsProps = {
+    configs: AIConfigs
+    onChange: (patch: Partial<AIConfigs>) => void
+}
+
+type AITagsState = {
+    newTag: string
+}
+
+/**
+ * The vocabulary the AI tagger picks from. Items are tagged when a source
+ * rule asks for it.
+ */
+class AITags extends React.Component<AITagsProps, AITagsState> {
+    state: AITagsState = { newTag: "" }
+
+    vocabulary = () => this.props.configs.tagVocabulary || []
+
+    add = () => {
+        const tag = normalizeTag(this.state.newTag)
+        if (!tag || this.vocabulary().some(t => t.toLowerCase() === tag.toLowerCase())) return
+        this.props.onChange({ tagVocabulary: [...this.vocabulary(), tag] })
+        this.setState({ newTag: "" })
+    }
+
+    remove = (tag: string) => {
+        this.props.onChange({ tagVocabulary: this.vocabulary().filter(t => t !== tag) })
+    }
+
+    render() {
+        const { newTag } = this.state
+        return (
+            <Stack tokens={{ childrenGap: 8 }}>
+                <Label>{intl.get("ai.tags.title")}</Label>
+                <span style={{ color: "var(--neutralSecondary)", fontSize: 12 }}>
+                    {intl.get("ai.tags.description")}
+                </span>
+                {this.vocabulary().length > 0 && (
+                    <Stack horizontal wrap tokens={{ childrenGap: 4 }}>
+                        {this.vocabulary().map(tag => (
+                            <Stack
+                                key={tag}
+                                horizontal
+                                verticalAlign="center"
+                                style={{
+                                    background: "var(--neutralLighter)",
+                                    borderRadius: 2,
+                                    paddingInlineStart: 8,
+                                }}>
+                                <span>{tag}</span>
+                                <IconButton
+                                    iconProps={{ iconName: "Cancel" }}
+                                    title={intl.get("ai.tags.remove")}
+                                    onClick={() => this.remove(tag)}
+                                    styles={{ root: { height: 24, width: 24 } }}
+                                />
+                            </Stack>
+                        ))}
+                    </Stack>
+                )}
+                <Stack horizontal tokens={{ childrenGap: 8 }} verticalAlign="end">
+                    <TextField
+                        placeholder={intl.get("ai.tags.name")}
+                        value={newTag}
+                        onChange={(_, value) => this.setState({ newTag: value || "" })}
+                        onKeyDown={e => {
+                            if (e.key === "Enter") this.add()
+                        }}
+                        styles={{ root: { width: 240 } }}
+                    />
+                    <DefaultButton
+                        text={intl.get("ai.tags.add")}
+                        onClick={this.add}
+                        disabled={!normalizeTag(newTag)}
+                    />
+                </Stack>
+            </Stack>
+        )
+    }
+}
+
+export default AITags
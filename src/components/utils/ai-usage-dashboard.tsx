@@ -0,0 +1,234 @@
+import * as React from "react"
+import intl from "react-intl-universal"
+import {
+    DetailsList,
+    Dropdown,
+    IColumn,
+    IDropdownOption,
+    Label,
+    MessageBar,
+    MessageBarType,
+    SelectionMode,
+    Stack,
+    TextField,
+} from "@fluentui/react"
+import { AIConfigs, AIModelPrice } from "../../schema-types"
+import {
+    AIUsageBucket,
+    AIUsageTotal,
+    dayOf,
+    groupUsage,
+    monthStart,
+    totalUsage,
+} from "../../scripts/models/services/aiUsage"
+
+type UsageView = "day" | "month" | "source"
+
+type AIUsageDashboardProps = {
+    configs: AIConfigs
+    onChange: (patch: Partial<AIConfigs>) => void
+}
+
+type AIUsageDashboardState = {
+    buckets: AIUsageBucket[]
+    view: UsageView
+}
+
+// Rows shown per view: a month of days, a year of months.
+const VIEW_ROWS: { [view in UsageView]: number } = { day: 31, month: 12, source: 50 }
+
+const formatTokens = (n: number) => n.toLocaleString()
+
+const formatCost = (cost: number) => (cost > 0 && cost < 0.01 ? "<$0.01" : `$${cost.toFixed(2)}`)
+
+const parsePrice = (value: string) => {
+    const n = parseFloat(value)
+    return isNaN(n) || n < 0 ? 0 : n
+}
+
+/**
+ * Token usage and estimated cost of the AI features, with the per-model
+ * prices and the monthly budget they are computed against.
+ */
+class AIUsageDashboard extends React.Component<AIUsageDashboardProps, AIUsageDashboardState> {
+    state: AIUsageDashboardState = { buckets: [], view: "day" }
+
+    componentDidMount() {
+        window.settings
+            .getAIUsage()
+            .then(buckets => this.setState({ buckets }))
+            .catch(() => {
+                /* non-fatal: the dashboard stays empty */
+            })
+    }
+
+    prices = () => this.props.configs.modelPrices || {}
+
+    // Models that have been used or priced, plus the current default.
+    models = (): string[] => {
+        const models = new Set<string>(Object.keys(this.prices()))
+        for (const bucket of this.state.buckets) models.add(bucket.model)
+        if (this.props.configs.defaultModel) models.add(this.props.configs.defaultModel)
+        return [...models].sort()
+    }
+
+    setPrice = (model: string, patch: Partial<AIModelPrice>) => {
+        const prices = this.prices()
+        const price = { input: 0, output: 0, ...prices[model], ...patch }
+        this.props.onChange({ modelPrices: { ...prices, [model]: price } })
+    }
+
+    viewOptions = (): IDropdownOption[] => [
+        { key: "day", text: intl.get("ai.usage.daily") },
+        { key: "month", text: intl.get("ai.usage.monthly") },
+        { key: "source", text: intl.get("ai.usage.bySource") },
+    ]
+
+    columns = (): IColumn[] => [
+        {
+            isRowHeader: true,
+            key: "label",
+            name: intl.get(this.state.view === "source" ? "ai.usage.source" : "ai.usage.period"),
+            minWidth: 120,
+            onRender: (total: AIUsageTotal) => total.label || intl.get("ai.usage.noSource"),
+        },
+        {
+            key: "calls",
+            name: intl.get("ai.usage.calls"),
+            minWidth: 50,
+            maxWidth: 60,
+            onRender: (total: AIUsageTotal) => formatTokens(total.calls),
+        },
+        {
+            key: "prompt",
+            name: intl.get("ai.usage.promptTokens"),
+            minWidth: 80,
+            maxWidth: 100,
+            onRender: (total: AIUsageTotal) => formatTokens(total.promptTokens),
+        },
+        {
+            key: "completion",
+            name: intl.get("ai.usage.completionTokens"),
+            minWidth: 80,
+            maxWidth: 100,
+            onRender: (total: AIUsageTotal) => formatTokens(total.completionTokens),
+        },
+        {
+            key: "cost",
+            name: intl.get("ai.usage.cost"),
+            minWidth: 60,
+            maxWidth: 80,
+            onRender: (total: AIUsageTotal) => formatCost(total.cost),
+        },
+    ]
+
+    rows = (): AIUsageTotal[] => {
+        const { buckets, view } = this.state
+        // The source breakdown covers the current month.
+        const since = view === "source" ? monthStart(Date.now()) : ""
+        return groupUsage(
+            buckets.filter(bucket => bucket.day >= since),
+            view,
+            this.prices()
+        ).slice(0, VIEW_ROWS[view])
+    }
+
+    render() {
+        const { configs } = this.props
+        const prices = this.prices()
+        const today = dayOf(Date.now())
+        const month = monthStart(Date.now())
+        const todayTotal = totalUsage(
+            this.state.buckets.filter(bucket => bucket.day === today),
+            prices
+        )
+        const monthTotal = totalUsage(
+            this.state.buckets.filter(bucket => bucket.day >= month),
+            prices
+        )
+        const budget = configs.monthlyBudget || 0
+        return (
+            <Stack tokens={{ childrenGap: 8 }}>
+                <Label>{intl.get("ai.usage.title")}</Label>
+                <Label style={{ fontWeight: 400 }}>
+                    {intl.get("ai.usage.summary", {
+                        todayTokens: formatTokens(
+                            todayTotal.promptTokens + todayTotal.completionTokens
+                        ),
+                        todayCost: formatCost(todayTotal.cost),
+                        monthTokens: formatTokens(
+                            monthTotal.promptTokens + monthTotal.completionTokens
+                        ),
+                        monthCost: formatCost(monthTotal.cost),
+                    })}
+                </Label>
+                {budget > 0 && monthTotal.cost >= budget && (
+                    <MessageBar messageBarType={MessageBarType.warning}>
+                        {intl.get("ai.usage.budgetExceeded", { budget: formatCost(budget) })}
+                    </MessageBar>
+                )}
+                <TextField
+                    label={intl.get("ai.usage.budget")}
+                    type="number"
+                    prefix="$"
+                    min={0}
+                    defaultValue={budget ? String(budget) : ""}
+                    onBlur={e => this.props.onChange({ monthlyBudget: parsePrice(e.target.value) })}
+                    description={intl.get("ai.usage.budgetDesc")}
+                    styles={{ root: { width: 300 } }}
+                />
+
+                <Dropdown
+                    label={intl.get("ai.usage.view")}
+                    selectedKey={this.state.view}
+                    options={this.viewOptions()}
+                    onChange={(_, option) =>
+                        option && this.setState({ view: option.key as UsageView })
+                    }
+                    styles={{ root: { width: 200 } }}
+                />
+                <DetailsList
+                    compact
+                    items={this.rows()}
+                    columns={this.columns()}
+                    selectionMode={SelectionMode.none}
+                />
+
+                <Label>{intl.get("ai.usage.prices")}</Label>
+                {this.models().map(model => (
+                    <Stack
+                        key={model}
+                        horizontal
+                        tokens={{ childrenGap: 8 }}
+                        verticalAlign="center">
+                        <span style={{ width: 200, overflow: "hidden", textOverflow: "ellipsis" }}>
+                            {model}
+                        </span>
+                        <TextField
+                            type="number"
+                            prefix={intl.get("ai.usage.input")}
+                            min={0}
+                            defaultValue={prices[model] ? String(prices[model].input) : ""}
+                            onBlur={e =>
+                                this.setPrice(model, { input: parsePrice(e.target.value) })
+                            }
+                            styles={{ root: { width: 150 } }}
+                        />
+                        <TextField
+                            type="number"
+                            prefix={intl.get("ai.usage.output")}
+                            min={0}
+                            defaultValue={prices[model] ? String(prices[model].output) : ""}
+                            onBlur={e =>
+                                this.setPrice(model, { output: parsePrice(e.target.value) })
+                            }
+                            styles={{ root: { width: 150 } }}
+                        />
+                    </Stack>
+                ))}
+            </Stack>
+        )
+    }
+}
+
+export default AIUsageDashboard
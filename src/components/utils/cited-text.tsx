@@ -0,0 +1,29 @@
+import * as React from "react"
+import { Link } from "@fluentui/react"
+
+type CitedTextProps = {
+    text: string
+    // Number of sources; [n] markers beyond it are left as plain text.
+    count: number
+    onCite: (n: number) => void
+}
+
+const CITATION = /(\[\d+\])/
+
+/** Model output with its [n] source markers turned into links. */
+const CitedText: React.FunctionComponent<CitedTextProps> = ({ text, count, onCite }) => (
+    <>
+        {text.split(CITATION).map((part, i) => {
+            const n = CITATION.test(part) ? parseInt(part.slice(1, -1)) : 0
+            return n > 0 && n <= count ? (
+                <Link key={i} onClick={() => onCite(n)}>
+                    {part}
+                </Link>
+            ) : (
+                <React.Fragment key={i}>{part}</React.Fragment>
+            )
+        })}
+    </>
+)
+
+export default CitedText
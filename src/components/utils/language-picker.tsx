@@ -0,0 +1,83 @@
+import * as React from "react"
+import intl from "react-intl-universal"
+import { ComboBox, IComboBox, IComboBoxOption } from "@fluentui/react"
+import { getCurrentLocale } from "../../scripts/settings"
+import {
+    COMMON_TARGET_LANGUAGES,
+    canonicalizeLanguageTag,
+    languageName,
+} from "../../scripts/models/services/langDetect"
+
+type LanguagePickerProps = {
+    label: string
+    value: string
+    onChange: (tag: string) => void
+    disabled?: boolean
+    // Adds an empty-keyed first option with this text, e.g. "Inherit".
+    emptyOptionText?: string
+    width?: number
+}
+
+type LanguagePickerState = {
+    error: string
+}
+
+/**
+ * Target language selector: the common languages as options, plus free
+ * text for any other BCP-47 tag (validated and canonicalized).
+ */
+class LanguagePicker extends React.Component<LanguagePickerProps, LanguagePickerState> {
+    state = { error: "" }
+
+    label = (tag: string) => `${languageName(tag, getCurrentLocale())} (${tag})`
+
+    options = (): IComboBoxOption[] => {
+        const tags = [...COMMON_TARGET_LANGUAGES]
+        if (this.props.value && !tags.includes(this.props.value)) tags.push(this.props.value)
+        const options: IComboBoxOption[] = tags.map(tag => ({ key: tag, text: this.label(tag) }))
+        if (this.props.emptyOptionText !== undefined) {
+            options.unshift({ key: "", text: this.props.emptyOptionText })
+        }
+        return options
+    }
+
+    onChange = (
+        _: React.FormEvent<IComboBox>,
+        option?: IComboBoxOption,
+        __?: number,
+        value?: string
+    ) => {
+        if (option) {
+            this.setState({ error: "" })
+            this.props.onChange(option.key as string)
+            return
+        }
+        // Free text: accept "ja" as well as "Japanese (ja)".
+        const typed = (value || "").trim()
+        const tag = canonicalizeLanguageTag(typed.replace(/^.*\(([^)]+)\)\s*$/, "$1"))
+        if (tag) {
+            this.setState({ error: "" })
+            this.props.onChange(tag)
+        } else if (typed) {
+            this.setState({ error: intl.get("ai.invalidLanguage") })
+        }
+    }
+
+    render() {
+        return (
+            <ComboBox
+                label={this.props.label}
+                allowFreeform
+                autoComplete="on"
+                selectedKey={this.props.value || ""}
+                options={this.options()}
+                onChange={this.onChange}
+                disabled={this.props.disabled}
+                errorMessage={this.state.error || undefined}
+                styles={{ root: { width: this.props.width || 300 } }}
+            />
+        )
+    }
+}
+
+export default LanguagePicker
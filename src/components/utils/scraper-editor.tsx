@@ -0,0 +1,159 @@
+import * as React from "react"
+import intl from "react-intl-universal"
+import { Label, MessageBar, MessageBarType, Spinner, Stack, TextField } from "@fluentui/react"
+import { ScraperConfig } from "../../scripts/models/services/feedScraper"
+import { MyParserItem, fetchPage, scrapePage, urlTest } from "../../scripts/utils"
+
+type ScraperEditorProps = {
+    // Address of the page the selectors read.
+    url: string
+    value: ScraperConfig
+    onChange: (value: ScraperConfig) => void
+}
+
+type ScraperEditorState = {
+    page: { html: string; url: string } | null
+    loading: boolean
+    error: string
+}
+
+// Items listed in the preview.
+const PREVIEW_ITEMS = 5
+// Wait after the address is edited before the page is fetched again.
+const FETCH_DELAY = 800
+
+const FIELDS: { key: keyof ScraperConfig; placeholder: string }[] = [
+    { key: "item", placeholder: "article, .post" },
+    { key: "title", placeholder: "h2" },
+    { key: "link", placeholder: "a" },
+    { key: "date", placeholder: "time" },
+    { key: "content", placeholder: ".summary" },
+]
+
+/**
+ * Editor for the selectors of a scraper source, previewing the items they
+ * read from the page as they are typed. The page is fetched once per
+ * address; editing selectors only reads it again.
+ */
+class ScraperEditor extends React.Component<ScraperEditorProps, ScraperEditorState> {
+    state: ScraperEditorState = { page: null, loading: false, error: "" }
+    fetchTimer: NodeJS.Timeout = null
+    // The address last fetched; pages of other addresses arriving late are
+    // dropped.
+    fetchedUrl = ""
+
+    componentDidMount() {
+        this.fetch()
+    }
+
+    componentDidUpdate(prevProps: ScraperEditorProps) {
+        if (prevProps.url !== this.props.url) {
+            clearTimeout(this.fetchTimer)
+            this.fetchTimer = setTimeout(this.fetch, FETCH_DELAY)
+        }
+    }
+
+    componentWillUnmount() {
+        clearTimeout(this.fetchTimer)
+        this.fetchedUrl = ""
+    }
+
+    fetch = () => {
+        const url = this.props.url.trim()
+        this.fetchedUrl = url
+        if (!urlTest(url)) {
+            this.setState({ page: null, loading: false, error: "" })
+            return
+        }
+        this.setState({ loading: true, error: "" })
+        fetchPage(url)
+            .then(page => {
+                if (this.fetchedUrl === url) this.setState({ page, loading: false })
+            })
+            .catch(err => {
+                if (this.fetchedUrl === url) {
+                    this.setState({ page: null, loading: false, error: String(err.message || err) })
+                }
+            })
+    }
+
+    onFieldChange = (key: keyof ScraperConfig, value: string) => {
+        this.props.onChange({ ...this.props.value, [key]: value })
+    }
+
+    renderPreview() {
+        const { page, loading, error } = this.state
+        const { item, title } = this.props.value
+        if (loading) return <Spinner label={intl.get("sources.scraper.loading")} />
+        if (error) {
+            return (
+                <MessageBar messageBarType={MessageBarType.error}>
+                    {intl.get("sources.scraper.fetchError", { error })}
+                </MessageBar>
+            )
+        }
+        if (!page || !item.trim() || !title.trim()) return null
+        let items: MyParserItem[]
+        try {
+            items = scrapePage(page.html, page.url, this.props.value).items
+        } catch {
+            return (
+                <MessageBar messageBarType={MessageBarType.warning}>
+                    {intl.get("sources.scraper.badSelector")}
+                </MessageBar>
+            )
+        }
+        return (
+            <Stack tokens={{ childrenGap: 8 }}>
+                <span className="settings-hint" style={{ lineHeight: "20px" }}>
+                    {intl.get("sources.scraper.found", { count: items.length })}
+                </span>
+                {items.slice(0, PREVIEW_ITEMS).map((i, index) => (
+                    <Stack
+                        key={index}
+                        tokens={{ childrenGap: 2 }}
+                        style={{ borderLeft: "2px solid var(--neutralLighter)", paddingLeft: 8 }}>
+                        <b>{i.title}</b>
+                        <span style={{ color: "var(--neutralSecondary)", fontSize: 12 }}>
+                            {i.link || intl.get("sources.scraper.noLink")}
+                            {" · "}
+                            {i.isoDate
+                                ? new Date(i.isoDate).toLocaleString()
+                                : intl.get("sources.scraper.noDate")}
+                        </span>
+                        {i.contentSnippet && (
+                            <span style={{ fontSize: 12 }}>{i.contentSnippet.slice(0, 160)}</span>
+                        )}
+                    </Stack>
+                ))}
+            </Stack>
+        )
+    }
+
+    render() {
+        return (
+            <Stack tokens={{ childrenGap: 8 }} styles={{ root: { marginTop: 8 } }}>
+                <Label>{intl.get("sources.scraper.selectors")}</Label>
+                <span className="settings-hint" style={{ lineHeight: "20px" }}>
+                    {intl.get("sources.scraper.hint")}
+                </span>
+                <Stack horizontal wrap tokens={{ childrenGap: 8 }}>
+                    {FIELDS.map(({ key, placeholder }) => (
+                        <TextField
+                            key={key}
+                            label={intl.get(`sources.scraper.${key}`)}
+                            placeholder={placeholder}
+                            required={key === "item" || key === "title"}
+                            value={this.props.value[key] || ""}
+                            onChange={(_, value) => this.onFieldChange(key, value || "")}
+                            styles={{ root: { width: 180 } }}
+                        />
+                    ))}
+                </Stack>
+                {this.renderPreview()}
+            </Stack>
+        )
+    }
+}
+
+export default ScraperEditor
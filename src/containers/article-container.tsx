@@ -8,9 +8,10 @@ import {
     toggleStarred,
     toggleHidden,
     itemShortcuts,
+    saveFullText,
 } from "../scripts/models/item"
 import { AppDispatch } from "../scripts/utils"
-import { dismissItem, showOffsetItem } from "../scripts/models/page"
+import { dismissItem, showNextUnreadItem, showOffsetItem } from "../scripts/models/page"
 import Article from "../components/article"
 import { openTextMenu, closeContextMenu, openImageMenu } from "../scripts/models/app"
 import { RSSSource, SourceTextDirection, updateSource } from "../scripts/models/source"
@@ -37,6 +38,7 @@ const mapDispatchToProps = (dispatch: AppDispatch) => {
         shortcuts: (item: RSSItem, e: KeyboardEvent) => dispatch(itemShortcuts(item, e)),
         dismiss: () => dispatch(dismissItem()),
         offsetItem: (offset: number) => dispatch(showOffsetItem(offset)),
+        showNextUnread: () => dispatch(showNextUnreadItem()),
         toggleHasRead: (item: RSSItem) =>
             dispatch(item.hasRead ? markUnread(item) : markRead(item)),
         toggleStarred: (item: RSSItem) => dispatch(toggleStarred(item)),
@@ -52,6 +54,10 @@ const mapDispatchToProps = (dispatch: AppDispatch) => {
         updateSourceTextDirection: (source: RSSSource, direction: SourceTextDirection) => {
             dispatch(updateSource({ ...source, textDir: direction } as RSSSource))
         },
+        saveFullText: (item: RSSItem, fullText: string) =>
+            dispatch(saveFullText(item, fullText)).catch(err =>
+                console.warn("saveFullText failed:", err)
+            ),
     }
 }
 
@@ -0,0 +1,16 @@
+import { connect } from "react-redux"
+import { RootState } from "../scripts/reducer"
+import AskPage from "../components/ask-page"
+import { AppDispatch } from "../scripts/utils"
+import { showItemFromId } from "../scripts/models/page"
+
+const mapStateToProps = (state: RootState) => ({
+    sources: state.sources,
+})
+
+const mapDispatchToProps = (dispatch: AppDispatch) => ({
+    showItem: (iid: number) => dispatch(showItemFromId(iid)),
+})
+
+const AskContainer = connect(mapStateToProps, mapDispatchToProps)(AskPage)
+export default AskContainer
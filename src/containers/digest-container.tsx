@@ -0,0 +1,19 @@
+import { connect } from "react-redux"
+import { createSelector } from "reselect"
+import { RootState } from "../scripts/reducer"
+import DigestPage from "../components/digest-page"
+import { AppDispatch } from "../scripts/utils"
+import { showItemFromId } from "../scripts/models/page"
+
+const getGroups = (state: RootState) => state.groups
+
+const mapStateToProps = createSelector([getGroups], groups => ({
+    groups: groups.filter(g => g.isMultiple),
+}))
+
+const mapDispatchToProps = (dispatch: AppDispatch) => ({
+    showItem: (iid: number) => dispatch(showItemFromId(iid)),
+})
+
+const DigestContainer = connect(mapStateToProps, mapDispatchToProps)(DigestPage)
+export default DigestContainer
@@ -7,6 +7,7 @@ import { loadMore, RSSFeed } from "../scripts/models/feed"
 import { showItem } from "../scripts/models/page"
 import { ViewType } from "../schema-types"
 import { Feed } from "../components/feeds/feed"
+import { groupDuplicates } from "../scripts/models/services/dedupe"
 
 interface FeedContainerProps {
     feedId: string
@@ -14,6 +15,7 @@ interface FeedContainerProps {
 }
 
 const getSources = (state: RootState) => state.sources
+const getGroups = (state: RootState) => state.groups
 const getItems = (state: RootState) => state.items
 const getFeed = (state: RootState, props: FeedContainerProps) => state.feeds[props.feedId]
 const getFilter = (state: RootState) => state.page.filter
@@ -23,16 +25,30 @@ const getCurrentItem = (state: RootState) => state.page.itemId
 
 const makeMapStateToProps = () => {
     return createSelector(
-        [getSources, getItems, getFeed, getView, getFilter, getViewConfigs, getCurrentItem],
-        (sources, items, feed, viewType, filter, viewConfigs, currentItem) => ({
-            feed: feed,
-            items: feed.iids.map(iid => items[iid]),
-            sourceMap: sources,
-            filter: filter,
-            viewType: viewType,
-            viewConfigs: viewConfigs,
-            currentItem: currentItem,
-        })
+        [
+            getSources,
+            getGroups,
+            getItems,
+            getFeed,
+            getView,
+            getFilter,
+            getViewConfigs,
+            getCurrentItem,
+        ],
+        (sources, groups, items, feed, viewType, filter, viewConfigs, currentItem) => {
+            const [visible, duplicates] = groupDuplicates(feed.iids.map(iid => items[iid]))
+            return {
+                feed: feed,
+                items: visible,
+                duplicates: duplicates,
+                sourceMap: sources,
+                groups: groups,
+                filter: filter,
+                viewType: viewType,
+                viewConfigs: viewConfigs,
+                currentItem: currentItem,
+            }
+        }
     )
 }
 const mapDispatchToProps = dispatch => {
@@ -9,6 +9,9 @@ import {
     selectAllArticles,
     selectStarred,
     selectSources,
+    selectAsk,
+    selectDigests,
+    selectTag,
     toggleSearch,
 } from "../scripts/models/page"
 import { ViewType } from "../schema-types"
@@ -30,6 +33,8 @@ const mapStateToProps = createSelector(
         selected: app.menuKey,
         sources: sources,
         groups: groups.map((g, i) => ({ ...g, index: i })),
+        // Read again whenever the settings close, where the vocabulary is edited.
+        tags: window.settings.getAIConfigs().tagVocabulary || [],
         searchOn: searchOn,
         itemOn: itemOn,
     })
@@ -45,6 +50,8 @@ const mapDispatchToProps = dispatch => ({
         dispatch(selectStarred(true))
         dispatch(initFeeds())
     },
+    selectAsk: () => dispatch(selectAsk()),
+    selectDigests: () => dispatch(selectDigests()),
     selectSourceGroup: (group: SourceGroup, menuKey: string) => {
         dispatch(selectSources(group.sids, menuKey, group.name))
         dispatch(initFeeds())
@@ -53,6 +60,10 @@ const mapDispatchToProps = dispatch => ({
         dispatch(selectSources([source.sid], "s-" + source.sid, source.name))
         dispatch(initFeeds())
     },
+    selectTag: (tag: string) => {
+        dispatch(selectTag(tag))
+        dispatch(initFeeds())
+    },
     groupContextMenu: (sids: number[], event: React.MouseEvent) => {
         dispatch(openGroupMenu(sids, event))
     },
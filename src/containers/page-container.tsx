@@ -21,6 +21,7 @@ const mapStateToProps = createSelector(
         itemId: page.itemId,
         itemFromFeed: page.itemFromFeed,
         viewType: page.viewType,
+        pageType: page.pageType,
     })
 )
 
@@ -21,7 +21,8 @@ import {
 } from "../../scripts/models/group"
 import { AppDispatch, validateFavicon } from "../../scripts/utils"
 import { saveSettings, toggleSettings } from "../../scripts/models/app"
-import { SyncService } from "../../schema-types"
+import { AIOverrides, SyncService } from "../../schema-types"
+import { ScraperConfig } from "../../scripts/models/services/feedScraper"
 
 const getSources = (state: RootState) => state.sources
 const getServiceOn = (state: RootState) => state.service.type !== SyncService.None
@@ -66,6 +67,25 @@ const mapDispatchToProps = (dispatch: AppDispatch) => {
                 } as RSSSource)
             )
         },
+        updateAIOverrides: (source: RSSSource, ai: AIOverrides) => {
+            dispatch(
+                updateSource({
+                    ...source,
+                    ai: Object.keys(ai).length > 0 ? ai : undefined,
+                } as RSSSource)
+            )
+        },
+        updateScraper: (source: RSSSource, scraper: ScraperConfig) => {
+            // Fetched afresh with the new selectors.
+            dispatch(
+                updateSource({
+                    ...source,
+                    scraper,
+                    etag: undefined,
+                    lastModified: undefined,
+                } as RSSSource)
+            )
+        },
         deleteSource: (source: RSSSource) => dispatch(deleteSource(source)),
         deleteSources: (sources: RSSSource[]) => dispatch(deleteSources(sources)),
         importOPML: () => dispatch(importOPML()),
@@ -6,6 +6,7 @@ import Root from "./components/root"
 import { applyThemeSettings } from "./scripts/settings"
 import { initApp, openTextMenu } from "./scripts/models/app"
 import { rootStore } from "./scripts/reducer"
+import { setUsageReporter } from "./scripts/models/services/aiClient"
 
 window.settings.setProxy()
 
@@ -13,6 +14,7 @@ applyThemeSettings()
 initializeIcons("icons/")
 
 rootStore.dispatch(initApp())
+setUsageReporter(record => window.settings.recordAIUsage(record))
 
 window.utils.addMainContextListener((pos, text) => {
     rootStore.dispatch(openTextMenu(pos, text))
@@ -10,6 +10,7 @@ import {
     ServiceConfigs,
     ViewConfigs,
     AIConfigs,
+    AIProvider,
     Shortcuts,
 } from "../schema-types"
 import { ipcMain, session, nativeTheme, app } from "electron"
@@ -41,6 +42,14 @@ ipcMain.handle("set-close-to-tray", (_, state: boolean) => {
     store.set(CLOSE_TO_TRAY_KEY, state)
 })
 
+const READ_DUPLICATES_KEY = "readDuplicates"
+ipcMain.on("get-read-duplicates", event => {
+    event.returnValue = store.get(READ_DUPLICATES_KEY, true)
+})
+ipcMain.handle("set-read-duplicates", (_, state: boolean) => {
+    store.set(READ_DUPLICATES_KEY, state)
+})
+
 const PAC_STORE_KEY = "pac"
 const PAC_STATUS_KEY = "pacOn"
 function getProxyStatus() {
@@ -184,22 +193,31 @@ ipcMain.handle("set-filter-type", (_, filterType: number) => {
 })
 
 const LIST_CONFIGS_STORE_KEY = "listViewConfigs"
-ipcMain.on("get-view-configs", (event, view: ViewType) => {
+const CARDS_CONFIGS_STORE_KEY = "cardsViewConfigs"
+const MAGAZINE_CONFIGS_STORE_KEY = "magazineViewConfigs"
+const COMPACT_CONFIGS_STORE_KEY = "compactViewConfigs"
+const viewConfigsStoreKey = (view: ViewType) => {
     switch (view) {
         case ViewType.List:
-            event.returnValue = store.get(LIST_CONFIGS_STORE_KEY, ViewConfigs.ShowCover)
-            break
+            return LIST_CONFIGS_STORE_KEY
+        case ViewType.Cards:
+            return CARDS_CONFIGS_STORE_KEY
+        case ViewType.Magazine:
+            return MAGAZINE_CONFIGS_STORE_KEY
+        case ViewType.Compact:
+            return COMPACT_CONFIGS_STORE_KEY
         default:
-            event.returnValue = undefined
-            break
+            return null
     }
+}
+ipcMain.on("get-view-configs", (event, view: ViewType) => {
+    const key = viewConfigsStoreKey(view)
+    const defaults = (view === ViewType.List ? ViewConfigs.ShowCover : 0) as ViewConfigs
+    event.returnValue = key ? store.get(key, defaults) : undefined
 })
 ipcMain.handle("set-view-configs", (_, view: ViewType, configs: ViewConfigs) => {
-    switch (view) {
-        case ViewType.List:
-            store.set(LIST_CONFIGS_STORE_KEY, configs)
-            break
-    }
+    const key = viewConfigsStoreKey(view)
+    if (key) store.set(key, configs)
 })
 
 const NEDB_STATUS_STORE_KEY = "useNeDB"
@@ -245,6 +263,7 @@ ipcMain.handle("set-shortcuts", (_, shortcuts: Shortcuts) => {
 const AI_CONFIGS_STORE_KEY = "aiConfigs"
 const DEFAULT_AI_CONFIGS: AIConfigs = {
     enabled: false,
+    provider: AIProvider.OpenAI,
     baseUrl: "https://api.openai.com/v1",
     apiKey: "",
     defaultModel: "gpt-4o-mini",
@@ -256,6 +275,7 @@ const DEFAULT_AI_CONFIGS: AIConfigs = {
     concurrency: 5,
     maxTextLengthPerRequest: 1500,
     maxParagraphsPerRequest: 1,
+    cacheMaxSizeMB: 100,
 }
 ipcMain.on("get-ai-configs", event => {
     const saved = store.get(AI_CONFIGS_STORE_KEY, DEFAULT_AI_CONFIGS) as Partial<AIConfigs>
@@ -264,6 +284,7 @@ ipcMain.on("get-ai-configs", event => {
 })
 ipcMain.handle("set-ai-configs", (_, configs: AIConfigs) => {
     store.set(AI_CONFIGS_STORE_KEY, configs)
+    applyCacheLimits(configs)
 })
 
 // AI Cache IPC handlers
@@ -273,29 +294,38 @@ import * as aiCache from "../scripts/models/services/aiCache"
 let cacheInitialized = false
 const ensureCacheInit = (): void => {
     if (!cacheInitialized && app.isReady()) {
+        const configs = store.get(AI_CONFIGS_STORE_KEY, DEFAULT_AI_CONFIGS) as Partial<AIConfigs>
+        applyCacheLimits(configs)
         aiCache.initDB(app.getPath("userData"))
         cacheInitialized = true
     }
 }
 
-ipcMain.handle("ai-cache-get", (_, itemId: string) => {
+function applyCacheLimits(configs: Partial<AIConfigs>): void {
+    const maxSizeMB = configs.cacheMaxSizeMB
+    aiCache.setCacheLimits({
+        maxBytes: maxSizeMB > 0 ? maxSizeMB * 1024 * 1024 : aiCache.DEFAULT_CACHE_LIMITS.maxBytes,
+    })
+}
+
+ipcMain.handle("ai-cache-get", (_, key: string) => {
     ensureCacheInit()
-    return aiCache.getCache(itemId)
+    return aiCache.getCache(key)
 })
 
-ipcMain.handle("ai-cache-save-summary", (_, itemId: string, summary: string) => {
+ipcMain.handle("ai-cache-save", (_, entry: Omit<aiCache.AICacheEntry, "createdAt">) => {
     ensureCacheInit()
-    aiCache.saveSummary(itemId, summary)
+    aiCache.saveEntry(entry)
 })
 
-ipcMain.handle("ai-cache-save-translation", (_, itemId: string, translation: string) => {
+ipcMain.handle("ai-cache-list", (_, limit?: number) => {
     ensureCacheInit()
-    aiCache.saveTranslation(itemId, translation)
+    return aiCache.listCache(limit)
 })
 
-ipcMain.handle("ai-cache-save-title-translation", (_, itemId: string, titleTranslation: string) => {
+ipcMain.handle("ai-cache-delete", (_, key: string) => {
     ensureCacheInit()
-    aiCache.saveTitleTranslation(itemId, titleTranslation)
+    aiCache.deleteCache(key)
 })
 
 ipcMain.handle("ai-cache-clear-old", (_, daysToKeep: number) => {
@@ -311,3 +341,88 @@ ipcMain.handle("ai-cache-size", () => {
 app.on("before-quit", () => {
     aiCache.closeDB()
 })
+
+// AI usage IPC handlers
+import * as aiUsageLog from "../scripts/models/services/aiUsageLog"
+import type { AIUsageRecord } from "../scripts/models/services/aiUsage"
+
+let usageInitialized = false
+const ensureUsageInit = (): void => {
+    if (!usageInitialized && app.isReady()) {
+        aiUsageLog.initUsageLog(app.getPath("userData"))
+        usageInitialized = true
+    }
+}
+
+ipcMain.handle("ai-usage-record", (_, record: AIUsageRecord) => {
+    ensureUsageInit()
+    aiUsageLog.recordUsage(record)
+})
+
+ipcMain.handle("ai-usage-get", (_, sinceDay?: string) => {
+    ensureUsageInit()
+    return aiUsageLog.getUsage(sinceDay)
+})
+
+// Embedding index IPC handlers
+import * as aiIndex from "../scripts/models/services/aiIndex"
+
+let indexInitialized = false
+const ensureIndexInit = (): void => {
+    if (!indexInitialized && app.isReady()) {
+        aiIndex.initIndex(app.getPath("userData"))
+        indexInitialized = true
+    }
+}
+
+ipcMain.handle("ai-index-add", (_, model: string, entries: aiIndex.AIIndexEntry[]) => {
+    ensureIndexInit()
+    aiIndex.addVectors(model, entries)
+})
+
+ipcMain.handle("ai-index-missing", (_, model: string, ids: number[]) => {
+    ensureIndexInit()
+    return aiIndex.missingIds(model, ids)
+})
+
+ipcMain.handle("ai-index-search", (_, model: string, query: number[], limit: number) => {
+    ensureIndexInit()
+    return aiIndex.searchVectors(model, query, limit)
+})
+
+ipcMain.handle("ai-index-stats", () => {
+    ensureIndexInit()
+    return aiIndex.getIndexStats()
+})
+
+ipcMain.handle("ai-index-clear", () => {
+    ensureIndexInit()
+    aiIndex.clearIndex()
+})
+
+// Digest IPC handlers
+import * as aiDigestLog from "../scripts/models/services/aiDigestLog"
+import type { Digest } from "../scripts/models/services/aiDigest"
+
+let digestsInitialized = false
+const ensureDigestsInit = (): void => {
+    if (!digestsInitialized && app.isReady()) {
+        aiDigestLog.initDigestLog(app.getPath("userData"))
+        digestsInitialized = true
+    }
+}
+
+ipcMain.handle("ai-digest-save", (_, digest: Digest) => {
+    ensureDigestsInit()
+    aiDigestLog.saveDigest(digest)
+})
+
+ipcMain.handle("ai-digest-list", () => {
+    ensureDigestsInit()
+    return aiDigestLog.listDigests()
+})
+
+ipcMain.handle("ai-digest-delete", (_, id: string) => {
+    ensureDigestsInit()
+    aiDigestLog.deleteDigest(id)
+})
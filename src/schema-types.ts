@@ -4,6 +4,9 @@ export class SourceGroup {
     name?: string
     expanded?: boolean
     index?: number // available only from menu or groups tab container
+    ai?: AIOverrides
+    // How often a topic digest of the group's unread items is made.
+    digest?: "daily" | "weekly"
 
     constructor(sids: number[], name: string = null) {
         name = (name && name.trim()) || "Source group"
@@ -30,6 +33,7 @@ export const enum ViewConfigs {
     ShowCover = 1 << 0,
     ShowSnippet = 1 << 1,
     FadeRead = 1 << 2,
+    ShowAISummary = 1 << 3,
 }
 
 export const enum ThemeSettings {
@@ -81,23 +85,142 @@ export interface TouchBarTexts {
     notifications: string
 }
 
+export const enum AIProvider {
+    OpenAI = "openai",
+    Anthropic = "anthropic",
+    Ollama = "ollama",
+    Azure = "azure",
+}
+
+export const enum AITask {
+    Summary = "summary",
+    Translation = "translation",
+    Selection = "selection",
+    Chat = "chat",
+    Ask = "ask",
+    Digest = "digest",
+    Interests = "interests",
+    Tagging = "tagging",
+    Speech = "speech",
+}
+
+export interface AIProfile {
+    id: string
+    name: string
+    provider?: AIProvider
+    apiVersion?: string
+    baseUrl: string
+    apiKey: string
+    defaultModel: string
+    availableModels: string[]
+}
+
+// A topic the reader follows. Items mentioning the name or a keyword rank
+// higher in the priority sort.
+export interface AIInterest {
+    name: string
+    keywords: string[]
+}
+
+// A named prompt of the prompt library, for the summary or the translation
+// task. The text may use the variables {{title}}, {{source}}, {{date}},
+// {{targetLang}} and {{content}}.
+export interface AIPromptTemplate {
+    id: string
+    name: string
+    task: "summary" | "translation"
+    prompt: string
+}
+
+// A glossary term for translations. Without a translation the term is kept
+// as written; `lang` (BCP-47) limits the entry to one target language.
+export interface AIGlossaryEntry {
+    term: string
+    translation?: string
+    lang?: string
+}
+
+// Price of a model in US dollars per million tokens.
+export interface AIModelPrice {
+    input: number
+    output: number
+}
+
+// AI settings a source or group may override; unset fields inherit. A
+// source's own overrides win over its group's, which win over AIConfigs.
+export interface AIOverrides {
+    translateTarget?: AIConfigs["translateTarget"]
+    summaryPrompt?: string
+    profileId?: string
+    skipTranslation?: boolean
+}
+
+// How articles are read aloud. The system engine speaks with the voices
+// Chromium has offline; "endpoint" posts each sentence to the /audio/speech
+// endpoint of the profile routed to the speech task.
+export interface AISpeechConfigs {
+    engine?: "system" | "endpoint"
+    // speechSynthesis voice name; unset picks one for the article's language.
+    systemVoice?: string
+    // Endpoint model (or Azure deployment) and voice, e.g. tts-1 and alloy.
+    model?: string
+    voice?: string
+    rate?: number
+    // Open the next unread article when one has been read to the end.
+    continueToNext?: boolean
+}
+
 export interface AIConfigs {
     enabled: boolean
+    // Wire format of the endpoint at baseUrl. Missing means OpenAI-compatible,
+    // which is what every config saved before providers existed used.
+    provider?: AIProvider
+    // Azure OpenAI only: the api-version query parameter.
+    apiVersion?: string
     baseUrl: string
     apiKey: string
     defaultModel: string
     availableModels: string[]
     autoSummary?: boolean
     autoTranslateImmersive?: boolean
-    translateTarget?: "zh" | "en"
+    // BCP-47 tag, e.g. "zh", "en", "ja", "pt-BR"
+    translateTarget?: string
     translateWhen?: "auto" | "nonTargetOnly" | "always" | "zhOnly" | "nonZhOnly"
     concurrency?: number
     maxTextLengthPerRequest?: number
     maxParagraphsPerRequest?: number
+    // Size cap for the AI cache on disk; least recently used entries go first.
+    cacheMaxSizeMB?: number
+    // Per-model prices for the usage dashboard's cost estimates.
+    modelPrices?: { [model: string]: AIModelPrice }
+    // Estimated monthly spend (USD) at which auto summary/translation pause;
+    // unset or 0 means no cap.
+    monthlyBudget?: number
+    // Embed new articles as they are fetched, for questions across the library.
+    indexLibrary?: boolean
+    // Model (or Azure deployment) used for those embeddings.
+    embeddingModel?: string
+    interests?: AIInterest[]
+    // Tags items may be given by a rule's AI tagging action; nothing else is
+    // ever assigned.
+    tagVocabulary?: string[]
+    speech?: AISpeechConfigs
     prompts?: {
         summary?: string
         translation?: string
     }
+    // The reader's own templates; the built-in presets are not stored.
+    promptTemplates?: AIPromptTemplate[]
+    // Template id used per task when none is picked; unset uses the prompts
+    // above.
+    defaultPromptTemplates?: { summary?: string; translation?: string }
+    // Terms every translation must render the same way.
+    glossary?: AIGlossaryEntry[]
+    // Additional connection profiles. The top-level provider/baseUrl/apiKey/
+    // model fields above form the implicit "default" profile.
+    profiles?: AIProfile[]
+    // Profile id per task; unset or stale ids fall back to the default profile.
+    taskProfiles?: { [task in AITask]?: string }
 }
 
 export interface Shortcuts {
@@ -141,10 +264,14 @@ export type SchemaTypes = {
     serviceConfigs: ServiceConfigs
     filterType: number
     listViewConfigs: ViewConfigs
+    cardsViewConfigs: ViewConfigs
+    magazineViewConfigs: ViewConfigs
+    compactViewConfigs: ViewConfigs
     useNeDB: boolean
     aiConfigs: AIConfigs
     shortcuts: Shortcuts
     closeToTray: boolean
+    readDuplicates: boolean
     updateLastCheckedAt: number
     updateLatestVersion: string
     updateLatestUrl: string
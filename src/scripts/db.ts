@@ -4,7 +4,7 @@ import lf from "lovefield"
 import { RSSSource } from "./models/source"
 import { RSSItem } from "./models/item"
 
-const sdbSchema = lf.schema.create("sourcesDB", 4)
+const sdbSchema = lf.schema.create("sourcesDB", 7)
 sdbSchema
     .createTable("sources")
     .addColumn("sid", lf.Type.INTEGER)
@@ -20,10 +20,25 @@ sdbSchema
     .addColumn("textDir", lf.Type.NUMBER)
     .addColumn("hidden", lf.Type.BOOLEAN)
     .addColumn("image", lf.Type.STRING)
-    .addNullable(["iconurl", "serviceRef", "rules", "image"])
+    .addColumn("ai", lf.Type.OBJECT)
+    .addColumn("etag", lf.Type.STRING)
+    .addColumn("lastModified", lf.Type.STRING)
+    .addColumn("health", lf.Type.OBJECT)
+    .addColumn("scraper", lf.Type.OBJECT)
+    .addNullable([
+        "iconurl",
+        "serviceRef",
+        "rules",
+        "image",
+        "ai",
+        "etag",
+        "lastModified",
+        "health",
+        "scraper",
+    ])
     .addIndex("idxURL", ["url"], true)
 
-const idbSchema = lf.schema.create("itemsDB", 5)
+const idbSchema = lf.schema.create("itemsDB", 11)
 idbSchema
     .createTable("items")
     .addColumn("_id", lf.Type.INTEGER)
@@ -46,6 +61,15 @@ idbSchema
     .addColumn("autoFullText", lf.Type.BOOLEAN)
     .addColumn("serviceRef", lf.Type.STRING)
     .addColumn("enclosure", lf.Type.OBJECT)
+    .addColumn("canonical", lf.Type.STRING)
+    .addColumn("cluster", lf.Type.INTEGER)
+    .addColumn("score", lf.Type.NUMBER)
+    .addColumn("scoreInfo", lf.Type.OBJECT)
+    .addColumn("readTime", lf.Type.NUMBER)
+    .addColumn("autoTag", lf.Type.BOOLEAN)
+    .addColumn("tags", lf.Type.STRING)
+    .addColumn("fullText", lf.Type.STRING)
+    .addColumn("leadsCluster", lf.Type.BOOLEAN)
     .addNullable([
         "thumb",
         "creator",
@@ -54,6 +78,15 @@ idbSchema
         "autoSummarize",
         "autoFullText",
         "enclosure",
+        "canonical",
+        "cluster",
+        "score",
+        "scoreInfo",
+        "readTime",
+        "autoTag",
+        "tags",
+        "fullText",
+        "leadsCluster",
     ])
     .addIndex("idxDate", ["date"], false, lf.Order.DESC)
     .addIndex("idxService", ["serviceRef"], false)
@@ -61,11 +94,15 @@ idbSchema
     // mark-all-read, unread counts and source deletion — previously every one
     // of those scanned without a covering index.
     .addIndex("idxSource", ["source"], false)
+    .addIndex("idxCluster", ["cluster"], false)
 
 export let sourcesDB: lf.Database
 export let sources: lf.schema.Table
 export let itemsDB: lf.Database
 export let items: lf.schema.Table
+// Version the items db was upgraded from, for the upgrades that update rows:
+// the raw store cannot, so init does once the db is connected.
+let itemsUpgradedFrom: number = null
 
 async function onUpgradeSourceDB(rawDb: lf.raw.BackStore) {
     const version = rawDb.getVersion()
@@ -80,10 +117,26 @@ async function onUpgradeSourceDB(rawDb: lf.raw.BackStore) {
         // sources get null and are populated on the next metadata fetch.
         await rawDb.addTableColumn("sources", "image", null)
     }
+    if (version < 5) {
+        // v5 adds per-source AI overrides; null means inherit everything.
+        await rawDb.addTableColumn("sources", "ai", null)
+    }
+    if (version < 6) {
+        // v6 adds conditional fetches and fetch health. Existing sources are
+        // fetched in full once to learn their validators.
+        await rawDb.addTableColumn("sources", "etag", null)
+        await rawDb.addTableColumn("sources", "lastModified", null)
+        await rawDb.addTableColumn("sources", "health", null)
+    }
+    if (version < 7) {
+        // v7 adds scraper sources; null for feeds.
+        await rawDb.addTableColumn("sources", "scraper", null)
+    }
 }
 
 async function onUpgradeItemDB(rawDb: lf.raw.BackStore) {
     const version = rawDb.getVersion()
+    itemsUpgradedFrom = version
     if (version < 2) {
         await rawDb.addTableColumn("items", "autoTranslate", null)
         await rawDb.addTableColumn("items", "autoSummarize", null)
@@ -100,6 +153,62 @@ async function onUpgradeItemDB(rawDb: lf.raw.BackStore) {
         // items get a null enclosure; new items populate it at parse time.
         await rawDb.addTableColumn("items", "enclosure", null)
     }
+    if (version < 6) {
+        // v6 adds near-duplicate clustering (and its idxCluster index).
+        // Existing items stay unclustered; only items fetched from now on
+        // are matched against them.
+        await rawDb.addTableColumn("items", "canonical", null)
+        await rawDb.addTableColumn("items", "cluster", null)
+    }
+    if (version < 7) {
+        // v7 adds relevance scores and the time spent reading. Unscored
+        // items sort as neutral in the priority order.
+        await rawDb.addTableColumn("items", "score", null)
+        await rawDb.addTableColumn("items", "scoreInfo", null)
+        await rawDb.addTableColumn("items", "readTime", null)
+    }
+    if (version < 8) {
+        // v8 adds AI tagging. Existing items stay untagged (null), unlike
+        // tagged items none of whose tags applied ("").
+        await rawDb.addTableColumn("items", "autoTag", null)
+        await rawDb.addTableColumn("items", "tags", null)
+    }
+    if (version < 9) {
+        // v9 stores the full text extracted from an item's page; null until
+        // it is first loaded.
+        await rawDb.addTableColumn("items", "fullText", null)
+    }
+    // v10 stores unscored items with a score of 0: lovefield takes null as
+    // equal to any score, so they would not sort by date after the scored
+    // ones. Existing items are given 0 in init.
+    if (version < 11) {
+        // v11 flags the first item of each story with duplicates, so that
+        // reading other items does not look for any. Existing stories are
+        // flagged in init.
+        await rawDb.addTableColumn("items", "leadsCluster", null)
+    }
+}
+
+/** The row updates of the upgrades from `version` (see onUpgradeItemDB). */
+async function backfillItems(version: number) {
+    if (version < 10) {
+        await itemsDB.update(items).set(items.score, 0).where(items.score.isNull()).exec()
+    }
+    if (version < 11) {
+        const clustered = (await itemsDB
+            .select(items.cluster)
+            .from(items)
+            .where(items.cluster.isNotNull())
+            .exec()) as { cluster: number }[]
+        const leaders = Array.from(new Set(clustered.map(row => row.cluster)))
+        if (leaders.length > 0) {
+            await itemsDB
+                .update(items)
+                .set(items.leadsCluster, true)
+                .where(items._id.in(leaders))
+                .exec()
+        }
+    }
 }
 
 export async function init() {
@@ -107,6 +216,10 @@ export async function init() {
     sources = sourcesDB.getSchema().table("sources")
     itemsDB = await idbSchema.connect({ onUpgrade: onUpgradeItemDB })
     items = itemsDB.getSchema().table("items")
+    if (itemsUpgradedFrom !== null) {
+        await backfillItems(itemsUpgradedFrom)
+        itemsUpgradedFrom = null
+    }
     if (window.settings.getNeDBStatus()) {
         await migrateNeDB()
     }
@@ -159,6 +272,7 @@ async function migrateNeDB() {
             doc.starred = Boolean(doc.starred)
             doc.hidden = Boolean(doc.hidden)
             doc.notify = Boolean(doc.notify)
+            doc.score = 0
             return items.createRow(doc)
         })
         await Promise.all([
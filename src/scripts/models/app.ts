@@ -20,7 +20,15 @@ import {
     REMOVE_SOURCE_FROM_GROUP,
     REORDER_SOURCE_GROUPS,
 } from "./group"
-import { PageActionTypes, SELECT_PAGE, PageType, selectAllArticles, showItemFromId } from "./page"
+import {
+    PageActionTypes,
+    SELECT_PAGE,
+    PageType,
+    selectAllArticles,
+    showItemFromId,
+    ASK,
+    DIGESTS,
+} from "./page"
 import { getCurrentLocale, setThemeDefaultFont } from "../settings"
 import locales from "../i18n/_locales"
 import { SYNC_SERVICE, ServiceActionTypes } from "./service"
@@ -611,6 +619,20 @@ export function appReducer(
                         menuKey: action.menuKey,
                         title: action.title,
                     }
+                case PageType.Ask:
+                    return {
+                        ...state,
+                        menu: state.menu && action.keepMenu,
+                        menuKey: ASK,
+                        title: intl.get("ask.title"),
+                    }
+                case PageType.Digests:
+                    return {
+                        ...state,
+                        menu: state.menu && action.keepMenu,
+                        menuKey: DIGESTS,
+                        title: intl.get("digest.title"),
+                    }
             }
             return state
         case CLOSE_CONTEXT_MENU:
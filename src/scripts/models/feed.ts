@@ -8,8 +8,16 @@ import {
     UNHIDE_SOURCE,
     HIDE_SOURCE,
 } from "./source"
-import { ItemActionTypes, FETCH_ITEMS, RSSItem, TOGGLE_HIDDEN, applyItemReduction } from "./item"
+import {
+    ItemActionTypes,
+    FETCH_ITEMS,
+    RSSItem,
+    TOGGLE_HIDDEN,
+    TAG_ITEM,
+    applyItemReduction,
+} from "./item"
 import { ActionStatus, AppThunk, mergeSortedArrays } from "../utils"
+import { itemTags, tagRegex } from "./services/aiTags"
 import { PageActionTypes, SELECT_PAGE, PageType, APPLY_FILTER } from "./page"
 
 export enum FilterType {
@@ -20,22 +28,27 @@ export enum FilterType {
     FullSearch = 1 << 3,
     CaseInsensitive = 1 << 4,
     CreatorSearch = 1 << 5,
+    SortByPriority = 1 << 6,
+    TagSearch = 1 << 7,
 
     Default = ShowRead | ShowNotStarred,
     UnreadOnly = ShowNotStarred,
     StarredOnly = ShowRead,
-    Toggles = ShowHidden | FullSearch | CaseInsensitive,
+    Toggles = ShowHidden | FullSearch | CaseInsensitive | SortByPriority,
 }
 export class FeedFilter {
     type: FilterType
     search: string
+    // Only items with this tag, when browsing a tag from the menu.
+    tag?: string
 
-    constructor(type: FilterType = null, search = "") {
+    constructor(type: FilterType = null, search = "", tag = "") {
         if (type === null && (type = window.settings.getFilterType()) === null) {
             type = FilterType.Default | FilterType.CaseInsensitive
         }
         this.type = type
         this.search = search
+        this.tag = tag
     }
 
     static toPredicates(filter: FeedFilter) {
@@ -44,17 +57,21 @@ export class FeedFilter {
         if (!(type & FilterType.ShowRead)) predicates.push(db.items.hasRead.eq(false))
         if (!(type & FilterType.ShowNotStarred)) predicates.push(db.items.starred.eq(true))
         if (!(type & FilterType.ShowHidden)) predicates.push(db.items.hidden.eq(false))
+        if (filter.tag) predicates.push(db.items.tags.match(tagRegex(filter.tag)))
         if (filter.search !== "") {
             const flags = type & FilterType.CaseInsensitive ? "i" : ""
             const regex = RegExp(filter.search, flags)
             if (type & FilterType.FullSearch) {
-                // Include the full content column so searches reach the article
-                // body, not just the (often truncated/empty) title + snippet.
+                // Include the full content columns so searches reach the article
+                // body, not just the (often truncated/empty) title + snippet,
+                // and the full text extracted from the page once loaded.
                 predicates.push(
                     lf.op.or(
                         db.items.title.match(regex),
                         db.items.snippet.match(regex),
-                        db.items.content.match(regex)
+                        db.items.content.match(regex),
+                        db.items.fullText.match(regex),
+                        db.items.tags.match(regex)
                     )
                 )
             } else {
@@ -70,19 +87,35 @@ export class FeedFilter {
         if (!(type & FilterType.ShowRead)) flag = flag && !item.hasRead
         if (!(type & FilterType.ShowNotStarred)) flag = flag && item.starred
         if (!(type & FilterType.ShowHidden)) flag = flag && !item.hidden
+        if (filter.tag) flag = flag && tagRegex(filter.tag).test(item.tags || "")
         if (filter.search !== "") {
             const flags = type & FilterType.CaseInsensitive ? "i" : ""
             const regex = RegExp(filter.search, flags)
             if (type & FilterType.FullSearch) {
-                flag = flag && (regex.test(item.title) || regex.test(item.snippet) || regex.test(item.content || ""))
+                flag =
+                    flag &&
+                    (regex.test(item.title) ||
+                        regex.test(item.snippet) ||
+                        regex.test(item.content || "") ||
+                        regex.test(item.fullText || "") ||
+                        regex.test(item.tags || ""))
             } else if (type & FilterType.CreatorSearch) {
                 flag = flag && regex.test(item.creator || "")
+            } else if (type & FilterType.TagSearch) {
+                flag = flag && itemTags(item.tags).some(tag => regex.test(tag))
             } else {
                 flag = flag && regex.test(item.title)
             }
         }
         return Boolean(flag)
     }
+
+    /** The order of a feed's items: newest first, or by score then date. */
+    static compareItems(filter: FeedFilter) {
+        const byDate = (a: RSSItem, b: RSSItem) => b.date.getTime() - a.date.getTime()
+        if (!(filter.type & FilterType.SortByPriority)) return byDate
+        return (a: RSSItem, b: RSSItem) => (b.score || 0) - (a.score || 0) || byDate(a, b)
+    }
 }
 
 export const ALL = "ALL"
@@ -112,10 +145,13 @@ export class RSSFeed {
     static async loadFeed(feed: RSSFeed, skip = 0): Promise<RSSItem[]> {
         const predicates = FeedFilter.toPredicates(feed.filter)
         predicates.push(db.items.source.in(feed.sids))
-        return (await db.itemsDB
-            .select()
-            .from(db.items)
-            .where(lf.op.and.apply(null, predicates))
+        let query = db.itemsDB.select().from(db.items).where(lf.op.and.apply(null, predicates))
+        // Unscored items are stored with a score of 0 (see insertItems), so
+        // that ties fall through to the date as in compareItems.
+        if (feed.filter.type & FilterType.SortByPriority) {
+            query = query.orderBy(db.items.score, lf.Order.DESC)
+        }
+        return (await query
             .orderBy(db.items.date, lf.Order.DESC)
             .skip(skip)
             .limit(LOAD_QUANTITY)
@@ -358,7 +394,7 @@ export function feedReducer(
                                 const nextItems = mergeSortedArrays(
                                     oldItems,
                                     items,
-                                    (a, b) => b.date.getTime() - a.date.getTime()
+                                    FeedFilter.compareItems(feed.filter)
                                 )
                                 nextState[feed._id] = {
                                     ...feed,
@@ -372,6 +408,31 @@ export function feedReducer(
                 default:
                     return state
             }
+        case TAG_ITEM: {
+            // Tags arrive after the fetch: tag feeds take the item in now.
+            const loaded = action.itemState[action.item._id]
+            if (!loaded) return state
+            const item = { ...loaded, tags: action.tags }
+            const nextState = { ...state }
+            for (const feed of Object.values(state)) {
+                if (
+                    feed.loaded &&
+                    feed.filter.tag &&
+                    feed.sids.includes(item.source) &&
+                    !feed.iids.includes(item._id) &&
+                    FeedFilter.testItem(feed.filter, item)
+                ) {
+                    const oldItems = feed.iids.map(id => action.itemState[id])
+                    const nextItems = mergeSortedArrays(
+                        oldItems,
+                        [item],
+                        FeedFilter.compareItems(feed.filter)
+                    )
+                    nextState[feed._id] = { ...feed, iids: nextItems.map(i => i._id) }
+                }
+            }
+            return nextState
+        }
         case DISMISS_ITEMS: {
             const nextState = { ...state }
             const feed = state[action.fid]
@@ -3,10 +3,20 @@ import lf from "lovefield"
 import intl from "react-intl-universal"
 import type { MyParserItem } from "../utils"
 import { domParser, htmlDecode, ActionStatus, AppThunk, platformCtrl } from "../utils"
-import { RSSSource, updateSource, updateUnreadCounts } from "./source"
+import { FetchedItems, RSSSource, updateSource, updateUnreadCounts } from "./source"
 import { FeedActionTypes, INIT_FEED, LOAD_MORE, dismissItems } from "./feed"
 import { pushNotification, setupAutoFetch, SettingsActionTypes, FREE_MEMORY } from "./app"
 import { getServiceHooks, syncWithService, ServiceActionTypes, SYNC_LOCAL_ITEMS } from "./service"
+import { enqueueAIPreprocessing } from "./services/aiPreprocess"
+import { enqueueLibraryIndexing } from "./services/aiLibrary"
+import { enqueueTagging } from "./services/aiTagger"
+import { runDueDigests } from "./services/aiDigester"
+import { DedupeEntry, findDuplicates } from "./services/dedupe"
+import { isBackedOff } from "./services/feedHealth"
+import type { ScoreInfo } from "./services/relevance"
+import { scoreItems } from "./services/relevanceScorer"
+import { PageActionTypes, SHOW_ITEM } from "./page"
+import { SourceRule } from "./rule"
 
 /** A media enclosure attached to an RSS item (most commonly podcast audio). */
 export interface ItemEnclosure {
@@ -42,10 +52,28 @@ export class RSSItem {
     autoTranslate?: boolean
     autoSummarize?: boolean
     autoFullText?: boolean
+    autoTag?: boolean
     serviceRef?: string
     // Media enclosure (e.g. podcast audio). Only populated for media the
     // reader can do something with; everything else is dropped on parse.
     enclosure?: ItemEnclosure
+    // The publisher's own URL when the feed links elsewhere (e.g. through
+    // FeedBurner), used to spot the same story from other sources.
+    canonical?: string
+    // _id of the first item of the same story from another source, if any.
+    cluster?: number
+    // Set on the first item of a story once other items point at it.
+    leadsCluster?: boolean
+    // Relevance to the reader, for the priority sort; see relevance.ts.
+    score?: number
+    scoreInfo?: ScoreInfo
+    // Seconds spent in the article view.
+    readTime?: number
+    // Tags from the AI tagger, in the column format of aiTags.ts.
+    tags?: string
+    // Main content extracted from the item's page (see fullText.ts), kept so
+    // the full text mode works offline.
+    fullText?: string
 
     constructor(item: MyParserItem, source: RSSSource) {
         for (const field of ["title", "link", "creator"]) {
@@ -55,6 +83,10 @@ export class RSSItem {
         this.source = source.sid
         this.title = item.title || intl.get("nav.untitled")
         this.link = item.link || ""
+        const canonical = [item.origLink, item.guid].find(
+            l => typeof l === "string" && /^https?:\/\//i.test(l) && l !== this.link
+        )
+        if (canonical) this.canonical = canonical
         this.fetchedDate = new Date()
         this.date = new Date(item.isoDate ?? item.pubDate ?? this.fetchedDate)
         this.creator = item.creator
@@ -147,6 +179,8 @@ export const MARK_ALL_READ = "MARK_ALL_READ"
 export const MARK_UNREAD = "MARK_UNREAD"
 export const TOGGLE_STARRED = "TOGGLE_STARRED"
 export const TOGGLE_HIDDEN = "TOGGLE_HIDDEN"
+export const TAG_ITEM = "TAG_ITEM"
+export const SAVE_FULL_TEXT = "SAVE_FULL_TEXT"
 
 interface FetchItemsAction {
     type: typeof FETCH_ITEMS
@@ -185,6 +219,19 @@ interface ToggleHiddenAction {
     item: RSSItem
 }
 
+interface TagItemAction {
+    type: typeof TAG_ITEM
+    item: RSSItem
+    tags: string
+    itemState: ItemState
+}
+
+interface SaveFullTextAction {
+    type: typeof SAVE_FULL_TEXT
+    item: RSSItem
+    fullText: string
+}
+
 export type ItemActionTypes =
     | FetchItemsAction
     | MarkReadAction
@@ -192,6 +239,8 @@ export type ItemActionTypes =
     | MarkUnreadAction
     | ToggleStarredAction
     | ToggleHiddenAction
+    | TagItemAction
+    | SaveFullTextAction
 
 export function fetchItemsRequest(fetchCount = 0): ItemActionTypes {
     return {
@@ -228,13 +277,87 @@ export function fetchItemsIntermediate(): ItemActionTypes {
 
 export async function insertItems(items: RSSItem[]): Promise<RSSItem[]> {
     items.sort((a, b) => a.date.getTime() - b.date.getTime())
+    // Stored as 0 until scored below, so that they sort with neutral ones.
+    for (const item of items) if (item.score == null) item.score = 0
     const rows = items.map(item => db.items.createRow(item))
-    return (await db.itemsDB.insert().into(db.items).values(rows).exec()) as RSSItem[]
+    const inserted = (await db.itemsDB.insert().into(db.items).values(rows).exec()) as RSSItem[]
+    try {
+        await clusterDuplicates(inserted)
+    } catch (err) {
+        // Clustering only groups cards; the items are in either way.
+        console.error("Failed to cluster duplicates:", err)
+    }
+    try {
+        await scoreItems(inserted)
+    } catch (err) {
+        console.error("Failed to score items:", err)
+    }
+    return inserted
+}
+
+// How far back new items are matched against stored ones.
+const CLUSTER_WINDOW = 3 * 24 * 60 * 60 * 1000
+
+/** Point newly inserted items at the first item of the same story, if any. */
+async function clusterDuplicates(inserted: RSSItem[]) {
+    if (inserted.length === 0) return
+    const ids = new Set(inserted.map(item => item._id))
+    // Back-dated items, like the archive of a feed fetched for the first
+    // time, do not take the window further back than the last days, lest
+    // it span most of the table.
+    const earliest = Math.min(...inserted.map(item => item.date.getTime()))
+    const since = new Date(Math.max(earliest, Date.now() - CLUSTER_WINDOW) - CLUSTER_WINDOW)
+    const recent = (await db.itemsDB
+        .select(
+            db.items._id,
+            db.items.source,
+            db.items.link,
+            db.items.canonical,
+            db.items.title,
+            db.items.date,
+            db.items.cluster
+        )
+        .from(db.items)
+        .where(db.items.date.gte(since))
+        .exec()) as RSSItem[]
+    const toEntry = (item: RSSItem): DedupeEntry => ({
+        id: item._id,
+        source: item.source,
+        link: item.link,
+        canonical: item.canonical,
+        title: item.title,
+        date: item.date,
+        cluster: item.cluster,
+    })
+    const primaries = findDuplicates(
+        inserted.map(toEntry),
+        recent.filter(item => !ids.has(item._id)).map(toEntry)
+    )
+    if (primaries.size === 0) return
+    const updates = new Array<lf.query.Update>()
+    for (const item of inserted) {
+        if (!primaries.has(item._id)) continue
+        item.cluster = primaries.get(item._id)
+        updates.push(
+            db.itemsDB
+                .update(db.items)
+                .set(db.items.cluster, item.cluster)
+                .where(db.items._id.eq(item._id))
+        )
+    }
+    const leaders = Array.from(new Set(primaries.values()))
+    updates.push(
+        db.itemsDB.update(db.items).set(db.items.leadsCluster, true).where(db.items._id.in(leaders))
+    )
+    await db.itemsDB.createTransaction().exec(updates)
+    for (const item of inserted) {
+        if (leaders.includes(item._id)) item.leadsCluster = true
+    }
 }
 
 export function fetchItems(background = false, sids: number[] = null): AppThunk<Promise<void>> {
     return async (dispatch, getState) => {
-        const promises = new Array<Promise<RSSItem[]>>()
+        const promises = new Array<Promise<FetchedItems>>()
         const initState = getState()
         if (!initState.app.fetchingItems && !initState.app.syncing) {
             if (
@@ -250,13 +373,16 @@ export function fetchItems(background = false, sids: number[] = null): AppThunk<
                           const last = s.lastFetched ? s.lastFetched.getTime() : 0
                           return (
                               !s.serviceRef &&
+                              !isBackedOff(s.health, timenow) &&
                               (last > timenow || last + (s.fetchFrequency || 0) * 60000 <= timenow)
                           )
                       })
                     : sids.map(sid => sourcesState[sid]).filter(s => !s.serviceRef)
             for (const source of sources) {
                 const promise = RSSSource.fetchItems(source)
-                promise.then(() => dispatch(updateSource({ ...source, lastFetched: new Date() })))
+                // Failed fetches leave lastFetched and the validators alone
+                // but still save the health they recorded.
+                promise.catch(() => dispatch(updateSource({ ...source })))
                 promise.finally(() => dispatch(fetchItemsIntermediate()))
                 promises.push(promise)
             }
@@ -265,15 +391,39 @@ export function fetchItems(background = false, sids: number[] = null): AppThunk<
             return await new Promise<void>((resolve, reject) => {
                 const items = new Array<RSSItem>()
                 results.map((r, i) => {
-                    if (r.status === "fulfilled") items.push(...r.value)
+                    if (r.status === "fulfilled") items.push(...r.value.items)
                     else {
                         console.warn(r.reason)
                         dispatch(fetchItemsFailure(sources[i], r.reason))
                     }
                 })
-                insertItems(items)
+                // Sources are saved with their new validators only once their
+                // items are, lest a failed insert leave the items behind a 304.
+                const saveSources = (stored: boolean) =>
+                    results.forEach((r, i) => {
+                        if (r.status !== "fulfilled") return
+                        const source = { ...sources[i] }
+                        if (stored) {
+                            Object.assign(source, r.value.validators, { lastFetched: new Date() })
+                        }
+                        dispatch(updateSource(source))
+                    })
+                const inserting = insertItems(items)
+                inserting.then(
+                    () => saveSources(true),
+                    () => saveSources(false)
+                )
+                inserting
                     .then(inserted => {
                         dispatch(fetchItemsSuccess(inserted.reverse(), getState().items))
+                        enqueueAIPreprocessing(inserted, getState().sources)
+                        enqueueLibraryIndexing(inserted)
+                        enqueueTagging(inserted, getState().sources, (item, tags) =>
+                            dispatch(itemTagged(item, tags)).catch(err =>
+                                console.error("Failed to apply tag rules:", err)
+                            )
+                        )
+                        runDueDigests(getState().groups)
                         resolve()
                         if (background) {
                             for (const item of inserted) {
@@ -300,6 +450,44 @@ export function fetchItems(background = false, sids: number[] = null): AppThunk<
     }
 }
 
+/**
+ * Take in the tags an item was just given, and apply its source's tag rules
+ * to it, which had to wait for them.
+ */
+function itemTagged(item: RSSItem, tags: string): AppThunk<Promise<void>> {
+    return async (dispatch, getState) => {
+        dispatch({ type: TAG_ITEM, item, tags, itemState: getState().items })
+        const rules = (getState().sources[item.source]?.rules || []).filter(SourceRule.isTagRule)
+        if (rules.length === 0) return
+        let loaded = getState().items[item._id]
+        if (!loaded) {
+            // Items freed from memory, or never loaded, are read back from the
+            // database, with the tags the tagger stored there.
+            const rows = (await db.itemsDB
+                .select()
+                .from(db.items)
+                .where(db.items._id.eq(item._id))
+                .exec()) as RSSItem[]
+            loaded = rows[0]
+            if (!loaded) return
+        }
+        const next = { ...loaded }
+        SourceRule.applyAll(rules, next)
+        if (next.hasRead !== loaded.hasRead) {
+            dispatch(next.hasRead ? markRead(loaded) : markUnread(loaded))
+        }
+        if (next.starred !== loaded.starred) dispatch(toggleStarred(loaded))
+        if (next.hidden !== loaded.hidden) dispatch(toggleHidden(loaded))
+        if (next.notify && !loaded.notify) dispatch(pushNotification(next))
+        if (
+            (next.autoSummarize && !loaded.autoSummarize) ||
+            (next.autoTranslate && !loaded.autoTranslate)
+        ) {
+            enqueueAIPreprocessing([next], getState().sources)
+        }
+    }
+}
+
 const markReadDone = (item: RSSItem): ItemActionTypes => ({
     type: MARK_READ,
     item: item,
@@ -312,7 +500,9 @@ const markUnreadDone = (item: RSSItem): ItemActionTypes => ({
 
 export function markRead(item: RSSItem): AppThunk {
     return (dispatch, getState) => {
-        item = getState().items[item._id]
+        // Items not loaded, like the ones tag rules apply to, are taken as
+        // given.
+        item = getState().items[item._id] || item
         if (!item.hasRead) {
             db.itemsDB
                 .update(db.items)
@@ -324,6 +514,26 @@ export function markRead(item: RSSItem): AppThunk {
             if (item.serviceRef) {
                 dispatch(dispatch(getServiceHooks()).markRead?.(item))
             }
+            if (item.leadsCluster && window.settings.getReadDuplicates()) {
+                dispatch(markDuplicatesRead(item)).catch(e =>
+                    console.error("Failed to mark duplicates read:", e)
+                )
+            }
+        }
+    }
+}
+
+/** Mark the other items of the story a primary item leads read too. */
+function markDuplicatesRead(primary: RSSItem): AppThunk<Promise<void>> {
+    return async (dispatch, getState) => {
+        const query = lf.op.and(db.items.cluster.eq(primary._id), db.items.hasRead.eq(false))
+        const rows = (await db.itemsDB.select().from(db.items).where(query).exec()) as RSSItem[]
+        if (rows.length === 0) return
+        await db.itemsDB.update(db.items).set(db.items.hasRead, true).where(query).exec()
+        const hooks = dispatch(getServiceHooks())
+        for (const row of rows) {
+            dispatch(markReadDone(getState().items[row._id] || row))
+            if (row.serviceRef) dispatch(hooks.markRead?.(row))
         }
     }
 }
@@ -367,7 +577,7 @@ export function markAllRead(
 
 export function markUnread(item: RSSItem): AppThunk {
     return (dispatch, getState) => {
-        item = getState().items[item._id]
+        item = getState().items[item._id] || item
         if (item.hasRead) {
             db.itemsDB
                 .update(db.items)
@@ -383,6 +593,38 @@ export function markUnread(item: RSSItem): AppThunk {
     }
 }
 
+// Longest stretch of one visit to an article that counts as reading it.
+const MAX_READ_TIME = 10 * 60
+
+/** Add the seconds just spent in an item's article view to its read time. */
+export async function addReadTime(item: RSSItem, seconds: number) {
+    if (seconds < 1) return
+    const rows = (await db.itemsDB
+        .select(db.items.readTime)
+        .from(db.items)
+        .where(db.items._id.eq(item._id))
+        .exec()) as RSSItem[]
+    if (rows.length === 0) return
+    const readTime = (rows[0].readTime || 0) + Math.min(Math.round(seconds), MAX_READ_TIME)
+    await db.itemsDB
+        .update(db.items)
+        .set(db.items.readTime, readTime)
+        .where(db.items._id.eq(item._id))
+        .exec()
+}
+
+/** Store the full text extracted from an item's page. */
+export function saveFullText(item: RSSItem, fullText: string): AppThunk<Promise<void>> {
+    return async dispatch => {
+        await db.itemsDB
+            .update(db.items)
+            .set(db.items.fullText, fullText)
+            .where(db.items._id.eq(item._id))
+            .exec()
+        dispatch({ type: SAVE_FULL_TEXT, item, fullText })
+    }
+}
+
 const toggleStarredDone = (item: RSSItem): ItemActionTypes => ({
     type: TOGGLE_STARRED,
     item: item,
@@ -522,7 +764,12 @@ export function applyItemReduction(item: RSSItem, type: string) {
 
 export function itemReducer(
     state: ItemState = {},
-    action: ItemActionTypes | FeedActionTypes | ServiceActionTypes | SettingsActionTypes
+    action:
+        | ItemActionTypes
+        | FeedActionTypes
+        | ServiceActionTypes
+        | SettingsActionTypes
+        | PageActionTypes
 ): ItemState {
     switch (action.type) {
         case FETCH_ITEMS:
@@ -532,7 +779,15 @@ export function itemReducer(
                     for (const i of action.items) {
                         newMap[i._id] = i
                     }
-                    return { ...newMap, ...state }
+                    const nextState = { ...newMap, ...state }
+                    // The items new ones were clustered to now lead a cluster.
+                    for (const i of action.items) {
+                        const leader = i.cluster == null ? null : nextState[i.cluster]
+                        if (leader && !leader.leadsCluster) {
+                            nextState[i.cluster] = { ...leader, leadsCluster: true }
+                        }
+                    }
+                    return nextState
                 }
                 default:
                     return state
@@ -541,11 +796,27 @@ export function itemReducer(
         case MARK_READ:
         case TOGGLE_STARRED:
         case TOGGLE_HIDDEN: {
+            // Duplicates marked read along with their story may not be loaded.
+            if (!state[action.item._id]) return state
             return {
                 ...state,
                 [action.item._id]: applyItemReduction(state[action.item._id], action.type),
             }
         }
+        case TAG_ITEM: {
+            if (!state[action.item._id]) return state
+            return {
+                ...state,
+                [action.item._id]: { ...state[action.item._id], tags: action.tags },
+            }
+        }
+        case SAVE_FULL_TEXT: {
+            if (!state[action.item._id]) return state
+            return {
+                ...state,
+                [action.item._id]: { ...state[action.item._id], fullText: action.fullText },
+            }
+        }
         case MARK_ALL_READ: {
             const nextState = { ...state }
             const sids = new Set(action.sids)
@@ -580,6 +851,11 @@ export function itemReducer(
                     return state
             }
         }
+        case SHOW_ITEM:
+            // Items shown from outside any feed are not in the state yet.
+            return Object.prototype.hasOwnProperty.call(state, action.item._id)
+                ? state
+                : { ...state, [action.item._id]: action.item }
         case SYNC_LOCAL_ITEMS: {
             const nextState = { ...state }
             for (const item of Object.values(state)) {
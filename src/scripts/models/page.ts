@@ -9,11 +9,13 @@ import {
     INIT_FEED,
     STARRED,
 } from "./feed"
+import * as db from "../db"
 import { getWindowBreakpoint, AppThunk, ActionStatus } from "../utils"
-import { RSSItem, markRead } from "./item"
+import { RSSItem, ItemState, markRead } from "./item"
 import { SourceActionTypes, DELETE_SOURCE } from "./source"
 import { toggleMenu } from "./app"
 import { ViewType, ViewConfigs } from "../../schema-types"
+import { groupDuplicates } from "./services/dedupe"
 
 export const SELECT_PAGE = "SELECT_PAGE"
 export const SWITCH_VIEW = "SWITCH_VIEW"
@@ -24,11 +26,17 @@ export const DISMISS_ITEM = "DISMISS_ITEM"
 export const APPLY_FILTER = "APPLY_FILTER"
 export const TOGGLE_SEARCH = "TOGGLE_SEARCH"
 
+// Menu keys of the pages that show no feed.
+export const ASK = "ASK"
+export const DIGESTS = "DIGESTS"
+
 export enum PageType {
     AllArticles,
     Sources,
     Page,
     Starred,
+    Ask,
+    Digests,
 }
 
 interface SelectPageAction {
@@ -84,8 +92,17 @@ export const applyFilterDone = (filter: FeedFilter): PageActionTypes => ({
     filter: filter,
 })
 
+/** Leave the tag a tag page limited the filter to, if any. */
+function clearTag(): AppThunk {
+    return (dispatch, getState) => {
+        const filter = getState().page.filter
+        if (filter.tag) dispatch(applyFilterDone({ ...filter, tag: "" }))
+    }
+}
+
 export function selectAllArticles(init = false): AppThunk {
     return (dispatch, getState) => {
+        dispatch(clearTag())
         const filter = getState().page.filter
         const savedType = window.settings.getFilterType()
         // Only restore a persisted filter type when one actually exists.
@@ -112,6 +129,7 @@ export function selectAllArticles(init = false): AppThunk {
 
 export function selectStarred(init = false): AppThunk {
     return (dispatch, getState) => {
+        dispatch(clearTag())
         const filter = getState().page.filter
         const newType = FilterType.StarredOnly | (filter.type & FilterType.Toggles)
         if (filter.type !== newType) {
@@ -134,6 +152,7 @@ export function selectStarred(init = false): AppThunk {
 
 export function selectSources(sids: number[], menuKey: string, title: string): AppThunk {
     return (dispatch, getState) => {
+        if (getState().app.menuKey !== menuKey) dispatch(clearTag())
         const filter = getState().page.filter
         const savedType = window.settings.getFilterType()
         // See selectAllArticles: don't overwrite the default with null.
@@ -160,6 +179,43 @@ export function selectSources(sids: number[], menuKey: string, title: string): A
     }
 }
 
+/** Show the items of every visible source that have a tag. */
+export function selectTag(tag: string): AppThunk {
+    return (dispatch, getState) => {
+        const menuKey = "t-" + tag
+        if (getState().app.menuKey === menuKey) return
+        const sids = Object.values(getState().sources)
+            .filter(s => !s.hidden)
+            .map(s => s.sid)
+        dispatch(selectSources(sids, menuKey, tag))
+        dispatch(applyFilterDone({ ...getState().page.filter, tag }))
+    }
+}
+
+export function selectAsk(): AppThunk {
+    return (dispatch, getState) => {
+        dispatch({
+            type: SELECT_PAGE,
+            pageType: PageType.Ask,
+            keepMenu: getWindowBreakpoint(),
+            filter: getState().page.filter,
+            init: false,
+        } as PageActionTypes)
+    }
+}
+
+export function selectDigests(): AppThunk {
+    return (dispatch, getState) => {
+        dispatch({
+            type: SELECT_PAGE,
+            pageType: PageType.Digests,
+            keepMenu: getWindowBreakpoint(),
+            filter: getState().page.filter,
+            init: false,
+        } as PageActionTypes)
+    }
+}
+
 export function switchView(viewType: ViewType): AppThunk {
     return dispatch => {
         window.settings.setDefaultView(viewType)
@@ -195,13 +251,24 @@ export function showItem(feedId: string, item: RSSItem): AppThunk {
         }
     }
 }
-export function showItemFromId(iid: number): AppThunk {
-    return (dispatch, getState) => {
-        const state = getState()
-        const item = state.items[iid]
-        if (!item) return
-        if (!item.hasRead) dispatch(markRead(item))
-        dispatch(showItem(null, item))
+export function showItemFromId(iid: number): AppThunk<Promise<void>> {
+    return async (dispatch, getState) => {
+        const item = getState().items[iid]
+        if (item) {
+            if (!item.hasRead) dispatch(markRead(item))
+            dispatch(showItem(null, item))
+            return
+        }
+        // Not loaded by any feed, e.g. an article cited on the Ask page;
+        // showing it puts it in the item state.
+        const rows = (await db.itemsDB
+            .select()
+            .from(db.items)
+            .where(db.items._id.eq(iid))
+            .exec()) as RSSItem[]
+        if (rows.length === 0 || !getState().sources[rows[0].source]) return
+        dispatch({ type: SHOW_ITEM, feedId: null, item: rows[0] })
+        if (!rows[0].hasRead) dispatch(markRead(rows[0]))
     }
 }
 
@@ -225,19 +292,31 @@ export const toggleSearch = (): AppThunk => {
     }
 }
 
+/**
+ * The items of a feed as its view lists them, one per story (see
+ * groupDuplicates), and the index of the story of `itemId` among them.
+ */
+function listedItems(items: ItemState, iids: number[], itemId: number): [RSSItem[], number] {
+    const [listed] = groupDuplicates(iids.map(id => items[id]))
+    const item = items[itemId]
+    const story = item ? item.cluster ?? item._id : itemId
+    return [listed, listed.findIndex(i => (i.cluster ?? i._id) === story)]
+}
+
 export function showOffsetItem(offset: number): AppThunk {
     return (dispatch, getState) => {
         const state = getState()
         if (!state.page.itemFromFeed) return
         const [itemId, feedId] = [state.page.itemId, state.page.feedId]
         const feed = state.feeds[feedId]
-        const iids = feed.iids
-        const itemIndex = iids.indexOf(itemId)
+        // Duplicates are hidden under their story in the feed, so they are
+        // skipped here too.
+        const [listed, itemIndex] = listedItems(state.items, feed.iids, itemId)
         let newIndex = itemIndex + offset
         if (itemIndex < 0) {
             const item = state.items[itemId]
-            const prevs = feed.iids
-                .map((id, index) => [state.items[id], index] as [RSSItem, number])
+            const prevs = listed
+                .map((i, index) => [i, index] as [RSSItem, number])
                 .filter(([i]) => i.date > item.date)
             if (prevs.length > 0) {
                 let prev = prevs[0]
@@ -250,8 +329,8 @@ export function showOffsetItem(offset: number): AppThunk {
             }
         }
         if (newIndex >= 0) {
-            if (newIndex < iids.length) {
-                const item = state.items[iids[newIndex]]
+            if (newIndex < listed.length) {
+                const item = listed[newIndex]
                 dispatch(markRead(item))
                 dispatch(showItem(feedId, item))
                 return
@@ -268,6 +347,39 @@ export function showOffsetItem(offset: number): AppThunk {
     }
 }
 
+/**
+ * Open the first unread item after the current one in its feed, loading
+ * more of the feed as needed; resolves to whether there was one.
+ */
+export function showNextUnreadItem(): AppThunk<Promise<boolean>> {
+    return async (dispatch, getState) => {
+        const { page } = getState()
+        if (!page.itemFromFeed) return false
+        const current = getState().items[page.itemId]
+        for (;;) {
+            const state = getState()
+            if (state.page.itemId !== page.itemId) return false
+            const feed = state.feeds[page.feedId]
+            const [listed, index] = listedItems(state.items, feed.iids, page.itemId)
+            const next = listed.find(
+                (item, i) => !item.hasRead && (index >= 0 ? i > index : item.date < current.date)
+            )
+            if (next) {
+                dispatch(markRead(next))
+                dispatch(showItem(page.feedId, next))
+                return true
+            }
+            if (feed.allLoaded) return false
+            try {
+                await dispatch(loadMore(feed))
+            } catch {
+                return false
+            }
+            if (getState().feeds[page.feedId].iids.length === feed.iids.length) return false
+        }
+    }
+}
+
 function applyFilter(filter: FeedFilter): AppThunk {
     return (dispatch, getState) => {
         if (getState().app.menuKey === STARRED) {
@@ -326,6 +438,7 @@ export class PageState {
     itemId = null as number
     itemFromFeed = true
     searchOn = false
+    pageType = PageType.AllArticles
 }
 
 export function pageReducer(
@@ -340,18 +453,28 @@ export function pageReducer(
                         ...state,
                         feedId: ALL,
                         itemId: null,
+                        pageType: action.pageType,
                     }
                 case PageType.Starred:
                     return {
                         ...state,
                         feedId: ALL,
                         itemId: null,
+                        pageType: action.pageType,
                     }
                 case PageType.Sources:
                     return {
                         ...state,
                         feedId: SOURCE,
                         itemId: null,
+                        pageType: action.pageType,
+                    }
+                case PageType.Ask:
+                case PageType.Digests:
+                    return {
+                        ...state,
+                        itemId: null,
+                        pageType: action.pageType,
                     }
                 default:
                     return state
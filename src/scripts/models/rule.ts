@@ -9,6 +9,7 @@ export const enum ItemAction {
     Translate = "t",
     Summarize = "z",
     FetchFull = "f",
+    Tag = "g",
 }
 
 export type RuleActions = {
@@ -53,6 +54,9 @@ const actionTransform: ActionTransformType = {
     [ItemAction.FetchFull]: (i, f) => {
         i.autoFullText = f
     },
+    [ItemAction.Tag]: (i, f) => {
+        i.autoTag = f
+    },
 }
 
 export class SourceRule {
@@ -66,7 +70,14 @@ export class SourceRule {
         this.actions = ruleActionsFromKeys(actions)
     }
 
+    /** Whether a rule looks at tags, which arrive after the item is fetched. */
+    static isTagRule(rule: SourceRule) {
+        return Boolean(rule.filter.type & FilterType.TagSearch)
+    }
+
     static apply(rule: SourceRule, item: RSSItem) {
+        // Tag rules wait until the item has been tagged.
+        if (SourceRule.isTagRule(rule) && item.tags == null) return
         const result = FeedFilter.testItem(rule.filter, item)
         if (result === rule.match) {
             for (const [action, flag] of Object.entries(rule.actions)) {
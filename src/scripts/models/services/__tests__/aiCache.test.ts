@@ -0,0 +1,151 @@
+import * as fs from "fs"
+import * as os from "os"
+import * as path from "path"
+import * as aiCache from "../aiCache"
+
+let dir: string
+
+const save = (key: string, value: string) =>
+    aiCache.saveEntry({ key, kind: "summary", value, model: "gpt-4o-mini" })
+
+beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "ai-cache-"))
+    aiCache.setCacheLimits(aiCache.DEFAULT_CACHE_LIMITS)
+})
+
+afterEach(() => {
+    aiCache.closeDB()
+    fs.rmSync(dir, { recursive: true, force: true })
+})
+
+describe("aiCache", () => {
+    it("overwrites entries and survives a restart", () => {
+        aiCache.initDB(dir)
+        save("a", "first")
+        aiCache.saveEntry({ key: "a", kind: "summary", value: "second", model: "m", title: "T" })
+        const { createdAt } = aiCache.getCache("a")
+
+        aiCache.initDB(dir)
+        expect(aiCache.getCache("a")).toEqual({
+            key: "a",
+            kind: "summary",
+            value: "second",
+            model: "m",
+            title: "T",
+            createdAt,
+        })
+        expect(aiCache.getCacheCount()).toBe(1)
+    })
+
+    it("appends instead of rewriting the log", () => {
+        aiCache.initDB(dir)
+        save("1", "a")
+        const before = fs.readFileSync(path.join(dir, "ai-cache.log"), "utf8")
+        save("2", "b")
+        const after = fs.readFileSync(path.join(dir, "ai-cache.log"), "utf8")
+        expect(after.startsWith(before)).toBe(true)
+        expect(aiCache.getCacheSize()).toBe(Buffer.byteLength(after))
+    })
+
+    it("moves item-id keyed data from older versions to legacy keys", () => {
+        const legacy = {
+            "7": { itemId: "7", summary: "old", translation: "[]", createdAt: 1 },
+            "8": { itemId: "8", titleTranslation: "Titel", createdAt: 2 },
+        }
+        fs.writeFileSync(path.join(dir, "ai-cache.json"), JSON.stringify(legacy))
+        fs.writeFileSync(
+            path.join(dir, "ai-cache.log"),
+            JSON.stringify({ k: "9", v: { itemId: "9", summary: "logged", createdAt: 3 } }) +
+                "\n" +
+                JSON.stringify({ k: "10", v: { itemId: "10", summary: "gone" } }) +
+                "\n" +
+                JSON.stringify({ k: "10", d: true }) +
+                "\n"
+        )
+        aiCache.initDB(dir)
+        expect(aiCache.getCache("7")).toBeNull()
+        expect(aiCache.getCache("legacy:7:summary")).toEqual({
+            key: "legacy:7:summary",
+            kind: "summary",
+            value: "old",
+            model: "",
+            createdAt: 1,
+        })
+        expect(aiCache.getCache("legacy:7:translation").value).toBe("[]")
+        expect(aiCache.getCache("legacy:8:titleTranslation").value).toBe("Titel")
+        expect(aiCache.getCache("legacy:9:summary").value).toBe("logged")
+        expect(aiCache.getCacheCount()).toBe(4)
+        expect(fs.existsSync(path.join(dir, "ai-cache.json"))).toBe(false)
+
+        // Entries moved on are not brought back by the next start.
+        aiCache.deleteCache("legacy:9:summary")
+        aiCache.initDB(dir)
+        expect(aiCache.getCache("legacy:9:summary")).toBeNull()
+        expect(aiCache.getCacheCount()).toBe(3)
+    })
+
+    it("leaves an unreadable legacy map in place", () => {
+        fs.writeFileSync(path.join(dir, "ai-cache.json"), "{")
+        aiCache.initDB(dir)
+        expect(aiCache.getCacheCount()).toBe(0)
+        expect(fs.existsSync(path.join(dir, "ai-cache.json"))).toBe(true)
+    })
+
+    it("lists recent entries without values and deletes them", () => {
+        aiCache.initDB(dir)
+        save("a", "xx")
+        save("b", "yyy")
+        expect(aiCache.listCache().map(e => [e.key, e.model, e.size])).toEqual([
+            ["b", "gpt-4o-mini", 3],
+            ["a", "gpt-4o-mini", 2],
+        ])
+        aiCache.deleteCache("b")
+        expect(aiCache.listCache().map(e => e.key)).toEqual(["a"])
+    })
+
+    it("evicts the least recently used entry over the cap", () => {
+        aiCache.initDB(dir)
+        aiCache.setCacheLimits({ maxEntries: 2 })
+        save("1", "a")
+        save("2", "b")
+        aiCache.getCache("1")
+        save("3", "c")
+        expect(aiCache.getCache("2")).toBeNull()
+        expect(aiCache.getCache("1")).not.toBeNull()
+
+        aiCache.initDB(dir)
+        expect(aiCache.getCache("2")).toBeNull()
+        expect(aiCache.getCacheCount()).toBe(2)
+    })
+
+    it("ignores a torn final record", () => {
+        aiCache.initDB(dir)
+        save("1", "a")
+        aiCache.closeDB()
+        fs.appendFileSync(path.join(dir, "ai-cache.log"), '{"k":"2","v":{"itemI')
+        aiCache.initDB(dir)
+        expect(aiCache.getCacheCount()).toBe(1)
+        save("3", "c")
+        aiCache.initDB(dir)
+        expect(aiCache.getCache("3")?.value).toBe("c")
+    })
+
+    it("compacts superseded records", () => {
+        aiCache.initDB(dir)
+        const text = "x".repeat(64 * 1024)
+        for (let i = 0; i < 40; i++) save("1", text + i)
+        expect(aiCache.getCacheSize()).toBeLessThan(1024 * 1024)
+        aiCache.initDB(dir)
+        expect(aiCache.getCache("1")?.value).toBe(text + 39)
+    })
+
+    it("clears everything or only old entries", () => {
+        aiCache.initDB(dir)
+        save("1", "a")
+        aiCache.clearOldCache(30)
+        expect(aiCache.getCacheCount()).toBe(1)
+        aiCache.clearOldCache(0)
+        expect(aiCache.getCacheCount()).toBe(0)
+        expect(aiCache.getCacheSize()).toBe(0)
+    })
+})
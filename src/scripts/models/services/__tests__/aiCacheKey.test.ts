@@ -0,0 +1,42 @@
+import type { AIConfigs } from "../../../../schema-types"
+import { aiCacheKey, articleCacheKeys, articleHash, normalizeArticleText } from "../aiCacheKey"
+
+describe("aiCacheKey", () => {
+    it("normalizes markup and whitespace", () => {
+        expect(normalizeArticleText("<p>Hello&nbsp;\n <b>world</b></p><script>x()</script>")).toBe(
+            "Hello world"
+        )
+    })
+
+    it("hashes identical articles alike regardless of markup", () => {
+        const a = articleHash({ title: "Title", content: "<p>Same  body</p>", link: "https://a" })
+        const b = articleHash({ title: "Title", content: "Same body", link: "https://b" })
+        expect(a).toBe(b)
+    })
+
+    it("tells bodiless articles apart by link", () => {
+        const a = articleHash({ title: "Title", content: "", link: "https://a" })
+        const b = articleHash({ title: "Title", content: "", link: "https://b" })
+        expect(a).not.toBe(b)
+    })
+
+    it("changes with the model, prompt and target language", () => {
+        const hash = articleHash({ title: "T", content: "Body" })
+        const base = aiCacheKey("summary", hash, "gpt-4o-mini", "", "zh")
+        expect(aiCacheKey("summary", hash, "gpt-4o-mini", "", "zh")).toBe(base)
+        expect(aiCacheKey("summary", hash, "gpt-4o", "", "zh")).not.toBe(base)
+        expect(aiCacheKey("summary", hash, "gpt-4o-mini", "Be brief", "zh")).not.toBe(base)
+        expect(aiCacheKey("summary", hash, "gpt-4o-mini", "", "ja")).not.toBe(base)
+        expect(aiCacheKey("translation", hash, "gpt-4o-mini", "", "zh")).not.toBe(base)
+    })
+
+    it("keys each kind of article output by its task's settings", () => {
+        const item = { title: "Hello", content: "<p>An article written in English.</p>" }
+        const configs = { defaultModel: "m", translateTarget: "zh" } as AIConfigs
+        const keys = articleCacheKeys(item, configs, { ...configs, defaultModel: "t" })
+        expect(keys.summary.model).toBe("m")
+        expect(keys.translation.model).toBe("t")
+        expect(keys.translation.key).not.toBe(keys.titleTranslation.key)
+        expect(articleCacheKeys(item, configs, configs).summary).toEqual(keys.summary)
+    })
+})
@@ -1,15 +1,39 @@
 import {
     listModels,
     chatCompletion,
+    chatCompletionStream,
     summarizeArticle,
+    chatWithArticle,
+    createEmbeddings,
     translateText,
     translateTextByParagraph,
+    setUsageReporter,
     AiConfig,
 } from "../aiClient"
+import { AIProvider } from "../../../../schema-types"
 
 // Mock global fetch
 global.fetch = jest.fn()
 
+/** Build a fetch Response stand-in whose body streams the given SSE chunks. */
+function sseResponse(chunks: string[]) {
+    const encoder = new TextEncoder()
+    let i = 0
+    return {
+        ok: true,
+        headers: { get: () => "text/event-stream" },
+        body: {
+            getReader: () => ({
+                read: async () =>
+                    i < chunks.length
+                        ? { value: encoder.encode(chunks[i++]), done: false }
+                        : { value: undefined, done: true },
+                cancel: async () => undefined,
+            }),
+        },
+    }
+}
+
 const mockConfig: AiConfig = {
     baseUrl: "https://api.example.com/v1",
     apiKey: "test-key",
@@ -132,6 +156,264 @@ describe("aiClient", () => {
         })
     })
 
+    describe("chatCompletionStream", () => {
+        it("should accumulate deltas and stop at [DONE]", async () => {
+            ;(global.fetch as jest.Mock).mockResolvedValue(
+                sseResponse([
+                    'data: {"choices":[{"delta":{"role":"assistant"}}]}\n\n',
+                    'data: {"choices":[{"delta":{"content":"Hel"}}]}\n\ndata: {"choi',
+                    'ces":[{"delta":{"content":"lo"}}]}\n\n: keep-alive\n\n',
+                    "data: [DONE]\n\n",
+                    'data: {"choices":[{"delta":{"content":"ignored"}}]}\n\n',
+                ])
+            )
+            const progress: string[] = []
+
+            const text = await chatCompletionStream(
+                mockConfig,
+                { messages: [{ role: "user", content: "Hi" }] },
+                (_delta, accumulated) => progress.push(accumulated)
+            )
+
+            expect(text).toBe("Hello")
+            // The split JSON payload is reassembled across chunk boundaries.
+            expect(progress).toEqual(["Hel", "Hello"])
+            const body = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body)
+            expect(body.stream).toBe(true)
+        })
+
+        it("should fall back to a JSON body when the server does not stream", async () => {
+            ;(global.fetch as jest.Mock).mockResolvedValue({
+                ok: true,
+                headers: { get: () => "application/json" },
+                body: {},
+                json: async () => ({ choices: [{ message: { content: "Whole" } }] }),
+            })
+            const onProgress = jest.fn()
+
+            const text = await chatCompletionStream(mockConfig, { messages: [] }, onProgress)
+
+            expect(text).toBe("Whole")
+            expect(onProgress).toHaveBeenCalledWith("Whole", "Whole")
+        })
+
+        it("should surface an error event from the stream", async () => {
+            ;(global.fetch as jest.Mock).mockResolvedValue(
+                sseResponse(['data: {"error":{"message":"quota exceeded"}}\n\n'])
+            )
+
+            await expect(chatCompletionStream(mockConfig, { messages: [] })).rejects.toThrow(
+                /quota exceeded/
+            )
+        })
+    })
+
+    describe("providers", () => {
+        const lastCall = () => {
+            const [url, init] = (global.fetch as jest.Mock).mock.calls[0]
+            return { url, headers: init.headers, body: init.body && JSON.parse(init.body) }
+        }
+
+        it("should map requests and replies for Anthropic", async () => {
+            ;(global.fetch as jest.Mock).mockResolvedValue({
+                ok: true,
+                json: async () => ({
+                    content: [
+                        { type: "text", text: "Hello " },
+                        { type: "text", text: "there" },
+                    ],
+                }),
+            })
+            const config = {
+                ...mockConfig,
+                provider: AIProvider.Anthropic,
+                baseUrl: "https://api.anthropic.com/v1",
+            }
+
+            const text = await chatCompletion(config, {
+                messages: [
+                    { role: "system", content: "Be brief." },
+                    { role: "user", content: "Hi" },
+                ],
+            })
+
+            expect(text).toBe("Hello there")
+            const { url, headers, body } = lastCall()
+            expect(url).toBe("https://api.anthropic.com/v1/messages")
+            expect(headers["x-api-key"]).toBe("test-key")
+            expect(headers["anthropic-version"]).toBeDefined()
+            expect(headers.Authorization).toBeUndefined()
+            expect(body.system).toBe("Be brief.")
+            expect(body.messages).toEqual([{ role: "user", content: "Hi" }])
+            expect(body.max_tokens).toBe(2000)
+        })
+
+        it("should parse Anthropic stream events", async () => {
+            ;(global.fetch as jest.Mock).mockResolvedValue(
+                sseResponse([
+                    'event: message_start\ndata: {"type":"message_start","message":{}}\n\n',
+                    'event: content_block_delta\ndata: {"type":"content_block_delta","delta":{"type":"text_delta","text":"Hi"}}\n\n',
+                    'event: content_block_delta\ndata: {"type":"content_block_delta","delta":{"type":"text_delta","text":"!"}}\n\n',
+                    'event: message_stop\ndata: {"type":"message_stop"}\n\n',
+                ])
+            )
+            const config = { ...mockConfig, provider: AIProvider.Anthropic }
+
+            const text = await chatCompletionStream(config, { messages: [] }, jest.fn())
+
+            expect(text).toBe("Hi!")
+        })
+
+        it("should use Ollama's native chat API and NDJSON streaming", async () => {
+            ;(global.fetch as jest.Mock).mockResolvedValue(
+                sseResponse([
+                    '{"message":{"role":"assistant","content":"Hel"},"done":false}\n{"mess',
+                    'age":{"role":"assistant","content":"lo"},"done":false}\n',
+                    '{"message":{"role":"assistant","content":""},"done":true}\n',
+                ])
+            )
+            const config = {
+                ...mockConfig,
+                provider: AIProvider.Ollama,
+                baseUrl: "http://localhost:11434",
+                apiKey: "",
+            }
+
+            const text = await chatCompletionStream(config, {
+                messages: [{ role: "user", content: "Hi" }],
+                max_tokens: 100,
+            })
+
+            expect(text).toBe("Hello")
+            const { url, headers, body } = lastCall()
+            expect(url).toBe("http://localhost:11434/api/chat")
+            expect(headers.Authorization).toBeUndefined()
+            expect(body.options).toEqual({ temperature: 0.7, num_predict: 100 })
+            expect(body.stream).toBe(true)
+        })
+
+        it("should list Ollama models from /api/tags", async () => {
+            ;(global.fetch as jest.Mock).mockResolvedValue({
+                ok: true,
+                text: async () =>
+                    JSON.stringify({ models: [{ name: "llama3:8b" }, { name: "qwen2" }] }),
+            })
+            const config = {
+                ...mockConfig,
+                provider: AIProvider.Ollama,
+                baseUrl: "http://localhost:11434",
+            }
+
+            const models = await listModels(config)
+
+            expect(models).toEqual(["llama3:8b", "qwen2"])
+            expect(lastCall().url).toBe("http://localhost:11434/api/tags")
+        })
+
+        it("should address Azure deployments with api-version and api-key", async () => {
+            ;(global.fetch as jest.Mock).mockResolvedValue({
+                ok: true,
+                json: async () => ({ choices: [{ message: { content: "ok" } }] }),
+            })
+            const config = {
+                ...mockConfig,
+                provider: AIProvider.Azure,
+                baseUrl: "https://res.openai.azure.com/",
+                defaultModel: "my-gpt4o",
+                apiVersion: "2024-02-01",
+            }
+
+            await chatCompletion(config, { messages: [] })
+
+            const { url, headers, body } = lastCall()
+            expect(url).toBe(
+                "https://res.openai.azure.com/openai/deployments/my-gpt4o/chat/completions?api-version=2024-02-01"
+            )
+            expect(headers["api-key"]).toBe("test-key")
+            expect(headers.Authorization).toBeUndefined()
+            expect(body.model).toBeUndefined()
+        })
+    })
+
+    describe("usage", () => {
+        const reporter = jest.fn()
+        beforeEach(() => {
+            reporter.mockClear()
+            setUsageReporter(reporter)
+        })
+        afterEach(() => setUsageReporter(null))
+
+        it("should report the usage block of a response with its context", async () => {
+            ;(global.fetch as jest.Mock).mockResolvedValue({
+                ok: true,
+                json: async () => ({
+                    choices: [{ message: { content: "ok" } }],
+                    usage: { prompt_tokens: 12, completion_tokens: 3 },
+                }),
+            })
+            const config = { ...mockConfig, usage: { task: "summary", sourceId: 4 } }
+
+            await chatCompletion(config, { messages: [] })
+
+            expect(reporter).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    model: "gpt-test",
+                    task: "summary",
+                    sourceId: 4,
+                    promptTokens: 12,
+                    completionTokens: 3,
+                })
+            )
+        })
+
+        it("should request and collect usage from an OpenAI stream", async () => {
+            ;(global.fetch as jest.Mock).mockResolvedValue(
+                sseResponse([
+                    'data: {"choices":[{"delta":{"content":"Hi"}}]}\n\n',
+                    'data: {"choices":[],"usage":{"prompt_tokens":5,"completion_tokens":1}}\n\n',
+                    "data: [DONE]\n\n",
+                ])
+            )
+
+            await chatCompletionStream(mockConfig, { messages: [] }, jest.fn())
+
+            const body = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body)
+            expect(body.stream_options).toEqual({ include_usage: true })
+            expect(reporter).toHaveBeenCalledWith(
+                expect.objectContaining({ task: "other", promptTokens: 5, completionTokens: 1 })
+            )
+        })
+
+        it("should combine Anthropic start and delta usage", async () => {
+            ;(global.fetch as jest.Mock).mockResolvedValue(
+                sseResponse([
+                    'data: {"type":"message_start","message":{"usage":{"input_tokens":20,"output_tokens":1}}}\n\n',
+                    'data: {"type":"content_block_delta","delta":{"text":"Hi"}}\n\n',
+                    'data: {"type":"message_delta","usage":{"output_tokens":9}}\n\n',
+                    'data: {"type":"message_stop"}\n\n',
+                ])
+            )
+            const config = { ...mockConfig, provider: AIProvider.Anthropic }
+
+            await chatCompletionStream(config, { messages: [] }, jest.fn())
+
+            expect(reporter).toHaveBeenCalledWith(
+                expect.objectContaining({ promptTokens: 20, completionTokens: 9 })
+            )
+        })
+
+        it("should not report responses without usage", async () => {
+            ;(global.fetch as jest.Mock).mockResolvedValue({
+                ok: true,
+                json: async () => ({ choices: [{ message: { content: "ok" } }] }),
+            })
+
+            await chatCompletion(mockConfig, { messages: [] })
+
+            expect(reporter).not.toHaveBeenCalled()
+        })
+    })
+
     describe("summarizeArticle", () => {
         it("should call chatCompletion with Chinese prompt for Chinese content", async () => {
             const mockResponse = {
@@ -237,6 +519,98 @@ describe("aiClient", () => {
             // User wrapper follows the article's language (English -> "Article")
             expect(body.messages[1].content).toContain("Article:")
         })
+
+        it("should stream when a progress handler is given", async () => {
+            ;(global.fetch as jest.Mock).mockResolvedValue(
+                sseResponse([
+                    'data: {"choices":[{"delta":{"content":"Short "}}]}\n\n',
+                    'data: {"choices":[{"delta":{"content":"summary."}}]}\n\n',
+                ])
+            )
+            const onProgress = jest.fn()
+
+            const summary = await summarizeArticle(
+                mockConfig,
+                "Article content in English",
+                undefined,
+                undefined,
+                onProgress
+            )
+
+            expect(summary).toBe("Short summary.")
+            expect(onProgress).toHaveBeenLastCalledWith("summary.", "Short summary.")
+        })
+    })
+
+    describe("chatWithArticle", () => {
+        it("should ground the conversation in the article text", async () => {
+            ;(global.fetch as jest.Mock).mockResolvedValue({
+                ok: true,
+                json: async () => ({ choices: [{ message: { content: "Three." } }] }),
+            })
+
+            const answer = await chatWithArticle(mockConfig, "Title\n\nThe body.", [
+                { role: "user", content: "What is this?" },
+                { role: "assistant", content: "An article." },
+                { role: "user", content: "How many numbers?" },
+            ])
+            expect(answer).toBe("Three.")
+
+            const body = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body)
+            expect(body.messages[0].role).toBe("system")
+            expect(body.messages[0].content).toContain("The body.")
+            expect(body.messages.slice(1).map((m: { role: string }) => m.role)).toEqual([
+                "user",
+                "assistant",
+                "user",
+            ])
+        })
+    })
+
+    describe("createEmbeddings", () => {
+        it("should return one vector per input, in input order", async () => {
+            ;(global.fetch as jest.Mock).mockResolvedValue({
+                ok: true,
+                json: async () => ({
+                    data: [
+                        { index: 1, embedding: [0, 1] },
+                        { index: 0, embedding: [1, 0] },
+                    ],
+                }),
+            })
+
+            const vectors = await createEmbeddings(mockConfig, ["a", "b"])
+            expect(vectors).toEqual([
+                [1, 0],
+                [0, 1],
+            ])
+            const [url, init] = (global.fetch as jest.Mock).mock.calls[0]
+            expect(url).toBe("https://api.example.com/v1/embeddings")
+            expect(JSON.parse(init.body)).toEqual({ model: "gpt-test", input: ["a", "b"] })
+        })
+
+        it("should use Ollama's embed endpoint", async () => {
+            ;(global.fetch as jest.Mock).mockResolvedValue({
+                ok: true,
+                json: async () => ({ embeddings: [[0.5, 0.5]] }),
+            })
+
+            const vectors = await createEmbeddings(
+                { ...mockConfig, provider: AIProvider.Ollama, baseUrl: "http://localhost:11434" },
+                ["a"]
+            )
+            expect(vectors).toEqual([[0.5, 0.5]])
+            expect((global.fetch as jest.Mock).mock.calls[0][0]).toBe(
+                "http://localhost:11434/api/embed"
+            )
+        })
+
+        it("should reject providers without an embeddings endpoint", async () => {
+            await expect(
+                createEmbeddings({ ...mockConfig, provider: AIProvider.Anthropic }, ["a"])
+            ).rejects.toThrow("embeddings")
+            expect(global.fetch).not.toHaveBeenCalled()
+        })
     })
 
     describe("translateText", () => {
@@ -402,5 +776,39 @@ describe("aiClient", () => {
             // Exactly one fetch call for the whole batch.
             expect((global.fetch as jest.Mock).mock.calls.length).toBe(1)
         })
+
+        it("sends the glossary and flags paragraphs that miss a term", async () => {
+            const glossaryConfig: AiConfig = {
+                ...mockConfig,
+                maxParagraphsPerRequest: 2,
+                glossary: [{ term: "Kubernetes" }, { term: "Cooking", translation: "烹饪" }],
+            }
+            ;(global.fetch as jest.Mock).mockResolvedValue({
+                ok: true,
+                json: async () => ({
+                    choices: [{ message: { content: '["我们使用 Kubernetes","库伯内特斯"]' } }],
+                }),
+            })
+
+            const results = await translateTextByParagraph(
+                glossaryConfig,
+                ["We use Kubernetes", "Kubernetes"],
+                undefined,
+                undefined,
+                "zh"
+            )
+            expect(results[0]).toEqual({
+                original: "We use Kubernetes",
+                translated: "我们使用 Kubernetes",
+            })
+            // The translation is kept; the missed terms ride along with it.
+            expect(results[1].translated).toBe("库伯内特斯")
+            expect(results[1].glossaryMissed).toEqual(["Kubernetes"])
+
+            const body = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body)
+            expect(body.messages[0].content).toContain('"Kubernetes" → keep as written')
+            // Terms absent from the text are left out of the prompt.
+            expect(body.messages[0].content).not.toContain("Cooking")
+        })
     })
 })
@@ -0,0 +1,62 @@
+import { Digest, digestSince, isDigestDue, latestDigests, parseTopicGroups } from "../aiDigest"
+
+const DAY = 24 * 60 * 60 * 1000
+
+describe("parseTopicGroups", () => {
+    it("reads the JSON array out of a fenced reply", () => {
+        const reply =
+            'Here you go:\n```json\n[{"title": "Chips", "items": [1, 3]}, {"title": "Space", "items": [2]}]\n```'
+        expect(parseTopicGroups(reply, 3, "Other")).toEqual([
+            { title: "Chips", items: [1, 3] },
+            { title: "Space", items: [2] },
+        ])
+    })
+
+    it("drops bad positions and gathers the rest under the other topic", () => {
+        const reply = '[{"title": "A", "items": [2, 2, 9, "x"]}, {"title": "B", "items": [2]}]'
+        expect(parseTopicGroups(reply, 3, "Other")).toEqual([
+            { title: "A", items: [2] },
+            { title: "Other", items: [1, 3] },
+        ])
+    })
+
+    it("puts everything under the other topic when the reply is not JSON", () => {
+        expect(parseTopicGroups("Sorry, I can't.", 2, "Other")).toEqual([
+            { title: "Other", items: [1, 2] },
+        ])
+    })
+})
+
+describe("digest schedule", () => {
+    it("is due when there was none or the period has passed", () => {
+        const now = 10 * DAY
+        expect(isDigestDue("daily", null, now)).toBe(true)
+        expect(isDigestDue("daily", now - DAY / 2, now)).toBe(false)
+        expect(isDigestDue("daily", now - DAY, now)).toBe(true)
+        expect(isDigestDue("weekly", now - 3 * DAY, now)).toBe(false)
+    })
+
+    it("covers the time since the last digest, or one period back", () => {
+        expect(digestSince("weekly", null, 10 * DAY)).toBe(3 * DAY)
+        expect(digestSince("weekly", 5 * DAY, 10 * DAY)).toBe(5 * DAY)
+    })
+
+    it("finds the latest digest of each group", () => {
+        const digest = (id: string, group: string, createdAt: number): Digest => ({
+            id,
+            group,
+            period: "daily",
+            createdAt,
+            since: 0,
+            topics: [],
+            itemCount: 0,
+        })
+        const latest = latestDigests([
+            digest("a", "News", 1),
+            digest("b", "News", 3),
+            digest("c", "Tech", 2),
+        ])
+        expect(latest.get("News").id).toBe("b")
+        expect(latest.get("Tech").id).toBe("c")
+    })
+})
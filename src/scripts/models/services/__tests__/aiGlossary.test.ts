@@ -0,0 +1,58 @@
+import { AIGlossaryEntry } from "../../../../schema-types"
+import {
+    glossaryCacheText,
+    glossaryFor,
+    glossaryInstructions,
+    glossaryViolations,
+} from "../aiGlossary"
+
+const glossary: AIGlossaryEntry[] = [
+    { term: "Go" },
+    { term: "large language model", translation: "大语言模型", lang: "zh" },
+    { term: "Rust", translation: "Rust", lang: "ja" },
+]
+
+describe("glossaryFor", () => {
+    it("keeps the entries of the target language whose term occurs", () => {
+        expect(glossaryFor(glossary, ["A <b>Large Language Model</b> in Go"], "zh-CN")).toEqual(
+            glossary.slice(0, 2)
+        )
+        expect(glossaryFor(glossary, ["Written in Rust"], "zh")).toEqual([])
+        expect(glossaryFor(undefined, ["Go"], "zh")).toEqual([])
+    })
+
+    it("matches latin terms as whole words only", () => {
+        expect(glossaryFor(glossary, ["Google it"], "zh")).toEqual([])
+        expect(glossaryFor(glossary, ["用Go写的"], "en")).toEqual([glossary[0]])
+    })
+})
+
+describe("glossaryViolations", () => {
+    const entries = glossary.slice(0, 2)
+
+    it("names the terms whose translation is missing", () => {
+        const original = "A large language model written in Go"
+        expect(glossaryViolations(original, "一个用 Go 编写的大语言模型", entries)).toEqual([])
+        expect(glossaryViolations(original, "一个用围棋编写的大型语言模型", entries)).toEqual([
+            "Go",
+            "large language model",
+        ])
+    })
+
+    it("ignores terms the paragraph does not contain", () => {
+        expect(glossaryViolations("Nothing here", "这里什么都没有", entries)).toEqual([])
+    })
+})
+
+describe("prompts and cache keys", () => {
+    it("lists translations and terms to keep", () => {
+        const text = glossaryInstructions(glossary.slice(0, 2))
+        expect(text).toContain('"Go" → keep as written')
+        expect(text).toContain('"large language model" → "大语言模型"')
+    })
+
+    it("keys only the entries of the target language", () => {
+        expect(glossaryCacheText(glossary, "ja")).toBe("Go=\nRust=Rust")
+        expect(glossaryCacheText([], "ja")).toBe("")
+    })
+})
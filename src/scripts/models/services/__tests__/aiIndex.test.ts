@@ -0,0 +1,59 @@
+import * as fs from "fs"
+import * as os from "os"
+import * as path from "path"
+import * as aiIndex from "../aiIndex"
+
+let dir: string
+
+beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "ai-index-"))
+    aiIndex.initIndex(dir)
+})
+
+afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+})
+
+describe("aiIndex", () => {
+    it("finds the closest vectors, best first", () => {
+        aiIndex.addVectors("m", [
+            { id: 1, vector: [1, 0, 0] },
+            { id: 2, vector: [0, 2, 0] },
+            { id: 3, vector: [1, 1, 0] },
+        ])
+        const hits = aiIndex.searchVectors("m", [0, 1, 0], 2)
+        expect(hits.map(hit => hit.id)).toEqual([2, 3])
+        expect(hits[0].score).toBeCloseTo(1)
+        expect(aiIndex.searchVectors("other", [0, 1, 0], 2)).toEqual([])
+    })
+
+    it("reports the ids not indexed for a model", () => {
+        aiIndex.addVectors("m", [{ id: 1, vector: [1, 0] }])
+        expect(aiIndex.missingIds("m", [1, 2])).toEqual([2])
+        expect(aiIndex.missingIds("other", [1, 2])).toEqual([1, 2])
+    })
+
+    it("survives a restart and drops a torn record", () => {
+        aiIndex.addVectors("m", [
+            { id: 1, vector: [1, 0] },
+            { id: 2, vector: [0, 1] },
+        ])
+        aiIndex.addVectors("m", [{ id: 1, vector: [0, 3] }])
+        fs.appendFileSync(path.join(dir, "ai-index.bin"), Buffer.from([1, 2, 3]))
+
+        aiIndex.initIndex(dir)
+        expect(aiIndex.getIndexStats()).toEqual({ model: "m", count: 2 })
+        expect(aiIndex.searchVectors("m", [0, 1], 1)[0].score).toBeCloseTo(1)
+        // Rewritten with one record per item.
+        expect(fs.statSync(path.join(dir, "ai-index.bin")).size).toBe(2 * (4 + 2 * 4))
+    })
+
+    it("starts over when the model changes", () => {
+        aiIndex.addVectors("a", [{ id: 1, vector: [1, 0] }])
+        aiIndex.addVectors("b", [{ id: 2, vector: [0, 1, 0] }])
+        expect(aiIndex.getIndexStats()).toEqual({ model: "b", count: 1 })
+        aiIndex.clearIndex()
+        aiIndex.initIndex(dir)
+        expect(aiIndex.getIndexStats()).toEqual({ model: "", count: 0 })
+    })
+})
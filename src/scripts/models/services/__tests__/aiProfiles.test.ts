@@ -0,0 +1,95 @@
+import { AIConfigs, AIProvider, AITask, SourceGroup } from "../../../../schema-types"
+import {
+    DEFAULT_PROFILE_ID,
+    deleteProfile,
+    getProfile,
+    getSourceAIOverrides,
+    putProfile,
+    resolveTaskConfigs,
+} from "../aiProfiles"
+
+const baseConfigs: AIConfigs = {
+    enabled: true,
+    baseUrl: "https://api.openai.com/v1",
+    apiKey: "sk-default",
+    defaultModel: "gpt-4o-mini",
+    availableModels: [],
+    profiles: [
+        {
+            id: "local",
+            name: "Local",
+            provider: AIProvider.Ollama,
+            baseUrl: "http://localhost:11434",
+            apiKey: "",
+            defaultModel: "qwen2",
+            availableModels: ["qwen2"],
+        },
+    ],
+    taskProfiles: { [AITask.Selection]: "local" },
+}
+
+describe("aiProfiles", () => {
+    it("should route a task to its profile and keep the other settings", () => {
+        const resolved = resolveTaskConfigs(
+            { ...baseConfigs, translateTarget: "en" },
+            AITask.Selection
+        )
+
+        expect(resolved.provider).toBe(AIProvider.Ollama)
+        expect(resolved.baseUrl).toBe("http://localhost:11434")
+        expect(resolved.defaultModel).toBe("qwen2")
+        expect(resolved.translateTarget).toBe("en")
+    })
+
+    it("should fall back to the default profile for unrouted tasks and stale ids", () => {
+        expect(resolveTaskConfigs(baseConfigs, AITask.Summary).defaultModel).toBe("gpt-4o-mini")
+        const stale = { ...baseConfigs, taskProfiles: { [AITask.Summary]: "gone" } }
+        expect(resolveTaskConfigs(stale, AITask.Summary).apiKey).toBe("sk-default")
+    })
+
+    it("should write the default profile back to the top-level fields", () => {
+        const updated = putProfile(baseConfigs, {
+            ...getProfile(baseConfigs, DEFAULT_PROFILE_ID),
+            defaultModel: "gpt-4o",
+        })
+
+        expect(updated.defaultModel).toBe("gpt-4o")
+        expect(updated.profiles).toHaveLength(1)
+    })
+
+    it("should drop task routes when their profile is deleted", () => {
+        const updated = deleteProfile(baseConfigs, "local")
+
+        expect(updated.profiles).toEqual([])
+        expect(updated.taskProfiles?.[AITask.Selection]).toBeUndefined()
+    })
+
+    it("should layer source overrides over group overrides", () => {
+        const group = new SourceGroup([1, 2], "Tech")
+        group.ai = { translateTarget: "en", summaryPrompt: "Group prompt" }
+        const overrides = getSourceAIOverrides(
+            { sid: 1, ai: { summaryPrompt: "Source prompt", skipTranslation: true } },
+            [group, new SourceGroup([3])]
+        )
+
+        expect(overrides).toEqual({
+            translateTarget: "en",
+            summaryPrompt: "Source prompt",
+            skipTranslation: true,
+        })
+        expect(getSourceAIOverrides({ sid: 3 }, [group])).toEqual({})
+    })
+
+    it("should apply overrides on top of the task route", () => {
+        const resolved = resolveTaskConfigs(baseConfigs, AITask.Summary, {
+            profileId: "local",
+            translateTarget: "en",
+            summaryPrompt: "Only bullet points.",
+        })
+
+        expect(resolved.defaultModel).toBe("qwen2")
+        expect(resolved.translateTarget).toBe("en")
+        expect(resolved.translateWhen).toBe(baseConfigs.translateWhen)
+        expect(resolved.prompts?.summary).toBe("Only bullet points.")
+    })
+})
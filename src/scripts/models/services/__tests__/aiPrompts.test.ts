@@ -0,0 +1,84 @@
+import { AIConfigs } from "../../../../schema-types"
+import {
+    BUILTIN_PROMPT_TEMPLATES,
+    articlePromptVariables,
+    exportPromptTemplates,
+    listPromptTemplates,
+    parsePromptTemplates,
+    renderPrompt,
+    usesVariable,
+    withPromptTemplates,
+} from "../aiPrompts"
+
+const configs = {
+    prompts: { summary: "Summarize.", translation: "Translate." },
+    promptTemplates: [
+        { id: "mine", name: "Mine", task: "translation", prompt: "Into {{targetLang}}." },
+    ],
+} as AIConfigs
+
+describe("renderPrompt", () => {
+    it("fills in known variables and leaves the others as written", () => {
+        expect(
+            renderPrompt("{{ title }} by {{source}} in {{targetLang}}: {{unknown}}", {
+                title: "Hello",
+                source: "Blog",
+            })
+        ).toBe("Hello by Blog in {{targetLang}}: {{unknown}}")
+    })
+
+    it("does not read variables from the object prototype", () => {
+        expect(renderPrompt("{{constructor}}", {})).toBe("{{constructor}}")
+    })
+
+    it("tells whether a template places a variable", () => {
+        expect(usesVariable("Quotes:\n\n{{ content }}", "content")).toBe(true)
+        expect(usesVariable("Summarize {{title}}.", "content")).toBe(false)
+    })
+
+    it("formats the article date as a local day", () => {
+        const vars = articlePromptVariables({ title: "T", date: new Date(2024, 0, 5, 23, 0) }, "S")
+        expect(vars).toEqual({ title: "T", source: "S", date: "2024-01-05" })
+    })
+})
+
+describe("templates", () => {
+    it("lists presets before the reader's templates, per task", () => {
+        expect(listPromptTemplates(configs)).toHaveLength(BUILTIN_PROMPT_TEMPLATES.length + 1)
+        expect(listPromptTemplates(configs, "translation").map(t => t.id)).toEqual(["mine"])
+    })
+
+    it("replaces a task's prompt only with a template of that task", () => {
+        const picked = withPromptTemplates(configs, {
+            summary: "mine",
+            translation: "mine",
+        })
+        expect(picked.prompts).toEqual({
+            summary: "Summarize.",
+            translation: "Into {{targetLang}}.",
+        })
+        expect(withPromptTemplates(configs, { summary: "gone" })).toBe(configs)
+    })
+
+    it("round-trips exported templates with new ids", () => {
+        let n = 0
+        const imported = parsePromptTemplates(
+            exportPromptTemplates(configs.promptTemplates),
+            () => `new-${n++}`
+        )
+        expect(imported).toEqual([{ ...configs.promptTemplates[0], id: "new-0" }])
+    })
+
+    it("skips invalid entries and rejects files that are not a list", () => {
+        const text = JSON.stringify([
+            { name: "", task: "summary", prompt: "x" },
+            { name: "A", task: "chat", prompt: "x" },
+            { name: " B ", task: "summary", prompt: "y" },
+            null,
+        ])
+        expect(parsePromptTemplates(text, () => "id")).toEqual([
+            { id: "id", name: "B", task: "summary", prompt: "y" },
+        ])
+        expect(() => parsePromptTemplates("{}", () => "id")).toThrow()
+    })
+})
@@ -0,0 +1,94 @@
+import { backoffDelay, JobQueue } from "../aiQueue"
+
+const tick = () => new Promise<void>(resolve => setTimeout(resolve, 0))
+
+describe("backoffDelay", () => {
+    it("doubles up to the cap, with jitter", () => {
+        expect(backoffDelay(1, 1000, 60000, () => 1)).toBe(1000)
+        expect(backoffDelay(3, 1000, 60000, () => 1)).toBe(4000)
+        expect(backoffDelay(3, 1000, 60000, () => 0)).toBe(2000)
+        expect(backoffDelay(10, 1000, 60000, () => 1)).toBe(60000)
+    })
+})
+
+describe("JobQueue", () => {
+    beforeEach(() => {
+        jest.spyOn(console, "warn").mockImplementation(() => undefined)
+    })
+
+    afterEach(() => {
+        jest.restoreAllMocks()
+    })
+
+    it("runs no more than `concurrency` jobs at once", async () => {
+        let running = 0
+        let peak = 0
+        const queue = new JobQueue<number>(
+            async () => {
+                running += 1
+                peak = Math.max(peak, running)
+                await tick()
+                running -= 1
+            },
+            { concurrency: 2 }
+        )
+        for (let i = 0; i < 5; i++) queue.push(String(i), i)
+        await queue.idle()
+        expect(peak).toBe(2)
+    })
+
+    it("ignores a job already queued under the same key", async () => {
+        const run = jest.fn(() => tick())
+        const queue = new JobQueue<number>(run, { concurrency: 1 })
+        expect(queue.push("a", 1)).toBe(true)
+        expect(queue.push("a", 2)).toBe(false)
+        await queue.idle()
+        expect(run).toHaveBeenCalledTimes(1)
+        expect(queue.push("a", 3)).toBe(true)
+        await queue.idle()
+    })
+
+    it("retries failures and flags the last attempt", async () => {
+        const attempts: Array<[number, boolean]> = []
+        const queue = new JobQueue<string>(
+            async (_job, attempt, lastAttempt) => {
+                attempts.push([attempt, lastAttempt])
+                throw new Error("boom")
+            },
+            { concurrency: 1, maxAttempts: 3, baseDelay: 1 }
+        )
+        queue.push("a", "a")
+        await queue.idle()
+        expect(attempts).toEqual([
+            [1, false],
+            [2, false],
+            [3, true],
+        ])
+        expect(queue.size).toBe(0)
+    })
+
+    it("does not retry aborts", async () => {
+        const run = jest.fn(async () => {
+            const error = new Error("aborted")
+            error.name = "AbortError"
+            throw error
+        })
+        const queue = new JobQueue<string>(run, { concurrency: 1, baseDelay: 1 })
+        queue.push("a", "a")
+        await queue.idle()
+        expect(run).toHaveBeenCalledTimes(1)
+    })
+
+    it("drops pending retries on clear", async () => {
+        const run = jest.fn(async () => {
+            throw new Error("boom")
+        })
+        const queue = new JobQueue<string>(run, { concurrency: 1, baseDelay: 60000 })
+        queue.push("a", "a")
+        await tick()
+        expect(queue.has("a")).toBe(true)
+        queue.clear()
+        await queue.idle()
+        expect(run).toHaveBeenCalledTimes(1)
+    })
+})
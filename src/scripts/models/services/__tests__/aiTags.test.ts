@@ -0,0 +1,39 @@
+import { formatTags, itemTags, normalizeTag, parseTags, tagRegex } from "../aiTags"
+
+const vocabulary = ["Rust", "Databases", "Machine Learning"]
+
+describe("tags column", () => {
+    it("round-trips tags and tells untagged from tagged with none", () => {
+        const field = formatTags(["Rust", "Databases"])
+        expect(field).toBe(",Rust,Databases,")
+        expect(itemTags(field)).toEqual(["Rust", "Databases"])
+        expect(formatTags([])).toBe("")
+        expect(itemTags("")).toEqual([])
+        expect(itemTags(undefined)).toEqual([])
+    })
+
+    it("matches whole tags only", () => {
+        expect(tagRegex("rust").test(",Rust,Databases,")).toBe(true)
+        expect(tagRegex("Rus").test(",Rust,")).toBe(false)
+        expect(tagRegex("C++").test(",C++,")).toBe(true)
+    })
+
+    it("keeps commas out of tag names", () => {
+        expect(normalizeTag("  Space,  Science ")).toBe("Space Science")
+    })
+})
+
+describe("parseTags", () => {
+    it("keeps vocabulary tags in their own spelling", () => {
+        expect(parseTags('["rust", "Cooking", "machine learning", "Rust"]', vocabulary)).toEqual([
+            "Rust",
+            "Machine Learning",
+        ])
+    })
+
+    it("reads plain lists when there is no JSON array", () => {
+        expect(parseTags("- #Databases\n- Rust", vocabulary)).toEqual(["Databases", "Rust"])
+        expect(parseTags("None of them apply.", vocabulary)).toEqual([])
+        expect(parseTags("[]", vocabulary)).toEqual([])
+    })
+})
@@ -0,0 +1,69 @@
+import { AIUsageBucket, addUsage, estimateCost, groupUsage, totalUsage } from "../aiUsage"
+
+const prices = { "gpt-4o-mini": { input: 0.15, output: 0.6 } }
+
+function buckets(): AIUsageBucket[] {
+    const map = new Map<string, AIUsageBucket>()
+    const base = { promptTokens: 1000000, completionTokens: 0, task: "summary" }
+    addUsage(map, {
+        ...base,
+        time: new Date(2024, 4, 1, 9).getTime(),
+        model: "gpt-4o-mini",
+        sourceId: 1,
+        sourceName: "A",
+    })
+    addUsage(map, {
+        ...base,
+        time: new Date(2024, 4, 1, 18).getTime(),
+        model: "gpt-4o-mini",
+        sourceId: 1,
+        sourceName: "A",
+    })
+    addUsage(map, {
+        ...base,
+        time: new Date(2024, 4, 2).getTime(),
+        model: "local",
+        sourceId: 2,
+        sourceName: "B",
+    })
+    addUsage(map, { ...base, time: new Date(2024, 5, 1).getTime(), model: "gpt-4o-mini" })
+    return [...map.values()]
+}
+
+describe("aiUsage", () => {
+    it("merges calls of the same day, model, task and source", () => {
+        const list = buckets()
+        expect(list).toHaveLength(3)
+        expect(list[0]).toMatchObject({ day: "2024-05-01", calls: 2, promptTokens: 2000000 })
+    })
+
+    it("prices usage per million tokens, unpriced models as free", () => {
+        expect(
+            estimateCost(
+                { model: "gpt-4o-mini", promptTokens: 2000000, completionTokens: 500000 },
+                prices
+            )
+        ).toBeCloseTo(0.6)
+        expect(
+            estimateCost({ model: "local", promptTokens: 1000, completionTokens: 0 }, prices)
+        ).toBe(0)
+    })
+
+    it("groups by day, month and source", () => {
+        const list = buckets()
+        expect(groupUsage(list, "day", prices).map(t => t.key)).toEqual([
+            "2024-06-01",
+            "2024-05-02",
+            "2024-05-01",
+        ])
+        const months = groupUsage(list, "month", prices)
+        expect(months.map(t => [t.key, t.calls])).toEqual([
+            ["2024-06", 1],
+            ["2024-05", 3],
+        ])
+        const sources = groupUsage(list, "source", prices)
+        expect(sources[0]).toMatchObject({ key: "1", label: "A", calls: 2 })
+        expect(sources[0].cost).toBeCloseTo(0.3)
+        expect(totalUsage(list, prices).cost).toBeCloseTo(0.45)
+    })
+})
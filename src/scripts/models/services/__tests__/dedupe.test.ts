@@ -0,0 +1,115 @@
+import { DedupeEntry, findDuplicates, groupDuplicates, normalizeUrl } from "../dedupe"
+
+const HOUR = 60 * 60 * 1000
+
+const entry = (id: number, source: number, title: string, link = "", hours = 0): DedupeEntry => ({
+    id,
+    source,
+    link,
+    title,
+    date: new Date(hours * HOUR),
+})
+
+describe("normalizeUrl", () => {
+    it("ignores scheme, www, fragments, tracking and query order", () => {
+        expect(normalizeUrl("https://www.Example.com/a/b/?utm_source=x&b=2&a=1#top")).toBe(
+            "example.com/a/b?a=1&b=2"
+        )
+        expect(normalizeUrl("http://example.com/a/b?a=1&b=2&fbclid=z")).toBe(
+            "example.com/a/b?a=1&b=2"
+        )
+        expect(normalizeUrl("mailto:someone@example.com")).toBe("")
+        expect(normalizeUrl("not a url")).toBe("")
+    })
+})
+
+describe("findDuplicates", () => {
+    it("matches stored items by link and canonical link", () => {
+        const recent = [entry(1, 1, "Original", "https://news.example.com/story?id=7")]
+        const fresh = [
+            entry(2, 2, "Something else", "https://www.news.example.com/story?id=7&utm_medium=rss"),
+            {
+                ...entry(3, 3, "Unrelated", "https://feeds.example.net/r/123"),
+                canonical: "https://news.example.com/story?id=7",
+            },
+        ]
+        expect(findDuplicates(fresh, recent)).toEqual(
+            new Map([
+                [2, 1],
+                [3, 1],
+            ])
+        )
+    })
+
+    it("matches near-identical titles from other sources", () => {
+        const title = "Central bank raises interest rates by half a point to fight inflation"
+        const recent = [entry(1, 1, title, "https://a.example/1")]
+        const fresh = [
+            entry(
+                2,
+                2,
+                "Central Bank raises interest rates by half a point to fight inflation!",
+                "https://b.example/2",
+                2
+            ),
+            entry(
+                4,
+                3,
+                "Local team wins the championship after a dramatic overtime",
+                "https://c.example/4",
+                1
+            ),
+        ]
+        const result = findDuplicates(fresh, recent)
+        expect(result.get(2)).toBe(1)
+        expect(result.has(4)).toBe(false)
+    })
+
+    it("leaves similar titles from the same source apart", () => {
+        const title = "Weekly roundup: the best new apps and games of the week"
+        const recent = [entry(1, 1, title, "https://a.example/1")]
+        const fresh = [entry(2, 1, title + " (part 2)", "https://a.example/2", 1)]
+        expect(findDuplicates(fresh, recent).size).toBe(0)
+    })
+
+    it("clusters fresh items under the earliest and keeps existing primaries", () => {
+        const title = "Spacecraft lands safely on the far side of the moon after long journey"
+        const recent = [{ ...entry(5, 1, "x", "https://a.example/5"), cluster: 2 }]
+        const fresh = [
+            entry(7, 3, title, "https://c.example/7", 5),
+            entry(6, 2, title, "https://b.example/6", 4),
+            entry(8, 4, "Different", "https://a.example/5", 6),
+        ]
+        expect(findDuplicates(fresh, recent)).toEqual(
+            new Map([
+                [7, 6],
+                [8, 2],
+            ])
+        )
+    })
+
+    it("keeps stories days apart separate", () => {
+        const title = "Annual developer conference opens with keynote on new platform features"
+        const recent = [entry(1, 1, title, "https://a.example/1")]
+        const fresh = [entry(2, 2, title, "https://b.example/2", 24 * 30)]
+        expect(findDuplicates(fresh, recent).size).toBe(0)
+    })
+})
+
+describe("groupDuplicates", () => {
+    it("shows one entry per story, preferring the primary", () => {
+        const items = [
+            { _id: 4, cluster: 1 },
+            { _id: 3 },
+            { _id: 2, cluster: 1 },
+            { _id: 1 },
+            { _id: 9, cluster: 8 },
+            { _id: 10, cluster: 8 },
+        ]
+        const [visible, duplicates] = groupDuplicates(items)
+        expect(visible.map(item => item._id)).toEqual([1, 3, 9])
+        expect(duplicates.get(1).map(item => item._id)).toEqual([4, 2])
+        expect(duplicates.get(9).map(item => item._id)).toEqual([10])
+        expect(duplicates.has(3)).toBe(false)
+    })
+})
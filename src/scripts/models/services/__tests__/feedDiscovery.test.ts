@@ -0,0 +1,50 @@
+import { commonFeedURLs, feedLinks, looksLikeHTML } from "../feedDiscovery"
+
+const link = (attributes: Record<string, string>) => ({
+    getAttribute: (name: string) => attributes[name] ?? null,
+})
+
+describe("feedLinks", () => {
+    it("resolves alternate feed links against the page", () => {
+        const links = [
+            link({ rel: "stylesheet", href: "/main.css" }),
+            link({ rel: "alternate", type: "application/rss+xml", href: "/rss", title: " Posts " }),
+            link({ rel: "Alternate", type: "application/atom+xml", href: "comments.atom" }),
+            link({ rel: "alternate", type: "text/html", href: "/en/" }),
+            link({
+                rel: "alternate",
+                type: "application/feed+json; charset=utf-8",
+                href: "/f.json",
+            }),
+            link({
+                rel: "alternate",
+                type: "application/rss+xml",
+                href: "https://example.org/rss",
+            }),
+            link({ rel: "alternate", type: "application/rss+xml", href: "javascript:void(0)" }),
+        ]
+        expect(feedLinks(links, "https://example.org/blog/")).toEqual([
+            { url: "https://example.org/rss", title: "Posts" },
+            { url: "https://example.org/blog/comments.atom" },
+            { url: "https://example.org/f.json" },
+        ])
+    })
+})
+
+describe("discovery helpers", () => {
+    it("tries common paths at the site root", () => {
+        expect(commonFeedURLs("https://example.org/blog/post?id=1")).toEqual([
+            "https://example.org/feed",
+            "https://example.org/rss.xml",
+            "https://example.org/atom.xml",
+            "https://example.org/index.xml",
+        ])
+    })
+
+    it("tells pages from feeds", () => {
+        expect(looksLikeHTML("text/html; charset=utf-8", "")).toBe(true)
+        expect(looksLikeHTML(null, "<!-- hi -->\n<!DOCTYPE html><html>")).toBe(true)
+        expect(looksLikeHTML("application/xml", '<?xml version="1.0"?><rss>')).toBe(false)
+        expect(looksLikeHTML("application/xhtml+xml", "<feed>")).toBe(false)
+    })
+})
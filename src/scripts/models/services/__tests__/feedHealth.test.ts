@@ -0,0 +1,59 @@
+import { backoffDelay, isBackedOff, parseRetryAfter, recordFetch } from "../feedHealth"
+
+const now = Date.UTC(2024, 0, 1)
+const minutes = (m: number) => m * 60000
+
+describe("recordFetch", () => {
+    it("averages response times and resets failures on success", () => {
+        let health = recordFetch(undefined, { status: 500, latency: 100, error: "500 " }, now)
+        expect(health.consecutiveFailures).toBe(1)
+        health = recordFetch(health, { status: 304, latency: 200 }, now)
+        expect(health).toEqual({
+            lastStatus: 304,
+            lastChecked: now,
+            consecutiveFailures: 0,
+            avgLatency: 130,
+        })
+    })
+
+    it("keeps the average when there was no response", () => {
+        const health = recordFetch(
+            { lastStatus: 200, lastChecked: 0, consecutiveFailures: 0, avgLatency: 80 },
+            { status: 0, error: "Network error" },
+            now
+        )
+        expect(health.avgLatency).toBe(80)
+        expect(health.lastError).toBe("Network error")
+    })
+
+    it("backs off from the second failure in a row", () => {
+        let health = recordFetch(undefined, { status: 404 }, now)
+        expect(isBackedOff(health, now)).toBe(false)
+        health = recordFetch(health, { status: 404 }, now)
+        expect(health.retryAt).toBe(now + minutes(15))
+        expect(isBackedOff(health, now + minutes(14))).toBe(true)
+        expect(isBackedOff(health, now + minutes(15))).toBe(false)
+    })
+
+    it("honors Retry-After and waits on 429 without it", () => {
+        expect(recordFetch(undefined, { status: 503, retryAfter: "3600" }, now).retryAt).toBe(
+            now + minutes(60)
+        )
+        expect(recordFetch(undefined, { status: 429 }, now).retryAt).toBe(now + minutes(15))
+    })
+})
+
+describe("back-off helpers", () => {
+    it("doubles the delay up to a day", () => {
+        expect(backoffDelay(1)).toBe(0)
+        expect(backoffDelay(3)).toBe(minutes(30))
+        expect(backoffDelay(20)).toBe(minutes(24 * 60))
+    })
+
+    it("reads Retry-After as seconds or an HTTP date", () => {
+        expect(parseRetryAfter("120", now)).toBe(now + 120000)
+        expect(parseRetryAfter("Mon, 01 Jan 2024 01:00:00 GMT", now)).toBe(now + minutes(60))
+        expect(parseRetryAfter("soon", now)).toBeUndefined()
+        expect(parseRetryAfter(undefined, now)).toBeUndefined()
+    })
+})
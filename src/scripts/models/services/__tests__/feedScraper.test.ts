@@ -0,0 +1,35 @@
+import { missingScraperFields, normalizeScraper, parseScrapedDate } from "../feedScraper"
+
+describe("parseScrapedDate", () => {
+    it("finds ISO dates within text", () => {
+        expect(parseScrapedDate("Posted on 2024-03-05 by Ann")).toBe("2024-03-05T00:00:00.000Z")
+        expect(parseScrapedDate("2024-03-05T10:30:00+02:00")).toBe("2024-03-05T08:30:00.000Z")
+    })
+
+    it("reads written-out dates", () => {
+        expect(parseScrapedDate("Tue, 05 Mar 2024 10:00:00 GMT")).toBe("2024-03-05T10:00:00.000Z")
+        expect(new Date(parseScrapedDate(" March 5,\n 2024 ")).getDate()).toBe(5)
+    })
+
+    it("skips text without a year", () => {
+        expect(parseScrapedDate("2 days ago")).toBeUndefined()
+        expect(parseScrapedDate("Part 2")).toBeUndefined()
+        expect(parseScrapedDate("")).toBeUndefined()
+        expect(parseScrapedDate("Chapter 2024 and more")).toBeUndefined()
+    })
+})
+
+describe("scraper configs", () => {
+    it("requires item and title selectors", () => {
+        expect(missingScraperFields({ item: " ", title: "h2" })).toEqual(["item"])
+        expect(missingScraperFields({ item: "li", title: "a" })).toEqual([])
+    })
+
+    it("drops blank optional selectors", () => {
+        expect(normalizeScraper({ item: " li ", title: "a", link: "", date: " time " })).toEqual({
+            item: "li",
+            title: "a",
+            date: "time",
+        })
+    })
+})
@@ -0,0 +1,46 @@
+import { classWeight, pickSrcset } from "../fullText"
+
+describe("classWeight", () => {
+    it("favors names of content", () => {
+        expect(classWeight("post-content")).toBe(25)
+        expect(classWeight("entry_text")).toBe(25)
+        expect(classWeight("Article")).toBe(25)
+    })
+
+    it("penalizes names of boilerplate", () => {
+        expect(classWeight("sidebar")).toBe(-25)
+        expect(classWeight("site navbar")).toBe(-25)
+        expect(classWeight("share-buttons")).toBe(-25)
+    })
+
+    it("matches whole words only", () => {
+        expect(classWeight("inside")).toBe(0)
+        expect(classWeight("postal")).toBe(0)
+        expect(classWeight("")).toBe(0)
+    })
+
+    it("adds up names of both kinds", () => {
+        expect(classWeight("comment-body")).toBe(0)
+    })
+})
+
+describe("pickSrcset", () => {
+    it("picks the widest candidate", () => {
+        expect(pickSrcset("a.jpg 320w, b.jpg 1024w, c.jpg 640w")).toBe("b.jpg")
+    })
+
+    it("picks the densest candidate", () => {
+        expect(pickSrcset("a.jpg, b.jpg 2x")).toBe("b.jpg")
+    })
+
+    it("keeps commas within addresses", () => {
+        expect(pickSrcset("https://example.org/i.jpg?w=1,h=2 1x")).toBe(
+            "https://example.org/i.jpg?w=1,h=2"
+        )
+    })
+
+    it("reads a plain address", () => {
+        expect(pickSrcset(" /image.png ")).toBe("/image.png")
+        expect(pickSrcset("")).toBeUndefined()
+    })
+})
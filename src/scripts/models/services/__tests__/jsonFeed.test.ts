@@ -0,0 +1,78 @@
+import { looksLikeJSONFeed, parseJSONFeed } from "../jsonFeed"
+
+const feed = {
+    version: "https://jsonfeed.org/version/1.1",
+    title: "My Podcast",
+    home_page_url: "https://example.org/",
+    icon: "https://example.org/cover.png",
+    authors: [{ name: "Feed Author" }],
+    items: [
+        {
+            id: 1,
+            url: "https://example.org/1",
+            title: "Episode 1",
+            content_html: "<p>Hello <b>world</b></p>",
+            summary: "Hello world",
+            image: "https://example.org/1.png",
+            date_published: "2024-03-01T10:00:00+01:00",
+            authors: [{ name: "Ann" }, { name: "Bob" }],
+            tags: ["audio", ""],
+            attachments: [
+                { url: "/relative.mp3", mime_type: "audio/mpeg" },
+                { url: "https://example.org/1.mp3", mime_type: "audio/mpeg", size_in_bytes: 42 },
+            ],
+        },
+        {
+            id: "two",
+            external_url: "https://elsewhere.org/story",
+            content_text: "A short note <with> brackets.\n\nSecond line.",
+        },
+    ],
+}
+
+describe("parseJSONFeed", () => {
+    it("maps items to the rss-parser item shape", () => {
+        const output = parseJSONFeed(JSON.stringify(feed))
+        expect(output.title).toBe("My Podcast")
+        expect(output.itunes.image).toBe("https://example.org/cover.png")
+        const [first, second] = output.items
+        expect(first).toMatchObject({
+            title: "Episode 1",
+            link: "https://example.org/1",
+            guid: "1",
+            content: "<p>Hello <b>world</b></p>",
+            contentSnippet: "Hello world",
+            creator: "Ann, Bob",
+            categories: ["audio"],
+            image: "https://example.org/1.png",
+            isoDate: "2024-03-01T09:00:00.000Z",
+            enclosure: { url: "https://example.org/1.mp3", type: "audio/mpeg", length: 42 },
+        })
+        expect(second.link).toBe("https://elsewhere.org/story")
+        expect(second.content).toBe("<p>A short note &lt;with&gt; brackets.</p><p>Second line.</p>")
+        expect(second.title).toBe("A short note <with> brackets.\n\nSecond line.")
+        expect(second.creator).toBe("Feed Author")
+        expect(second.isoDate).toBeUndefined()
+    })
+
+    it("reads the version 1 author field", () => {
+        const v1 = {
+            version: "https://jsonfeed.org/version/1",
+            items: [{ id: "a", title: "A", author: { name: "Old" } }],
+        }
+        expect(parseJSONFeed(JSON.stringify(v1)).items[0].creator).toBe("Old")
+    })
+
+    it("rejects JSON that is not a feed", () => {
+        expect(() => parseJSONFeed('{"items": []}')).toThrow()
+        expect(() => parseJSONFeed("<rss/>")).toThrow()
+    })
+})
+
+describe("looksLikeJSONFeed", () => {
+    it("sniffs the content type, then the text", () => {
+        expect(looksLikeJSONFeed("application/feed+json; charset=utf-8", "")).toBe(true)
+        expect(looksLikeJSONFeed(null, '  {"version": ""}')).toBe(true)
+        expect(looksLikeJSONFeed("text/xml", '<?xml version="1.0"?><rss/>')).toBe(false)
+    })
+})
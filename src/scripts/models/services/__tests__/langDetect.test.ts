@@ -0,0 +1,66 @@
+import {
+    UNDETERMINED,
+    canonicalizeLanguageTag,
+    detectLanguage,
+    isSameLanguage,
+    resolveTranslation,
+} from "../langDetect"
+
+describe("detectLanguage", () => {
+    const samples: [string, string][] = [
+        ["zh", "今天的天气很好，我们一起去公园散步吧。"],
+        ["ja", "今日はとても良い天気なので、公園を散歩しましょう。"],
+        ["ko", "오늘은 날씨가 정말 좋아서 공원에서 산책했습니다."],
+        ["ru", "Сегодня очень хорошая погода, давайте погуляем в парке."],
+        ["en", "The weather is very nice today, so we went for a walk in the park."],
+        [
+            "de",
+            "Die Regierung hat am Montag neue Maßnahmen gegen die steigenden Energiepreise angekündigt.",
+        ],
+        ["fr", "Le temps est très beau aujourd'hui, nous allons nous promener dans le parc."],
+        ["es", "El tiempo es muy bueno hoy, así que vamos a pasear por el parque."],
+        ["vi", "Hôm nay thời tiết rất đẹp, chúng ta hãy đi dạo trong công viên."],
+    ]
+
+    it.each(samples)("detects %s", (lang, text) => {
+        expect(detectLanguage(text)).toBe(lang)
+    })
+
+    it("leaves short or empty text undetermined", () => {
+        expect(detectLanguage("")).toBe(UNDETERMINED)
+        expect(detectLanguage("iPhone 15")).toBe(UNDETERMINED)
+    })
+})
+
+describe("language tags", () => {
+    it("canonicalizes well-formed tags and rejects others", () => {
+        expect(canonicalizeLanguageTag("pt-br")).toBe("pt-BR")
+        expect(canonicalizeLanguageTag("not a tag")).toBeNull()
+    })
+
+    it("compares by primary language", () => {
+        expect(isSameLanguage("zh", "zh-TW")).toBe(true)
+        expect(isSameLanguage(UNDETERMINED, "en")).toBe(false)
+    })
+})
+
+describe("resolveTranslation", () => {
+    it("skips text already in the target for nonTargetOnly", () => {
+        expect(resolveTranslation("nonTargetOnly", "ja", "ja").shouldTranslate).toBe(false)
+        expect(resolveTranslation("nonTargetOnly", "ja", "en")).toEqual({
+            shouldTranslate: true,
+            targetLang: "ja",
+        })
+    })
+
+    it("flips to English or Chinese in auto mode", () => {
+        expect(resolveTranslation("auto", "zh-CN", "zh").targetLang).toBe("en")
+        expect(resolveTranslation("auto", "en", "en").targetLang).toBe("zh")
+        expect(resolveTranslation("auto", "de", "fr").targetLang).toBe("de")
+    })
+
+    it("keeps the legacy Chinese filters", () => {
+        expect(resolveTranslation("zhOnly", "en", "ja").shouldTranslate).toBe(false)
+        expect(resolveTranslation("nonZhOnly", "en", "ja").shouldTranslate).toBe(true)
+    })
+})
@@ -0,0 +1,94 @@
+import {
+    RelevanceSample,
+    feedbackOf,
+    mentions,
+    parseKeywords,
+    scoreItem,
+    textTerms,
+    trainModel,
+} from "../relevance"
+
+const DAY = 24 * 60 * 60 * 1000
+const NOW = 100 * DAY
+
+const sample = (
+    source: number,
+    title: string,
+    state: Partial<RelevanceSample> = {}
+): RelevanceSample => ({
+    source,
+    title,
+    date: new Date(NOW - DAY),
+    hasRead: false,
+    starred: false,
+    hidden: false,
+    ...state,
+})
+
+describe("textTerms", () => {
+    it("keeps words without stopwords and splits CJK runs into pairs", () => {
+        expect(textTerms("The Rust compiler, and C++ 2024!")).toEqual(["rust", "compiler", "c++"])
+        expect(textTerms("人工智能")).toEqual(["人工", "工智", "智能"])
+    })
+})
+
+describe("feedbackOf", () => {
+    it("rates hidden, starred, read and stale items", () => {
+        expect(feedbackOf(sample(1, "a", { hidden: true, starred: true }), NOW)).toBe(-2)
+        expect(feedbackOf(sample(1, "a", { starred: true }), NOW)).toBe(3)
+        expect(feedbackOf(sample(1, "a", { hasRead: true, readTime: 60 }), NOW)).toBe(2)
+        expect(feedbackOf(sample(1, "a", { hasRead: true, readTime: 3600 }), NOW)).toBe(3)
+        expect(feedbackOf(sample(1, "a", { date: new Date(NOW - 5 * DAY) }), NOW)).toBe(-0.5)
+        expect(feedbackOf(sample(1, "a"), NOW)).toBeNull()
+    })
+})
+
+describe("scoreItem", () => {
+    const history = [
+        sample(1, "Rust release notes", { starred: true }),
+        sample(1, "Rust async runtime", { hasRead: true, readTime: 120 }),
+        sample(2, "Celebrity gossip roundup", { hidden: true }),
+        sample(2, "More celebrity gossip", { date: new Date(NOW - 10 * DAY) }),
+    ]
+    const model = trainModel(history, NOW)
+
+    it("ranks items like the ones the reader liked higher", () => {
+        const liked = scoreItem(model, [], sample(1, "Rust compiler news"))
+        const disliked = scoreItem(model, [], sample(2, "Gossip of the week"))
+        expect(liked.score).toBeGreaterThan(0)
+        expect(disliked.score).toBeLessThan(0)
+        expect(liked.info.terms).toContain("rust")
+        expect(liked.info.source).toBeGreaterThan(0)
+    })
+
+    it("adds a bonus for each interest mentioned", () => {
+        const interests = [{ name: "Databases", keywords: ["postgres", "sqlite"] }]
+        const plain = scoreItem(model, [], sample(3, "Postgres 17 is out"))
+        const matched = scoreItem(model, interests, sample(3, "Postgres 17 is out"))
+        expect(matched.score - plain.score).toBe(2)
+        expect(matched.info.interests).toEqual(["Databases"])
+    })
+})
+
+describe("mentions", () => {
+    it("matches whole words only", () => {
+        expect(mentions("new rust release", "Rust")).toBe(true)
+        expect(mentions("trusted sources", "rust")).toBe(false)
+        expect(mentions("关于人工智能的报道", "人工智能")).toBe(true)
+        expect(mentions("anything", " ")).toBe(false)
+    })
+})
+
+describe("parseKeywords", () => {
+    it("reads a JSON array or a plain list, deduplicated", () => {
+        expect(parseKeywords('Sure: ["Postgres", "SQLite", "postgres"]')).toEqual([
+            "Postgres",
+            "SQLite",
+        ])
+        expect(parseKeywords("- query planner\n- indexes, WAL")).toEqual([
+            "query planner",
+            "indexes",
+            "WAL",
+        ])
+    })
+})
@@ -0,0 +1,44 @@
+import { sentencesOf, splitSentences } from "../speech"
+
+const texts = (text: string) => splitSentences(text).map(([start, end]) => text.slice(start, end))
+
+describe("splitSentences", () => {
+    it("splits at sentence ends and keeps closing quotes", () => {
+        expect(texts('  It rained. Was it cold?! "Yes," she said. "Very." ')).toEqual([
+            "It rained.",
+            "Was it cold?!",
+            '"Yes," she said.',
+            '"Very."',
+        ])
+    })
+
+    it("does not split after abbreviations, decimals or lowercase continuations", () => {
+        expect(texts("Dr. Smith paid 3.5 dollars, e.g. for coffee. Then he left.")).toEqual([
+            "Dr. Smith paid 3.5 dollars, e.g. for coffee.",
+            "Then he left.",
+        ])
+    })
+
+    it("splits CJK text without spaces", () => {
+        expect(texts("今天下雨了。“真冷！”他说。")).toEqual(["今天下雨了。", "“真冷！”", "他说。"])
+    })
+
+    it("cuts overlong sentences at a comma", () => {
+        const text = `${"word ".repeat(50)}, ${"more ".repeat(40)}end.`
+        const parts = texts(text)
+        expect(parts.length).toBe(2)
+        expect(parts[0].endsWith(",")).toBe(true)
+        expect(parts.every(part => part.length <= 300)).toBe(true)
+    })
+})
+
+describe("sentencesOf", () => {
+    it("keeps block offsets and skips sentences without words", () => {
+        const blocks = ["First one.\n  Second\n one.", "— ", "Third."]
+        expect(sentencesOf(blocks)).toEqual([
+            { block: 0, start: 0, end: 10, text: "First one." },
+            { block: 0, start: 13, end: 25, text: "Second one." },
+            { block: 2, start: 0, end: 6, text: "Third." },
+        ])
+    })
+})
@@ -1,157 +1,387 @@
+import { legacyCacheKey } from "./aiCacheKey"
+
 // eslint-disable-next-line @typescript-eslint/no-require-imports
 const fs = require("fs")
 // eslint-disable-next-line @typescript-eslint/no-require-imports
 const path = require("path")
 
-let cacheFilePath: string | null = null
-let cacheData: Map<string, AICacheEntry> = new Map()
+/**
+ * AI cache store, running in the main process.
+ *
+ * Entries are keyed by content rather than by item (see aiCacheKey.ts), so
+ * the same article from two sources shares its output, and a model or prompt
+ * change yields a new key instead of stale output.
+ *
+ * Entries live in an append-only log (`ai-cache.log`), one JSON record per
+ * line: `{"k": key, "v": entry}` for a write, `{"k": key, "d": true}` for a
+ * deletion. Only an index of byte offsets is kept in memory; values are
+ * read back from disk on demand. Every update appends a single line, and the
+ * log is rewritten with just the live records once superseded ones make up
+ * more than half of it.
+ *
+ * Older versions kept entries by item id, first in a JSON map
+ * (`ai-cache.json`), then in the log. Those are moved to keys made from the
+ * item id (see legacyCacheKey) on start, and re-keyed by content when the
+ * article view opens their item.
+ */
+
+export type AICacheKind =
+    | "summary"
+    | "translation"
+    | "titleTranslation"
+    | "chat"
+    | "digest"
+    | "tags"
 
 export interface AICacheEntry {
+    key: string
+    kind: AICacheKind
+    // Summary text, translated title, JSON-encoded TranslationItem[] or
+    // JSON-encoded tags.
+    value: string
+    // Model that produced the value.
+    model: string
+    // Title of the article the value was produced for, for the cache viewer.
+    title?: string
+    createdAt: number
+}
+
+/** An entry as listed in the cache viewer: everything but the value. */
+export type AICacheListing = Omit<AICacheEntry, "value"> & { size: number }
+
+export interface AICacheLimits {
+    maxEntries: number
+    maxBytes: number
+}
+
+/** An item's entry in the cache of older versions. */
+interface LegacyEntry {
     itemId: string
     summary?: string
     translation?: string
     titleTranslation?: string
+    createdAt?: number
+}
+
+interface IndexEntry {
+    offset: number
+    length: number
     createdAt: number
 }
 
+const LOG_FILE = "ai-cache.log"
+// Item-id keyed JSON map used before the log existed.
+const LEGACY_FILE = "ai-cache.json"
+const LEGACY_KINDS = ["summary", "translation", "titleTranslation"] as const
+const NEWLINE = 0x0a
+// Logs smaller than this are never compacted; rewriting them buys nothing.
+const COMPACT_MIN_BYTES = 1024 * 1024
+
+export const DEFAULT_CACHE_LIMITS: AICacheLimits = {
+    maxEntries: 20000,
+    maxBytes: 100 * 1024 * 1024,
+}
+
+let logPath: string | null = null
+let fd: number | null = null
+// Size of the log file, i.e. the offset of the next append.
+let logSize = 0
+// Bytes of the log taken by records the index still points at.
+let liveBytes = 0
+// Map order doubles as recency order: reads and writes move an entry to the
+// end, so eviction takes from the front.
+let index = new Map<string, IndexEntry>()
+let limits: AICacheLimits = { ...DEFAULT_CACHE_LIMITS }
+
 // Initialize cache with path from main process
 export function initDB(userDataPath: string): void {
-    cacheFilePath = path.join(userDataPath, "ai-cache.json")
-    loadCache()
+    closeDB()
+    logPath = path.join(userDataPath, LOG_FILE)
+    try {
+        fd = fs.openSync(logPath, "a+")
+        const legacy = loadLog()
+        const legacyPath = path.join(userDataPath, LEGACY_FILE)
+        const legacyFile = fs.existsSync(legacyPath) ? readLegacyFile(legacyPath) : null
+        if (legacy.length > 0 || legacyFile) {
+            migrateLegacy(legacy.concat(legacyFile || []))
+            // Drops the item-id keyed records, so that they are not migrated
+            // again.
+            compact()
+            if (legacyFile) fs.unlinkSync(legacyPath)
+        }
+        enforceLimits()
+        maybeCompact()
+    } catch (error) {
+        console.error("Failed to open cache:", error)
+        if (fd !== null) fs.closeSync(fd)
+        fd = null
+        index = new Map()
+    }
 }
 
-function loadCache(): void {
-    if (!cacheFilePath) return
-
+/** The JSON map of older versions, or null when it cannot be read. */
+function readLegacyFile(legacyPath: string): LegacyEntry[] | null {
     try {
-        if (fs.existsSync(cacheFilePath)) {
-            const data = fs.readFileSync(cacheFilePath, "utf8")
-            const parsed = JSON.parse(data)
-            // Validate shape: only accept entries that look like AICacheEntry.
-            const valid = new Map<string, AICacheEntry>()
-            for (const [key, value] of Object.entries(parsed)) {
-                if (value && typeof value === "object" && "itemId" in value) {
-                    const entry = value as AICacheEntry
-                    entry.createdAt = typeof entry.createdAt === "number" ? entry.createdAt : Date.now()
-                    valid.set(key, entry)
+        const parsed = JSON.parse(fs.readFileSync(legacyPath, "utf8"))
+        return Object.values(parsed).filter(
+            (value): value is LegacyEntry =>
+                Boolean(value) && typeof value === "object" && "itemId" in value
+        )
+    } catch (error) {
+        // Leave the JSON in place; the next start will try again.
+        console.warn("Failed to read legacy cache:", error)
+        return null
+    }
+}
+
+/**
+ * Write the entries of older versions under their legacy keys, oldest first
+ * so that they start out in recency order. Keys already present are kept.
+ */
+function migrateLegacy(legacy: LegacyEntry[]): void {
+    const entries: AICacheEntry[] = []
+    for (const item of legacy) {
+        const createdAt = typeof item.createdAt === "number" ? item.createdAt : Date.now()
+        for (const kind of LEGACY_KINDS) {
+            const value = item[kind]
+            if (typeof value !== "string" || !value) continue
+            const key = legacyCacheKey(String(item.itemId), kind)
+            // The model is unknown; it is filled in when the entry is re-keyed.
+            if (!index.has(key)) entries.push({ key, kind, value, model: "", createdAt })
+        }
+    }
+    entries.sort((a, b) => a.createdAt - b.createdAt)
+    for (const entry of entries) writeEntry(entry)
+}
+
+/** Read the index from the log, returning the item-id keyed records in it. */
+function loadLog(): LegacyEntry[] {
+    const buffer: Buffer = fs.readFileSync(logPath)
+    index = new Map()
+    liveBytes = 0
+    const legacy = new Map<string, LegacyEntry>()
+    let start = 0
+    while (start < buffer.length) {
+        const end = buffer.indexOf(NEWLINE, start)
+        if (end === -1) {
+            // A write cut short by a crash; drop the partial record.
+            fs.ftruncateSync(fd, start)
+            break
+        }
+        try {
+            const record = JSON.parse(buffer.toString("utf8", start, end))
+            if (typeof record.k === "string") {
+                dropFromIndex(record.k)
+                legacy.delete(record.k)
+                if (!record.d && record.v && record.v.kind) {
+                    const length = end + 1 - start
+                    index.set(record.k, { offset: start, length, createdAt: record.v.createdAt })
+                    liveBytes += length
+                } else if (!record.d && record.v && record.v.itemId !== undefined) {
+                    // Item-id keyed records from before content keys have
+                    // no kind.
+                    legacy.set(record.k, record.v)
                 }
             }
-            cacheData = valid
+        } catch {
+            // Unparseable line: skip it, compaction will discard it.
         }
-    } catch (error) {
-        console.warn("Failed to load cache:", error)
-        cacheData = new Map()
+        start = end + 1
     }
+    logSize = start
+    return Array.from(legacy.values())
 }
 
-function saveCache(): void {
-    if (!cacheFilePath) return
+function dropFromIndex(key: string): void {
+    const existing = index.get(key)
+    if (existing) {
+        liveBytes -= existing.length
+        index.delete(key)
+    }
+}
 
+function append(record: object): { offset: number; length: number } {
+    const buffer = Buffer.from(JSON.stringify(record) + "\n", "utf8")
+    fs.writeSync(fd, buffer, 0, buffer.length)
+    const offset = logSize
+    logSize += buffer.length
+    return { offset, length: buffer.length }
+}
+
+function readEntry(meta: IndexEntry): AICacheEntry {
+    const buffer = Buffer.alloc(meta.length)
+    fs.readSync(fd, buffer, 0, meta.length, meta.offset)
+    return JSON.parse(buffer.toString("utf8")).v as AICacheEntry
+}
+
+function writeEntry(entry: AICacheEntry): void {
+    const { offset, length } = append({ k: entry.key, v: entry })
+    dropFromIndex(entry.key)
+    index.set(entry.key, { offset, length, createdAt: entry.createdAt })
+    liveBytes += length
+}
+
+function putEntry(entry: AICacheEntry): void {
+    writeEntry(entry)
+    enforceLimits()
+    maybeCompact()
+}
+
+function removeEntry(key: string): void {
+    if (!index.has(key)) return
+    append({ k: key, d: true })
+    dropFromIndex(key)
+}
+
+function enforceLimits(): void {
+    while (index.size > 0 && (index.size > limits.maxEntries || liveBytes > limits.maxBytes)) {
+        removeEntry(index.keys().next().value)
+    }
+}
+
+function maybeCompact(): void {
+    if (logSize >= COMPACT_MIN_BYTES && logSize - liveBytes > liveBytes) compact()
+}
+
+/** Rewrite the log with only the live records, in recency order. */
+function compact(): void {
+    const tmpPath = `${logPath}.tmp`
+    const tmpFd = fs.openSync(tmpPath, "w")
+    const compacted = new Map<string, IndexEntry>()
+    let offset = 0
     try {
-        const obj = Object.fromEntries(cacheData)
-        fs.writeFileSync(cacheFilePath, JSON.stringify(obj, null, 2), "utf8")
-    } catch (error) {
-        console.error("Failed to save cache:", error)
+        for (const [key, meta] of index) {
+            const buffer = Buffer.alloc(meta.length)
+            fs.readSync(fd, buffer, 0, meta.length, meta.offset)
+            fs.writeSync(tmpFd, buffer, 0, meta.length)
+            compacted.set(key, { ...meta, offset })
+            offset += meta.length
+        }
+        fs.fsyncSync(tmpFd)
+    } finally {
+        fs.closeSync(tmpFd)
     }
+    // Windows refuses to replace a file that is still open.
+    fs.closeSync(fd)
+    try {
+        fs.renameSync(tmpPath, logPath)
+    } finally {
+        // Reopens the old log if the rename failed; the index still matches it.
+        fd = fs.openSync(logPath, "a+")
+    }
+    index = compacted
+    logSize = offset
+    liveBytes = offset
 }
 
-function getOrCreateEntry(itemId: string): AICacheEntry {
-    const existing = cacheData.get(itemId)
-    if (existing) return existing
-    // createdAt records when the entry was FIRST created; later partial
-    // updates (summary/translation/title) must not reset it, otherwise the
-    // TTL-based cleanup in clearOldCache would never expire re-saved entries.
-    const entry: AICacheEntry = { itemId, createdAt: Date.now() }
-    cacheData.set(itemId, entry)
-    return entry
+/** Apply new caps, evicting least recently used entries right away if needed. */
+export function setCacheLimits(next: Partial<AICacheLimits>): void {
+    limits = { ...limits, ...next }
+    if (fd === null) return
+    try {
+        enforceLimits()
+        maybeCompact()
+    } catch (error) {
+        console.error("Failed to apply cache limits:", error)
+    }
 }
 
-export function saveSummary(itemId: string, summary: string): void {
-    if (!cacheFilePath) return
+export function saveEntry(entry: Omit<AICacheEntry, "createdAt">): void {
+    if (fd === null) return
 
     try {
-        const entry = getOrCreateEntry(itemId)
-        entry.summary = summary
-        saveCache()
+        putEntry({ ...entry, createdAt: Date.now() })
     } catch (error) {
-        console.error("Failed to save summary:", error)
+        console.error("Failed to save cache entry:", error)
     }
 }
 
-export function saveTranslation(itemId: string, translation: string): void {
-    if (!cacheFilePath) return
+export function getCache(key: string): AICacheEntry | null {
+    if (fd === null) return null
 
     try {
-        const entry = getOrCreateEntry(itemId)
-        entry.translation = translation
-        saveCache()
+        const meta = index.get(key)
+        if (!meta) return null
+        index.delete(key)
+        index.set(key, meta)
+        return readEntry(meta)
     } catch (error) {
-        console.error("Failed to save translation:", error)
+        console.error("Failed to get cache:", error)
+        return null
     }
 }
 
-export function saveTitleTranslation(itemId: string, titleTranslation: string): void {
-    if (!cacheFilePath) return
+export function deleteCache(key: string): void {
+    if (fd === null) return
 
     try {
-        const entry = getOrCreateEntry(itemId)
-        entry.titleTranslation = titleTranslation
-        saveCache()
+        removeEntry(key)
+        maybeCompact()
     } catch (error) {
-        console.error("Failed to save title translation:", error)
+        console.error("Failed to delete cache entry:", error)
     }
 }
 
-export function getCache(itemId: string): AICacheEntry | null {
-    if (!cacheFilePath) return null
+/** The most recently used entries, newest first, without their values. */
+export function listCache(limit: number = 200): AICacheListing[] {
+    if (fd === null) return []
 
+    const listing: AICacheListing[] = []
     try {
-        return cacheData.get(itemId) || null
+        const metas = [...index.values()]
+        for (let i = metas.length - 1; i >= 0 && listing.length < limit; i--) {
+            const { value, ...rest } = readEntry(metas[i])
+            listing.push({ ...rest, size: value.length })
+        }
     } catch (error) {
-        console.error("Failed to get cache:", error)
-        return null
+        console.error("Failed to list cache:", error)
     }
+    return listing
 }
 
 /**
- * Total size of the AI cache file on disk, in bytes. Returns 0 before the
- * cache is initialized or if the file does not exist yet.
+ * Total size of the AI cache log on disk, in bytes, including superseded
+ * records not yet compacted away. Returns 0 before the cache is initialized.
  */
 export function getCacheSize(): number {
-    if (!cacheFilePath) return 0
-    try {
-        if (!fs.existsSync(cacheFilePath)) return 0
-        return fs.statSync(cacheFilePath).size
-    } catch (error) {
-        console.error("Failed to get cache size:", error)
-        return 0
-    }
+    return fd === null ? 0 : logSize
 }
 
 /**
- * Number of cached entries (articles with summary/translation cached).
+ * Number of cached entries (summaries, translations and translated titles).
  */
 export function getCacheCount(): number {
-    return cacheData.size
+    return index.size
 }
 
 export function clearOldCache(daysToKeep: number = 30): void {
-    if (!cacheFilePath) return
+    if (fd === null) return
 
     try {
+        if (daysToKeep <= 0) {
+            fs.ftruncateSync(fd, 0)
+            index = new Map()
+            logSize = 0
+            liveBytes = 0
+            return
+        }
         const cutoffTime = Date.now() - daysToKeep * 24 * 60 * 60 * 1000
-        for (const [key, entry] of cacheData.entries()) {
-            if (entry.createdAt < cutoffTime) {
-                cacheData.delete(key)
-            }
+        for (const [key, meta] of [...index]) {
+            if (meta.createdAt < cutoffTime) removeEntry(key)
         }
-        saveCache()
+        maybeCompact()
     } catch (error) {
         console.error("Failed to clear old cache:", error)
     }
 }
 
 export function closeDB(): void {
-    // JSON文件方式不需要关闭
-    saveCache()
+    if (fd === null) return
+    try {
+        maybeCompact()
+    } catch (error) {
+        console.error("Failed to compact cache:", error)
+    }
+    fs.closeSync(fd)
+    fd = null
 }
@@ -0,0 +1,137 @@
+/**
+ * Cache keys for AI output.
+ *
+ * A key combines what the output was produced from: the article text, the
+ * model, and the prompt (custom or built-in, plus the target language and
+ * the glossary). Identical articles therefore share cached output across
+ * sources and re-fetches, and changing the model or prompt misses the cache
+ * instead of serving output made under the old settings.
+ */
+
+import md5 from "js-md5"
+import type { AIConfigs } from "../../../schema-types"
+import type { AICacheKind } from "./aiCache"
+import { glossaryCacheText } from "./aiGlossary"
+import { detectLanguage, resolveSummaryLanguage, resolveTranslation } from "./langDetect"
+
+// Bump when a built-in prompt changes enough that output made with the old
+// one should no longer be served.
+export const PROMPT_VERSION = 1
+
+/** Plain text of an article body: tags dropped, whitespace collapsed. */
+export function normalizeArticleText(text: string): string {
+    return (text || "")
+        .replace(/<(script|style)\b[^>]*>[\s\S]*?<\/\1>/gi, " ")
+        .replace(/<[^>]*>/g, " ")
+        .replace(/&nbsp;/gi, " ")
+        .normalize("NFC")
+        .replace(/\s+/g, " ")
+        .trim()
+}
+
+/**
+ * Hash identifying an article by its content. Items without a body fall
+ * back to their link, so that two different articles that merely share a
+ * title do not collide.
+ */
+export function articleHash(item: { title: string; content: string; link?: string }): string {
+    const body = normalizeArticleText(item.content)
+    const title = normalizeArticleText(item.title)
+    return md5(body ? `${title}\n${body}` : `${title}\n${item.link || ""}`)
+}
+
+export function aiCacheKey(
+    kind: AICacheKind,
+    textHash: string,
+    model: string,
+    prompt: string,
+    targetLang: string
+): string {
+    const promptHash = md5(`${PROMPT_VERSION}\n${targetLang}\n${prompt}`).slice(0, 12)
+    return `${kind}:${textHash}:${model}:${promptHash}`
+}
+
+/**
+ * Key of output cached by older versions, which kept it by item rather than
+ * by content. The article view looks it up when the content key misses and
+ * moves the entry over.
+ */
+export function legacyCacheKey(itemId: string, kind: AICacheKind): string {
+    return `legacy:${itemId}:${kind}`
+}
+
+/**
+ * Key of the conversation about an article. Unlike generated output it is
+ * kept across model and prompt changes: the history is the user's own.
+ */
+export function chatCacheKey(item: { title: string; content: string; link?: string }): string {
+    return `chat:${articleHash(item)}`
+}
+
+export type ArticleCacheKeys = {
+    [kind in Exclude<AICacheKind, "chat" | "digest" | "tags">]: { key: string; model: string }
+}
+
+/**
+ * Cache key and model for each kind of output of an article, given the
+ * configs resolved for the summary and translation tasks. The language is
+ * detected from the feed content rather than a rendered page, so that the
+ * article view and the background queue agree on the keys.
+ */
+export function articleCacheKeys(
+    item: { title: string; content: string; link?: string },
+    summary: AIConfigs,
+    translation: AIConfigs
+): ArticleCacheKeys {
+    const textHash = articleHash(item)
+    const detected = detectLanguage(normalizeArticleText(`${item.title}\n${item.content}`))
+    const summaryLang = resolveSummaryLanguage(
+        summary.translateWhen,
+        summary.translateTarget,
+        detected
+    )
+    const { targetLang } = resolveTranslation(
+        translation.translateWhen,
+        translation.translateTarget,
+        detected
+    )
+    // The glossary is part of the translation prompt; keys made without one
+    // stay as they were.
+    const glossary = glossaryCacheText(translation.glossary, targetLang)
+    const translationPrompt =
+        (translation.prompts?.translation || "") + (glossary ? `\nGlossary:\n${glossary}` : "")
+    const keyed = (kind: AICacheKind, configs: AIConfigs, prompt: string, lang: string) => ({
+        key: aiCacheKey(kind, textHash, configs.defaultModel, prompt, lang),
+        model: configs.defaultModel,
+    })
+    return {
+        summary: keyed("summary", summary, summary.prompts?.summary || "", summaryLang),
+        translation: keyed("translation", translation, translationPrompt, targetLang),
+        titleTranslation: keyed("titleTranslation", translation, translationPrompt, targetLang),
+    }
+}
+
+/**
+ * Key of a digest topic summary, made from the articles it covers in order
+ * and the topic title, which is part of the prompt.
+ */
+export function digestTopicCacheKey(
+    items: { title: string; content: string; link?: string }[],
+    topic: string,
+    model: string,
+    lang: string
+): string {
+    return aiCacheKey("digest", md5(items.map(articleHash).join("\n")), model, topic, lang)
+}
+
+/**
+ * Key of the tags chosen for an article. The vocabulary is part of the
+ * prompt, so editing it tags articles afresh.
+ */
+export function tagsCacheKey(
+    item: { title: string; content: string; link?: string },
+    vocabulary: string[],
+    model: string
+): string {
+    return aiCacheKey("tags", articleHash(item), model, vocabulary.join("\n"), "")
+}
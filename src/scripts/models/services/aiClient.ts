@@ -1,9 +1,19 @@
 /**
- * OpenAI-compatible API client for AI features
- * Supports custom baseUrl and automatic model discovery
+ * Chat-completion client for AI features
+ * Supports OpenAI-compatible endpoints, Anthropic, Ollama and Azure OpenAI
+ * (see aiProviders.ts), custom baseUrl and automatic model discovery
  */
 
+import { AIGlossaryEntry, AIProvider } from "../../../schema-types"
+import { getProviderAdapter } from "./aiProviders"
+import { detectLanguage, languageName, primaryLanguage } from "./langDetect"
+import type { AIUsageRecord, TokenUsage } from "./aiUsage"
+import { PromptVariables, renderPrompt, usesVariable } from "./aiPrompts"
+import { glossaryFor, glossaryInstructions, glossaryViolations } from "./aiGlossary"
+
 export interface AiConfig {
+    provider?: AIProvider
+    apiVersion?: string
     baseUrl: string
     apiKey: string
     defaultModel: string
@@ -14,6 +24,16 @@ export interface AiConfig {
         summary?: string
         translation?: string
     }
+    // The article's {{title}}, {{source}} and {{date}} for custom prompts.
+    promptVariables?: PromptVariables
+    // Terms translations must follow; see aiGlossary.ts.
+    glossary?: AIGlossaryEntry[]
+    // What the calls made with this config are for, for usage accounting.
+    usage?: {
+        task: string
+        sourceId?: number
+        sourceName?: string
+    }
 }
 
 export interface ChatMessage {
@@ -28,13 +48,37 @@ export interface ChatCompletionRequest {
     max_tokens?: number
 }
 
-interface ModelInfo {
-    id: string
-    name?: string
+export type UsageReporter = (record: AIUsageRecord) => void
+
+let usageReporter: UsageReporter | null = null
+
+/** Install the sink that each call's token usage is reported to. */
+export function setUsageReporter(reporter: UsageReporter | null): void {
+    usageReporter = reporter
 }
 
-interface ModelsResponse {
-    data?: ModelInfo[]
+function reportUsage(
+    config: AiConfig,
+    request: ChatCompletionRequest,
+    usage: Partial<TokenUsage> | null
+): void {
+    if (!usageReporter || !usage) return
+    const promptTokens = usage.promptTokens || 0
+    const completionTokens = usage.completionTokens || 0
+    if (promptTokens === 0 && completionTokens === 0) return
+    try {
+        usageReporter({
+            time: Date.now(),
+            model: request.model || config.defaultModel,
+            task: config.usage?.task || "other",
+            sourceId: config.usage?.sourceId,
+            sourceName: config.usage?.sourceName,
+            promptTokens,
+            completionTokens,
+        })
+    } catch (error) {
+        console.warn("Failed to report token usage:", error)
+    }
 }
 
 /**
@@ -44,13 +88,10 @@ interface ModelsResponse {
  */
 export async function listModels(config: AiConfig, signal?: AbortSignal): Promise<string[]> {
     try {
-        const url = `${config.baseUrl}/models`
-        const response = await fetch(url, {
+        const adapter = getProviderAdapter(config.provider)
+        const response = await fetch(adapter.modelsUrl(config), {
             method: "GET",
-            headers: {
-                Authorization: `Bearer ${config.apiKey}`,
-                "Content-Type": "application/json",
-            },
+            headers: adapter.headers(config),
             signal,
         })
 
@@ -63,27 +104,21 @@ export async function listModels(config: AiConfig, signal?: AbortSignal): Promis
         // JSON parse failure, and give a friendly error instead of an opaque
         // "Unexpected token '<'".
         const raw = await response.text()
-        let data: ModelsResponse | ModelInfo[]
+        let data: unknown
         try {
             data = JSON.parse(raw)
         } catch {
             const snippet = raw.slice(0, 60).replace(/\s+/g, " ")
+            const hint =
+                !config.provider || config.provider === AIProvider.OpenAI
+                    ? " It should be an OpenAI-compatible endpoint ending with /v1."
+                    : ""
             throw new Error(
-                `The endpoint did not return JSON (got "${snippet}…"). Is the API base URL correct? It should be an OpenAI-compatible endpoint ending with /v1.`
+                `The endpoint did not return JSON (got "${snippet}…"). Is the API base URL correct?${hint}`
             )
         }
 
-        // Support OpenAI format: { data: [{ id: "model-name" }] }
-        if ("data" in data && data.data && Array.isArray(data.data)) {
-            return data.data.map(m => m.id).filter(Boolean)
-        }
-
-        // Fallback for other formats
-        if (Array.isArray(data)) {
-            return data.map(m => m.id || m.name).filter((id): id is string => Boolean(id))
-        }
-
-        return []
+        return adapter.parseModels(data)
     } catch (error) {
         console.error("Error listing models:", error)
         throw error
@@ -102,20 +137,117 @@ export async function chatCompletion(
     signal?: AbortSignal
 ): Promise<string> {
     try {
-        const url = `${config.baseUrl}/chat/completions`
-        const body = {
-            model: request.model || config.defaultModel,
-            messages: request.messages,
-            temperature: request.temperature ?? 0.7,
-            max_tokens: request.max_tokens ?? 2000,
-            stream: false,
+        const adapter = getProviderAdapter(config.provider)
+        const body = adapter.chatBody(config, request, false)
+
+        const response = await fetch(adapter.chatUrl(config), {
+            method: "POST",
+            headers: adapter.headers(config),
+            body: JSON.stringify(body),
+            signal,
+        })
+
+        if (!response.ok) {
+            const errorText = await response.text()
+            throw new Error(`Chat completion failed: ${response.status} ${errorText}`)
+        }
+
+        const data = await response.json()
+        const text = adapter.parseChat(data)
+        if (text !== null) {
+            reportUsage(config, request, adapter.parseUsage(data))
+            return text
         }
 
-        const response = await fetch(url, {
+        throw new Error("Invalid response format from AI API")
+    } catch (error) {
+        console.error("Error in chat completion:", error)
+        throw error
+    }
+}
+
+/**
+ * Called with each streamed delta and the text accumulated so far.
+ */
+export type StreamProgressHandler = (delta: string, accumulated: string) => void
+
+/**
+ * Split an SSE byte stream into `data:` payloads. Events are separated by a
+ * blank line; comment lines (":") and other fields (event:/id:/retry:) are
+ * ignored. A chunk boundary may fall anywhere, so the unterminated tail is
+ * kept in `buffer` until the next chunk (or the final flush) completes it.
+ */
+function createSSEParser(onData: (data: string) => void) {
+    let buffer = ""
+    const flushEvent = (raw: string) => {
+        const dataLines: string[] = []
+        for (const line of raw.split(/\r?\n/)) {
+            if (!line.startsWith("data:")) continue
+            dataLines.push(line.slice(5).replace(/^ /, ""))
+        }
+        if (dataLines.length > 0) onData(dataLines.join("\n"))
+    }
+    return {
+        push(chunk: string) {
+            buffer += chunk
+            const events = buffer.split(/\r?\n\r?\n/)
+            buffer = events.pop() ?? ""
+            for (const e of events) flushEvent(e)
+        },
+        end() {
+            if (buffer.trim()) flushEvent(buffer)
+            buffer = ""
+        },
+    }
+}
+
+/**
+ * Same contract as createSSEParser for newline-delimited JSON streams
+ * (Ollama): every complete line is one payload.
+ */
+function createNDJSONParser(onData: (data: string) => void) {
+    let buffer = ""
+    return {
+        push(chunk: string) {
+            buffer += chunk
+            const lines = buffer.split(/\r?\n/)
+            buffer = lines.pop() ?? ""
+            for (const line of lines) if (line.trim()) onData(line)
+        },
+        end() {
+            if (buffer.trim()) onData(buffer)
+            buffer = ""
+        },
+    }
+}
+
+/**
+ * Send a chat completion request with `stream: true` and consume the
+ * response incrementally. `onProgress` fires for every non-empty delta; the
+ * promise resolves with the full text once the provider signals completion
+ * (`[DONE]`, `message_stop`, `done: true`) or the stream ends. Aborting the
+ * signal cancels the underlying fetch/reader and rejects with an AbortError,
+ * same as chatCompletion.
+ *
+ * Servers that ignore `stream` and answer with a plain JSON body are handled
+ * too: the whole message is reported as a single delta.
+ */
+export async function chatCompletionStream(
+    config: AiConfig,
+    request: ChatCompletionRequest,
+    onProgress?: StreamProgressHandler,
+    signal?: AbortSignal
+): Promise<string> {
+    try {
+        const adapter = getProviderAdapter(config.provider)
+        const body = adapter.chatBody(config, request, true)
+
+        const response = await fetch(adapter.chatUrl(config), {
             method: "POST",
             headers: {
-                Authorization: `Bearer ${config.apiKey}`,
-                "Content-Type": "application/json",
+                ...adapter.headers(config),
+                Accept:
+                    adapter.streamFormat === "sse" ? "text/event-stream" : "application/x-ndjson",
             },
             body: JSON.stringify(body),
             signal,
@@ -126,16 +258,72 @@ export async function chatCompletion(
             throw new Error(`Chat completion failed: ${response.status} ${errorText}`)
         }
 
-        const data = await response.json()
+        const contentType = response.headers?.get?.("content-type") || ""
+        if (!response.body || contentType.includes("application/json")) {
+            const data = await response.json()
+            const text = adapter.parseChat(data)
+            if (typeof text !== "string") {
+                throw new Error("Invalid response format from AI API")
+            }
+            reportUsage(config, request, adapter.parseUsage(data))
+            if (text && onProgress) onProgress(text, text)
+            return text
+        }
 
-        // Extract content from OpenAI response format
-        if (data.choices && data.choices.length > 0) {
-            return data.choices[0].message?.content || ""
+        let accumulated = ""
+        let done = false
+        const usage: Partial<TokenUsage> = {}
+        const onData = (data: string) => {
+            if (done) return
+            if (data.trim() === "[DONE]") {
+                done = true
+                return
+            }
+            let parsed: unknown
+            try {
+                parsed = JSON.parse(data)
+            } catch {
+                // Keep-alive payloads or vendor extensions that are not JSON.
+                return
+            }
+            const chunk = adapter.parseStreamChunk(parsed)
+            if (chunk.error) {
+                throw new Error(`Chat completion failed: ${chunk.error}`)
+            }
+            if (chunk.usage) Object.assign(usage, chunk.usage)
+            if (chunk.delta) {
+                accumulated += chunk.delta
+                if (onProgress) onProgress(chunk.delta, accumulated)
+            }
+            if (chunk.done) done = true
         }
+        const parser =
+            adapter.streamFormat === "sse" ? createSSEParser(onData) : createNDJSONParser(onData)
 
-        throw new Error("Invalid response format from AI API")
+        const reader = response.body.getReader()
+        const decoder = new TextDecoder()
+        try {
+            while (!done) {
+                const { value, done: streamDone } = await reader.read()
+                if (streamDone) break
+                parser.push(decoder.decode(value, { stream: true }))
+            }
+            if (!done) {
+                parser.push(decoder.decode())
+                parser.end()
+            }
+        } finally {
+            // Release the connection early on [DONE] or on an error event;
+            // a no-op when the stream already ended on its own.
+            reader.cancel().catch(() => {
+                /* stream already closed */
+            })
+        }
+
+        reportUsage(config, request, usage)
+        return accumulated
     } catch (error) {
-        console.error("Error in chat completion:", error)
+        console.error("Error in streaming chat completion:", error)
         throw error
     }
 }
@@ -157,87 +345,406 @@ function capContentForSummary(content: string, maxChars = 12000): string {
     )
 }
 
+/**
+ * Messages for a custom prompt, with its variables filled in. A prompt that
+ * places {{content}} itself is sent alone; any other is the system prompt,
+ * followed by the content.
+ */
+function customPromptMessages(
+    prompt: string,
+    config: AiConfig,
+    content: string,
+    options: { targetLang: string; label?: string }
+): ChatMessage[] {
+    const rendered = renderPrompt(prompt, {
+        ...config.promptVariables,
+        targetLang: options.targetLang,
+        content,
+    })
+    if (usesVariable(prompt, "content")) return [{ role: "user", content: rendered }]
+    return [
+        { role: "system", content: rendered },
+        { role: "user", content: options.label ? `${options.label}:\n\n${content}` : content },
+    ]
+}
+
 /**
  * Generate a summary for an article
  * @param config AI configuration
  * @param content Article content (title + body)
+ * @param onProgress When given, the summary is streamed and this is called
+ *   with each partial result
  * @returns Summary text
  */
 export async function summarizeArticle(
     config: AiConfig,
     content: string,
     signal?: AbortSignal,
-    summaryLang?: "zh" | "en"
+    summaryLang?: string,
+    onProgress?: StreamProgressHandler
 ): Promise<string> {
     // Decide the summary language: an explicit summaryLang wins; otherwise
     // detect from the article content. This lets the summary follow the same
     // translateTarget / translateWhen setting the user configured for
     // translations, instead of always matching the article's own language.
-    const contentIsZh = /[\u4e00-\u9fa5]/.test(content)
-    const wantZh = summaryLang ? summaryLang === "zh" : contentIsZh
-    const defaultPrompt = wantZh
+    const contentIsZh = detectLanguage(content) === "zh"
+    const summaryBase = summaryLang ? primaryLanguage(summaryLang) : ""
+    const wantZh = summaryLang ? summaryBase === "zh" : contentIsZh
+    let defaultPrompt = wantZh
         ? "用自然的口语帮读者快速了解这篇文章讲了什么，就像跟朋友随口讲一句“这篇文章其实说的是……”那样。一两句话讲清核心观点就好，不要分点、不要小标题、不要套话，不要编造原文没有的内容。"
         : "Tell the reader what this article is actually about in a natural, conversational way — like casually explaining to a friend 'so this piece is basically saying…'. One or two sentences capturing the core point is enough. No bullet points, no headings, no filler, and don't invent anything not in the text."
+    // Targets other than plain Chinese/English get an explicit output
+    // language on top of the matching instructions.
+    if (summaryLang && wantZh && !/^zh(-cn|-hans)?$/i.test(summaryLang)) {
+        defaultPrompt += `请用${languageName(summaryLang, "zh-CN")}撰写。`
+    } else if (summaryLang && !wantZh && summaryBase !== "en") {
+        defaultPrompt += ` Write the summary in ${languageName(summaryLang)}.`
+    }
 
-    const hasCustomPrompt = Boolean(config.prompts?.summary)
-    const systemPrompt = config.prompts?.summary || defaultPrompt
+    const customPrompt = config.prompts?.summary
+    const userContent = capContentForSummary(content)
 
     // The user wrapper must stay language-neutral. When a custom prompt is
     // set we must not bias the output language from the user wrapper — the
     // custom prompt is the sole authority on language/style. Use a plain
     // label that works in either language.
-    const userContent = capContentForSummary(content)
-    const userLabel = hasCustomPrompt ? "Content" : contentIsZh ? "文章内容" : "Article"
-    const userMessage = `${userLabel}:\n\n${userContent}`
+    const userLabel = customPrompt ? "Content" : contentIsZh ? "文章内容" : "Article"
+    const messages = customPrompt
+        ? customPromptMessages(customPrompt, config, userContent, {
+              targetLang: summaryLang ? languageName(summaryLang) : "the article's language",
+              label: userLabel,
+          })
+        : [
+              { role: "system" as const, content: defaultPrompt },
+              { role: "user" as const, content: `${userLabel}:\n\n${userContent}` },
+          ]
+
+    const request: ChatCompletionRequest = {
+        messages,
+        temperature: 0.5,
+        max_tokens: 500,
+    }
+    if (onProgress) return await chatCompletionStream(config, request, onProgress, signal)
+    return await chatCompletion(config, request, signal)
+}
 
-    return await chatCompletion(
-        config,
-        {
-            messages: [
-                { role: "system", content: systemPrompt },
-                { role: "user", content: userMessage },
-            ],
-            temperature: 0.5,
-            max_tokens: 500,
-        },
-        signal
-    )
+/**
+ * Answer a follow-up question about an article.
+ * @param config AI configuration
+ * @param content Article content (title + body) the answers are grounded in
+ * @param history The conversation so far, ending with the new question
+ * @param onProgress When given, the answer is streamed and this is called
+ *   with each partial result
+ * @returns Answer text
+ */
+export async function chatWithArticle(
+    config: AiConfig,
+    content: string,
+    history: ChatMessage[],
+    signal?: AbortSignal,
+    onProgress?: StreamProgressHandler
+): Promise<string> {
+    const systemPrompt = `You answer the reader's questions about the article below.
+Base every answer on the article text; quote or cite it where it helps.
+If the article does not cover something, say so instead of guessing.
+Answer in the language of the question, concisely.
+
+Article:
+
+${capContentForSummary(content)}`
+
+    const request: ChatCompletionRequest = {
+        messages: [{ role: "system", content: systemPrompt }, ...history],
+        temperature: 0.3,
+        max_tokens: 1000,
+    }
+    if (onProgress) return await chatCompletionStream(config, request, onProgress, signal)
+    return await chatCompletion(config, request, signal)
+}
+
+/**
+ * Embed texts with the configured embedding model (`config.defaultModel`).
+ * @param inputs Texts to embed, sent in one request
+ * @returns One vector per input, in input order
+ */
+export async function createEmbeddings(
+    config: AiConfig,
+    inputs: string[],
+    signal?: AbortSignal
+): Promise<number[][]> {
+    const adapter = getProviderAdapter(config.provider)
+    if (!adapter.embeddingsUrl) {
+        throw new Error("This provider does not offer an embeddings endpoint")
+    }
+    if (inputs.length === 0) return []
+    const response = await fetch(adapter.embeddingsUrl(config), {
+        method: "POST",
+        headers: adapter.headers(config),
+        body: JSON.stringify(adapter.embeddingsBody(config, inputs)),
+        signal,
+    })
+    if (!response.ok) {
+        const errorText = await response.text()
+        throw new Error(`Embedding failed: ${response.status} ${errorText}`)
+    }
+    const data = await response.json()
+    const vectors = adapter.parseEmbeddings(data)
+    if (!vectors || vectors.length !== inputs.length || vectors.some(v => !Array.isArray(v))) {
+        throw new Error("Invalid response format from embeddings API")
+    }
+    reportUsage(config, { messages: [] }, adapter.parseUsage(data))
+    return vectors
+}
+
+/**
+ * Speak a text with the configured speech model (`config.defaultModel`).
+ * @param voice The endpoint's voice id, e.g. "alloy"
+ * @returns The audio, at normal speed
+ */
+export async function synthesizeSpeech(
+    config: AiConfig,
+    input: string,
+    voice: string,
+    signal?: AbortSignal
+): Promise<Blob> {
+    const adapter = getProviderAdapter(config.provider)
+    if (!adapter.speechUrl) {
+        throw new Error("This provider does not offer a speech endpoint")
+    }
+    const response = await fetch(adapter.speechUrl(config), {
+        method: "POST",
+        headers: adapter.headers(config),
+        body: JSON.stringify(adapter.speechBody(config, input, voice)),
+        signal,
+    })
+    if (!response.ok) {
+        const errorText = await response.text()
+        throw new Error(`Speech failed: ${response.status} ${errorText}`)
+    }
+    return response.blob()
+}
+
+/** An article handed to answerFromLibrary, cited in the answer as [n]. */
+export interface LibrarySource {
+    n: number
+    title: string
+    text: string
+}
+
+/**
+ * Answer a question from a set of retrieved articles, citing them by number.
+ * @param sources The retrieved articles, most relevant first; their texts
+ *   should already be trimmed to fit the model's context together
+ * @param onProgress When given, the answer is streamed and this is called
+ *   with each partial result
+ * @returns Answer text with [n] citations
+ */
+export async function answerFromLibrary(
+    config: AiConfig,
+    question: string,
+    sources: LibrarySource[],
+    signal?: AbortSignal,
+    onProgress?: StreamProgressHandler
+): Promise<string> {
+    const systemPrompt = `You answer questions using only the numbered articles from the reader's feeds below.
+Cite the articles you rely on with their numbers in square brackets, e.g. [2] or [1][3].
+If the articles do not answer the question, say so instead of guessing.
+Answer in the language of the question, concisely.`
+    const articles = sources
+        .map(source => `[${source.n}] ${source.title}\n${source.text}`)
+        .join("\n\n")
+    const request: ChatCompletionRequest = {
+        messages: [
+            { role: "system", content: systemPrompt },
+            {
+                role: "user",
+                content: `Articles:\n\n${articles}\n\nQuestion: ${question}`,
+            },
+        ],
+        temperature: 0.3,
+        max_tokens: 1000,
+    }
+    if (onProgress) return await chatCompletionStream(config, request, onProgress, signal)
+    return await chatCompletion(config, request, signal)
+}
+
+const languageInstruction = (lang?: string) =>
+    lang ? ` Write in ${languageName(lang)}.` : " Write in the language of the headlines."
+
+/**
+ * Ask the model to sort numbered headlines into topics.
+ * @param titles Headlines, numbered from 1 in the prompt
+ * @returns The raw reply, a JSON array of {"title", "items"}; see
+ *   parseTopicGroups in aiDigest.ts
+ */
+export async function groupIntoTopics(
+    config: AiConfig,
+    titles: string[],
+    lang?: string,
+    signal?: AbortSignal
+): Promise<string> {
+    const maxTopics = Math.max(3, Math.min(12, Math.ceil(titles.length / 4)))
+    const systemPrompt = `You group news headlines from the reader's feeds into topics.
+Put headlines about the same story or subject together; a headline belongs to one topic only.
+Use at most ${maxTopics} topics, each with a short title.${languageInstruction(lang)}
+Reply with only a JSON array like [{"title": "Topic", "items": [1, 4]}], using the headline numbers.`
+    const request: ChatCompletionRequest = {
+        messages: [
+            { role: "system", content: systemPrompt },
+            { role: "user", content: titles.map((t, i) => `${i + 1}. ${t}`).join("\n") },
+        ],
+        temperature: 0.2,
+        max_tokens: 2000,
+    }
+    return await chatCompletion(config, request, signal)
+}
+
+/**
+ * Summarize what a set of articles on one topic report.
+ * @param sources The articles, already trimmed; cited in the summary as [n]
+ * @returns Summary text with [n] citations
+ */
+export async function summarizeTopic(
+    config: AiConfig,
+    topic: string,
+    sources: LibrarySource[],
+    lang?: string,
+    signal?: AbortSignal
+): Promise<string> {
+    const systemPrompt = `You write one entry of a news digest about the topic "${topic}".
+In two to four sentences, say what the numbered articles below report, merging overlapping coverage.
+Cite the articles you draw on with their numbers in square brackets, e.g. [1][3].
+Do not add anything the articles do not say.${languageInstruction(lang)}`
+    const request: ChatCompletionRequest = {
+        messages: [
+            { role: "system", content: systemPrompt },
+            {
+                role: "user",
+                content: sources
+                    .map(source => `[${source.n}] ${source.title}\n${source.text}`)
+                    .join("\n\n"),
+            },
+        ],
+        temperature: 0.3,
+        max_tokens: 500,
+    }
+    return await chatCompletion(config, request, signal)
+}
+
+/**
+ * Ask the model for keywords that articles about an interest would mention.
+ * @returns The raw reply, a JSON array of strings; see parseKeywords in
+ *   relevance.ts
+ */
+export async function suggestInterestKeywords(
+    config: AiConfig,
+    interest: string,
+    signal?: AbortSignal
+): Promise<string> {
+    const systemPrompt = `You help a reader rank news articles about "${interest}" higher.
+List 10 to 20 short keywords, names and terms (one to three words each) that headlines about it are likely to contain, in the languages the reader would read about it in.
+Reply with only a JSON array of strings.`
+    const request: ChatCompletionRequest = {
+        messages: [
+            { role: "system", content: systemPrompt },
+            { role: "user", content: interest },
+        ],
+        temperature: 0.3,
+        max_tokens: 400,
+    }
+    return await chatCompletion(config, request, signal)
+}
+
+/**
+ * Ask the model which tags of the vocabulary apply to an article.
+ * @param text Title and opening of the article
+ * @returns The raw reply, a JSON array of tags; see parseTags in aiTags.ts
+ */
+export async function suggestTags(
+    config: AiConfig,
+    text: string,
+    vocabulary: string[],
+    signal?: AbortSignal
+): Promise<string> {
+    const systemPrompt = `You tag news articles for a reader. The only tags allowed are:
+${vocabulary.map(tag => `- ${tag}`).join("\n")}
+Pick the tags that clearly describe what the article is about: usually one to three, none if nothing fits.
+Reply with only a JSON array of the chosen tags, spelled exactly as listed.`
+    const request: ChatCompletionRequest = {
+        messages: [
+            { role: "system", content: systemPrompt },
+            { role: "user", content: text },
+        ],
+        temperature: 0,
+        max_tokens: 200,
+    }
+    return await chatCompletion(config, request, signal)
+}
+
+/**
+ * The messages with the glossary entries for `texts` added to the system
+ * prompt, or as one when the messages have none.
+ */
+function withGlossary(
+    messages: ChatMessage[],
+    config: AiConfig,
+    texts: string[],
+    targetLang: string
+): ChatMessage[] {
+    const entries = glossaryFor(config.glossary, texts, targetLang)
+    if (entries.length === 0) return messages
+    const instructions = glossaryInstructions(entries)
+    if (messages[0]?.role !== "system") {
+        return [{ role: "system", content: instructions }, ...messages]
+    }
+    return [
+        { role: "system", content: `${messages[0].content}\n\n${instructions}` },
+        ...messages.slice(1),
+    ]
 }
 
 /**
  * Translate text to target language
  * @param config AI configuration
  * @param text Text to translate
- * @param targetLang Target language ('zh' or 'en')
+ * @param targetLang Target language as a BCP-47 tag, e.g. "zh", "ja", "pt-BR"
+ * @param onProgress When given, the translation is streamed and this is
+ *   called with each partial result
  * @returns Translated text
  */
 export async function translateText(
     config: AiConfig,
     text: string,
-    targetLang: "zh" | "en",
-    signal?: AbortSignal
+    targetLang: string,
+    signal?: AbortSignal,
+    onProgress?: StreamProgressHandler
 ): Promise<string> {
     const defaultPrompt = `你是一个专业的翻译助手。输入可能包含 HTML，请严格遵循：
 - 仅翻译可见文本内容
 - 绝对不要翻译 <pre>、<code> 等代码块中的内容，保留原文
 - 保留并原样输出所有 HTML 标签与属性（包括 a、strong、em、code 等），不要新增或删除标签
 - 不要添加任何解释、注释或多余文本
-- 仅输出译文内容（可包含原有 HTML 标签），不要包裹额外容器`
-
-    const systemPrompt = config.prompts?.translation || defaultPrompt
-
-    return await chatCompletion(
-        config,
-        {
-            messages: [
-                { role: "system", content: systemPrompt },
-                { role: "user", content: text },
-            ],
-            temperature: 0.3,
-            max_tokens: 3000,
-        },
-        signal
-    )
+- 仅输出译文内容（可包含原有 HTML 标签），不要包裹额外容器
+- 目标语言：${languageName(targetLang)} (${targetLang})`
+
+    const customPrompt = config.prompts?.translation
+
+    const messages: ChatMessage[] = customPrompt
+        ? customPromptMessages(customPrompt, config, text, {
+              targetLang: languageName(targetLang),
+          })
+        : [
+              { role: "system", content: defaultPrompt },
+              { role: "user", content: text },
+          ]
+
+    const request: ChatCompletionRequest = {
+        messages: withGlossary(messages, config, [text], targetLang),
+        temperature: 0.3,
+        max_tokens: 3000,
+    }
+    if (onProgress) return await chatCompletionStream(config, request, onProgress, signal)
+    return await chatCompletion(config, request, signal)
 }
 
 /**
@@ -246,7 +753,7 @@ export async function translateText(
 async function translateBatch(
     config: AiConfig,
     texts: string[],
-    targetLang: "zh" | "en",
+    targetLang: string,
     signal?: AbortSignal
 ): Promise<string[]> {
     if (texts.length === 0) return []
@@ -255,23 +762,26 @@ async function translateBatch(
     }
 
     const defaultBatchPrompt = `You are a professional translation assistant.
-Translate the following JSON array of texts into ${
-        targetLang === "zh" ? "Simplified Chinese" : "English"
-    }.
+Translate the following JSON array of texts into ${languageName(targetLang)}.
 Return ONLY a valid JSON array of strings.
 Maintain the exact same number of elements.
 Do not wrap the output in markdown code blocks.
 Preserve any HTML tags in the source texts.`
-    const systemPrompt = config.prompts?.translation || defaultBatchPrompt
+    const customPrompt = config.prompts?.translation
 
     const content = JSON.stringify(texts)
+    const messages: ChatMessage[] = customPrompt
+        ? customPromptMessages(customPrompt, config, content, {
+              targetLang: languageName(targetLang),
+          })
+        : [
+              { role: "system", content: defaultBatchPrompt },
+              { role: "user", content: content },
+          ]
     const responseRaw = await chatCompletion(
         config,
         {
-            messages: [
-                { role: "system", content: systemPrompt },
-                { role: "user", content: content },
-            ],
+            messages: withGlossary(messages, config, texts, targetLang),
             temperature: 0.3,
             max_tokens: 4000, // Increase token limit for batches
         },
@@ -304,6 +814,13 @@ Preserve any HTML tags in the source texts.`
     }
 }
 
+export interface TranslatedParagraph {
+    original: string
+    translated: string
+    // Glossary terms the translation did not render as given.
+    glossaryMissed?: string[]
+}
+
 /**
  * Translate text paragraph by paragraph with batching and concurrency optimization
  * @param config AI configuration
@@ -314,19 +831,19 @@ Preserve any HTML tags in the source texts.`
 export async function translateTextByParagraph(
     config: AiConfig,
     paragraphs: string[],
-    onParagraphTranslated?: (index: number, translated: string) => void,
+    onParagraphTranslated?: (index: number, translated: string, glossaryMissed?: string[]) => void,
     signal?: AbortSignal,
-    forcedTargetLang?: "zh" | "en"
-): Promise<Array<{ original: string; translated: string }>> {
+    forcedTargetLang?: string
+): Promise<TranslatedParagraph[]> {
     // Initialize results with empty translations
-    const results: Array<{ original: string; translated: string }> = paragraphs.map(p => ({
+    const results: TranslatedParagraph[] = paragraphs.map(p => ({
         original: p,
         translated: "",
     }))
 
     // Detect language from first paragraph
     const sampleText = paragraphs[0] || ""
-    const targetLang = forcedTargetLang ?? (/[\u4e00-\u9fa5]/.test(sampleText) ? "en" : "zh")
+    const targetLang = forcedTargetLang ?? (detectLanguage(sampleText) === "zh" ? "en" : "zh")
 
     // Configuration
     const maxBatchSize = Math.max(1, config.maxParagraphsPerRequest || 1)
@@ -334,6 +851,7 @@ export async function translateTextByParagraph(
     // Concurrency must be at least 1, otherwise the active-promise gate
     // below would loop forever on an empty list (Promise.race([])).
     const concurrency = Math.max(1, config.concurrency || 5)
+    const glossary = glossaryFor(config.glossary, paragraphs, targetLang)
 
     // Create batches
     interface Batch {
@@ -403,12 +921,18 @@ export async function translateTextByParagraph(
                     }
                 }
 
-                // Update results and notify
+                // Update results and notify. A paragraph that misses a
+                // glossary term is not retried here: it keeps its text and
+                // the missed terms, so the reader can retry it from the
+                // article view.
                 batch.indices.forEach((originalIndex, batchIndex) => {
                     const trans = translatedTexts[batchIndex]
+                    const missed = glossaryViolations(paragraphs[originalIndex], trans, glossary)
+                    const glossaryMissed = missed.length > 0 ? missed : undefined
                     results[originalIndex].translated = trans
+                    if (glossaryMissed) results[originalIndex].glossaryMissed = glossaryMissed
                     if (onParagraphTranslated && !signal?.aborted) {
-                        onParagraphTranslated(originalIndex, trans)
+                        onParagraphTranslated(originalIndex, trans, glossaryMissed)
                     }
                 })
 
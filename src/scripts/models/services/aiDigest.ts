@@ -0,0 +1,104 @@
+/**
+ * Topic digests of source groups: what a digest holds, when one is due and
+ * how the model's topic grouping is read back. Shared by the main-process
+ * store (aiDigestLog.ts) and the renderer that generates them
+ * (aiDigester.ts).
+ */
+
+export type DigestPeriod = "daily" | "weekly"
+
+export interface DigestItem {
+    iid: number
+    title: string
+}
+
+export interface DigestTopic {
+    title: string
+    // Cites `items` by 1-based position, e.g. [2]. Empty if summarizing failed.
+    summary: string
+    // Titles are kept so the history still reads after items are deleted.
+    items: DigestItem[]
+}
+
+export interface Digest {
+    id: string
+    // Name of the group the digest covers; groups have no other stable id.
+    group: string
+    period: DigestPeriod
+    createdAt: number
+    // Unread items from this time on were considered.
+    since: number
+    topics: DigestTopic[]
+    // Unread items found, including any left out for length.
+    itemCount: number
+}
+
+const DAY = 24 * 60 * 60 * 1000
+
+export const DIGEST_PERIODS: { [period in DigestPeriod]: number } = {
+    daily: DAY,
+    weekly: 7 * DAY,
+}
+
+/** Whether a group's next digest is due, given when its last one was made. */
+export function isDigestDue(period: DigestPeriod, lastAt: number | null, now: number): boolean {
+    return lastAt === null || now - lastAt >= DIGEST_PERIODS[period]
+}
+
+/** The start of the window a new digest covers. */
+export function digestSince(period: DigestPeriod, lastAt: number | null, now: number): number {
+    return lastAt === null ? now - DIGEST_PERIODS[period] : lastAt
+}
+
+/** The latest digest of each group, by group name. */
+export function latestDigests(digests: Digest[]): Map<string, Digest> {
+    const latest = new Map<string, Digest>()
+    for (const digest of digests) {
+        const current = latest.get(digest.group)
+        if (!current || digest.createdAt > current.createdAt) latest.set(digest.group, digest)
+    }
+    return latest
+}
+
+export interface TopicGroup {
+    title: string
+    // 1-based positions in the list the model was given.
+    items: number[]
+}
+
+/**
+ * Read the model's topic grouping of `count` numbered items. The reply is
+ * expected to hold a JSON array of `{"title", "items"}`; anything around it
+ * (prose, code fences) is ignored. Positions out of range or already taken
+ * are dropped, and items no topic claimed are gathered under `otherTitle`.
+ */
+export function parseTopicGroups(reply: string, count: number, otherTitle: string): TopicGroup[] {
+    let parsed: unknown = []
+    const start = reply.indexOf("[")
+    const end = reply.lastIndexOf("]")
+    if (start >= 0 && end > start) {
+        try {
+            parsed = JSON.parse(reply.slice(start, end + 1))
+        } catch {
+            parsed = []
+        }
+    }
+    const taken = new Set<number>()
+    const groups: TopicGroup[] = []
+    for (const entry of Array.isArray(parsed) ? parsed : []) {
+        const record = (entry || {}) as { title?: unknown; items?: unknown }
+        const title = typeof record.title === "string" ? record.title.trim() : ""
+        if (!title || !Array.isArray(record.items)) continue
+        const items: number[] = []
+        for (const n of record.items.map(Number)) {
+            if (!Number.isInteger(n) || n < 1 || n > count || taken.has(n)) continue
+            taken.add(n)
+            items.push(n)
+        }
+        if (items.length > 0) groups.push({ title, items })
+    }
+    const rest: number[] = []
+    for (let n = 1; n <= count; n++) if (!taken.has(n)) rest.push(n)
+    if (rest.length > 0) groups.push({ title: otherTitle, items: rest })
+    return groups
+}
@@ -0,0 +1,75 @@
+import type { Digest } from "./aiDigest"
+
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+const fs = require("fs")
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+const path = require("path")
+
+/**
+ * Digest history, running in the main process. Each digest is appended to
+ * `ai-digests.log` as one JSON line and the whole history is kept in memory;
+ * digests are small and few. Deleting one rewrites the file.
+ */
+
+const LOG_FILE = "ai-digests.log"
+// Digests older than this are dropped when the log is loaded.
+const RETENTION_DAYS = 400
+
+let logPath: string | null = null
+let digests: Digest[] = []
+
+export function initDigestLog(userDataPath: string): void {
+    logPath = path.join(userDataPath, LOG_FILE)
+    digests = []
+    try {
+        if (!fs.existsSync(logPath)) return
+        const cutoff = Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000
+        const lines: string[] = fs.readFileSync(logPath, "utf8").split("\n")
+        let dropped = 0
+        for (const line of lines) {
+            if (!line.trim()) continue
+            try {
+                const digest = JSON.parse(line) as Digest
+                if (digest.createdAt < cutoff) dropped += 1
+                else digests.push(digest)
+            } catch {
+                // Torn or corrupt line; drop it.
+                dropped += 1
+            }
+        }
+        if (dropped > 0) writeAll()
+    } catch (error) {
+        console.error("Failed to load digest log:", error)
+    }
+}
+
+function writeAll(): void {
+    fs.writeFileSync(logPath, digests.map(d => JSON.stringify(d) + "\n").join(""), "utf8")
+}
+
+export function saveDigest(digest: Digest): void {
+    if (!logPath) return
+    try {
+        fs.appendFileSync(logPath, JSON.stringify(digest) + "\n", "utf8")
+        digests.push(digest)
+    } catch (error) {
+        console.error("Failed to save digest:", error)
+    }
+}
+
+/** All digests, newest first. */
+export function listDigests(): Digest[] {
+    return [...digests].sort((a, b) => b.createdAt - a.createdAt)
+}
+
+export function deleteDigest(id: string): void {
+    if (!logPath) return
+    const next = digests.filter(d => d.id !== id)
+    if (next.length === digests.length) return
+    digests = next
+    try {
+        writeAll()
+    } catch (error) {
+        console.error("Failed to delete digest:", error)
+    }
+}
@@ -0,0 +1,199 @@
+/**
+ * Generation of group digests.
+ *
+ * The unread items a group received since its last digest are sorted into
+ * topics by the model, and each topic is summarized with citations back to
+ * its items. Item texts come from their cached summaries where the article
+ * view or the background queue already made one; topic summaries go to the
+ * AI cache themselves, so regenerating over the same items is cheap.
+ * Groups with a schedule get a digest once it is due, checked after each
+ * fetch. Renderer only.
+ */
+
+import * as db from "../../db"
+import lf from "lovefield"
+import intl from "react-intl-universal"
+import { AIConfigs, AITask, SourceGroup } from "../../../schema-types"
+import type { RSSItem } from "../item"
+import { groupIntoTopics, summarizeTopic } from "./aiClient"
+import type { AiConfig } from "./aiClient"
+import { isProviderConfigured } from "./aiProviders"
+import { resolveTaskConfigs } from "./aiProfiles"
+import { articleCacheKeys, digestTopicCacheKey, normalizeArticleText } from "./aiCacheKey"
+import { isMonthlyBudgetExceeded } from "./aiUsage"
+import { detectLanguage, resolveSummaryLanguage } from "./langDetect"
+import { JobQueue } from "./aiQueue"
+import {
+    Digest,
+    DigestPeriod,
+    DigestTopic,
+    digestSince,
+    isDigestDue,
+    latestDigests,
+    parseTopicGroups,
+} from "./aiDigest"
+
+// Newest unread items a digest is made from; older ones are only counted.
+const MAX_ITEMS = 120
+// Characters of each item's text sent with its topic.
+const ITEM_CHARS = 600
+
+const toClientConfig = (resolved: AIConfigs): AiConfig => ({
+    baseUrl: resolved.baseUrl,
+    apiKey: resolved.apiKey,
+    provider: resolved.provider,
+    apiVersion: resolved.apiVersion,
+    defaultModel: resolved.defaultModel,
+    usage: { task: AITask.Digest },
+})
+
+/** An item's cached summary if there is one, else the start of its text. */
+async function itemText(item: RSSItem, configs: AIConfigs): Promise<string> {
+    const summaryConfigs = resolveTaskConfigs(configs, AITask.Summary)
+    const keys = articleCacheKeys(item, summaryConfigs, summaryConfigs)
+    const cached = await window.settings.getAICache(keys.summary.key).catch(() => null)
+    if (cached) return cached.value
+    return normalizeArticleText(item.snippet || item.content).slice(0, ITEM_CHARS)
+}
+
+async function summarizeGroup(
+    items: RSSItem[],
+    title: string,
+    resolved: AIConfigs,
+    lang: string,
+    signal?: AbortSignal
+): Promise<string> {
+    const key = digestTopicCacheKey(items, title, resolved.defaultModel, lang)
+    const cached = await window.settings.getAICache(key)
+    if (cached) return cached.value
+    const sources = await Promise.all(
+        items.map(async (item, i) => ({
+            n: i + 1,
+            title: item.title,
+            text: await itemText(item, resolved),
+        }))
+    )
+    const summary = await summarizeTopic(toClientConfig(resolved), title, sources, lang, signal)
+    await window.settings.saveAICache({
+        key,
+        kind: "digest",
+        value: summary,
+        model: resolved.defaultModel,
+        title,
+    })
+    return summary
+}
+
+async function unreadItems(sids: number[], since: number): Promise<[RSSItem[], number]> {
+    const predicate = lf.op.and(
+        db.items.source.in(sids),
+        db.items.hasRead.eq(false),
+        db.items.date.gte(new Date(since))
+    )
+    const [items, counts] = await Promise.all([
+        db.itemsDB
+            .select()
+            .from(db.items)
+            .where(predicate)
+            .orderBy(db.items.date, lf.Order.DESC)
+            .limit(MAX_ITEMS)
+            .exec() as Promise<RSSItem[]>,
+        db.itemsDB
+            .select(lf.fn.count(db.items._id).as("count"))
+            .from(db.items)
+            .where(predicate)
+            .exec() as Promise<{ count: number }[]>,
+    ])
+    return [items, counts[0].count]
+}
+
+/**
+ * Make and store a digest of the group's unread items since its last one.
+ * Resolves to null when there was nothing unread.
+ */
+export async function generateDigest(
+    group: SourceGroup,
+    period: DigestPeriod,
+    signal?: AbortSignal
+): Promise<Digest | null> {
+    const resolved = resolveTaskConfigs(window.settings.getAIConfigs(), AITask.Digest)
+    const now = Date.now()
+    const last = latestDigests(await window.settings.listDigests()).get(group.name)
+    const since = digestSince(period, last ? last.createdAt : null, now)
+    const [items, itemCount] = await unreadItems(group.sids, since)
+    if (items.length === 0) return null
+
+    const titles = items.map(item => item.title)
+    const lang = resolveSummaryLanguage(
+        resolved.translateWhen,
+        resolved.translateTarget,
+        detectLanguage(titles.join("\n"))
+    )
+    const reply = await groupIntoTopics(toClientConfig(resolved), titles, lang, signal)
+    const groups = parseTopicGroups(reply, items.length, intl.get("digest.other"))
+
+    const topics: DigestTopic[] = groups.map(g => ({
+        title: g.title,
+        summary: "",
+        items: g.items.map(n => ({ iid: items[n - 1]._id, title: items[n - 1].title })),
+    }))
+    // Topics are summarized side by side within the concurrency setting;
+    // one that still fails after the retries keeps just its item list.
+    const queue = new JobQueue<number>(
+        async t => {
+            topics[t].summary = await summarizeGroup(
+                groups[t].items.map(n => items[n - 1]),
+                groups[t].title,
+                resolved,
+                lang,
+                signal
+            )
+        },
+        { concurrency: () => resolved.concurrency || 5 }
+    )
+    topics.forEach((_, t) => queue.push(String(t), t))
+    await queue.idle()
+    if (signal?.aborted) throw new DOMException("Aborted", "AbortError")
+
+    const digest: Digest = {
+        id: `${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+        group: group.name,
+        period,
+        createdAt: now,
+        since,
+        topics,
+        itemCount,
+    }
+    await window.settings.saveDigest(digest)
+    for (const listener of listeners) listener(digest)
+    return digest
+}
+
+const listeners = new Set<(digest: Digest) => void>()
+
+/** Be told when a digest has been saved. Returns the unsubscriber. */
+export function onDigestSaved(listener: (digest: Digest) => void): () => void {
+    listeners.add(listener)
+    return () => listeners.delete(listener)
+}
+
+async function runScheduled(group: SourceGroup): Promise<void> {
+    const configs = window.settings.getAIConfigs()
+    const resolved = resolveTaskConfigs(configs, AITask.Digest)
+    if (!configs.enabled || !isProviderConfigured(resolved)) return
+    if (await isMonthlyBudgetExceeded(configs)) return
+    const last = latestDigests(await window.settings.listDigests()).get(group.name)
+    if (!isDigestDue(group.digest, last ? last.createdAt : null, Date.now())) return
+    await generateDigest(group, group.digest)
+}
+
+// One group at a time; each digest already runs its topics in parallel.
+const scheduled = new JobQueue<SourceGroup>(runScheduled, { concurrency: 1 })
+
+/** Queue a digest for every scheduled group whose next one is due. */
+export function runDueDigests(groups: SourceGroup[]): void {
+    if (!window.settings.getAIConfigs().enabled) return
+    for (const group of groups) {
+        if (group.isMultiple && group.digest) scheduled.push(group.name, group)
+    }
+}
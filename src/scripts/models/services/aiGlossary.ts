@@ -0,0 +1,95 @@
+/**
+ * The translation glossary: terms the reader wants translated one way, or
+ * kept as written, in every paragraph of every article.
+ *
+ * Only the entries whose term occurs in the text being translated are put
+ * into the prompt, and each translated paragraph is checked against them
+ * afterwards. A paragraph that misses a term keeps its translation and
+ * carries the missed terms, so the article view offers to retry it.
+ */
+
+import { AIGlossaryEntry } from "../../../schema-types"
+import { primaryLanguage } from "./langDetect"
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+
+/**
+ * Matches `term` case-insensitively. Latin letters and digits at its ends
+ * must not continue into the surrounding text, so "Go" does not match
+ * "Google"; other scripts have no word breaks to look for.
+ */
+function termPattern(term: string): RegExp {
+    const before = /^[A-Za-z0-9]/.test(term) ? "(?<![A-Za-z0-9])" : ""
+    const after = /[A-Za-z0-9]$/.test(term) ? "(?![A-Za-z0-9])" : ""
+    return new RegExp(`${before}${escapeRegExp(term)}${after}`, "i")
+}
+
+const plainText = (html: string) => (html || "").replace(/<[^>]*>/g, " ")
+
+/** Whether an entry is meant for translations into `targetLang`. */
+function appliesTo(entry: AIGlossaryEntry, targetLang: string): boolean {
+    return !entry.lang || primaryLanguage(entry.lang) === primaryLanguage(targetLang)
+}
+
+/** The text a translation must contain for `entry`. */
+const expected = (entry: AIGlossaryEntry) => (entry.translation || "").trim() || entry.term.trim()
+
+/** The entries for `targetLang` whose term occurs in one of `texts`. */
+export function glossaryFor(
+    glossary: AIGlossaryEntry[] | undefined,
+    texts: string[],
+    targetLang: string
+): AIGlossaryEntry[] {
+    if (!glossary || glossary.length === 0) return []
+    const plain = texts.map(plainText)
+    return glossary.filter(
+        entry =>
+            entry.term.trim() &&
+            appliesTo(entry, targetLang) &&
+            plain.some(text => termPattern(entry.term.trim()).test(text))
+    )
+}
+
+/** Instructions for the system prompt listing `entries`. */
+export function glossaryInstructions(entries: AIGlossaryEntry[]): string {
+    const lines = entries.map(entry =>
+        (entry.translation || "").trim()
+            ? `- "${entry.term.trim()}" → "${entry.translation.trim()}"`
+            : `- "${entry.term.trim()}" → keep as written, do not translate`
+    )
+    return `Glossary — always translate these terms exactly as given:\n${lines.join("\n")}`
+}
+
+/**
+ * The terms of `entries` that occur in `original` but whose expected
+ * translation is missing from `translated`.
+ */
+export function glossaryViolations(
+    original: string,
+    translated: string,
+    entries: AIGlossaryEntry[]
+): string[] {
+    const source = plainText(original)
+    const target = plainText(translated)
+    return entries
+        .filter(
+            entry =>
+                termPattern(entry.term.trim()).test(source) &&
+                !termPattern(expected(entry)).test(target)
+        )
+        .map(entry => entry.term.trim())
+}
+
+/**
+ * The entries for `targetLang` as text, for the cache key of translations:
+ * editing them translates articles afresh.
+ */
+export function glossaryCacheText(
+    glossary: AIGlossaryEntry[] | undefined,
+    targetLang: string
+): string {
+    return (glossary || [])
+        .filter(entry => entry.term.trim() && appliesTo(entry, targetLang))
+        .map(entry => `${entry.term.trim()}=${(entry.translation || "").trim()}`)
+        .join("\n")
+}
@@ -0,0 +1,157 @@
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+const fs = require("fs")
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+const path = require("path")
+
+/**
+ * Embedding index of the library, running in the main process.
+ *
+ * Vectors are kept in an append-only binary file (`ai-index.bin`), one
+ * fixed-size record per item: the item id as a little-endian uint32 followed
+ * by the vector as float32s. The embedding model and vector size live next to
+ * it in `ai-index.json`; adding vectors from another model starts the index
+ * over, since vectors from different models cannot be compared. Vectors are
+ * normalized on the way in, so search is a plain dot product over the copy
+ * held in memory.
+ */
+
+export interface AIIndexEntry {
+    id: number
+    vector: number[]
+}
+
+export interface AIIndexHit {
+    id: number
+    score: number
+}
+
+export interface AIIndexStats {
+    model: string
+    count: number
+}
+
+interface IndexMeta {
+    model: string
+    dim: number
+}
+
+const DATA_FILE = "ai-index.bin"
+const META_FILE = "ai-index.json"
+const ID_BYTES = 4
+
+let dataPath: string | null = null
+let metaPath: string | null = null
+let meta: IndexMeta | null = null
+let vectors = new Map<number, Float32Array>()
+
+const recordSize = (dim: number) => ID_BYTES + dim * 4
+
+function normalize(vector: number[]): Float32Array {
+    const out = Float32Array.from(vector)
+    let norm = 0
+    for (let i = 0; i < out.length; i++) norm += out[i] * out[i]
+    norm = Math.sqrt(norm)
+    if (norm > 0) for (let i = 0; i < out.length; i++) out[i] /= norm
+    return out
+}
+
+function encode(id: number, vector: Float32Array): Buffer {
+    const buffer = Buffer.alloc(recordSize(vector.length))
+    buffer.writeUInt32LE(id, 0)
+    for (let i = 0; i < vector.length; i++) buffer.writeFloatLE(vector[i], ID_BYTES + i * 4)
+    return buffer
+}
+
+function writeAll(): void {
+    const records = [...vectors].map(([id, vector]) => encode(id, vector))
+    fs.writeFileSync(dataPath, Buffer.concat(records))
+}
+
+export function initIndex(userDataPath: string): void {
+    dataPath = path.join(userDataPath, DATA_FILE)
+    metaPath = path.join(userDataPath, META_FILE)
+    meta = null
+    vectors = new Map()
+    try {
+        if (!fs.existsSync(metaPath) || !fs.existsSync(dataPath)) return
+        meta = JSON.parse(fs.readFileSync(metaPath, "utf8")) as IndexMeta
+        const data: Buffer = fs.readFileSync(dataPath)
+        const size = recordSize(meta.dim)
+        let records = 0
+        for (let offset = 0; offset + size <= data.length; offset += size) {
+            const vector = new Float32Array(meta.dim)
+            for (let i = 0; i < meta.dim; i++) {
+                vector[i] = data.readFloatLE(offset + ID_BYTES + i * 4)
+            }
+            vectors.set(data.readUInt32LE(offset), vector)
+            records += 1
+        }
+        // A torn last record or vectors replaced since the last rewrite.
+        if (records * size !== data.length || records !== vectors.size) writeAll()
+    } catch (error) {
+        console.error("Failed to load embedding index:", error)
+        meta = null
+        vectors = new Map()
+    }
+}
+
+/** Store vectors made with `model`, replacing those of the same items. */
+export function addVectors(model: string, entries: AIIndexEntry[]): void {
+    if (!dataPath || entries.length === 0) return
+    const dim = entries[0].vector.length
+    try {
+        if (!meta || meta.model !== model || meta.dim !== dim) {
+            meta = { model, dim }
+            vectors = new Map()
+            fs.writeFileSync(metaPath, JSON.stringify(meta), "utf8")
+            fs.writeFileSync(dataPath, Buffer.alloc(0))
+        }
+        const records: Buffer[] = []
+        for (const entry of entries) {
+            if (entry.vector.length !== dim) continue
+            const vector = normalize(entry.vector)
+            vectors.set(entry.id, vector)
+            records.push(encode(entry.id, vector))
+        }
+        fs.appendFileSync(dataPath, Buffer.concat(records))
+    } catch (error) {
+        console.error("Failed to save embeddings:", error)
+    }
+}
+
+/** The ids among `ids` that have no vector from `model` yet. */
+export function missingIds(model: string, ids: number[]): number[] {
+    if (!meta || meta.model !== model) return ids
+    return ids.filter(id => !vectors.has(id))
+}
+
+/** The `limit` items closest to `query`, best first. */
+export function searchVectors(model: string, query: number[], limit: number): AIIndexHit[] {
+    if (!meta || meta.model !== model || query.length !== meta.dim) return []
+    const q = normalize(query)
+    const hits: AIIndexHit[] = []
+    for (const [id, vector] of vectors) {
+        let score = 0
+        for (let i = 0; i < q.length; i++) score += q[i] * vector[i]
+        hits.push({ id, score })
+    }
+    hits.sort((a, b) => b.score - a.score)
+    return hits.slice(0, limit)
+}
+
+export function getIndexStats(): AIIndexStats {
+    return { model: meta?.model || "", count: vectors.size }
+}
+
+export function clearIndex(): void {
+    meta = null
+    vectors = new Map()
+    if (!dataPath) return
+    try {
+        for (const file of [dataPath, metaPath]) {
+            if (fs.existsSync(file)) fs.unlinkSync(file)
+        }
+    } catch (error) {
+        console.error("Failed to clear embedding index:", error)
+    }
+}
@@ -0,0 +1,179 @@
+/**
+ * Questions across the whole library, answered from the articles closest to
+ * them.
+ *
+ * Each article is embedded once (its title and the start of its text) and
+ * the vectors are kept by the main process (see aiIndex.ts). A question is
+ * embedded the same way, the nearest articles are looked up and handed to
+ * the model, which cites them by number. With `indexLibrary` on, new
+ * articles are embedded as they are fetched; older ones through
+ * buildLibraryIndex. Renderer only.
+ */
+
+import * as db from "../../db"
+import lf from "lovefield"
+import { AIConfigs, AITask } from "../../../schema-types"
+import type { RSSItem } from "../item"
+import { answerFromLibrary, createEmbeddings } from "./aiClient"
+import type { AiConfig, StreamProgressHandler } from "./aiClient"
+import { canReachProvider } from "./aiProviders"
+import { resolveTaskConfigs } from "./aiProfiles"
+import { isMonthlyBudgetExceeded } from "./aiUsage"
+import { JobQueue } from "./aiQueue"
+
+export const DEFAULT_EMBEDDING_MODEL = "text-embedding-3-small"
+
+// Texts sent per embeddings request.
+const BATCH_SIZE = 32
+// Items read from the database per step of a full index build.
+const BUILD_PAGE_SIZE = 256
+// Characters of an article that go into its vector.
+const EMBEDDING_CHARS = 2000
+// Articles an answer is drawn from, and how much of each is sent.
+const ANSWER_SOURCES = 8
+const SOURCE_CHARS = 1500
+
+const plainText = (item: RSSItem) =>
+    (item.snippet || (item.content || "").replace(/<[^>]*>/g, " ")).replace(/\s+/g, " ").trim()
+
+export const embeddingModelOf = (configs: AIConfigs) =>
+    configs.embeddingModel || DEFAULT_EMBEDDING_MODEL
+
+/** The configs questions and embeddings go through, with their profile applied. */
+export const resolveAskConfigs = () =>
+    resolveTaskConfigs(window.settings.getAIConfigs(), AITask.Ask)
+
+function toClientConfig(resolved: AIConfigs, model: string): AiConfig {
+    return {
+        baseUrl: resolved.baseUrl,
+        apiKey: resolved.apiKey,
+        provider: resolved.provider,
+        apiVersion: resolved.apiVersion,
+        defaultModel: model,
+        usage: { task: AITask.Ask },
+    }
+}
+
+function embeddingText(item: RSSItem): string {
+    return `${item.title}\n\n${plainText(item)}`.slice(0, EMBEDDING_CHARS)
+}
+
+/** Embed the items not indexed yet; resolves to how many were. */
+async function indexItems(
+    resolved: AIConfigs,
+    items: RSSItem[],
+    signal?: AbortSignal
+): Promise<number> {
+    const model = embeddingModelOf(resolved)
+    const missing = new Set(
+        await window.settings.getAIIndexMissing(
+            model,
+            items.map(item => item._id)
+        )
+    )
+    const todo = items.filter(item => missing.has(item._id))
+    if (todo.length === 0) return 0
+    const vectors = await createEmbeddings(
+        toClientConfig(resolved, model),
+        todo.map(embeddingText),
+        signal
+    )
+    await window.settings.addAIIndex(
+        model,
+        todo.map((item, i) => ({ id: item._id, vector: vectors[i] }))
+    )
+    return todo.length
+}
+
+async function runIndexJob(items: RSSItem[]): Promise<void> {
+    const resolved = resolveAskConfigs()
+    if (!resolved.enabled || !resolved.indexLibrary) return
+    // Indexing uses the embedding model, which has a default.
+    if (!canReachProvider(resolved)) return
+    if (await isMonthlyBudgetExceeded(resolved)) return
+    await indexItems(resolved, items)
+}
+
+// One batch at a time: indexing is background work and should not crowd
+// out the requests of the article being read.
+const queue = new JobQueue<RSSItem[]>(runIndexJob, { concurrency: 1 })
+
+/** Queue newly fetched items for embedding, if library indexing is on. */
+export function enqueueLibraryIndexing(items: RSSItem[]): void {
+    const configs = window.settings.getAIConfigs()
+    if (!configs.enabled || !configs.indexLibrary) return
+    for (let i = 0; i < items.length; i += BATCH_SIZE) {
+        const batch = items.slice(i, i + BATCH_SIZE)
+        queue.push(`index:${batch[0]._id}`, batch)
+    }
+}
+
+/**
+ * Embed every article in the database not indexed yet, newest first.
+ * `onProgress` is called with the number embedded so far.
+ */
+export async function buildLibraryIndex(
+    signal: AbortSignal,
+    onProgress: (indexed: number) => void
+): Promise<number> {
+    const resolved = resolveAskConfigs()
+    let indexed = 0
+    for (let skip = 0; ; skip += BUILD_PAGE_SIZE) {
+        const rows = (await db.itemsDB
+            .select()
+            .from(db.items)
+            .orderBy(db.items.date, lf.Order.DESC)
+            .skip(skip)
+            .limit(BUILD_PAGE_SIZE)
+            .exec()) as RSSItem[]
+        for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+            indexed += await indexItems(resolved, rows.slice(i, i + BATCH_SIZE), signal)
+            onProgress(indexed)
+        }
+        if (rows.length < BUILD_PAGE_SIZE) return indexed
+    }
+}
+
+/** The indexed articles closest to `question`, closest first. */
+export async function findRelevantItems(
+    question: string,
+    signal?: AbortSignal
+): Promise<RSSItem[]> {
+    const resolved = resolveAskConfigs()
+    const model = embeddingModelOf(resolved)
+    const [query] = await createEmbeddings(toClientConfig(resolved, model), [question], signal)
+    const hits = await window.settings.searchAIIndex(model, query, ANSWER_SOURCES)
+    if (hits.length === 0) return []
+    const rows = (await db.itemsDB
+        .select()
+        .from(db.items)
+        .where(db.items._id.in(hits.map(hit => hit.id)))
+        .exec()) as RSSItem[]
+    // Articles deleted since they were indexed drop out here.
+    const byId = new Map(rows.map(row => [row._id, row]))
+    return hits.map(hit => byId.get(hit.id)).filter(Boolean)
+}
+
+/**
+ * Answer `question` from `items`; `items[n - 1]` is the article the answer
+ * cites as [n].
+ */
+export function answerFromItems(
+    question: string,
+    items: RSSItem[],
+    signal?: AbortSignal,
+    onProgress?: StreamProgressHandler
+): Promise<string> {
+    const resolved = resolveAskConfigs()
+    return answerFromLibrary(
+        toClientConfig(resolved, resolved.defaultModel),
+        question,
+        items.map((item, i) => ({
+            n: i + 1,
+            title: item.title,
+            text: plainText(item).slice(0, SOURCE_CHARS),
+        })),
+        signal,
+        onProgress
+    )
+}
@@ -0,0 +1,217 @@
+/**
+ * Background summary and translation of newly fetched items.
+ *
+ * Items flagged by a source rule (`autoSummarize` / `autoTranslate`) are
+ * processed right after they are inserted, without waiting for the article
+ * to be opened. Results go to the AI cache under the same keys the article
+ * view reads, so an opened article shows them at once, even offline.
+ * Renderer only.
+ */
+
+import { AIConfigs, AITask } from "../../../schema-types"
+import type { RSSItem } from "../item"
+import type { RSSSource, SourceState } from "../source"
+import { domParser } from "../../utils"
+import { summarizeArticle, translateText, translateTextByParagraph } from "./aiClient"
+import type { AiConfig } from "./aiClient"
+import { isProviderConfigured } from "./aiProviders"
+import { getSourceAIOverrides, resolveTaskConfigs } from "./aiProfiles"
+import { articleCacheKeys, ArticleCacheKeys, legacyCacheKey } from "./aiCacheKey"
+import { isMonthlyBudgetExceeded } from "./aiUsage"
+import { detectLanguage, resolveSummaryLanguage, resolveTranslation } from "./langDetect"
+import { JobQueue } from "./aiQueue"
+import { articlePromptVariables } from "./aiPrompts"
+
+type AIJob = {
+    kind: "summary" | "translation"
+    item: RSSItem
+    source: RSSSource
+}
+
+const isFailedTranslation = (text: string) =>
+    !text || text.includes("[翻译失败") || text.includes("Translation failed")
+
+/**
+ * Paragraphs of an article body, picked the way the article view marks them
+ * for translation (see getMarkParagraphsScript) so that cached translations
+ * line up with the rendered page.
+ */
+function extractParagraphs(html: string): string[] {
+    const doc = domParser.parseFromString(html || "", "text/html")
+    const textOf = (el: Element) => (el.textContent || "").replace(/\s+/g, " ").trim()
+    const isContainer = (el: Element) =>
+        !!el.querySelector("p,h1,h2,h3,h4,h5,h6,li,blockquote,td,th,ul,ol,table,article,section") ||
+        Array.from(el.querySelectorAll("div")).some(div => textOf(div).length > 10)
+    const marked = new Set<Element>()
+    const texts: string[] = []
+    const blocks = doc.body.querySelectorAll(
+        "p, h1, h2, h3, h4, h5, h6, li, blockquote, td, th, div, section, span"
+    )
+    for (const el of Array.from(blocks)) {
+        if (el.closest("pre")) continue
+        const tag = el.tagName.toLowerCase()
+        if (["div", "section", "span", "blockquote", "li"].includes(tag) && isContainer(el))
+            continue
+        let parent = el.parentElement
+        while (parent && !marked.has(parent)) parent = parent.parentElement
+        if (parent) continue
+        if (textOf(el).length >= 10) {
+            marked.add(el)
+            texts.push(el.innerHTML)
+        }
+    }
+    return texts
+}
+
+async function summarize(job: AIJob, config: AiConfig, configs: AIConfigs, keys: ArticleCacheKeys) {
+    const { item } = job
+    const plain = (item.content || "").replace(/<[^>]*>/g, "").trim()
+    // Feeds that only ship a snippet are left to the article view, which
+    // can summarize the rendered page instead.
+    if (plain.length < 50) return
+    const content = `${item.title}\n\n${plain}`
+    const summaryLang = resolveSummaryLanguage(
+        configs.translateWhen,
+        configs.translateTarget,
+        detectLanguage(content)
+    )
+    const summary = await summarizeArticle(config, content, undefined, summaryLang)
+    if (!summary) return
+    const { key, model } = keys.summary
+    await window.settings.saveAICache({
+        key,
+        kind: "summary",
+        value: summary,
+        model,
+        title: item.title,
+    })
+}
+
+async function translate(
+    job: AIJob,
+    config: AiConfig,
+    configs: AIConfigs,
+    keys: ArticleCacheKeys,
+    lastAttempt: boolean
+) {
+    const { item } = job
+    const paragraphs = extractParagraphs(item.content)
+    if (paragraphs.length === 0) return
+    const sample = paragraphs
+        .slice(0, 5)
+        .join("\n")
+        .replace(/<[^>]*>/g, "")
+    const { shouldTranslate, targetLang } = resolveTranslation(
+        configs.translateWhen,
+        configs.translateTarget,
+        detectLanguage(sample)
+    )
+    if (!shouldTranslate) return
+
+    const results = await translateTextByParagraph(
+        config,
+        paragraphs,
+        undefined,
+        undefined,
+        targetLang
+    )
+    const translated = results.filter(t => !isFailedTranslation(t.translated))
+    // Retry the whole article rather than caching it with gaps, unless this
+    // was the last try: then keep what came through. Paragraphs that only
+    // missed glossary terms are cached with them; the article view offers
+    // to retry those.
+    if (translated.length < results.length && !lastAttempt) {
+        throw new Error(`${results.length - translated.length} paragraphs failed`)
+    }
+    if (translated.length === 0) return
+    await window.settings.saveAICache({
+        key: keys.translation.key,
+        kind: "translation",
+        value: JSON.stringify(translated),
+        model: keys.translation.model,
+        title: item.title,
+    })
+    const title = item.title?.trim()
+        ? await translateText(config, item.title, targetLang).catch(() => "")
+        : ""
+    if (title) {
+        await window.settings.saveAICache({
+            key: keys.titleTranslation.key,
+            kind: "titleTranslation",
+            value: title,
+            model: keys.titleTranslation.model,
+            title: item.title,
+        })
+    }
+}
+
+async function runJob(job: AIJob, _attempt: number, lastAttempt: boolean): Promise<void> {
+    const configs = window.settings.getAIConfigs()
+    if (!configs.enabled) return
+    const overrides = getSourceAIOverrides(job.source, window.settings.loadGroups())
+    if (job.kind === "translation" && overrides.skipTranslation) return
+    const summary = resolveTaskConfigs(configs, AITask.Summary, overrides)
+    const translation = resolveTaskConfigs(configs, AITask.Translation, overrides)
+    const resolved = job.kind === "summary" ? summary : translation
+    if (!isProviderConfigured(resolved)) return
+    if (await isMonthlyBudgetExceeded(configs)) return
+
+    const keys = articleCacheKeys(job.item, summary, translation)
+    if (await window.settings.getAICache(keys[job.kind].key)) return
+    // Output cached by older versions is re-keyed when the article is opened.
+    if (await window.settings.getAICache(legacyCacheKey(String(job.item._id), job.kind))) return
+
+    const task = job.kind === "summary" ? AITask.Summary : AITask.Translation
+    const config: AiConfig = {
+        baseUrl: resolved.baseUrl,
+        apiKey: resolved.apiKey,
+        provider: resolved.provider,
+        apiVersion: resolved.apiVersion,
+        defaultModel: resolved.defaultModel,
+        prompts: resolved.prompts,
+        promptVariables: articlePromptVariables(job.item, job.source.name),
+        glossary: resolved.glossary,
+        maxParagraphsPerRequest: resolved.maxParagraphsPerRequest,
+        maxTextLengthPerRequest: resolved.maxTextLengthPerRequest,
+        // The queue already runs `concurrency` jobs side by side; one
+        // request at a time per job keeps the total within the setting.
+        concurrency: 1,
+        usage: { task, sourceId: job.source.sid, sourceName: job.source.name },
+    }
+    if (job.kind === "summary") {
+        await summarize(job, config, resolved, keys)
+    } else {
+        await translate(job, config, resolved, keys, lastAttempt)
+    }
+    for (const listener of listeners) listener(job.item._id)
+}
+
+const listeners = new Set<(itemId: number) => void>()
+
+/**
+ * Be told when background work on an item has finished, e.g. to show its
+ * new summary on a card already on screen. Returns the unsubscriber.
+ */
+export function onItemPreprocessed(listener: (itemId: number) => void): () => void {
+    listeners.add(listener)
+    return () => listeners.delete(listener)
+}
+
+const queue = new JobQueue<AIJob>(runJob, {
+    concurrency: () => window.settings.getAIConfigs().concurrency || 5,
+})
+
+/** Queue background AI work for items a source rule flagged. */
+export function enqueueAIPreprocessing(items: RSSItem[], sources: SourceState): void {
+    if (!window.settings.getAIConfigs().enabled) return
+    for (const item of items) {
+        const source = sources[item.source]
+        if (!source) continue
+        if (item.autoSummarize === true) {
+            queue.push(`summary:${item._id}`, { kind: "summary", item, source })
+        }
+        if (item.autoTranslate === true) {
+            queue.push(`translation:${item._id}`, { kind: "translation", item, source })
+        }
+    }
+}
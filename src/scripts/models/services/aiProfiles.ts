@@ -0,0 +1,129 @@
+/**
+ * Named connection profiles and per-task routing on top of AIConfigs.
+ *
+ * The connection fields stored directly on AIConfigs act as the "default"
+ * profile, so configs saved before profiles existed keep working unchanged;
+ * `profiles` only holds the additional ones.
+ */
+
+import { AIConfigs, AIOverrides, AIProfile, AITask, SourceGroup } from "../../../schema-types"
+import { withPromptTemplates } from "./aiPrompts"
+
+export const DEFAULT_PROFILE_ID = "default"
+
+/** All profiles, the default one first. */
+export function listProfiles(configs: AIConfigs): AIProfile[] {
+    const defaultProfile: AIProfile = {
+        id: DEFAULT_PROFILE_ID,
+        name: "",
+        provider: configs.provider,
+        apiVersion: configs.apiVersion,
+        baseUrl: configs.baseUrl,
+        apiKey: configs.apiKey,
+        defaultModel: configs.defaultModel,
+        availableModels: configs.availableModels || [],
+    }
+    return [defaultProfile, ...(configs.profiles || [])]
+}
+
+/** The profile with the given id, or the default profile if there is none. */
+export function getProfile(configs: AIConfigs, id?: string): AIProfile {
+    const profiles = listProfiles(configs)
+    return profiles.find(p => p.id === id) || profiles[0]
+}
+
+/**
+ * Return a copy of `profile` applied to `configs`: written to the top-level
+ * fields for the default profile, or replacing the matching entry otherwise.
+ */
+export function putProfile(configs: AIConfigs, profile: AIProfile): AIConfigs {
+    if (profile.id === DEFAULT_PROFILE_ID) {
+        return {
+            ...configs,
+            provider: profile.provider,
+            apiVersion: profile.apiVersion,
+            baseUrl: profile.baseUrl,
+            apiKey: profile.apiKey,
+            defaultModel: profile.defaultModel,
+            availableModels: profile.availableModels,
+        }
+    }
+    const profiles = configs.profiles || []
+    const exists = profiles.some(p => p.id === profile.id)
+    return {
+        ...configs,
+        profiles: exists
+            ? profiles.map(p => (p.id === profile.id ? profile : p))
+            : [...profiles, profile],
+    }
+}
+
+/** Remove a non-default profile and any task routes pointing at it. */
+export function deleteProfile(configs: AIConfigs, id: string): AIConfigs {
+    if (id === DEFAULT_PROFILE_ID) return configs
+    const taskProfiles = { ...(configs.taskProfiles || {}) }
+    for (const task of Object.keys(taskProfiles) as AITask[]) {
+        if (taskProfiles[task] === id) delete taskProfiles[task]
+    }
+    return {
+        ...configs,
+        profiles: (configs.profiles || []).filter(p => p.id !== id),
+        taskProfiles,
+    }
+}
+
+/**
+ * The overrides in effect for a source: those of the groups containing it,
+ * with the source's own on top. Empty strings count as unset so a cleared
+ * field falls back instead of overriding with nothing.
+ */
+export function getSourceAIOverrides(
+    source: { sid: number; ai?: AIOverrides } | null | undefined,
+    groups: SourceGroup[]
+): AIOverrides {
+    if (!source) return {}
+    const merged: AIOverrides = {}
+    const layers = groups
+        .filter(g => g.isMultiple && g.sids.includes(source.sid))
+        .map(g => g.ai)
+        .concat(source.ai)
+    for (const layer of layers) {
+        if (!layer) continue
+        for (const [key, value] of Object.entries(layer)) {
+            if (value !== undefined && value !== null && value !== "") {
+                ;(merged as Record<string, unknown>)[key] = value
+            }
+        }
+    }
+    return merged
+}
+
+/**
+ * The configs to use for one task: everything from `configs` with the
+ * connection fields taken from the profile routed to that task and the
+ * prompts of the default templates, then any source/group overrides
+ * applied. An override profile replaces the task route.
+ */
+export function resolveTaskConfigs(
+    configs: AIConfigs,
+    task: AITask,
+    overrides: AIOverrides = {}
+): AIConfigs {
+    let resolved = configs
+    const profileId = overrides.profileId || configs.taskProfiles?.[task]
+    if (profileId && profileId !== DEFAULT_PROFILE_ID) {
+        const profile = getProfile(configs, profileId)
+        resolved = putProfile(configs, { ...profile, id: DEFAULT_PROFILE_ID })
+    }
+    resolved = withPromptTemplates(resolved, configs.defaultPromptTemplates || {})
+    if (overrides.translateTarget) {
+        resolved = { ...resolved, translateTarget: overrides.translateTarget }
+    }
+    if (overrides.summaryPrompt) {
+        resolved = {
+            ...resolved,
+            prompts: { ...resolved.prompts, summary: overrides.summaryPrompt },
+        }
+    }
+    return resolved
+}
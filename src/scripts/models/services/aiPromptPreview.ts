@@ -0,0 +1,113 @@
+/**
+ * Trying a prompt template out on an article from the library, before it is
+ * used for real. Renderer only.
+ */
+
+import intl from "react-intl-universal"
+import * as db from "../../db"
+import lf from "lovefield"
+import { AIPromptTemplate, AITask } from "../../../schema-types"
+import type { RSSItem } from "../item"
+import type { RSSSource } from "../source"
+import { summarizeArticle, translateText } from "./aiClient"
+import type { AiConfig, StreamProgressHandler } from "./aiClient"
+import { isProviderConfigured } from "./aiProviders"
+import { resolveTaskConfigs } from "./aiProfiles"
+import { articlePromptVariables, renderPrompt } from "./aiPrompts"
+import {
+    detectLanguage,
+    languageName,
+    resolveSummaryLanguage,
+    resolveTranslation,
+} from "./langDetect"
+
+export type PreviewArticle = {
+    item: RSSItem
+    sourceName: string
+}
+
+// Articles offered to try a template on.
+const PREVIEW_ARTICLES = 20
+// Characters of an article translated by a test run.
+const TRANSLATION_CHARS = 1000
+// Characters of {{content}} shown in a rendered preview.
+const PREVIEW_CONTENT_CHARS = 300
+
+const plainText = (item: RSSItem) =>
+    (item.content || "")
+        .replace(/<[^>]*>/g, " ")
+        .replace(/\s+/g, " ")
+        .trim()
+
+/** The text a template gets as {{content}}. */
+function contentFor(template: AIPromptTemplate, item: RSSItem): string {
+    return template.task === "summary"
+        ? `${item.title}\n\n${plainText(item)}`
+        : plainText(item).slice(0, TRANSLATION_CHARS)
+}
+
+/** The language {{targetLang}} stands for with the current settings. */
+function targetLangFor(template: AIPromptTemplate, content: string): string {
+    const configs = window.settings.getAIConfigs()
+    const detected = detectLanguage(content)
+    return template.task === "summary"
+        ? resolveSummaryLanguage(configs.translateWhen, configs.translateTarget, detected)
+        : resolveTranslation(configs.translateWhen, configs.translateTarget, detected).targetLang
+}
+
+/** The newest articles, with the names of their sources. */
+export async function loadPreviewArticles(): Promise<PreviewArticle[]> {
+    const items = (await db.itemsDB
+        .select()
+        .from(db.items)
+        .orderBy(db.items.date, lf.Order.DESC)
+        .limit(PREVIEW_ARTICLES)
+        .exec()) as RSSItem[]
+    const sources = (await db.sourcesDB.select().from(db.sources).exec()) as RSSSource[]
+    const names = new Map(sources.map(source => [source.sid, source.name]))
+    return items.map(item => ({ item, sourceName: names.get(item.source) || "" }))
+}
+
+/** `template` as it would be sent for `article`, its content shortened. */
+export function previewPrompt(template: AIPromptTemplate, article: PreviewArticle): string {
+    const content = contentFor(template, article.item)
+    return renderPrompt(template.prompt, {
+        ...articlePromptVariables(article.item, article.sourceName),
+        targetLang: languageName(targetLangFor(template, content)),
+        content:
+            content.length > PREVIEW_CONTENT_CHARS
+                ? `${content.slice(0, PREVIEW_CONTENT_CHARS)}…`
+                : content,
+    })
+}
+
+/**
+ * Run `template` on `article` through the profile routed to its task,
+ * streaming the reply to `onProgress`.
+ */
+export async function testPromptTemplate(
+    template: AIPromptTemplate,
+    article: PreviewArticle,
+    signal: AbortSignal,
+    onProgress: StreamProgressHandler
+): Promise<string> {
+    const task = template.task === "summary" ? AITask.Summary : AITask.Translation
+    const resolved = resolveTaskConfigs(window.settings.getAIConfigs(), task)
+    if (!isProviderConfigured(resolved)) throw new Error(intl.get("ai.errorMissingConfig"))
+    const content = contentFor(template, article.item)
+    const config: AiConfig = {
+        baseUrl: resolved.baseUrl,
+        apiKey: resolved.apiKey,
+        provider: resolved.provider,
+        apiVersion: resolved.apiVersion,
+        defaultModel: resolved.defaultModel,
+        prompts: { [template.task]: template.prompt },
+        promptVariables: articlePromptVariables(article.item, article.sourceName),
+        glossary: resolved.glossary,
+        usage: { task, sourceId: article.item.source, sourceName: article.sourceName },
+    }
+    const targetLang = targetLangFor(template, content)
+    return template.task === "summary"
+        ? await summarizeArticle(config, content, signal, targetLang, onProgress)
+        : await translateText(config, content, targetLang, signal, onProgress)
+}
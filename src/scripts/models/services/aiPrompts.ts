@@ -0,0 +1,129 @@
+/**
+ * The prompt library: named prompt templates for the summary and
+ * translation tasks, with variables filled in per request.
+ *
+ * Templates are rendered in two steps. The article's title, source and date
+ * are known where the request is made (see articlePromptVariables); the
+ * target language and the content once aiClient.ts builds the request and
+ * has capped the content. A variable no step knows is left as written.
+ */
+
+import { AIConfigs, AIPromptTemplate } from "../../../schema-types"
+
+export const PROMPT_VARIABLES = ["title", "source", "date", "targetLang", "content"] as const
+
+export type PromptVariables = { [name in typeof PROMPT_VARIABLES[number]]?: string }
+
+export type PromptTask = AIPromptTemplate["task"]
+
+const BUILTIN_PREFIX = "builtin:"
+
+/** Presets offered next to the reader's own templates; never stored. */
+export const BUILTIN_PROMPT_TEMPLATES: AIPromptTemplate[] = [
+    {
+        id: `${BUILTIN_PREFIX}bullets`,
+        name: "Bullet summary",
+        task: "summary",
+        prompt: 'Summarize the article "{{title}}" as 3 to 5 short bullet points covering its key facts and conclusions. Write in {{targetLang}} and output only the bullet points.',
+    },
+    {
+        id: `${BUILTIN_PREFIX}eli5`,
+        name: "ELI5",
+        task: "summary",
+        prompt: 'Explain what the article "{{title}}" is about as if to a curious ten-year-old: plain words, short sentences, an everyday comparison if it helps, under 120 words. Write in {{targetLang}}.',
+    },
+    {
+        id: `${BUILTIN_PREFIX}quotes`,
+        name: "Key quotes",
+        task: "summary",
+        prompt: "Pick the three most telling quotes from the article below, copied word for word, each followed by one line on why it matters. Write those lines in {{targetLang}}.\n\n{{content}}",
+    },
+]
+
+export const isBuiltinTemplate = (id: string) => id.startsWith(BUILTIN_PREFIX)
+
+/** The presets and the reader's templates, optionally for one task only. */
+export function listPromptTemplates(configs: AIConfigs, task?: PromptTask): AIPromptTemplate[] {
+    return [...BUILTIN_PROMPT_TEMPLATES, ...(configs.promptTemplates || [])].filter(
+        template => !task || template.task === task
+    )
+}
+
+export function getPromptTemplate(configs: AIConfigs, id?: string): AIPromptTemplate | undefined {
+    return id ? listPromptTemplates(configs).find(template => template.id === id) : undefined
+}
+
+/**
+ * The configs with the prompt of each task replaced by the template picked
+ * for it. A pick of another task's template, or of one since deleted,
+ * leaves that prompt alone.
+ */
+export function withPromptTemplates(
+    configs: AIConfigs,
+    picks: { [task in PromptTask]?: string }
+): AIConfigs {
+    let prompts = configs.prompts
+    for (const task of ["summary", "translation"] as PromptTask[]) {
+        const template = getPromptTemplate(configs, picks[task])
+        if (template && template.task === task) prompts = { ...prompts, [task]: template.prompt }
+    }
+    return prompts === configs.prompts ? configs : { ...configs, prompts }
+}
+
+const variablePattern = (name: string) => new RegExp(`\\{\\{\\s*${name}\\s*\\}\\}`, "g")
+
+export const usesVariable = (template: string, name: keyof PromptVariables) =>
+    variablePattern(name).test(template)
+
+/** Fill in the variables given in `values`; the others stay as written. */
+export function renderPrompt(template: string, values: PromptVariables): string {
+    return template.replace(variablePattern("(\\w+)"), (match, name: string) => {
+        const value = Object.prototype.hasOwnProperty.call(values, name)
+            ? values[name as keyof PromptVariables]
+            : undefined
+        return typeof value === "string" ? value : match
+    })
+}
+
+const pad = (n: number) => String(n).padStart(2, "0")
+
+/** {{title}}, {{source}} and {{date}} (local, YYYY-MM-DD) of an article. */
+export function articlePromptVariables(
+    item: { title: string; date: Date },
+    sourceName = ""
+): PromptVariables {
+    const { date } = item
+    return {
+        title: item.title,
+        source: sourceName,
+        date: `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`,
+    }
+}
+
+/** The reader's templates as an exported file. */
+export function exportPromptTemplates(templates: AIPromptTemplate[]): string {
+    return JSON.stringify(
+        templates.map(({ name, task, prompt }) => ({ name, task, prompt })),
+        null,
+        4
+    )
+}
+
+/**
+ * Templates of an exported file, each given a new id. Entries that are not
+ * a template are skipped; text that is not a JSON list of them throws.
+ */
+export function parsePromptTemplates(text: string, newId: () => string): AIPromptTemplate[] {
+    const data: unknown = JSON.parse(text)
+    if (!Array.isArray(data)) throw new Error("Not a list of prompt templates")
+    const templates: AIPromptTemplate[] = []
+    for (const entry of data) {
+        if (!entry || typeof entry !== "object") continue
+        const { name, task, prompt } = entry as Record<string, unknown>
+        if (typeof name !== "string" || !name.trim()) continue
+        if (task !== "summary" && task !== "translation") continue
+        if (typeof prompt !== "string" || !prompt.trim()) continue
+        templates.push({ id: newId(), name: name.trim(), task, prompt })
+    }
+    return templates
+}
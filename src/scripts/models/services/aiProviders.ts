@@ -0,0 +1,378 @@
+/**
+ * Per-provider request/response mapping for the AI client.
+ *
+ * aiClient.ts speaks in OpenAI chat terms (messages + temperature +
+ * max_tokens); each adapter here translates that into the provider's own
+ * endpoint, auth headers and body shape, and maps the reply (full, streamed,
+ * model listing and, where offered, embeddings and speech) back.
+ */
+
+import { AIProvider } from "../../../schema-types"
+import type { AiConfig, ChatCompletionRequest } from "./aiClient"
+import type { TokenUsage } from "./aiUsage"
+
+/** What one streamed event contributed. */
+export interface StreamChunk {
+    delta?: string
+    done?: boolean
+    error?: string
+    // Token counts reported so far; later chunks overwrite earlier fields.
+    usage?: Partial<TokenUsage>
+}
+
+export interface ProviderAdapter {
+    /** "sse" for `data:` event streams, "ndjson" for one JSON object per line. */
+    streamFormat: "sse" | "ndjson"
+    /** Whether requests are rejected without an API key. */
+    requiresApiKey: boolean
+    chatUrl(config: AiConfig): string
+    modelsUrl(config: AiConfig): string
+    headers(config: AiConfig): Record<string, string>
+    chatBody(config: AiConfig, request: ChatCompletionRequest, stream: boolean): object
+    /** Extract the reply text from a non-streamed response, or null if malformed. */
+    parseChat(data: unknown): string | null
+    parseStreamChunk(data: unknown): StreamChunk
+    /** Token counts of a non-streamed response, or null if not reported. */
+    parseUsage(data: unknown): TokenUsage | null
+    parseModels(data: unknown): string[]
+    /** Embeddings endpoint; left out by providers that have none. */
+    embeddingsUrl?(config: AiConfig): string
+    embeddingsBody?(config: AiConfig, inputs: string[]): object
+    /** One vector per input, in input order, or null if malformed. */
+    parseEmbeddings?(data: unknown): number[][] | null
+    /** Text-to-speech endpoint, replying with audio; left out where there is none. */
+    speechUrl?(config: AiConfig): string
+    speechBody?(config: AiConfig, input: string, voice: string): object
+}
+
+export const DEFAULT_AZURE_API_VERSION = "2024-06-01"
+// The deployments listing was dropped from newer data-plane versions, so the
+// model list always uses the last version that still serves it.
+const AZURE_DEPLOYMENTS_API_VERSION = "2022-12-01"
+const ANTHROPIC_VERSION = "2023-06-01"
+
+/** Default base URL suggested in settings for each provider. */
+export const PROVIDER_BASE_URLS: { [p in AIProvider]: string } = {
+    [AIProvider.OpenAI]: "https://api.openai.com/v1",
+    [AIProvider.Anthropic]: "https://api.anthropic.com/v1",
+    [AIProvider.Ollama]: "http://localhost:11434",
+    [AIProvider.Azure]: "https://YOUR-RESOURCE.openai.azure.com",
+}
+
+type AnyRecord = Record<string, unknown>
+const asRecord = (v: unknown): AnyRecord => (v && typeof v === "object" ? (v as AnyRecord) : {})
+
+const trimSlash = (url: string) => (url || "").replace(/\/+$/, "")
+
+function openAIModels(data: unknown): string[] {
+    const rec = asRecord(data)
+    if (Array.isArray(rec.data)) {
+        return rec.data.map(m => asRecord(m).id as string).filter(Boolean)
+    }
+    if (Array.isArray(data)) {
+        return data
+            .map(m => (asRecord(m).id || asRecord(m).name) as string)
+            .filter((id): id is string => Boolean(id))
+    }
+    return []
+}
+
+function openAIChat(data: unknown): string | null {
+    const choices = asRecord(data).choices
+    if (Array.isArray(choices) && choices.length > 0) {
+        return (asRecord(asRecord(choices[0]).message).content as string) || ""
+    }
+    return null
+}
+
+const count = (v: unknown): number | undefined => (typeof v === "number" ? v : undefined)
+
+function openAIUsage(data: unknown): TokenUsage | null {
+    const usage = asRecord(data).usage
+    if (!usage) return null
+    return {
+        promptTokens: count(asRecord(usage).prompt_tokens) || 0,
+        completionTokens: count(asRecord(usage).completion_tokens) || 0,
+    }
+}
+
+function openAIEmbeddings(data: unknown): number[][] | null {
+    const rows = asRecord(data).data
+    if (!Array.isArray(rows)) return null
+    return rows
+        .map(row => asRecord(row))
+        .sort((a, b) => ((a.index as number) || 0) - ((b.index as number) || 0))
+        .map(row => row.embedding as number[])
+}
+
+function openAIStreamChunk(data: unknown): StreamChunk {
+    const rec = asRecord(data)
+    if (rec.error) {
+        return { error: String(asRecord(rec.error).message || JSON.stringify(rec.error)) }
+    }
+    const choice = Array.isArray(rec.choices) ? asRecord(rec.choices[0]) : {}
+    const delta = asRecord(choice.delta).content ?? asRecord(choice.message).content
+    const chunk: StreamChunk = { delta: typeof delta === "string" ? delta : "" }
+    // Sent in a final chunk with no choices when include_usage is requested.
+    const usage = openAIUsage(data)
+    if (usage) chunk.usage = usage
+    return chunk
+}
+
+const openAIAdapter: ProviderAdapter = {
+    streamFormat: "sse",
+    requiresApiKey: true,
+    chatUrl: config => `${config.baseUrl}/chat/completions`,
+    modelsUrl: config => `${config.baseUrl}/models`,
+    headers: config => ({
+        "Authorization": `Bearer ${config.apiKey}`,
+        "Content-Type": "application/json",
+    }),
+    chatBody: (config, request, stream) => ({
+        model: request.model || config.defaultModel,
+        messages: request.messages,
+        temperature: request.temperature ?? 0.7,
+        max_tokens: request.max_tokens ?? 2000,
+        stream,
+        ...(stream ? { stream_options: { include_usage: true } } : {}),
+    }),
+    parseChat: openAIChat,
+    parseStreamChunk: openAIStreamChunk,
+    parseUsage: openAIUsage,
+    parseModels: openAIModels,
+    embeddingsUrl: config => `${config.baseUrl}/embeddings`,
+    embeddingsBody: (config, inputs) => ({ model: config.defaultModel, input: inputs }),
+    parseEmbeddings: openAIEmbeddings,
+    speechUrl: config => `${config.baseUrl}/audio/speech`,
+    speechBody: (config, input, voice) => ({
+        model: config.defaultModel,
+        input,
+        voice,
+        response_format: "mp3",
+    }),
+}
+
+/**
+ * Azure OpenAI: same payloads as OpenAI, but the deployment name lives in the
+ * path, the API version in the query string and the key in `api-key`.
+ * stream_options is left out because older API versions reject it, so
+ * streamed calls go unaccounted there.
+ * baseUrl is the resource endpoint, e.g. https://my-res.openai.azure.com.
+ */
+const azureAdapter: ProviderAdapter = {
+    ...openAIAdapter,
+    chatUrl: config =>
+        `${trimSlash(config.baseUrl)}/openai/deployments/${encodeURIComponent(
+            config.defaultModel
+        )}/chat/completions?api-version=${encodeURIComponent(
+            config.apiVersion || DEFAULT_AZURE_API_VERSION
+        )}`,
+    modelsUrl: config =>
+        `${trimSlash(
+            config.baseUrl
+        )}/openai/deployments?api-version=${AZURE_DEPLOYMENTS_API_VERSION}`,
+    headers: config => ({
+        "api-key": config.apiKey,
+        "Content-Type": "application/json",
+    }),
+    chatBody: (_config, request, stream) => ({
+        messages: request.messages,
+        temperature: request.temperature ?? 0.7,
+        max_tokens: request.max_tokens ?? 2000,
+        stream,
+    }),
+    embeddingsUrl: config =>
+        `${trimSlash(config.baseUrl)}/openai/deployments/${encodeURIComponent(
+            config.defaultModel
+        )}/embeddings?api-version=${encodeURIComponent(
+            config.apiVersion || DEFAULT_AZURE_API_VERSION
+        )}`,
+    embeddingsBody: (_config, inputs) => ({ input: inputs }),
+    speechUrl: config =>
+        `${trimSlash(config.baseUrl)}/openai/deployments/${encodeURIComponent(
+            config.defaultModel
+        )}/audio/speech?api-version=${encodeURIComponent(
+            config.apiVersion || DEFAULT_AZURE_API_VERSION
+        )}`,
+}
+
+function anthropicUsage(usage: unknown): Partial<TokenUsage> {
+    const rec = asRecord(usage)
+    const result: Partial<TokenUsage> = {}
+    if (count(rec.input_tokens) !== undefined) result.promptTokens = count(rec.input_tokens)
+    if (count(rec.output_tokens) !== undefined) result.completionTokens = count(rec.output_tokens)
+    return result
+}
+
+/**
+ * Anthropic Messages API. System prompts are a top-level field rather than a
+ * message, replies are a list of content blocks, and streaming uses typed SSE
+ * events (content_block_delta / message_stop / error).
+ */
+const anthropicAdapter: ProviderAdapter = {
+    streamFormat: "sse",
+    requiresApiKey: true,
+    chatUrl: config => `${trimSlash(config.baseUrl)}/messages`,
+    modelsUrl: config => `${trimSlash(config.baseUrl)}/models`,
+    headers: config => ({
+        "x-api-key": config.apiKey,
+        "anthropic-version": ANTHROPIC_VERSION,
+        // Requests come from the renderer, which Anthropic treats as a
+        // browser and rejects via CORS unless this opt-in is present.
+        "anthropic-dangerous-direct-browser-access": "true",
+        "Content-Type": "application/json",
+    }),
+    chatBody: (config, request, stream) => {
+        const system = request.messages
+            .filter(m => m.role === "system")
+            .map(m => m.content)
+            .join("\n\n")
+        const body: AnyRecord = {
+            model: request.model || config.defaultModel,
+            messages: request.messages
+                .filter(m => m.role !== "system")
+                .map(m => ({ role: m.role, content: m.content })),
+            temperature: request.temperature ?? 0.7,
+            max_tokens: request.max_tokens ?? 2000,
+            stream,
+        }
+        if (system) body.system = system
+        return body
+    },
+    parseChat: data => {
+        const content = asRecord(data).content
+        if (!Array.isArray(content)) return null
+        return content
+            .map(block => asRecord(block))
+            .filter(block => block.type === "text")
+            .map(block => block.text as string)
+            .join("")
+    },
+    parseStreamChunk: data => {
+        const rec = asRecord(data)
+        switch (rec.type) {
+            case "content_block_delta": {
+                const text = asRecord(rec.delta).text
+                return { delta: typeof text === "string" ? text : "" }
+            }
+            case "message_start":
+                return { usage: anthropicUsage(asRecord(rec.message).usage) }
+            case "message_delta":
+                // output_tokens here is the running total for the message.
+                return { usage: anthropicUsage(rec.usage) }
+            case "message_stop":
+                return { done: true }
+            case "error":
+                return { error: String(asRecord(rec.error).message || "stream error") }
+            default:
+                return {}
+        }
+    },
+    parseUsage: data => {
+        const usage = asRecord(data).usage
+        return usage ? (anthropicUsage(usage) as TokenUsage) : null
+    },
+    parseModels: openAIModels,
+}
+
+// Ollama reports token counts on the final message only.
+function ollamaUsage(data: unknown): TokenUsage {
+    const rec = asRecord(data)
+    return {
+        promptTokens: count(rec.prompt_eval_count) || 0,
+        completionTokens: count(rec.eval_count) || 0,
+    }
+}
+
+/**
+ * Ollama's native API (/api/chat, /api/tags). No key is needed for a local
+ * server; one is still sent as a Bearer token when configured, for setups
+ * behind an authenticating proxy. Streams are newline-delimited JSON.
+ */
+const ollamaAdapter: ProviderAdapter = {
+    streamFormat: "ndjson",
+    requiresApiKey: false,
+    chatUrl: config => `${trimSlash(config.baseUrl)}/api/chat`,
+    modelsUrl: config => `${trimSlash(config.baseUrl)}/api/tags`,
+    headers: config => {
+        const headers: Record<string, string> = { "Content-Type": "application/json" }
+        if (config.apiKey) headers.Authorization = `Bearer ${config.apiKey}`
+        return headers
+    },
+    chatBody: (config, request, stream) => ({
+        model: request.model || config.defaultModel,
+        messages: request.messages,
+        stream,
+        options: {
+            temperature: request.temperature ?? 0.7,
+            num_predict: request.max_tokens ?? 2000,
+        },
+    }),
+    parseChat: data => {
+        const message = asRecord(data).message
+        if (!message) return null
+        return (asRecord(message).content as string) || ""
+    },
+    parseStreamChunk: data => {
+        const rec = asRecord(data)
+        if (rec.error) return { error: String(rec.error) }
+        const content = asRecord(rec.message).content
+        const chunk: StreamChunk = {
+            delta: typeof content === "string" ? content : "",
+            done: rec.done === true,
+        }
+        if (rec.done === true) chunk.usage = ollamaUsage(data)
+        return chunk
+    },
+    parseUsage: data => (asRecord(data).done === true ? ollamaUsage(data) : null),
+    parseModels: data => {
+        const models = asRecord(data).models
+        if (!Array.isArray(models)) return []
+        return models
+            .map(m => (asRecord(m).name || asRecord(m).model) as string)
+            .filter((id): id is string => Boolean(id))
+    },
+    embeddingsUrl: config => `${trimSlash(config.baseUrl)}/api/embed`,
+    embeddingsBody: (config, inputs) => ({ model: config.defaultModel, input: inputs }),
+    parseEmbeddings: data => {
+        const embeddings = asRecord(data).embeddings
+        return Array.isArray(embeddings) ? (embeddings as number[][]) : null
+    },
+}
+
+const adapters: { [p in AIProvider]: ProviderAdapter } = {
+    [AIProvider.OpenAI]: openAIAdapter,
+    [AIProvider.Anthropic]: anthropicAdapter,
+    [AIProvider.Ollama]: ollamaAdapter,
+    [AIProvider.Azure]: azureAdapter,
+}
+
+export function getProviderAdapter(provider?: AIProvider): ProviderAdapter {
+    return adapters[provider] || openAIAdapter
+}
+
+/**
+ * Whether enough is configured to reach the provider, e.g. to list its
+ * models: a base URL, plus an API key for providers that need one.
+ */
+export function canReachProvider(config: {
+    provider?: AIProvider
+    baseUrl?: string
+    apiKey?: string
+}): boolean {
+    if (!config.baseUrl) return false
+    return !getProviderAdapter(config.provider).requiresApiKey || Boolean(config.apiKey)
+}
+
+/**
+ * Whether enough is configured to make requests: the provider can be reached
+ * and a model is chosen (for Azure, the deployment).
+ */
+export function isProviderConfigured(config: {
+    provider?: AIProvider
+    baseUrl?: string
+    apiKey?: string
+    defaultModel?: string
+}): boolean {
+    return canReachProvider(config) && Boolean(config.defaultModel)
+}
@@ -0,0 +1,137 @@
+/**
+ * A small keyed job queue with a concurrency limit and retries.
+ *
+ * Jobs are deduplicated by key while queued, running or waiting for a retry.
+ * A job that throws is retried after an exponential backoff with jitter;
+ * while it waits it does not hold a concurrency slot. Aborts are not retried.
+ */
+
+export interface JobQueueOptions {
+    // Read on every scheduling pass, so a changed setting applies at once.
+    concurrency: number | (() => number)
+    maxAttempts?: number
+    baseDelay?: number
+    maxDelay?: number
+}
+
+/**
+ * Runs one job. `attempt` counts from 1; on the last attempt the runner can
+ * settle for a partial result instead of throwing for another try.
+ */
+export type JobRunner<T> = (job: T, attempt: number, lastAttempt: boolean) => Promise<void>
+
+interface QueuedJob<T> {
+    key: string
+    job: T
+    attempt: number
+}
+
+const DEFAULT_MAX_ATTEMPTS = 3
+const DEFAULT_BASE_DELAY = 5000
+const DEFAULT_MAX_DELAY = 5 * 60 * 1000
+
+/** Delay before retry number `attempt` (1-based): doubling, capped, jittered. */
+export function backoffDelay(
+    attempt: number,
+    baseDelay = DEFAULT_BASE_DELAY,
+    maxDelay = DEFAULT_MAX_DELAY,
+    random = Math.random
+): number {
+    const delay = Math.min(maxDelay, baseDelay * Math.pow(2, attempt - 1))
+    // Jitter keeps jobs that failed together from retrying in lockstep.
+    return Math.round(delay * (0.5 + random() / 2))
+}
+
+const isAbort = (error: unknown) => (error as Error)?.name === "AbortError"
+
+export class JobQueue<T> {
+    private pending = new Array<QueuedJob<T>>()
+    private keys = new Set<string>()
+    private timers = new Set<ReturnType<typeof setTimeout>>()
+    private active = 0
+    private idleWaiters = new Array<() => void>()
+
+    constructor(private run: JobRunner<T>, private options: JobQueueOptions) {}
+
+    /** Queue a job unless one with the same key is already in the queue. */
+    push(key: string, job: T): boolean {
+        if (this.keys.has(key)) return false
+        this.keys.add(key)
+        this.pending.push({ key, job, attempt: 1 })
+        this.schedule()
+        return true
+    }
+
+    has(key: string): boolean {
+        return this.keys.has(key)
+    }
+
+    /** Jobs queued, running or waiting for a retry. */
+    get size(): number {
+        return this.keys.size
+    }
+
+    /** Drop queued jobs and pending retries; running jobs finish. */
+    clear(): void {
+        for (const timer of this.timers) clearTimeout(timer)
+        this.timers.clear()
+        this.pending = []
+        this.keys.clear()
+        this.checkIdle()
+    }
+
+    /** Resolves once nothing is queued, running or waiting for a retry. */
+    idle(): Promise<void> {
+        if (this.keys.size === 0 && this.active === 0) return Promise.resolve()
+        return new Promise(resolve => this.idleWaiters.push(resolve))
+    }
+
+    private concurrency(): number {
+        const { concurrency } = this.options
+        const value = typeof concurrency === "function" ? concurrency() : concurrency
+        return Math.max(1, value || 1)
+    }
+
+    private schedule() {
+        while (this.active < this.concurrency() && this.pending.length > 0) {
+            this.start(this.pending.shift())
+        }
+    }
+
+    private async start(queued: QueuedJob<T>) {
+        const maxAttempts = this.options.maxAttempts || DEFAULT_MAX_ATTEMPTS
+        this.active += 1
+        let retry = false
+        try {
+            await this.run(queued.job, queued.attempt, queued.attempt >= maxAttempts)
+        } catch (error) {
+            if (!isAbort(error) && queued.attempt < maxAttempts && this.keys.has(queued.key)) {
+                retry = true
+                console.warn(`[AIQueue] ${queued.key} failed (attempt ${queued.attempt}):`, error)
+            } else if (!isAbort(error)) {
+                console.warn(`[AIQueue] ${queued.key} gave up:`, error)
+            }
+        }
+        this.active -= 1
+        if (retry) {
+            const timer = setTimeout(() => {
+                this.timers.delete(timer)
+                if (!this.keys.has(queued.key)) return
+                this.pending.push({ ...queued, attempt: queued.attempt + 1 })
+                this.schedule()
+            }, backoffDelay(queued.attempt, this.options.baseDelay, this.options.maxDelay))
+            this.timers.add(timer)
+        } else {
+            this.keys.delete(queued.key)
+        }
+        this.schedule()
+        this.checkIdle()
+    }
+
+    private checkIdle() {
+        if (this.keys.size > 0 || this.active > 0) return
+        const waiters = this.idleWaiters
+        this.idleWaiters = []
+        for (const resolve of waiters) resolve()
+    }
+}
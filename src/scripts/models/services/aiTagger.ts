@@ -0,0 +1,106 @@
+/**
+ * Background tagging of newly fetched items.
+ *
+ * Items flagged by a source rule (`autoTag`) get the tags of the reader's
+ * vocabulary that the model finds apply. The choice is cached by article
+ * content (see tagsCacheKey), so the same article fetched again, or from
+ * another source, is tagged without another request. Renderer only.
+ */
+
+import * as db from "../../db"
+import { AITask } from "../../../schema-types"
+import type { RSSItem } from "../item"
+import type { RSSSource, SourceState } from "../source"
+import { suggestTags } from "./aiClient"
+import type { AiConfig } from "./aiClient"
+import { isProviderConfigured } from "./aiProviders"
+import { getSourceAIOverrides, resolveTaskConfigs } from "./aiProfiles"
+import { tagsCacheKey } from "./aiCacheKey"
+import { isMonthlyBudgetExceeded } from "./aiUsage"
+import { formatTags, parseTags } from "./aiTags"
+import { JobQueue } from "./aiQueue"
+
+// Characters of an article the model reads to tag it.
+const TAGGED_CHARS = 1500
+
+type TagJob = {
+    item: RSSItem
+    source: RSSSource
+    // Called with the item's tags column once it is stored.
+    done: (tags: string) => void
+}
+
+const plainText = (item: RSSItem) =>
+    (item.snippet || (item.content || "").replace(/<[^>]*>/g, " ")).replace(/\s+/g, " ").trim()
+
+async function chooseTags(job: TagJob, vocabulary: string[]): Promise<string[] | null> {
+    const configs = window.settings.getAIConfigs()
+    const overrides = getSourceAIOverrides(job.source, window.settings.loadGroups())
+    const resolved = resolveTaskConfigs(configs, AITask.Tagging, overrides)
+    if (!isProviderConfigured(resolved)) return null
+
+    const key = tagsCacheKey(job.item, vocabulary, resolved.defaultModel)
+    const cached = await window.settings.getAICache(key)
+    if (cached) return parseTags(cached.value, vocabulary)
+    if (await isMonthlyBudgetExceeded(configs)) return null
+
+    const config: AiConfig = {
+        baseUrl: resolved.baseUrl,
+        apiKey: resolved.apiKey,
+        provider: resolved.provider,
+        apiVersion: resolved.apiVersion,
+        defaultModel: resolved.defaultModel,
+        usage: { task: AITask.Tagging, sourceId: job.source.sid, sourceName: job.source.name },
+    }
+    const text = `${job.item.title}\n\n${plainText(job.item)}`.slice(0, TAGGED_CHARS)
+    const tags = parseTags(await suggestTags(config, text, vocabulary), vocabulary)
+    await window.settings.saveAICache({
+        key,
+        kind: "tags",
+        value: JSON.stringify(tags),
+        model: resolved.defaultModel,
+        title: job.item.title,
+    })
+    return tags
+}
+
+async function runJob(job: TagJob): Promise<void> {
+    const configs = window.settings.getAIConfigs()
+    const vocabulary = configs.tagVocabulary || []
+    if (!configs.enabled || vocabulary.length === 0) return
+    const tags = await chooseTags(job, vocabulary)
+    if (tags === null) return
+    const field = formatTags(tags)
+    await db.itemsDB
+        .update(db.items)
+        .set(db.items.tags, field)
+        .where(db.items._id.eq(job.item._id))
+        .exec()
+    job.done(field)
+}
+
+const queue = new JobQueue<TagJob>(runJob, {
+    concurrency: () => window.settings.getAIConfigs().concurrency || 5,
+})
+
+/**
+ * Queue tagging for items a source rule flagged; `onTagged` is called with
+ * each item and its stored tags column.
+ */
+export function enqueueTagging(
+    items: RSSItem[],
+    sources: SourceState,
+    onTagged: (item: RSSItem, tags: string) => void
+): void {
+    const configs = window.settings.getAIConfigs()
+    if (!configs.enabled || !configs.tagVocabulary?.length) return
+    for (const item of items) {
+        const source = sources[item.source]
+        if (!source || item.autoTag !== true) continue
+        queue.push(`tags:${item._id}`, {
+            item,
+            source,
+            done: tags => onTagged(item, tags),
+        })
+    }
+}
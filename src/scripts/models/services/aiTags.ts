@@ -0,0 +1,67 @@
+/**
+ * Tags from the reader's vocabulary, assigned to items by the model.
+ *
+ * An item's tags are stored in one string column, comma-delimited on both
+ * ends (",Rust,Databases,"), so that feeds can select a tag with a plain
+ * lovefield match and full-text searches reach the tags too. An empty
+ * string means the item was tagged and nothing applied; null means it was
+ * never tagged.
+ */
+
+// Tags the model may give one article.
+const MAX_TAGS = 5
+const MAX_TAG_LENGTH = 40
+
+/** A tag name as the vocabulary keeps it: trimmed, without commas. */
+export function normalizeTag(name: string): string {
+    return name.replace(/,/g, " ").replace(/\s+/g, " ").trim().slice(0, MAX_TAG_LENGTH)
+}
+
+export function formatTags(tags: string[]): string {
+    return tags.length > 0 ? `,${tags.join(",")},` : ""
+}
+
+/** The tags of an item's tags column. */
+export function itemTags(field?: string): string[] {
+    return field ? field.split(",").filter(Boolean) : []
+}
+
+function escapeRegExp(text: string) {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
+
+/** Matches a tags column that holds the tag. */
+export function tagRegex(tag: string): RegExp {
+    return new RegExp(`,${escapeRegExp(tag)},`, "i")
+}
+
+/**
+ * Read the tags the model chose: a JSON array if the reply has one, else
+ * its lines or commas. Only vocabulary tags are kept, in the vocabulary's
+ * spelling.
+ */
+export function parseTags(reply: string, vocabulary: string[]): string[] {
+    const known = new Map(vocabulary.map(tag => [tag.toLowerCase(), tag]))
+    let parsed: unknown = null
+    const start = reply.indexOf("[")
+    const end = reply.lastIndexOf("]")
+    if (start >= 0 && end > start) {
+        try {
+            parsed = JSON.parse(reply.slice(start, end + 1))
+        } catch {
+            parsed = null
+        }
+    }
+    const candidates = Array.isArray(parsed)
+        ? parsed.filter(tag => typeof tag === "string")
+        : reply.split(/[\n,]/).map(tag => tag.replace(/^\s*([-*•]|\d+\.)\s*/, ""))
+    const tags: string[] = []
+    for (const candidate of candidates as string[]) {
+        const tag = known.get(
+            normalizeTag(candidate.trim().replace(/^["'#]+|["']+$/g, "")).toLowerCase()
+        )
+        if (tag && !tags.includes(tag)) tags.push(tag)
+        if (tags.length === MAX_TAGS) break
+    }
+    return tags
+}
@@ -0,0 +1,172 @@
+/**
+ * Token usage accounting for the AI features.
+ *
+ * Every chat completion reports the tokens it consumed (see
+ * setUsageReporter in aiClient.ts). The main process appends each call to a
+ * log (aiUsageLog.ts) and keeps per-day totals, which the settings dashboard
+ * turns into daily, monthly and per-source figures, priced with the per-model
+ * rates the user entered.
+ */
+
+import type { AIConfigs, AIModelPrice } from "../../../schema-types"
+
+export interface TokenUsage {
+    promptTokens: number
+    completionTokens: number
+}
+
+/** What one chat completion consumed, and on whose behalf. */
+export interface AIUsageRecord extends TokenUsage {
+    time: number
+    model: string
+    // AITask value, or "other" for calls outside the task routing.
+    task: string
+    sourceId?: number
+    sourceName?: string
+}
+
+/** Totals of one day, model, task and source. */
+export interface AIUsageBucket extends TokenUsage {
+    day: string
+    model: string
+    task: string
+    sourceId?: number
+    sourceName?: string
+    calls: number
+}
+
+export interface AIUsageTotal extends TokenUsage {
+    // Day ("2024-05-31"), month ("2024-05") or source id, by grouping.
+    key: string
+    label: string
+    calls: number
+    cost: number
+}
+
+const pad = (n: number) => String(n).padStart(2, "0")
+
+/** Local calendar day of a timestamp, as YYYY-MM-DD. */
+export function dayOf(time: number): string {
+    const date = new Date(time)
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
+
+export function monthOf(day: string): string {
+    return day.slice(0, 7)
+}
+
+/** First day of the month containing `time`, as YYYY-MM-DD. */
+export function monthStart(time: number): string {
+    return `${monthOf(dayOf(time))}-01`
+}
+
+export function bucketKey(record: { day: string; model: string; task: string; sourceId?: number }) {
+    return [record.day, record.model, record.task, record.sourceId ?? ""].join("\t")
+}
+
+/** Add a call to the running per-day totals. */
+export function addUsage(buckets: Map<string, AIUsageBucket>, record: AIUsageRecord): void {
+    const day = dayOf(record.time)
+    const key = bucketKey({ ...record, day })
+    const bucket = buckets.get(key)
+    if (bucket) {
+        bucket.promptTokens += record.promptTokens
+        bucket.completionTokens += record.completionTokens
+        bucket.calls += 1
+        if (record.sourceName) bucket.sourceName = record.sourceName
+    } else {
+        buckets.set(key, {
+            day,
+            model: record.model,
+            task: record.task,
+            sourceId: record.sourceId,
+            sourceName: record.sourceName,
+            promptTokens: record.promptTokens,
+            completionTokens: record.completionTokens,
+            calls: 1,
+        })
+    }
+}
+
+/** Estimated cost of some usage; models without a price count as free. */
+export function estimateCost(
+    usage: TokenUsage & { model: string },
+    prices: { [model: string]: AIModelPrice } = {}
+): number {
+    const price = prices[usage.model]
+    if (!price) return 0
+    return (
+        (usage.promptTokens * (price.input || 0) + usage.completionTokens * (price.output || 0)) /
+        1e6
+    )
+}
+
+/**
+ * Sum buckets by day, month or source, most recent (or, for sources, most
+ * expensive) first.
+ */
+export function groupUsage(
+    buckets: AIUsageBucket[],
+    by: "day" | "month" | "source",
+    prices?: { [model: string]: AIModelPrice }
+): AIUsageTotal[] {
+    const totals = new Map<string, AIUsageTotal>()
+    for (const bucket of buckets) {
+        let key: string
+        let label: string
+        if (by === "day") {
+            key = label = bucket.day
+        } else if (by === "month") {
+            key = label = monthOf(bucket.day)
+        } else {
+            key = bucket.sourceId === undefined ? "" : String(bucket.sourceId)
+            label = bucket.sourceName || ""
+        }
+        const total = totals.get(key) || {
+            key,
+            label,
+            promptTokens: 0,
+            completionTokens: 0,
+            calls: 0,
+            cost: 0,
+        }
+        total.promptTokens += bucket.promptTokens
+        total.completionTokens += bucket.completionTokens
+        total.calls += bucket.calls
+        total.cost += estimateCost(bucket, prices)
+        if (!total.label) total.label = label
+        totals.set(key, total)
+    }
+    const list = [...totals.values()]
+    return by === "source"
+        ? list.sort((a, b) => b.cost - a.cost || b.promptTokens - a.promptTokens)
+        : list.sort((a, b) => (a.key < b.key ? 1 : -1))
+}
+
+export function totalUsage(
+    buckets: AIUsageBucket[],
+    prices?: { [model: string]: AIModelPrice }
+): TokenUsage & { calls: number; cost: number } {
+    const total = { promptTokens: 0, completionTokens: 0, calls: 0, cost: 0 }
+    for (const bucket of buckets) {
+        total.promptTokens += bucket.promptTokens
+        total.completionTokens += bucket.completionTokens
+        total.calls += bucket.calls
+        total.cost += estimateCost(bucket, prices)
+    }
+    return total
+}
+
+/**
+ * Whether this month's estimated spend has reached the monthly budget.
+ * Without a budget (or prices) nothing is ever exceeded. Renderer only.
+ */
+export async function isMonthlyBudgetExceeded(configs: AIConfigs): Promise<boolean> {
+    if (!(configs.monthlyBudget > 0)) return false
+    try {
+        const buckets = await window.settings.getAIUsage(monthStart(Date.now()))
+        return totalUsage(buckets, configs.modelPrices).cost >= configs.monthlyBudget
+    } catch {
+        return false
+    }
+}
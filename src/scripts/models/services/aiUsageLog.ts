@@ -0,0 +1,63 @@
+import { AIUsageBucket, AIUsageRecord, addUsage } from "./aiUsage"
+
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+const fs = require("fs")
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+const path = require("path")
+
+/**
+ * Token usage log, running in the main process. Each chat completion is
+ * appended to `ai-usage.log` as one JSON line; per-day totals are rebuilt
+ * from it on start and kept up to date in memory.
+ */
+
+const LOG_FILE = "ai-usage.log"
+// Calls older than this are dropped when the log is loaded.
+const RETENTION_DAYS = 400
+
+let logPath: string | null = null
+let buckets = new Map<string, AIUsageBucket>()
+
+export function initUsageLog(userDataPath: string): void {
+    logPath = path.join(userDataPath, LOG_FILE)
+    buckets = new Map()
+    try {
+        if (!fs.existsSync(logPath)) return
+        const cutoff = Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000
+        const lines: string[] = fs.readFileSync(logPath, "utf8").split("\n")
+        const kept: string[] = []
+        for (const line of lines) {
+            if (!line.trim()) continue
+            try {
+                const record = JSON.parse(line) as AIUsageRecord
+                if (record.time < cutoff) continue
+                addUsage(buckets, record)
+                kept.push(line)
+            } catch {
+                // Torn or corrupt line; drop it.
+            }
+        }
+        if (kept.length < lines.filter(l => l.trim()).length) {
+            fs.writeFileSync(logPath, kept.map(l => l + "\n").join(""), "utf8")
+        }
+    } catch (error) {
+        console.error("Failed to load usage log:", error)
+    }
+}
+
+export function recordUsage(record: AIUsageRecord): void {
+    if (!logPath) return
+
+    try {
+        fs.appendFileSync(logPath, JSON.stringify(record) + "\n", "utf8")
+        addUsage(buckets, record)
+    } catch (error) {
+        console.error("Failed to record usage:", error)
+    }
+}
+
+/** Per-day totals from `sinceDay` (YYYY-MM-DD) on, or all of them. */
+export function getUsage(sinceDay?: string): AIUsageBucket[] {
+    const all = [...buckets.values()]
+    return sinceDay ? all.filter(bucket => bucket.day >= sinceDay) : all
+}
@@ -0,0 +1,216 @@
+/**
+ * Cross-source near-duplicate detection.
+ *
+ * Two items tell the same story when their links normalize to the same URL
+ * (tracking parameters, `www.`, fragments and trailing slashes ignored),
+ * when one's canonical link is the other's, or when their titles are close
+ * enough by MinHash over character shingles. Clusters are flat: every
+ * duplicate points at the first item of its story, the primary.
+ */
+
+export interface DedupeEntry {
+    id: number
+    source: number
+    link: string
+    canonical?: string
+    title: string
+    date: Date
+    // Primary of the cluster the entry already belongs to, if any.
+    cluster?: number
+}
+
+// Titles closer than this (estimated Jaccard over shingles) are one story.
+const TITLE_SIMILARITY = 0.7
+// Titles with fewer shingles than this are too short to compare.
+const MIN_SHINGLES = 8
+// Stories further apart than this in time are kept apart.
+const MAX_DISTANCE = 3 * 24 * 60 * 60 * 1000
+const SHINGLE_SIZE = 3
+const BANDS = 16
+const ROWS = 4
+const HASHES = BANDS * ROWS
+
+const TRACKING_PARAM =
+    /^(utm_\w+|fbclid|gclid|dclid|msclkid|mc_cid|mc_eid|igshid|ref|ref_src|cmpid|ncid|ocid|spm)$/i
+
+/**
+ * A link reduced to what identifies the page: no scheme, `www.`, fragment,
+ * tracking parameters or trailing slash, with the remaining query sorted.
+ * Empty for anything that is not an http(s) URL.
+ */
+export function normalizeUrl(link: string): string {
+    let url: URL
+    try {
+        url = new URL(link.trim())
+    } catch {
+        return ""
+    }
+    if (url.protocol !== "http:" && url.protocol !== "https:") return ""
+    const params = Array.from(url.searchParams.entries())
+        .filter(([key]) => !TRACKING_PARAM.test(key))
+        .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    const query = params.map(([key, value]) => `${key}=${value}`).join("&")
+    const host = url.hostname.toLowerCase().replace(/^www\./, "")
+    const path = url.pathname.replace(/\/+$/, "")
+    return host + path + (query ? "?" + query : "")
+}
+
+/** Overlapping character shingles of a title, case and punctuation folded. */
+export function titleShingles(title: string): Set<string> {
+    const text = title
+        .normalize("NFKC")
+        .toLowerCase()
+        .replace(/[^\p{L}\p{N}]+/gu, " ")
+        .trim()
+    const shingles = new Set<string>()
+    const chars = Array.from(text)
+    for (let i = 0; i + SHINGLE_SIZE <= chars.length; i++) {
+        shingles.add(chars.slice(i, i + SHINGLE_SIZE).join(""))
+    }
+    return shingles
+}
+
+function hashString(text: string): number {
+    // FNV-1a
+    let hash = 0x811c9dc5
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i)
+        hash = Math.imul(hash, 0x01000193)
+    }
+    return hash >>> 0
+}
+
+function mix(value: number, seed: number): number {
+    // murmur3's finalizer over the value salted with the hash function's seed.
+    let h = (value ^ Math.imul(seed, 0x9e3779b1)) >>> 0
+    h = Math.imul(h ^ (h >>> 16), 0x85ebca6b)
+    h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35)
+    return (h ^ (h >>> 16)) >>> 0
+}
+
+/** The MinHash signature of a shingle set. */
+export function minHash(shingles: Set<string>): number[] {
+    const signature = new Array<number>(HASHES).fill(0xffffffff)
+    for (const shingle of shingles) {
+        const hash = hashString(shingle)
+        for (let i = 0; i < HASHES; i++) {
+            const value = mix(hash, i + 1)
+            if (value < signature[i]) signature[i] = value
+        }
+    }
+    return signature
+}
+
+/** The share of equal positions, an estimate of the sets' Jaccard index. */
+export function signatureSimilarity(a: number[], b: number[]): number {
+    let equal = 0
+    for (let i = 0; i < HASHES; i++) if (a[i] === b[i]) equal += 1
+    return equal / HASHES
+}
+
+interface Indexed {
+    entry: DedupeEntry
+    primary: number
+    signature: number[] | null
+}
+
+/**
+ * Find the cluster of each fresh entry among the recent ones and the fresh
+ * ones before it (by date). Returns the primary id of every fresh entry that
+ * duplicates another; the rest start clusters of their own.
+ */
+export function findDuplicates(fresh: DedupeEntry[], recent: DedupeEntry[]): Map<number, number> {
+    const byUrl = new Map<string, number>()
+    const byBand = new Map<string, Indexed[]>()
+    const result = new Map<number, number>()
+
+    const urlsOf = (entry: DedupeEntry) =>
+        [entry.link, entry.canonical].filter(Boolean).map(normalizeUrl).filter(Boolean)
+    const bandsOf = (signature: number[]) => {
+        const keys: string[] = []
+        for (let b = 0; b < BANDS; b++) {
+            keys.push(b + ":" + signature.slice(b * ROWS, (b + 1) * ROWS).join(","))
+        }
+        return keys
+    }
+    const signatureOf = (entry: DedupeEntry) => {
+        const shingles = titleShingles(entry.title)
+        return shingles.size >= MIN_SHINGLES ? minHash(shingles) : null
+    }
+    const add = (indexed: Indexed) => {
+        for (const url of urlsOf(indexed.entry)) {
+            if (!byUrl.has(url)) byUrl.set(url, indexed.primary)
+        }
+        if (!indexed.signature) return
+        for (const key of bandsOf(indexed.signature)) {
+            const bucket = byBand.get(key)
+            if (bucket) bucket.push(indexed)
+            else byBand.set(key, [indexed])
+        }
+    }
+    const similar = (entry: DedupeEntry, signature: number[]): number | null => {
+        const seen = new Set<Indexed>()
+        for (const key of bandsOf(signature)) {
+            for (const other of byBand.get(key) || []) {
+                if (seen.has(other)) continue
+                seen.add(other)
+                if (other.entry.source === entry.source) continue
+                const distance = Math.abs(other.entry.date.getTime() - entry.date.getTime())
+                if (distance > MAX_DISTANCE) continue
+                if (signatureSimilarity(signature, other.signature) >= TITLE_SIMILARITY) {
+                    return other.primary
+                }
+            }
+        }
+        return null
+    }
+
+    for (const entry of recent) {
+        add({ entry, primary: entry.cluster ?? entry.id, signature: signatureOf(entry) })
+    }
+    const ordered = [...fresh].sort((a, b) => a.date.getTime() - b.date.getTime())
+    for (const entry of ordered) {
+        const signature = signatureOf(entry)
+        let primary: number | null = null
+        for (const url of urlsOf(entry)) {
+            if (byUrl.has(url)) {
+                primary = byUrl.get(url)
+                break
+            }
+        }
+        if (primary === null && signature) primary = similar(entry, signature)
+        if (primary !== null && primary !== entry.id) result.set(entry.id, primary)
+        add({ entry, primary: primary ?? entry.id, signature })
+    }
+    return result
+}
+
+/**
+ * Collapse a list of items into one entry per story, at the position of the
+ * story's first item. The entry is the primary when it is in the list, else
+ * the first duplicate; the other items of the story are returned by entry id.
+ */
+export function groupDuplicates<T extends { _id: number; cluster?: number }>(
+    items: T[]
+): [T[], Map<number, T[]>] {
+    const stories = new Map<number, T[]>()
+    for (const item of items) {
+        const key = item.cluster ?? item._id
+        const story = stories.get(key)
+        if (story) story.push(item)
+        else stories.set(key, [item])
+    }
+    const visible: T[] = []
+    const duplicates = new Map<number, T[]>()
+    for (const [key, story] of stories) {
+        const lead = story.find(item => item._id === key) || story[0]
+        visible.push(lead)
+        if (story.length > 1) {
+            duplicates.set(
+                lead._id,
+                story.filter(item => item !== lead)
+            )
+        }
+    }
+    return [visible, duplicates]
+}
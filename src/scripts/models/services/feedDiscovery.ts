@@ -0,0 +1,68 @@
+/**
+ * Finding the feeds of a website, so that its address can be added as a
+ * source in place of the feed's. Pages announce their feeds with
+ * `<link rel="alternate">` tags; sites that do not are tried at the paths
+ * feeds are commonly served from. The fetching is done by discoverFeeds in
+ * utils.
+ */
+
+export type DiscoveredFeed = {
+    url: string
+    title?: string
+}
+
+// Where sites that do not link their feeds commonly serve them.
+export const COMMON_FEED_PATHS = ["/feed", "/rss.xml", "/atom.xml", "/index.xml"]
+
+const FEED_TYPES = [
+    "application/rss+xml",
+    "application/atom+xml",
+    "application/rdf+xml",
+    "application/feed+json",
+    "application/json",
+]
+
+/** The subset of a link element read here. */
+type LinkElement = { getAttribute: (name: string) => string | null }
+
+/**
+ * Whether a response is a web page rather than a feed: by its declared type,
+ * or by its text opening as an HTML document does.
+ */
+export function looksLikeHTML(contentType: string | null, text: string): boolean {
+    if (contentType && /\bhtml\b/i.test(contentType)) return true
+    return /^\s*(<!--[\s\S]*?-->\s*)*<(!doctype\s+html|html)[\s>]/i.test(text)
+}
+
+function resolve(href: string, base: string): string | undefined {
+    try {
+        const url = new URL(href, base)
+        return /^https?:$/.test(url.protocol) ? url.href : undefined
+    } catch {
+        return undefined
+    }
+}
+
+/**
+ * The feeds announced by the `<link rel="alternate">` elements of a page at
+ * `pageUrl`, in page order and without duplicates.
+ */
+export function feedLinks(links: ArrayLike<LinkElement>, pageUrl: string): DiscoveredFeed[] {
+    const feeds: DiscoveredFeed[] = []
+    for (const link of Array.from(links)) {
+        const rel = (link.getAttribute("rel") || "").toLowerCase().split(/\s+/)
+        const type = (link.getAttribute("type") || "").toLowerCase().split(";")[0].trim()
+        const href = link.getAttribute("href")
+        if (!rel.includes("alternate") || !FEED_TYPES.includes(type) || !href) continue
+        const url = resolve(href.trim(), pageUrl)
+        if (!url || feeds.some(f => f.url === url)) continue
+        const title = (link.getAttribute("title") || "").trim()
+        feeds.push(title ? { url, title } : { url })
+    }
+    return feeds
+}
+
+/** The addresses tried for the feed of a site whose page links none. */
+export function commonFeedURLs(pageUrl: string): string[] {
+    return COMMON_FEED_PATHS.map(path => resolve(path, pageUrl)).filter(Boolean)
+}
@@ -0,0 +1,98 @@
+/**
+ * Fetch health of feeds fetched directly (not through a sync service).
+ *
+ * Each fetch of a source is recorded into its health: the last HTTP status,
+ * how many fetches in a row have failed and a moving average of the response
+ * time. Feeds that keep failing are backed off exponentially, and a server
+ * asking to be left alone (429 or 503 with Retry-After) is not fetched again
+ * before it says so. Both only hold back scheduled fetches; refreshing a
+ * source by hand always fetches it.
+ */
+
+export interface SourceHealth {
+    // HTTP status of the last response, 0 when there was none (network or
+    // parse errors).
+    lastStatus: number
+    lastError?: string
+    lastChecked: number
+    consecutiveFailures: number
+    // Moving average of response times in milliseconds.
+    avgLatency?: number
+    // Scheduled fetches wait until this time.
+    retryAt?: number
+}
+
+export type FetchOutcome = {
+    status: number
+    // Time to the response, absent when there was none.
+    latency?: number
+    error?: string
+    // The Retry-After header of the response.
+    retryAfter?: string
+}
+
+// Weight of the newest response time in the moving average.
+const LATENCY_WEIGHT = 0.3
+// The first back-off after two failures in a row; it doubles with each
+// further failure, up to a day.
+const BACKOFF_BASE = 15 * 60000
+const BACKOFF_MAX = 24 * 60 * 60000
+
+/** Whether a response counts as a successful fetch (304 included). */
+export const isFetchSuccess = (status: number) => (status >= 200 && status < 300) || status === 304
+
+/**
+ * The time a Retry-After header asks to wait until, given in seconds or as
+ * an HTTP date, or undefined when it is missing or malformed.
+ */
+export function parseRetryAfter(value: string | undefined, now: number): number | undefined {
+    if (!value || !value.trim()) return undefined
+    const text = value.trim()
+    if (/^\d+$/.test(text)) return now + parseInt(text) * 1000
+    const date = Date.parse(text)
+    return isNaN(date) ? undefined : date
+}
+
+/** How long scheduled fetches wait after `failures` failures in a row. */
+export function backoffDelay(failures: number): number {
+    if (failures < 2) return 0
+    return Math.min(BACKOFF_BASE * Math.pow(2, failures - 2), BACKOFF_MAX)
+}
+
+/** `health` with the outcome of a fetch made at `now` recorded. */
+export function recordFetch(
+    health: SourceHealth | undefined,
+    outcome: FetchOutcome,
+    now: number
+): SourceHealth {
+    const next: SourceHealth = {
+        lastStatus: outcome.status,
+        lastChecked: now,
+        consecutiveFailures: 0,
+    }
+    const avgLatency = health?.avgLatency
+    if (outcome.latency !== undefined) {
+        next.avgLatency =
+            avgLatency === undefined
+                ? outcome.latency
+                : Math.round(avgLatency * (1 - LATENCY_WEIGHT) + outcome.latency * LATENCY_WEIGHT)
+    } else if (avgLatency !== undefined) {
+        next.avgLatency = avgLatency
+    }
+    if (isFetchSuccess(outcome.status)) return next
+    next.consecutiveFailures = (health?.consecutiveFailures || 0) + 1
+    if (outcome.error) next.lastError = outcome.error
+    const retryAt = Math.max(
+        parseRetryAfter(outcome.retryAfter, now) || 0,
+        now + backoffDelay(next.consecutiveFailures),
+        // Being rate limited without being told for how long still waits.
+        outcome.status === 429 ? now + BACKOFF_BASE : 0
+    )
+    if (retryAt > now) next.retryAt = retryAt
+    return next
+}
+
+/** Whether scheduled fetches of a source wait at `now`. */
+export function isBackedOff(health: SourceHealth | undefined, now: number): boolean {
+    return Boolean(health?.retryAt && health.retryAt > now)
+}
@@ -0,0 +1,140 @@
+/**
+ * Scraper sources: web pages without a feed, turned into one with CSS
+ * selectors. Each element matching the item selector becomes an item, with
+ * its title, link, date and content read from the elements matching the
+ * other selectors inside it.
+ *
+ * The page is fetched like a feed (see fetchFeed in utils), on the source's
+ * fetch frequency; this module only reads the parsed page.
+ */
+
+import type Parser from "rss-parser"
+import type { MyParserItem } from "../../utils"
+
+export interface ScraperConfig {
+    item: string
+    title: string
+    // Without a link selector, the title's link is used.
+    link?: string
+    date?: string
+    content?: string
+}
+
+// Characters of an item's text kept as its snippet.
+const SNIPPET_LENGTH = 300
+
+const collapse = (text: string) => (text || "").replace(/\s+/g, " ").trim()
+
+function resolve(href: string, base: string): string | undefined {
+    try {
+        const url = new URL(href, base)
+        return /^https?:$/.test(url.protocol) ? url.href : undefined
+    } catch {
+        return undefined
+    }
+}
+
+/**
+ * The date in a scraped text as an ISO string, or undefined. Machine-readable
+ * dates (ISO, RFC 2822) and ones like "March 5, 2024" or "5 Mar 2024" are
+ * read; relative ones ("2 days ago") and ones without a year are not.
+ */
+export function parseScrapedDate(text: string): string | undefined {
+    const value = collapse(text)
+    // Date.parse reads a date into most any text with a number in it.
+    if (!/\b\d{4}\b/.test(value)) return undefined
+    const iso =
+        /\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?/.exec(
+            value
+        )
+    const date = Date.parse(iso ? iso[0].replace(" ", "T") : value)
+    return isNaN(date) ? undefined : new Date(date).toISOString()
+}
+
+/** The fields missing from a scraper, which cannot be saved without them. */
+export function missingScraperFields(config: Partial<ScraperConfig>): (keyof ScraperConfig)[] {
+    const required: (keyof ScraperConfig)[] = ["item", "title"]
+    return required.filter(field => !(config[field] || "").trim())
+}
+
+/** `config` with its optional selectors left out when blank. */
+export function normalizeScraper(config: ScraperConfig): ScraperConfig {
+    const normalized: ScraperConfig = { item: config.item.trim(), title: config.title.trim() }
+    for (const field of ["link", "date", "content"] as const) {
+        const selector = (config[field] || "").trim()
+        if (selector) normalized[field] = selector
+    }
+    return normalized
+}
+
+function select(container: Element, selector: string | undefined): Element | null {
+    if (!selector) return null
+    // ":scope" selects the container itself, for items that are links.
+    if (selector.trim() === ":scope") return container
+    return container.querySelector(selector)
+}
+
+function linkOf(element: Element | null): string | undefined {
+    if (!element) return undefined
+    const anchor = element.closest("a[href]") || element.querySelector("a[href]")
+    return (anchor || element).getAttribute("href") || undefined
+}
+
+/** The HTML of `element` with the links and images in it made absolute. */
+function contentOf(element: Element, baseUrl: string): string {
+    const copy = element.cloneNode(true) as Element
+    for (const attribute of ["href", "src"]) {
+        for (const node of Array.from(copy.querySelectorAll(`[${attribute}]`))) {
+            const url = resolve(node.getAttribute(attribute), baseUrl)
+            if (url) node.setAttribute(attribute, url)
+        }
+    }
+    return copy.innerHTML.trim()
+}
+
+function dateOf(element: Element | null): string | undefined {
+    if (!element) return undefined
+    for (const attribute of ["datetime", "content", "title"]) {
+        const date = parseScrapedDate(element.getAttribute(attribute) || "")
+        if (date) return date
+    }
+    return parseScrapedDate(element.textContent)
+}
+
+/**
+ * The items of a page at `pageUrl` as rss-parser output. Invalid selectors
+ * throw, as querySelectorAll does. Items without a title are skipped.
+ */
+export function scrapeFeed(
+    doc: Document,
+    pageUrl: string,
+    config: ScraperConfig
+): Parser.Output<MyParserItem> {
+    const base = doc.querySelector("base[href]")?.getAttribute("href")
+    const baseUrl = (base && resolve(base, pageUrl)) || pageUrl
+    const items: MyParserItem[] = []
+    for (const container of Array.from(doc.querySelectorAll(config.item))) {
+        const titleElement = select(container, config.title)
+        const title = collapse(titleElement?.textContent)
+        if (!title) continue
+        const href = config.link ? linkOf(select(container, config.link)) : linkOf(titleElement)
+        const contentElement = select(container, config.content)
+        const item: Parser.Item = {
+            title,
+            link: href ? resolve(href, baseUrl) : undefined,
+            content: contentElement ? contentOf(contentElement, baseUrl) : "",
+            contentSnippet: contentElement
+                ? collapse(contentElement.textContent).slice(0, SNIPPET_LENGTH)
+                : "",
+        }
+        item.guid = item.link
+        const date = dateOf(select(container, config.date))
+        if (date) item.isoDate = date
+        items.push(item as MyParserItem)
+    }
+    return {
+        title: collapse(doc.title) || undefined,
+        link: pageUrl,
+        items,
+    }
+}
@@ -0,0 +1,282 @@
+/**
+ * Extraction of an article's main content from its web page, for the full
+ * text mode of the article view. It works the way Readability does:
+ *
+ * 1. Boilerplate (scripts, navigation, sidebars, share and comment blocks)
+ *    is removed, and lazily loaded images are given their real source.
+ * 2. Every paragraph scores its parent and grandparent by its length and
+ *    commas; the best scoring element, discounted by its share of link text,
+ *    is the article.
+ * 3. Siblings of the article that score close to it, or are paragraphs of
+ *    prose, are taken along, then link lists and empty blocks are dropped
+ *    and relative URLs made absolute.
+ *
+ * The result is stored on the item (RSSItem.fullText), so it is read
+ * offline, searched and summarized without fetching the page again.
+ */
+
+// An extraction with less text than this is taken as a failure.
+const MIN_ARTICLE_LENGTH = 250
+// Paragraphs shorter than this do not score.
+const MIN_PARAGRAPH_LENGTH = 25
+
+const BOILERPLATE = [
+    "script",
+    "style",
+    "noscript",
+    "template",
+    "iframe",
+    "object",
+    "embed",
+    "form",
+    "button",
+    "input",
+    "select",
+    "textarea",
+    "nav",
+    "aside",
+    "footer",
+    "dialog",
+    "[hidden]",
+    "[aria-hidden='true']",
+    "[role='navigation']",
+    "[role='banner']",
+    "[role='contentinfo']",
+    "[role='complementary']",
+    "[role='dialog']",
+].join(", ")
+
+const NEGATIVE =
+    /(^|[\s_-])(comments?|footer|footnotes?|sidebar|widgets?|share|sharing|social|related|recommended|promo|sponsored?|ads?|advert\w*|banner|masthead|menu|nav\w*|breadcrumbs?|subscribe|newsletter|signup|cookies?|popup|modal|pagination|pager|outbrain|taboola)([\s_-]|$)/i
+const POSITIVE = /(^|[\s_-])(article|body|content|entry|main|post|text|blog|story)([\s_-]|$)/i
+
+const LAZY_SRC = ["data-src", "data-original", "data-lazy-src", "data-actualsrc", "data-url"]
+const LAZY_SRCSET = ["data-srcset", "data-lazy-srcset"]
+
+const collapse = (text: string) => (text || "").replace(/\s+/g, " ").trim()
+
+/** +25 for names suggesting content, -25 for ones suggesting boilerplate. */
+export function classWeight(name: string): number {
+    let weight = 0
+    if (NEGATIVE.test(name)) weight -= 25
+    if (POSITIVE.test(name)) weight += 25
+    return weight
+}
+
+const weightOf = (el: Element) =>
+    classWeight(el.getAttribute("class") || "") + classWeight(el.getAttribute("id") || "")
+
+/** The largest candidate of a srcset attribute. */
+export function pickSrcset(srcset: string): string | undefined {
+    let best: string | undefined
+    let bestSize = -1
+    for (const candidate of srcset.split(/,\s+/)) {
+        const [url, descriptor] = candidate.trim().split(/\s+/)
+        if (!url) continue
+        const size = parseFloat(descriptor || "1") || 1
+        if (size > bestSize) {
+            best = url
+            bestSize = size
+        }
+    }
+    return best
+}
+
+function resolve(href: string, base: string): string | undefined {
+    try {
+        const url = new URL(href, base)
+        return /^(https?|data|mailto):$/.test(url.protocol) ? url.href : undefined
+    } catch {
+        return undefined
+    }
+}
+
+/** Share of an element's text that is the text of links. */
+function linkDensity(el: Element): number {
+    const length = collapse(el.textContent).length
+    if (length === 0) return 0
+    let links = 0
+    for (const a of Array.from(el.querySelectorAll("a"))) links += collapse(a.textContent).length
+    return links / length
+}
+
+function fixLazyImages(root: Element) {
+    // Pages parsed with scripting off keep the <noscript> fallbacks of lazy
+    // images as elements: use them in place of the placeholders.
+    for (const noscript of Array.from(root.querySelectorAll("noscript"))) {
+        const img = noscript.querySelector("img")
+        if (!img) continue
+        const previous = noscript.previousElementSibling
+        if (previous && previous.tagName === "IMG") previous.remove()
+        noscript.replaceWith(img)
+    }
+    for (const img of Array.from(root.querySelectorAll("img"))) {
+        const src = img.getAttribute("src") || ""
+        const placeholder = !src || src.startsWith("data:") || /\b(blank|spacer|lazy)\b/i.test(src)
+        const lazy = LAZY_SRC.map(name => img.getAttribute(name)).find(Boolean)
+        if (lazy && placeholder) img.setAttribute("src", lazy)
+        const srcset = LAZY_SRCSET.map(name => img.getAttribute(name)).find(Boolean)
+        if (srcset) img.setAttribute("srcset", srcset)
+        if (!img.getAttribute("src") && img.getAttribute("srcset")) {
+            const picked = pickSrcset(img.getAttribute("srcset"))
+            if (picked) img.setAttribute("src", picked)
+        }
+    }
+}
+
+function removeBoilerplate(body: HTMLElement) {
+    for (const el of Array.from(body.querySelectorAll(BOILERPLATE))) el.remove()
+    for (const el of Array.from(body.querySelectorAll("*"))) {
+        if (!el.isConnected || ["ARTICLE", "MAIN"].includes(el.tagName)) continue
+        if (weightOf(el) < 0 && !el.querySelector("article, main")) el.remove()
+    }
+}
+
+function initialScore(el: Element): number {
+    switch (el.tagName) {
+        case "ARTICLE":
+        case "MAIN":
+            return 10 + weightOf(el)
+        case "DIV":
+        case "SECTION":
+            return 5 + weightOf(el)
+        case "PRE":
+        case "TD":
+        case "BLOCKQUOTE":
+            return 3 + weightOf(el)
+        case "OL":
+        case "UL":
+        case "DL":
+        case "LI":
+            return -3 + weightOf(el)
+        case "H1":
+        case "H2":
+        case "H3":
+        case "H4":
+        case "H5":
+        case "H6":
+        case "TH":
+            return -5 + weightOf(el)
+        default:
+            return weightOf(el)
+    }
+}
+
+/** Elements of prose: paragraphs, and divs holding text but no blocks. */
+function paragraphs(body: HTMLElement): Element[] {
+    return Array.from(body.querySelectorAll("p, pre, td, blockquote, div")).filter(
+        el =>
+            el.tagName !== "DIV" ||
+            !el.querySelector("p, div, section, article, table, ul, ol, pre, blockquote")
+    )
+}
+
+function score(body: HTMLElement): Map<Element, number> {
+    const scores = new Map<Element, number>()
+    const add = (el: Element | null, value: number) => {
+        if (!el || el === body.parentElement) return
+        if (!scores.has(el)) scores.set(el, initialScore(el))
+        scores.set(el, scores.get(el) + value)
+    }
+    for (const p of paragraphs(body)) {
+        const text = collapse(p.textContent)
+        if (text.length < MIN_PARAGRAPH_LENGTH) continue
+        const value = 1 + (text.match(/[,，、]/g) || []).length + Math.min(text.length / 100, 3)
+        add(p.parentElement, value)
+        add(p.parentElement?.parentElement, value / 2)
+    }
+    return scores
+}
+
+function topCandidate(scores: Map<Element, number>): [Element, number] | null {
+    let top: [Element, number] | null = null
+    for (const [el, value] of Array.from(scores)) {
+        const adjusted = value * (1 - linkDensity(el))
+        if (!top || adjusted > top[1]) top = [el, adjusted]
+    }
+    return top
+}
+
+/** The article with the siblings that belong to it. */
+function gather(doc: Document, top: Element, topScore: number, scores: Map<Element, number>) {
+    const container = doc.createElement("div")
+    const threshold = Math.max(10, topScore * 0.2)
+    const siblings = top.parentElement ? Array.from(top.parentElement.children) : [top]
+    for (const sibling of siblings) {
+        let take = sibling === top
+        if (!take && scores.has(sibling)) {
+            take = scores.get(sibling) * (1 - linkDensity(sibling)) >= threshold
+        }
+        if (!take && sibling.tagName === "P") {
+            const text = collapse(sibling.textContent)
+            const density = linkDensity(sibling)
+            take = (text.length > 80 && density < 0.25) || (text.length > 0 && density === 0)
+        }
+        if (take) container.appendChild(sibling.cloneNode(true))
+    }
+    return container
+}
+
+const MEDIA = "img, picture, video, audio, pre, table, figure"
+
+function clean(container: Element, baseUrl: string) {
+    // Link lists and blocks left empty.
+    for (const el of Array.from(container.querySelectorAll("div, section, ul, ol, table, p"))) {
+        // Skips the ones inside blocks removed already.
+        if (!container.contains(el)) continue
+        const text = collapse(el.textContent)
+        if (text.length < 200 && linkDensity(el) > 0.5) el.remove()
+        else if (!text && !el.querySelector(MEDIA)) el.remove()
+    }
+    for (const el of Array.from(container.querySelectorAll("*"))) {
+        for (const attribute of Array.from(el.attributes)) {
+            const name = attribute.name.toLowerCase()
+            if (
+                name.startsWith("on") ||
+                name.startsWith("data-") ||
+                ["style", "class", "id"].includes(name)
+            ) {
+                el.removeAttribute(attribute.name)
+            }
+        }
+        for (const name of ["href", "src", "poster"]) {
+            const value = el.getAttribute(name)
+            if (value === null) continue
+            const url = resolve(value.trim(), baseUrl)
+            if (url) el.setAttribute(name, url)
+            else el.removeAttribute(name)
+        }
+        const srcset = el.getAttribute("srcset")
+        if (srcset) {
+            const resolved = srcset
+                .split(/,\s+/)
+                .map(candidate => {
+                    const [url, ...descriptor] = candidate.trim().split(/\s+/)
+                    const absolute = url && resolve(url, baseUrl)
+                    return absolute ? [absolute, ...descriptor].join(" ") : ""
+                })
+                .filter(Boolean)
+            el.setAttribute("srcset", resolved.join(", "))
+        }
+    }
+}
+
+/**
+ * The main content of a page at `pageUrl` as HTML with absolute URLs, or
+ * null when the page does not look like an article. Changes `doc`.
+ */
+export function extractFullText(doc: Document, pageUrl: string): string | null {
+    const body = doc.body
+    if (!body) return null
+    const base = doc.querySelector("base[href]")?.getAttribute("href")
+    const baseUrl = (base && resolve(base, pageUrl)) || pageUrl
+    fixLazyImages(body)
+    removeBoilerplate(body)
+    const scores = score(body)
+    const top = topCandidate(scores)
+    if (!top) return null
+    const container = gather(doc, top[0], top[1], scores)
+    clean(container, baseUrl)
+    if (collapse(container.textContent).length < MIN_ARTICLE_LENGTH) return null
+    return container.innerHTML.trim()
+}
@@ -0,0 +1,155 @@
+/**
+ * JSON Feed (https://jsonfeed.org, versions 1 and 1.1) support.
+ *
+ * Feeds are turned into the output rss-parser gives for XML feeds, so that
+ * everything downstream of parseRSS (item parsing, enclosures, covers, rules)
+ * treats them alike.
+ */
+
+import type Parser from "rss-parser"
+import type { MyParserItem } from "../../utils"
+
+const VERSION_PREFIX = "https://jsonfeed.org/version/"
+
+// Characters of an untitled item's text used as its title.
+const DERIVED_TITLE_LENGTH = 80
+
+type JSONFeedAuthor = { name?: string; url?: string; avatar?: string }
+
+type JSONFeedAttachment = {
+    url?: string
+    mime_type?: string
+    size_in_bytes?: number
+}
+
+type JSONFeedItem = {
+    id?: string | number
+    url?: string
+    external_url?: string
+    title?: string
+    content_html?: string
+    content_text?: string
+    summary?: string
+    image?: string
+    banner_image?: string
+    date_published?: string
+    date_modified?: string
+    // `author` is version 1; 1.1 replaced it with `authors`.
+    author?: JSONFeedAuthor
+    authors?: JSONFeedAuthor[]
+    tags?: string[]
+    attachments?: JSONFeedAttachment[]
+}
+
+type JSONFeed = {
+    version: string
+    title?: string
+    home_page_url?: string
+    feed_url?: string
+    description?: string
+    icon?: string
+    favicon?: string
+    author?: JSONFeedAuthor
+    authors?: JSONFeedAuthor[]
+    items: JSONFeedItem[]
+}
+
+/**
+ * Whether a response is a JSON Feed rather than XML: by its declared type,
+ * or by its text starting as a JSON object does.
+ */
+export function looksLikeJSONFeed(contentType: string | null, text: string): boolean {
+    if (contentType && /\bjson\b/i.test(contentType)) return true
+    return /^\s*\{/.test(text)
+}
+
+const str = (value: unknown) => (typeof value === "string" && value.trim() ? value : undefined)
+
+const escapeHTML = (text: string) =>
+    text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;")
+
+const plainText = (html: string) =>
+    html
+        .replace(/<[^>]*>/g, " ")
+        .replace(/\s+/g, " ")
+        .trim()
+
+/** Plain text as HTML paragraphs. */
+const textToHTML = (text: string) =>
+    text
+        .split(/\n\s*\n/)
+        .map(p => `<p>${escapeHTML(p.trim()).replace(/\n/g, "<br>")}</p>`)
+        .join("")
+
+function authorName(...authors: (JSONFeedAuthor[] | JSONFeedAuthor | undefined)[]) {
+    for (const entry of authors) {
+        const list = Array.isArray(entry) ? entry : entry ? [entry] : []
+        const names = list.map(a => str(a?.name)).filter(Boolean)
+        if (names.length > 0) return names.join(", ")
+    }
+    return undefined
+}
+
+function parseItem(item: JSONFeedItem, feed: JSONFeed): MyParserItem {
+    const html = str(item.content_html)
+    const text = str(item.content_text)
+    const content = html ?? (text ? textToHTML(text) : str(item.summary) ?? "")
+    const snippet = str(item.summary) ?? text ?? plainText(content)
+    const parsed: Parser.Item & { image?: string } = {
+        title: str(item.title) ?? (snippet ? snippet.slice(0, DERIVED_TITLE_LENGTH) : undefined),
+        link: str(item.url) ?? str(item.external_url),
+        guid: item.id === undefined ? undefined : String(item.id),
+        content,
+        contentSnippet: snippet,
+        creator: authorName(item.authors, item.author, feed.authors, feed.author),
+        categories: Array.isArray(item.tags) ? item.tags.filter(t => str(t)) : undefined,
+    }
+    const date = str(item.date_published) ?? str(item.date_modified)
+    if (date && !isNaN(Date.parse(date))) {
+        parsed.isoDate = new Date(date).toISOString()
+        parsed.pubDate = date
+    }
+    const image = str(item.image) ?? str(item.banner_image)
+    if (image) parsed.image = image
+    const attachment = (item.attachments || []).find(a => /^https?:\/\//i.test(a?.url || ""))
+    if (attachment) {
+        parsed.enclosure = {
+            url: attachment.url,
+            type: str(attachment.mime_type),
+            length:
+                typeof attachment.size_in_bytes === "number" ? attachment.size_in_bytes : undefined,
+        }
+    }
+    // The custom fields of XML feeds that have no JSON Feed counterpart stay
+    // unset.
+    return parsed as MyParserItem
+}
+
+/**
+ * A JSON Feed document as rss-parser output. The feed icon, its large cover
+ * image, stands in for the podcast logo of XML feeds. Throws when the text is
+ * not a JSON Feed.
+ */
+export function parseJSONFeed(text: string): Parser.Output<MyParserItem> {
+    const feed = JSON.parse(text) as JSONFeed
+    if (
+        !feed ||
+        typeof feed.version !== "string" ||
+        !feed.version.startsWith(VERSION_PREFIX) ||
+        !Array.isArray(feed.items)
+    ) {
+        throw new Error("Not a JSON Feed")
+    }
+    const output: Parser.Output<MyParserItem> = {
+        title: str(feed.title),
+        link: str(feed.home_page_url),
+        feedUrl: str(feed.feed_url),
+        description: str(feed.description),
+        items: feed.items
+            .filter(item => item && typeof item === "object")
+            .map(item => parseItem(item, feed)),
+    }
+    const icon = str(feed.icon)
+    if (icon) output.itunes = { image: icon }
+    return output
+}
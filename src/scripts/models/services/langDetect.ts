@@ -0,0 +1,272 @@
+/**
+ * Local language detection and BCP-47 helpers for the AI features.
+ *
+ * Detection runs in two stages: the dominant Unicode script settles most
+ * languages outright (Han, kana, Hangul, Thai…), and text in Latin script is
+ * matched against small character-trigram profiles. Results are primary
+ * language subtags ("en", "ja", "de"…) or "und" when nothing is conclusive.
+ */
+
+export const UNDETERMINED = "und"
+
+type TranslateWhen = "auto" | "nonTargetOnly" | "always" | "zhOnly" | "nonZhOnly"
+
+// Script ranges, checked in order. Han characters carry roughly a word's
+// worth of text each, so they are weighted up against alphabetic scripts.
+const SCRIPTS: Array<{ name: string; re: RegExp; weight: number }> = [
+    { name: "kana", re: /[぀-ヿㇰ-ㇿ]/g, weight: 3 },
+    { name: "han", re: /[㐀-䶿一-鿿豈-﫿]/g, weight: 3 },
+    { name: "hangul", re: /[ᄀ-ᇿ㄰-㆏가-힯]/g, weight: 3 },
+    { name: "cyrillic", re: /[Ѐ-ӿ]/g, weight: 1 },
+    { name: "greek", re: /[Ͱ-Ͽ]/g, weight: 1 },
+    { name: "arabic", re: /[؀-ۿݐ-ݿ]/g, weight: 1 },
+    { name: "hebrew", re: /[֐-׿]/g, weight: 1 },
+    { name: "thai", re: /[฀-๿]/g, weight: 1 },
+    { name: "devanagari", re: /[ऀ-ॿ]/g, weight: 1 },
+    { name: "latin", re: /[a-zA-ZÀ-ɏḀ-ỿ]/g, weight: 1 },
+]
+
+/**
+ * Most frequent trigrams per Latin-script language, most frequent first;
+ * "_" marks a word boundary. Kept short on purpose: a few dozen entries
+ * separate these languages reliably on paragraph-sized samples.
+ */
+const TRIGRAM_PROFILES: { [lang: string]: string } = {
+    en: "_th the he_ _an and nd_ _of of_ _to to_ _in ing ng_ is_ _a_ ion ed_ on_ _co re_ at_ _be tio ent hat for _fo or_ _wh _it it_ _wa was his ere ter _ha as_ ati",
+    de: "en_ er_ _de der ie_ _di die ich ein sch che ch_ und _un nd_ den cht ine gen _ei te_ ung ng_ _zu zu_ ten das _da ist _is st_ auf _au ber _ge mit _mi sie nde",
+    fr: "es_ _de de_ le_ _le ent nt_ _la la_ ion les on_ re_ _et et_ ue_ des _pa _qu que _co men ait _un une ne_ tio our par _po pou ur_ est _es dan ans _da eme",
+    es: "_de de_ os_ la_ _la _el el_ es_ _qu que ue_ en_ _en as_ ent ció _co los _lo _se con ado _po par del _un una ara _pa nte est aci por _es ien ido",
+    it: "_di di_ la_ to_ _la che he_ _ch ell lla re_ one del ne_ ion ent _de zio _co le_ per _pe ato non _no _il il_ gli _un una nte _in con ere are sta",
+    pt: "_de de_ os_ do_ ão_ _qu que ue_ da_ ção açã _co ent em_ _do _da _pa as_ es_ nte com _se par _e_ ara men ado não _nã _um uma dos ões est _es",
+    nl: "en_ _de de_ an_ het _he et_ van _va een _ee er_ ijk ij_ aar oor sch ing ng_ _in in_ den ver _ve nde _te te_ ie_ dat _da cht gen ter _zi zij eer ook",
+    sv: "en_ _oc och ch_ er_ _de _fö för ör_ att _at tt_ ing an_ et_ _so som om_ _på på_ det _me med ed_ _är är_ _av av_ ill til lig nde ade _in ter ska",
+    pl: "ie_ _ni nie _pr prz rze _w_ _na na_ _po ego go_ ści _do _za ani nia _je jes est _si się _sp owa wan ych _i_ zy_ _ta ia_ pod _z_ ać_ ki_",
+    tr: "lar ler _bi bir ir_ ın_ _ve ve_ in_ an_ ara _ka eri ini ası en_ _da _de da_ _ya _ol _bu bu_ _iç içi çin yor ını _il ile le_ la_ _ma mas",
+    id: "an_ _me kan ang ng_ _da _di yan ya_ dan ber _be _pe _ke men eng ara ini _in _un ada _ad ala per _se ngg _ak _ka aka unt ntu tuk nya _ya",
+}
+
+const TRIGRAMS: { [lang: string]: string[] } = Object.fromEntries(
+    Object.entries(TRIGRAM_PROFILES).map(([lang, grams]) => [
+        lang,
+        grams.split(" ").map(g => g.replace(/_/g, " ")),
+    ])
+)
+
+// Letters that single out a language within its script on their own.
+const DISTINCTIVE: Array<{ lang: string; re: RegExp }> = [
+    { lang: "vi", re: /[ăắằẳẵặơớờởỡợưứừửữựđạảấầẩẫậẹẻẽếềểễệịỉọỏốồổỗộụủỳỵỷỹ]/gi },
+    { lang: "uk", re: /[ієїґ]/gi },
+]
+
+function countScripts(text: string): Map<string, number> {
+    const counts = new Map<string, number>()
+    for (const { name, re, weight } of SCRIPTS) {
+        const matches = text.match(re)
+        if (matches) counts.set(name, matches.length * weight)
+    }
+    return counts
+}
+
+function trigramCounts(text: string): Map<string, number> {
+    const normalized = ` ${text
+        .toLowerCase()
+        .replace(/[^a-zÀ-ɏḀ-ỿ]+/g, " ")
+        .trim()} `
+    const counts = new Map<string, number>()
+    for (let i = 0; i + 3 <= normalized.length; i++) {
+        const gram = normalized.slice(i, i + 3)
+        if (gram.trim().length === 0 || gram.includes("  ")) continue
+        counts.set(gram, (counts.get(gram) || 0) + 1)
+    }
+    return counts
+}
+
+// Below this many words trigram statistics are noise (product names,
+// identifiers), so such text stays undetermined.
+const MIN_LATIN_WORDS = 4
+
+function detectLatin(text: string): string {
+    const words = text.match(/[a-zA-ZÀ-ɏḀ-ỿ]+/g) || []
+    if (words.length < MIN_LATIN_WORDS) return UNDETERMINED
+    const grams = trigramCounts(text)
+    let total = 0
+    for (const count of grams.values()) total += count
+    if (total === 0) return UNDETERMINED
+    const scores = Object.keys(TRIGRAMS)
+        .map(lang => {
+            const profile = TRIGRAMS[lang]
+            let score = 0
+            profile.forEach((gram, rank) => {
+                const count = grams.get(gram)
+                // Higher-ranked trigrams count more; the tail still contributes.
+                if (count) score += count * (profile.length - rank)
+            })
+            return { lang, score }
+        })
+        .sort((a, b) => b.score - a.score)
+    // Require the winner to cover a meaningful share of the text and to beat
+    // the runner-up clearly.
+    const [best, second] = scores
+    if (best.score / total < 1.5 || best.score < second.score * 1.2) return UNDETERMINED
+    return best.lang
+}
+
+/**
+ * Detect the language of `text`. HTML tags should be stripped by the
+ * caller; only the first few thousand characters are examined.
+ */
+export function detectLanguage(text: string): string {
+    const sample = (text || "").slice(0, 4000)
+    const scripts = countScripts(sample)
+    if (scripts.size === 0) return UNDETERMINED
+
+    let dominant = ""
+    let dominantCount = 0
+    for (const [name, count] of scripts) {
+        if (count > dominantCount) {
+            dominant = name
+            dominantCount = count
+        }
+    }
+
+    // Japanese mixes kanji with kana; any real share of kana decides it.
+    const kana = scripts.get("kana") || 0
+    const han = scripts.get("han") || 0
+    if ((dominant === "han" || dominant === "kana") && kana >= (kana + han) * 0.1) return "ja"
+
+    for (const { lang, re } of DISTINCTIVE) {
+        const hits = sample.match(re)
+        if (hits && hits.length >= 2) return lang
+    }
+
+    switch (dominant) {
+        case "han":
+            return "zh"
+        case "kana":
+            return "ja"
+        case "hangul":
+            return "ko"
+        case "cyrillic":
+            return "ru"
+        case "greek":
+            return "el"
+        case "arabic":
+            return "ar"
+        case "hebrew":
+            return "he"
+        case "thai":
+            return "th"
+        case "devanagari":
+            return "hi"
+        default:
+            return detectLatin(sample)
+    }
+}
+
+/** Primary language subtag of a BCP-47 tag, lowercased ("zh-TW" -> "zh"). */
+export function primaryLanguage(tag: string): string {
+    return (tag || "").split(/[-_]/)[0].toLowerCase()
+}
+
+export function isSameLanguage(a: string, b: string): boolean {
+    const pa = primaryLanguage(a)
+    return pa !== "" && pa !== UNDETERMINED && pa === primaryLanguage(b)
+}
+
+/** Canonical form of a BCP-47 tag, or null if it is not well-formed. */
+export function canonicalizeLanguageTag(tag: string): string | null {
+    try {
+        const [canonical] = Intl.getCanonicalLocales((tag || "").trim())
+        return canonical || null
+    } catch {
+        return null
+    }
+}
+
+/**
+ * Name of a language for prompts and the UI, e.g. "Japanese" or, with
+ * displayLocale "zh-CN", "日语". Falls back to the tag itself.
+ */
+export function languageName(tag: string, displayLocale = "en"): string {
+    const lower = (tag || "").toLowerCase()
+    if (displayLocale === "en" && (lower === "zh" || lower === "zh-cn" || lower === "zh-hans")) {
+        return "Simplified Chinese"
+    }
+    try {
+        return new Intl.DisplayNames([displayLocale], { type: "language" }).of(tag) || tag
+    } catch {
+        return tag
+    }
+}
+
+/** Target languages offered in settings; any other BCP-47 tag may be typed in. */
+export const COMMON_TARGET_LANGUAGES = [
+    "zh-CN",
+    "zh-TW",
+    "en",
+    "ja",
+    "ko",
+    "fr",
+    "de",
+    "es",
+    "pt",
+    "it",
+    "ru",
+    "ar",
+    "vi",
+    "th",
+    "id",
+    "tr",
+    "nl",
+    "pl",
+]
+
+/**
+ * Decide whether text in `detected` language is translated under the given
+ * translateWhen mode, and into what:
+ *   auto           -> always; into the target, or into English (Chinese when
+ *                     the target is English) if the text is already in it
+ *   nonTargetOnly  -> only text not already in the target
+ *   always         -> always, into the target
+ *   zhOnly/nonZhOnly -> legacy Chinese-specific filters, into the target
+ */
+export function resolveTranslation(
+    translateWhen: TranslateWhen | string | undefined,
+    target: string | undefined,
+    detected: string
+): { shouldTranslate: boolean; targetLang: string } {
+    const targetLang = target || "zh"
+    const inTarget = isSameLanguage(detected, targetLang)
+    switch (translateWhen) {
+        case "nonTargetOnly":
+            return { shouldTranslate: !inTarget, targetLang }
+        case "zhOnly":
+            return { shouldTranslate: detected === "zh", targetLang }
+        case "nonZhOnly":
+            return { shouldTranslate: detected !== "zh", targetLang }
+        case "always":
+            return { shouldTranslate: true, targetLang }
+        case "auto":
+        default:
+            if (!inTarget) return { shouldTranslate: true, targetLang }
+            return {
+                shouldTranslate: true,
+                targetLang: primaryLanguage(targetLang) === "en" ? "zh" : "en",
+            }
+    }
+}
+
+/**
+ * Language a summary is written in. Mirrors the translation setting:
+ *   auto           -> the target, or a fallback if the text is already in it
+ *   anything else  -> the configured target
+ */
+export function resolveSummaryLanguage(
+    translateWhen: TranslateWhen | string | undefined,
+    target: string | undefined,
+    detected: string
+): string {
+    return (translateWhen || "auto") === "auto"
+        ? resolveTranslation("auto", target, detected).targetLang
+        : target || "zh"
+}
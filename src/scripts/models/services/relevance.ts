@@ -0,0 +1,203 @@
+/**
+ * Relevance scores, learned on this computer from what the reader does.
+ *
+ * Every item the reader starred, read (longer reads count more), hid or let
+ * go stale unread is a sample; each of its features (source, author, title
+ * terms) learns how far that item's feedback sits above or below the
+ * average. A new item scores the sum of its features' weights, plus a bonus
+ * for each interest whose keywords it mentions. Nothing leaves the machine;
+ * the model is only asked to suggest keywords for an interest.
+ */
+
+import type { AIInterest } from "../../../schema-types"
+
+/** What an item's score is made of, kept with the item to explain it. */
+export interface ScoreInfo {
+    // Names of the interests the item matched.
+    interests: string[]
+    // Title terms with the strongest positive weights, best first.
+    terms: string[]
+    // The learned weight of the item's source.
+    source: number
+}
+
+/** The fields of an item scoring and learning look at. */
+export interface RelevanceSample {
+    source: number
+    title: string
+    snippet?: string
+    creator?: string
+    date: Date
+    hasRead: boolean
+    starred: boolean
+    hidden: boolean
+    // Seconds spent in the article view.
+    readTime?: number
+}
+
+export interface RelevanceModel {
+    weights: Map<string, number>
+}
+
+const DAY = 24 * 60 * 60 * 1000
+// Unread items older than this count as passed over.
+const STALE_AFTER = 3 * DAY
+// Pulls the weights of rarely seen features toward zero.
+const PRIOR = 3
+const INTEREST_BONUS = 2
+// Weight a title term needs to be named in the explanation.
+const TERM_SHOWN = 0.2
+const MAX_TERMS_SHOWN = 3
+
+const STOPWORDS = new Set(
+    (
+        "the and for are but not you all any can her was one our out has have had his how its " +
+        "may new now see who why did get got use via from with this that what when your they " +
+        "them will into more than then just over after about says said here their there which " +
+        "would could should been were being does also only some most much many make amp quot"
+    ).split(" ")
+)
+
+// Kana, CJK ideographs and Hangul: no spaces between words.
+const CJK = /[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af]/
+
+/**
+ * The distinct terms of a text: lowercase words of three or more letters
+ * without stopwords, and character pairs of CJK runs.
+ */
+export function textTerms(text: string): string[] {
+    const terms = new Set<string>()
+    const words = text
+        .normalize("NFKC")
+        .toLowerCase()
+        .match(/[\p{L}\p{N}][\p{L}\p{N}+#.'-]*/gu)
+    for (const raw of words || []) {
+        const word = raw.replace(/[.'-]+$/, "")
+        if (CJK.test(word)) {
+            const chars = Array.from(word)
+            for (let i = 0; i + 1 < chars.length; i++) terms.add(chars[i] + chars[i + 1])
+        } else if (word.length >= 3 && !STOPWORDS.has(word) && !/^\d+$/.test(word)) {
+            terms.add(word)
+        }
+    }
+    return Array.from(terms)
+}
+
+const sourceFeature = (sid: number) => `s:${sid}`
+const authorFeature = (creator: string) => `a:${creator.trim().toLowerCase()}`
+const termFeature = (term: string) => `t:${term}`
+
+function featuresOf(item: RelevanceSample): string[] {
+    const features = [sourceFeature(item.source)]
+    if (item.creator && item.creator.trim()) features.push(authorFeature(item.creator))
+    for (const term of textTerms(item.title)) features.push(termFeature(term))
+    return features
+}
+
+/** How much the reader liked an item, or null if they have not decided yet. */
+export function feedbackOf(item: RelevanceSample, now: number): number | null {
+    if (item.hidden) return -2
+    if (item.starred) return 3
+    if (item.hasRead) return 1 + Math.min((item.readTime || 0) / 60, 2)
+    if (now - item.date.getTime() > STALE_AFTER) return -0.5
+    return null
+}
+
+export function trainModel(samples: RelevanceSample[], now: number): RelevanceModel {
+    const rated: [RelevanceSample, number][] = []
+    for (const sample of samples) {
+        const feedback = feedbackOf(sample, now)
+        if (feedback !== null) rated.push([sample, feedback])
+    }
+    const mean = rated.reduce((sum, [, feedback]) => sum + feedback, 0) / (rated.length || 1)
+    const sums = new Map<string, number>()
+    const counts = new Map<string, number>()
+    for (const [sample, feedback] of rated) {
+        for (const feature of featuresOf(sample)) {
+            sums.set(feature, (sums.get(feature) || 0) + feedback - mean)
+            counts.set(feature, (counts.get(feature) || 0) + 1)
+        }
+    }
+    const weights = new Map<string, number>()
+    for (const [feature, sum] of sums) {
+        weights.set(feature, sum / (counts.get(feature) + PRIOR))
+    }
+    return { weights }
+}
+
+function escapeRegExp(text: string) {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
+
+/** Whether a lowercase text mentions a keyword as a whole word. */
+export function mentions(text: string, keyword: string): boolean {
+    const needle = keyword.trim().toLowerCase()
+    if (!needle) return false
+    if (CJK.test(needle)) return text.includes(needle)
+    return new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(needle)}(?![\\p{L}\\p{N}])`, "u").test(
+        text
+    )
+}
+
+export function scoreItem(
+    model: RelevanceModel,
+    interests: AIInterest[],
+    item: RelevanceSample
+): { score: number; info: ScoreInfo } {
+    const weight = (feature: string) => model.weights.get(feature) || 0
+    const source = weight(sourceFeature(item.source))
+    let score = source
+    if (item.creator && item.creator.trim()) score += weight(authorFeature(item.creator))
+    const terms = textTerms(item.title).map(term => [term, weight(termFeature(term))] as const)
+    // Long titles should not win on length alone.
+    score += terms.reduce((sum, [, w]) => sum + w, 0) / Math.sqrt(Math.max(terms.length, 1))
+
+    const text = `${item.title}\n${item.snippet || ""}`.toLowerCase()
+    const matched = interests
+        .filter(interest => [interest.name, ...interest.keywords].some(k => mentions(text, k)))
+        .map(interest => interest.name)
+    score += INTEREST_BONUS * matched.length
+
+    return {
+        score: Math.round(score * 1000) / 1000,
+        info: {
+            interests: matched,
+            terms: terms
+                .filter(([, w]) => w >= TERM_SHOWN)
+                .sort((a, b) => b[1] - a[1])
+                .slice(0, MAX_TERMS_SHOWN)
+                .map(([term]) => term),
+            source: Math.round(source * 1000) / 1000,
+        },
+    }
+}
+
+/**
+ * Read the keywords the model suggested for an interest: a JSON array of
+ * strings if the reply has one, else its lines or commas. Deduplicated
+ * without regard to case.
+ */
+export function parseKeywords(reply: string): string[] {
+    let parsed: unknown = null
+    const start = reply.indexOf("[")
+    const end = reply.lastIndexOf("]")
+    if (start >= 0 && end > start) {
+        try {
+            parsed = JSON.parse(reply.slice(start, end + 1))
+        } catch {
+            parsed = null
+        }
+    }
+    const candidates = Array.isArray(parsed)
+        ? parsed.filter(k => typeof k === "string")
+        : reply.split(/[\n,]/).map(k => k.replace(/^\s*([-*•]|\d+\.)\s*/, ""))
+    const seen = new Set<string>()
+    const keywords: string[] = []
+    for (const candidate of candidates as string[]) {
+        const keyword = candidate.trim().replace(/^["']|["']$/g, "")
+        if (!keyword || keyword.length > 40 || seen.has(keyword.toLowerCase())) continue
+        seen.add(keyword.toLowerCase())
+        keywords.push(keyword)
+    }
+    return keywords
+}
@@ -0,0 +1,98 @@
+/**
+ * Scoring of items for the priority sort, in the renderer.
+ *
+ * The model is trained from the items of the last few weeks and kept for an
+ * hour, so a fetch scores its new items without reading the history again.
+ * Scores and their explanations are stored on the items.
+ */
+
+import * as db from "../../db"
+import lf from "lovefield"
+import type { RSSItem } from "../item"
+import { RelevanceModel, scoreItem, trainModel } from "./relevance"
+
+const DAY = 24 * 60 * 60 * 1000
+// Items this recent train the model and are rescored on request.
+const HISTORY_DAYS = 60
+const MAX_HISTORY = 5000
+// How long a trained model is reused.
+const MODEL_TTL = 60 * 60 * 1000
+const BATCH_SIZE = 500
+
+let model: RelevanceModel | null = null
+let trainedAt = 0
+
+async function currentModel(): Promise<RelevanceModel> {
+    const now = Date.now()
+    if (model && now - trainedAt < MODEL_TTL) return model
+    const samples = (await db.itemsDB
+        .select(
+            db.items.source,
+            db.items.title,
+            db.items.creator,
+            db.items.date,
+            db.items.hasRead,
+            db.items.starred,
+            db.items.hidden,
+            db.items.readTime
+        )
+        .from(db.items)
+        .where(db.items.date.gte(new Date(now - HISTORY_DAYS * DAY)))
+        .orderBy(db.items.date, lf.Order.DESC)
+        .limit(MAX_HISTORY)
+        .exec()) as RSSItem[]
+    model = trainModel(samples, now)
+    trainedAt = now
+    return model
+}
+
+/** Score the items and store the scores, on the objects and in the database. */
+export async function scoreItems(items: RSSItem[]): Promise<void> {
+    if (items.length === 0) return
+    const current = await currentModel()
+    const interests = window.settings.getAIConfigs().interests || []
+    const updates = new Array<lf.query.Update>()
+    for (const item of items) {
+        const { score, info } = scoreItem(current, interests, item)
+        item.score = score
+        item.scoreInfo = info
+        updates.push(
+            db.itemsDB
+                .update(db.items)
+                .set(db.items.score, score)
+                .set(db.items.scoreInfo, info)
+                .where(db.items._id.eq(item._id))
+        )
+    }
+    await db.itemsDB.createTransaction().exec(updates)
+}
+
+/**
+ * Retrain the model and rescore the unread items of the last weeks, e.g.
+ * after the interests changed. Resolves to the number of items scored.
+ */
+export async function rescoreItems(
+    signal?: AbortSignal,
+    onProgress?: (done: number) => void
+): Promise<number> {
+    model = null
+    const items = (await db.itemsDB
+        .select()
+        .from(db.items)
+        .where(
+            lf.op.and(
+                db.items.hasRead.eq(false),
+                db.items.date.gte(new Date(Date.now() - HISTORY_DAYS * DAY))
+            )
+        )
+        .exec()) as RSSItem[]
+    let done = 0
+    for (let i = 0; i < items.length; i += BATCH_SIZE) {
+        if (signal?.aborted) throw new DOMException("Aborted", "AbortError")
+        const batch = items.slice(i, i + BATCH_SIZE)
+        await scoreItems(batch)
+        done += batch.length
+        if (onProgress) onProgress(done)
+    }
+    return done
+}
@@ -0,0 +1,96 @@
+/**
+ * Sentences of an article as they are read aloud.
+ *
+ * The webview hands over the raw text of each readable block; sentences
+ * keep their offsets into that text so the webview can highlight the one
+ * being spoken without the text having to survive a round trip.
+ */
+
+/** What is read: the article itself, its AI summary or its translation. */
+export type SpeechTarget = "article" | "summary" | "translation"
+
+/** One sentence to speak: `start`/`end` index the raw text of `block`. */
+export interface SpeechSentence {
+    block: number
+    start: number
+    end: number
+    text: string
+}
+
+export const SPEECH_RATES = [0.75, 1, 1.25, 1.5, 1.75, 2]
+export const DEFAULT_SPEECH_MODEL = "tts-1"
+export const DEFAULT_SPEECH_VOICE = "alloy"
+
+// Longer sentences are cut at a comma or space, so speech endpoints get
+// short requests and the highlight keeps moving.
+const MAX_SENTENCE_CHARS = 300
+// Words after which a period does not end the sentence.
+const ABBREVIATIONS = new Set(["mr", "mrs", "ms", "dr", "prof", "st", "vs", "etc", "no", "fig"])
+
+const CJK_END = /[。！？；…]/
+const LATIN_END = /[.!?]/
+const CLOSING = /["'”’)\]）」』]/
+
+function isSentenceEnd(text: string, i: number): boolean {
+    const char = text[i]
+    if (CJK_END.test(char)) return true
+    if (!LATIN_END.test(char)) return false
+    let next = i + 1
+    while (next < text.length && CLOSING.test(text[next])) next += 1
+    if (next < text.length && !/\s/.test(text[next])) return false
+    // "e.g. the" and "Dr. Smith" go on.
+    const following = text.slice(next).trimStart()
+    if (char === "." && /^[a-z]/.test(following)) return false
+    const word = /([A-Za-z]+)$/.exec(text.slice(0, i))
+    return !(char === "." && word && ABBREVIATIONS.has(word[1].toLowerCase()))
+}
+
+// Where to cut an overlong stretch: after its last comma, else its last space.
+function cutPoint(text: string, start: number, limit: number): number {
+    const part = text.slice(start, limit)
+    const comma = Math.max(part.lastIndexOf(","), part.lastIndexOf("，"), part.lastIndexOf("、"))
+    if (comma > 0) return start + comma + 1
+    const space = part.lastIndexOf(" ")
+    return space > 0 ? start + space + 1 : limit
+}
+
+/** Offsets of the sentences of a text, leading and trailing blanks left out. */
+export function splitSentences(text: string): Array<[number, number]> {
+    const ranges: Array<[number, number]> = []
+    const push = (start: number, end: number) => {
+        while (start < end && /\s/.test(text[start])) start += 1
+        while (end > start && /\s/.test(text[end - 1])) end -= 1
+        if (end > start) ranges.push([start, end])
+    }
+    let start = 0
+    for (let i = 0; i < text.length; i += 1) {
+        if (i - start >= MAX_SENTENCE_CHARS) {
+            const cut = cutPoint(text, start, i)
+            push(start, cut)
+            start = cut
+        }
+        if (isSentenceEnd(text, i)) {
+            let end = i + 1
+            while (end < text.length && (CLOSING.test(text[end]) || text[end] === text[i])) {
+                end += 1
+            }
+            push(start, end)
+            start = end
+            i = end - 1
+        }
+    }
+    push(start, text.length)
+    return ranges
+}
+
+/** The sentences of the blocks, in reading order. */
+export function sentencesOf(blocks: string[]): SpeechSentence[] {
+    const sentences: SpeechSentence[] = []
+    blocks.forEach((raw, block) => {
+        for (const [start, end] of splitSentences(raw)) {
+            const text = raw.slice(start, end).replace(/\s+/g, " ")
+            if (/[\p{L}\p{N}]/u.test(text)) sentences.push({ block, start, end, text })
+        }
+    })
+    return sentences
+}
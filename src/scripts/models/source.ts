@@ -1,7 +1,17 @@
 import intl from "react-intl-universal"
 import * as db from "../db"
 import lf from "lovefield"
-import { fetchFavicon, ActionStatus, AppThunk, parseRSS, MyParserItem } from "../utils"
+import {
+    fetchFavicon,
+    ActionStatus,
+    AppThunk,
+    parseRSS,
+    fetchFeed,
+    discoverFeeds,
+    FeedResponse,
+    FeedValidators,
+    MyParserItem,
+} from "../utils"
 import {
     RSSItem,
     insertItems,
@@ -14,6 +24,10 @@ import {
 import { saveSettings } from "./app"
 import { SourceRule } from "./rule"
 import { fixBrokenGroups, addSourceToGroup } from "./group"
+import { AIOverrides } from "../../schema-types"
+import { SourceHealth, recordFetch } from "./services/feedHealth"
+import type { DiscoveredFeed } from "./services/feedDiscovery"
+import type { ScraperConfig } from "./services/feedScraper"
 
 export const enum SourceOpenTarget {
     Local,
@@ -33,6 +47,16 @@ export interface AddSourceOptions {
     openTarget?: SourceOpenTarget
     fetchFrequency?: number
     hidden?: boolean
+    scraper?: ScraperConfig
+}
+
+/**
+ * The new items of a fetch, with the validators of the response, which are
+ * saved only once the items are. Absent when the feed was not modified.
+ */
+export type FetchedItems = {
+    items: RSSItem[]
+    validators?: FeedValidators
 }
 
 export class RSSSource {
@@ -52,6 +76,14 @@ export class RSSSource {
     // Used as the cover fallback for audio items that have no per-episode
     // thumbnail. Distinct from iconurl, which is a small favicon.
     image?: string
+    ai?: AIOverrides
+    // Validators of the last full response, for conditional fetches.
+    etag?: string
+    lastModified?: string
+    health?: SourceHealth
+    // Selectors reading the items of a page without a feed; url is then the
+    // page's address.
+    scraper?: ScraperConfig
 
     constructor(url: string, name: string = null) {
         this.url = url
@@ -64,7 +96,7 @@ export class RSSSource {
     }
 
     static async fetchMetaData(source: RSSSource) {
-        const feed = await parseRSS(source.url)
+        const feed = await parseRSS(source.url, source.scraper)
         if (!source.name) {
             if (feed.title) source.name = feed.title.trim()
             source.name = source.name || intl.get("sources.untitled")
@@ -81,6 +113,9 @@ export class RSSSource {
 
     private static async checkItem(source: RSSSource, item: MyParserItem): Promise<RSSItem> {
         const i = new RSSItem(item, source)
+        // Scraped items without a date are dated when fetched, so they are
+        // told apart by their title and link instead.
+        const undated = source.scraper && !item.isoDate
         const items = (await db.itemsDB
             .select()
             .from(db.items)
@@ -88,7 +123,7 @@ export class RSSSource {
                 lf.op.and(
                     db.items.source.eq(i.source),
                     db.items.title.eq(i.title),
-                    db.items.date.eq(i.date)
+                    undated ? db.items.link.eq(i.link) : db.items.date.eq(i.date)
                 )
             )
             .limit(1)
@@ -118,8 +153,36 @@ export class RSSSource {
         })
     }
 
-    static async fetchItems(source: RSSSource) {
-        const feed = await parseRSS(source.url)
+    /**
+     * Fetches the items of a source that are not in the database yet, and
+     * records the fetch into the source's health. A feed not modified since
+     * the last fetch yields no items.
+     */
+    static async fetchItems(source: RSSSource): Promise<FetchedItems> {
+        let response: FeedResponse
+        try {
+            response = await fetchFeed(
+                source.url,
+                { etag: source.etag, lastModified: source.lastModified },
+                source.scraper
+            )
+        } catch (err) {
+            source.health = recordFetch(
+                source.health,
+                { status: 0, error: String(err.message || err) },
+                Date.now()
+            )
+            throw err
+        }
+        const { status, statusText, latency, retryAfter, feed } = response
+        const error = feed || status === 304 ? undefined : status + " " + statusText
+        source.health = recordFetch(
+            source.health,
+            { status, latency, error, retryAfter },
+            Date.now()
+        )
+        if (status === 304) return { items: [] }
+        if (!feed) throw new Error(error)
         // Backfill the feed-level image for sources that predate the image
         // column (e.g. upgraded installs) so audio items can use the podcast
         // logo as a cover fallback on subsequent fetches.
@@ -129,7 +192,8 @@ export class RSSSource {
                 source.image = feedItunes.image
             }
         }
-        return await this.checkItems(source, feed.items)
+        const items = await this.checkItems(source, feed.items)
+        return { items, validators: response.validators }
     }
 }
 
@@ -301,6 +365,22 @@ export function insertSource(source: RSSSource): AppThunk<Promise<RSSSource>> {
     }
 }
 
+/**
+ * RSSSource.fetchMetaData, except that the address of a website rather than
+ * of a feed is replaced with the first feed found on it.
+ */
+async function fetchOrDiscoverMetaData(source: RSSSource) {
+    try {
+        return await RSSSource.fetchMetaData(source)
+    } catch (err) {
+        if (source.scraper) throw err
+        const feeds = await discoverFeeds(source.url).catch((): DiscoveredFeed[] => [])
+        if (feeds.length === 0 || feeds[0].url === source.url) throw err
+        source.url = feeds[0].url
+        return await RSSSource.fetchMetaData(source)
+    }
+}
+
 export function addSource(
     url: string,
     name: string = null,
@@ -322,9 +402,10 @@ export function addSource(
                 if (options.hidden !== undefined && options.hidden !== null) {
                     source.hidden = options.hidden
                 }
+                if (options.scraper) source.scraper = options.scraper
             }
             try {
-                const feed = await RSSSource.fetchMetaData(source)
+                const feed = await fetchOrDiscoverMetaData(source)
                 const inserted = await dispatch(insertSource(source))
                 inserted.unreadCount = feed.items.length
                 dispatch(addSourceSuccess(inserted, batch))
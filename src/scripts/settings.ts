@@ -146,6 +146,8 @@ export async function importAll() {
         const iRows = configs.lovefield.items.map(i => {
             i.date = new Date(i.date)
             i.fetchedDate = new Date(i.fetchedDate)
+            // Backups from before relevance scores have none.
+            if (i.score == null) i.score = 0
             return db.items.createRow(i)
         })
         await db.sourcesDB.insert().into(db.sources).values(sRows).exec()
@@ -5,6 +5,14 @@ import { RootState } from "./reducer"
 import Parser from "rss-parser"
 import Url from "url"
 import { SearchEngines } from "../schema-types"
+import { looksLikeJSONFeed, parseJSONFeed } from "./models/services/jsonFeed"
+import {
+    DiscoveredFeed,
+    commonFeedURLs,
+    feedLinks,
+    looksLikeHTML,
+} from "./models/services/feedDiscovery"
+import { ScraperConfig, scrapeFeed } from "./models/services/feedScraper"
 
 export enum ActionStatus {
     Request,
@@ -29,6 +37,9 @@ const rssParser = new Parser({
             // raw node available and makes the type explicit for downstream
             // consumers that prefer the attribute form.
             ["itunes:image", "itunesImage", { keepArray: true }],
+            // FeedBurner rewrites links to its own redirector and keeps the
+            // publisher's URL here.
+            ["feedburner:origLink", "origLink"],
         ],
     },
 })
@@ -75,26 +86,148 @@ export async function decodeFetchResponse(response: Response, isHTML = false) {
     return content
 }
 
-export async function parseRSS(url: string) {
+/**
+ * Feed text as rss-parser output; JSON Feeds are told apart from XML, and
+ * the pages of scraper sources are read with their selectors.
+ */
+async function parseFeed(
+    text: string,
+    contentType: string | null,
+    url: string,
+    scraper?: ScraperConfig
+) {
+    if (scraper) return scrapePage(text, url, scraper)
+    if (looksLikeJSONFeed(contentType, text)) return parseJSONFeed(text)
+    return await rssParser.parseString(text)
+}
+
+/** Validators of a feed's last response, sent back to fetch it conditionally. */
+export type FeedValidators = {
+    etag?: string
+    lastModified?: string
+}
+
+export type FeedResponse = {
+    status: number
+    statusText: string
+    // Milliseconds until the response arrived.
+    latency: number
+    // The parsed feed of a successful response; absent for 304 and errors.
+    feed?: Parser.Output<MyParserItem>
+    validators: FeedValidators
+    retryAfter?: string
+}
+
+/**
+ * Fetches a feed, conditionally when `validators` are given, or the page of a
+ * scraper source when `scraper` is. Unlike parseRSS, HTTP errors and 304 Not
+ * Modified are returned rather than thrown; network and parse errors are
+ * still thrown.
+ */
+export async function fetchFeed(
+    url: string,
+    validators: FeedValidators = {},
+    scraper?: ScraperConfig
+): Promise<FeedResponse> {
+    // Conditional headers set here make the browser bypass its own cache, so
+    // a 304 from the server reaches us as such.
+    const headers: Record<string, string> = {}
+    if (validators.etag) headers["If-None-Match"] = validators.etag
+    if (validators.lastModified) headers["If-Modified-Since"] = validators.lastModified
+    const start = Date.now()
     let result: Response
     try {
-        result = await fetch(url, { credentials: "omit" })
+        result = await fetch(url, { credentials: "omit", headers })
     } catch {
         throw new Error(intl.get("log.networkError"))
     }
-    if (result && result.ok) {
+    const response: FeedResponse = {
+        status: result.status,
+        statusText: result.statusText,
+        latency: Date.now() - start,
+        validators: {
+            etag: result.headers.get("etag") || undefined,
+            lastModified: result.headers.get("last-modified") || undefined,
+        },
+        retryAfter: result.headers.get("retry-after") || undefined,
+    }
+    if (result.ok) {
         try {
-            return await rssParser.parseString(await decodeFetchResponse(result))
+            response.feed = await parseFeed(
+                await decodeFetchResponse(result, Boolean(scraper)),
+                result.headers.get("content-type"),
+                result.url || url,
+                scraper
+            )
         } catch {
             throw new Error(intl.get("log.parseError"))
         }
-    } else {
-        throw new Error(result.status + " " + result.statusText)
     }
+    return response
+}
+
+export async function parseRSS(url: string, scraper?: ScraperConfig) {
+    const response = await fetchFeed(url, {}, scraper)
+    if (response.feed) return response.feed
+    throw new Error(response.status + " " + response.statusText)
 }
 
 export const domParser = new DOMParser()
 
+/** A web page's HTML and address after redirects, for previewing scrapers. */
+export async function fetchPage(url: string) {
+    let result: Response
+    try {
+        result = await fetch(url, { credentials: "omit" })
+    } catch {
+        throw new Error(intl.get("log.networkError"))
+    }
+    if (!result.ok) throw new Error(result.status + " " + result.statusText)
+    return { html: await decodeFetchResponse(result, true), url: result.url || url }
+}
+
+/** The items the selectors of a scraper read from a page's HTML. */
+export function scrapePage(html: string, url: string, scraper: ScraperConfig) {
+    return scrapeFeed(domParser.parseFromString(html, "text/html"), url, scraper)
+}
+
+/**
+ * The feeds at `url`: the feed itself, or for a web page the feeds it links
+ * to, or failing that the ones found at common feed paths of its site.
+ */
+export async function discoverFeeds(url: string): Promise<DiscoveredFeed[]> {
+    let result: Response
+    try {
+        result = await fetch(url, { credentials: "omit" })
+    } catch {
+        throw new Error(intl.get("log.networkError"))
+    }
+    if (!result.ok) throw new Error(result.status + " " + result.statusText)
+    const contentType = result.headers.get("content-type")
+    const text = await decodeFetchResponse(result, /\bhtml\b/i.test(contentType || ""))
+    if (!looksLikeHTML(contentType, text)) {
+        try {
+            const feed = await parseFeed(text, contentType, url)
+            return [{ url, title: feed.title?.trim() || undefined }]
+        } catch {
+            throw new Error(intl.get("log.parseError"))
+        }
+    }
+    const pageUrl = result.url || url
+    const dom = domParser.parseFromString(text, "text/html")
+    const linked = feedLinks(dom.querySelectorAll("link[rel][href]"), pageUrl)
+    if (linked.length > 0) return linked
+    const candidates = commonFeedURLs(pageUrl)
+    const probed = await Promise.allSettled(candidates.map(candidate => parseRSS(candidate)))
+    const feeds: DiscoveredFeed[] = []
+    probed.forEach((r, i) => {
+        if (r.status === "fulfilled") {
+            feeds.push({ url: candidates[i], title: r.value.title?.trim() || undefined })
+        }
+    })
+    return feeds
+}
+
 export async function fetchFavicon(url: string) {
     try {
         const baseUrl = url.split("/").slice(0, 3).join("/")